@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getScheduler } from '@/lib/scheduler';
+import { isLLMConfigured } from '@/lib/llm';
+import { purgeExpiredDeals } from '@/lib/trash';
 import { format } from 'date-fns';
 
 // Force dynamic rendering to prevent caching
@@ -42,7 +44,7 @@ export async function GET(request: NextRequest) {
     // Check environment variables
     const hasSecret = !!process.env.CRON_SECRET;
     const hasPerplexity = !!process.env.PERPLEXITY_API_KEY;
-    const hasOpenAI = !!process.env.OPENAI_API_KEY;
+    const hasOpenAI = isLLMConfigured();
     const hasSupabase = !!process.env.NEXT_PUBLIC_SUPABASE_URL;
     const isVercel = !!process.env.VERCEL;
     const vercelUrl = process.env.VERCEL_URL;
@@ -121,6 +123,8 @@ export async function GET(request: NextRequest) {
     // Get scheduler and run the daily news collection
     const scheduler = getScheduler();
     await scheduler.fetchAndProcessDeals(targetDate);
+    const digest = await scheduler.sendDailyDigest(targetDate);
+    const purged = await purgeExpiredDeals();
     
     const endTime = new Date();
     const durationMs = endTime.getTime() - startTime.getTime();
@@ -140,6 +144,8 @@ export async function GET(request: NextRequest) {
         durationMinutes: durationMin
       },
       targetDate,
+      digest,
+      purged,
       userAgent,
       environment: {
         isVercel,
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDedup } from '@/lib/dedup';
+
+// Force dynamic rendering to prevent caching
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('🧠 Duplicate Cleanup: Starting...');
+    console.log('🕐 Cleanup triggered at:', new Date().toISOString());
+
+    if (process.env.CRON_SECRET && request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}` && !request.headers.get('x-vercel-cron')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // The last 3 days covers everything the day's runs could have duplicated
+    const result = await runDedup({ actor: 'cron:duplicate-cleanup', days: 3 });
+    console.log(`✅ Duplicate cleanup completed: ${result.merged} merged`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Duplicate cleanup completed',
+      ...result,
+      timestamp: new Date().toISOString(),
+      trigger: 'cron-duplicate-cleanup'
+    });
+
+  } catch (error) {
+    console.error('❌ Duplicate cleanup error:', error);
+    return NextResponse.json({
+      error: 'Duplicate cleanup failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
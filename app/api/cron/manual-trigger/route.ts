@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getScheduler } from '@/lib/scheduler';
+import { isLLMConfigured } from '@/lib/llm';
 import { format, subDays } from 'date-fns';
 
 // Force dynamic rendering to prevent caching
@@ -14,7 +15,7 @@ export async function POST(request: NextRequest) {
     // Check environment variables
     const hasSecret = !!process.env.CRON_SECRET;
     const hasPerplexity = !!process.env.PERPLEXITY_API_KEY;
-    const hasOpenAI = !!process.env.OPENAI_API_KEY;
+    const hasOpenAI = isLLMConfigured();
     const hasSupabase = !!process.env.NEXT_PUBLIC_SUPABASE_URL;
     
     console.log('Environment check:', { hasSecret, hasPerplexity, hasOpenAI, hasSupabase });
@@ -29,10 +30,10 @@ export async function POST(request: NextRequest) {
     }
 
     if (!hasOpenAI) {
-      console.log('❌ Missing OPENAI_API_KEY');
+      console.log('❌ No LLM provider configured');
       return NextResponse.json({ 
         success: false, 
-        error: 'Missing OPENAI_API_KEY environment variable' 
+        error: 'Missing OPENAI_API_KEY environment variable (or set LLM_PROVIDER)' 
       }, { status: 500 });
     }
 
@@ -103,7 +104,7 @@ export async function POST(request: NextRequest) {
 export async function GET() {
   const hasSecret = !!process.env.CRON_SECRET;
   const hasPerplexity = !!process.env.PERPLEXITY_API_KEY;
-  const hasOpenAI = !!process.env.OPENAI_API_KEY;
+  const hasOpenAI = isLLMConfigured();
   const hasSupabase = !!process.env.NEXT_PUBLIC_SUPABASE_URL;
   
   return NextResponse.json({
@@ -35,7 +35,7 @@ export async function POST(request: NextRequest) {
     // Delete all records
     let deletedCount = 0;
     for (const deal of allDeals) {
-      await db.deleteDeal(deal.id!);
+      await db.deleteDeal(deal.id!, { actor: 'route:database/clear', reason: 'Clear database' });
       deletedCount++;
       if (deletedCount % 10 === 0) {
         console.log(`🗑️ Deleted ${deletedCount}/${totalRecords} records...`);
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { requireEditor } from '@/lib/editors';
+import { revertDealChange } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Every recorded change to a deal, newest first. Works for deleted deals too.
+ * Editors only: entries hold whole rows of drafts and rejected deals, and
+ * editors' names.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { response } = requireEditor(request);
+    if (response) return response;
+
+    const dealId = parseInt(params.id, 10);
+    if (!(dealId > 0)) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      );
+    }
+
+    const history = await getDatabase().getDealHistory(dealId);
+    return NextResponse.json({ deal_id: dealId, history });
+  } catch (error) {
+    console.error('Error fetching deal history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deal history' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Revert one change. Body: { entryId, force? }. Returns 409 with the
+ * conflicting columns when the deal has changed since, unless force is set.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { editor, response } = requireEditor(request);
+    if (response) return response;
+
+    const dealId = parseInt(params.id, 10);
+    const body = await request.json().catch(() => ({}));
+    const entryId = parseInt(body.entryId, 10);
+
+    if (!(entryId > 0)) {
+      return NextResponse.json(
+        { error: 'entryId is required' },
+        { status: 400 }
+      );
+    }
+
+    const entry = await getDatabase().getAuditEntry(entryId);
+    if (!entry || entry.deal_id !== dealId) {
+      return NextResponse.json(
+        { error: 'Change not found for this deal' },
+        { status: 404 }
+      );
+    }
+
+    const { deal, conflicts } = await revertDealChange(entry, editor!, body.force === true);
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        { error: 'The deal has changed since; pass force to revert anyway', conflicts },
+        { status: 409 }
+      );
+    }
+
+    console.log(`↩️ ${editor} reverted change ${entryId} on deal ${dealId}`);
+    return NextResponse.json({ success: true, deal });
+  } catch (error) {
+    console.error('Error reverting deal change:', error);
+    return NextResponse.json(
+      { error: 'Failed to revert deal change' },
+      { status: 500 }
+    );
+  }
+}
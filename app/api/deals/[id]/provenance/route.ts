@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { isPublicDeal } from '@/lib/deal-detail';
+import { getRequestEditor } from '@/lib/editors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Where a deal came from and how far to trust it: source, query, raw section,
+ * extractor, per-field confidence and the review score. provenance is null
+ * for deals saved before it was recorded.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const dealId = parseInt(params.id, 10);
+    const db = getDatabase();
+    const deal = dealId > 0 ? await db.getDealById(dealId) : null;
+
+    // Deals that are not public look missing to everyone but editors
+    if (!deal || (!isPublicDeal(deal) && !getRequestEditor(request))) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      );
+    }
+
+    const provenance = await db.getDealProvenance(dealId);
+
+    return NextResponse.json({
+      deal_id: dealId,
+      origin: deal.provenance || 'ingest',
+      submitted_by: deal.submitted_by || null,
+      status: deal.status || 'published',
+      confidence: typeof deal.confidence === 'number' ? deal.confidence : null,
+      review_reasons: deal.review_reasons || [],
+      reviewed_by: deal.reviewed_by || null,
+      reviewed_at: deal.reviewed_at || null,
+      provenance
+    });
+  } catch (error) {
+    console.error('Error fetching deal provenance:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deal provenance' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { isPublicDeal } from '@/lib/deal-detail';
+import { getRequestEditor } from '@/lib/editors';
+import { DEFAULT_RELATED_LIMIT, MAX_RELATED_LIMIT, findRelatedDeals } from '@/lib/related-deals';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Deals related to this one - earlier financings for the same borrower, other
+ * deals by the same lender or sponsor, funds of the same manager, similar
+ * coverage - each with its reasons. Query: limit.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const dealId = parseInt(params.id, 10);
+    const deal = dealId > 0 ? await getDatabase().getDealById(dealId) : null;
+
+    // Deals that are not public look missing to everyone but editors
+    if (!deal || (!isPublicDeal(deal) && !getRequestEditor(request))) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_RELATED_LIMIT, 1), MAX_RELATED_LIMIT);
+    const related = await findRelatedDeals(deal, limit);
+
+    return NextResponse.json({ deal_id: dealId, related });
+  } catch (error) {
+    console.error('Error fetching related deals:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch related deals' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { requireEditor } from '@/lib/editors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Bring a soft-deleted deal back out of the trash
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { editor, response } = requireEditor(request);
+    if (response) return response;
+
+    const dealId = parseInt(params.id, 10);
+    const db = getDatabase();
+    const existing = dealId > 0 ? await db.getDealById(dealId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!existing.deleted_at) {
+      return NextResponse.json(
+        { error: 'Deal is not deleted' },
+        { status: 409 }
+      );
+    }
+
+    const [deal] = await db.restoreDeals([dealId], { actor: `editor:${editor}`, reason: 'Restored from trash' });
+
+    console.log(`♻️ ${editor} restored deal ${dealId}`);
+    return NextResponse.json({ success: true, deal });
+  } catch (error) {
+    console.error('Error restoring deal:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore deal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { parseDealSubmission } from '@/lib/deal-submission';
+import { getRequestEditor, requireEditor } from '@/lib/editors';
+import { isPublicDeal } from '@/lib/deal-detail';
+import { hasDealTerms } from '@/lib/deal-terms';
+import { indexDeal } from '@/lib/embeddings';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * A deal with its structured terms
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const dealId = parseInt(params.id, 10);
+    const db = getDatabase();
+    const deal = dealId > 0 ? await db.getDealById(dealId) : null;
+
+    // Deals that are not public look missing to everyone but editors
+    if (!deal || (!isPublicDeal(deal) && !getRequestEditor(request))) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      );
+    }
+
+    const terms = await db.getDealTerms(dealId);
+    return NextResponse.json({ deal, terms });
+  } catch (error) {
+    console.error('Error fetching deal:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deal' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Correct a deal. Body: any of the fields accepted by POST /api/deals/submit
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { editor, response } = requireEditor(request);
+    if (response) return response;
+
+    const dealId = parseInt(params.id, 10);
+    const db = getDatabase();
+    const existing = dealId > 0 ? await db.getDealById(dealId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { deal, terms, error } = parseDealSubmission(body, true);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const updated = Object.keys(deal).length > 0 ? await db.updateDeal(dealId, deal, { actor: `editor:${editor}`, reason: 'Correction' }) : existing;
+    if (terms && hasDealTerms(terms)) {
+      await db.saveDealTerms({ deal_id: dealId, ...terms });
+    }
+    if (updated && (deal.title !== undefined || deal.summary !== undefined)) {
+      await indexDeal(dealId, updated);
+    }
+
+    console.log(`✍️ ${editor} corrected deal ${dealId}`);
+    return NextResponse.json({ success: true, deal: updated, terms: terms || await db.getDealTerms(dealId) });
+  } catch (error) {
+    console.error('Error updating deal:', error);
+    return NextResponse.json(
+      { error: 'Failed to update deal' },
+      { status: 500 }
+    );
+  }
+}
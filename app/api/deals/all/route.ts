@@ -4,7 +4,7 @@ import { getDatabase } from '@/lib/database';
 export async function GET() {
   try {
     const db = getDatabase();
-    const deals = await db.getAllDeals();
+    const deals = await db.getAllDeals('published');
     
     // Add debug logging
     console.log(`🔄 API: Fetching ${deals.length} deals at ${new Date().toISOString()}`);
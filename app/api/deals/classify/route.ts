@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScheduler } from '@/lib/scheduler';
+
+export const dynamic = 'force-dynamic';
+
+// Keep a single request well inside the serverless time limit
+const MAX_BATCH = 500;
+
+/**
+ * Backfill stored region / countries / deal type for existing deals.
+ * Body: { afterId?, limit?, force?, useModel? } - call again with the returned
+ * lastId until done is true.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const limit = Math.min(Math.max(parseInt(body.limit, 10) || 100, 1), MAX_BATCH);
+
+    const result = await getScheduler().backfillDealClassifications({
+      afterId: parseInt(body.afterId, 10) || 0,
+      limit,
+      force: body.force === true,
+      useModel: body.useModel === true
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Classified ${result.updated} of ${result.processed} deals`,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error backfilling deal classification:', error);
+    return NextResponse.json(
+      { error: 'Failed to classify deals' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildDealDraft } from '@/lib/deal-submission';
+import { requireEditor } from '@/lib/editors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Draft a deal from a pasted article URL and/or text for an editor to review.
+ * Body: { url?, text? }. Nothing is saved.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = requireEditor(request);
+    if (response) return response;
+
+    const body = await request.json().catch(() => ({}));
+    const url = typeof body.url === 'string' ? body.url.trim() : '';
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+
+    if (!url && text.length < 20) {
+      return NextResponse.json(
+        { error: 'Paste a URL or at least a sentence of text' },
+        { status: 400 }
+      );
+    }
+    if (url && !/^https?:\/\/\S+$/i.test(url)) {
+      return NextResponse.json(
+        { error: 'url must be an http(s) URL' },
+        { status: 400 }
+      );
+    }
+
+    let draft;
+    try {
+      draft = await buildDealDraft({ url, text });
+    } catch (fetchError) {
+      console.error('Error fetching article for draft:', fetchError);
+      return NextResponse.json(
+        { error: `Could not read ${url} - paste the article text instead` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ draft });
+  } catch (error) {
+    console.error('Error drafting deal:', error);
+    return NextResponse.json(
+      { error: 'Failed to draft deal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDealsPage } from '@/lib/deal-listing';
+import type { DealSort } from '@/lib/supabase';
+
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json({ error: 'from and to must be formatted as YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const minAmountParam = searchParams.get('minAmount');
+    const minAmount = minAmountParam ? Number(minAmountParam) : null;
+    if (minAmount !== null && (!isFinite(minAmount) || minAmount < 0)) {
+      return NextResponse.json({ error: 'minAmount must be a positive number' }, { status: 400 });
+    }
+
+    const page = await listDealsPage({
+      sort: (searchParams.get('sort') || 'date') as DealSort,
+      cursor: searchParams.get('cursor'),
+      limit: parseInt(searchParams.get('limit') || '', 10) || undefined,
+      from,
+      to,
+      category: searchParams.get('category'),
+      region: searchParams.get('region'),
+      dealType: searchParams.get('dealType'),
+      domain: searchParams.get('domain'),
+      minAmount
+    });
+
+    return NextResponse.json(page, {
+      headers: {
+        'Cache-Control': 'no-store, max-age=0'
+      }
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    console.error('Error listing deals:', error);
+    return NextResponse.json(
+      { error: 'Failed to list deals' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,10 @@ export async function GET(request: NextRequest) {
     const date = searchParams.get('date');
     const dateRange = searchParams.get('dateRange');
     const category = searchParams.get('category');
+    const filters = {
+      region: searchParams.get('region'),
+      dealType: searchParams.get('dealType')
+    };
     
     const db = getDatabase();
     
@@ -38,16 +42,20 @@ export async function GET(request: NextRequest) {
           endDate = format(today, 'yyyy-MM-dd');
       }
       
-      const deals = await db.getDealsByDateRange(startDate, endDate);
+      const deals = await db.getDealsByDateRange(startDate, endDate, filters);
       return NextResponse.json({ deals, startDate, endDate });
     } else if (category) {
       // Get deals by category
-      const deals = await db.getDealsByCategory(category, 50); // Increased limit
+      const deals = await db.getDealsByCategory(category, 50, filters); // Increased limit
       return NextResponse.json({ deals, category });
     } else if (date) {
       // Get deals for specific date
-      const deals = await db.getDealsByDate(date);
+      const deals = await db.getDealsByDate(date, filters);
       return NextResponse.json({ deals, date });
+    } else if (filters.region || filters.dealType) {
+      // Get the latest deals for a region and/or deal type
+      const deals = await db.listDeals({ ...filters, limit: 100 });
+      return NextResponse.json({ deals, ...filters });
     } else {
       // Get all available dates
       const dates = await db.getAvailableDates();
@@ -69,7 +77,7 @@ export async function POST(request: NextRequest) {
     
     if (action === 'cleanup') {
       const db = getDatabase();
-      const deletedCount = await db.cleanupInvalidArticles();
+      const deletedCount = await db.cleanupInvalidArticles({ actor: 'route:deals', reason: 'Placeholder content cleanup' });
       
       return NextResponse.json({ 
         success: true, 
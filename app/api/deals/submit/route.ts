@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { DealSubmission, parseDealSubmission, saveManualDeal } from '@/lib/deal-submission';
+import { requireEditor } from '@/lib/editors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Save a deal written or reviewed by an editor. Body: { date, title, summary,
+ * content?, source, source_url?, category?, deal_type?, region?, countries?,
+ * terms?, status?, force? }. status 'draft' keeps the deal out of the public
+ * listing. Likely duplicates are returned with 409 unless force is set.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { editor, response } = requireEditor(request);
+    if (response) return response;
+
+    const body = await request.json().catch(() => ({}));
+    const { deal, terms, error } = parseDealSubmission(body);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (!body.force) {
+      const duplicates = await getDatabase().findDuplicateDeals(deal.title!, deal.date!);
+      if (duplicates.length > 0) {
+        return NextResponse.json(
+          { error: 'A similar deal already exists for this date', duplicates },
+          { status: 409 }
+        );
+      }
+    }
+
+    const status = body.status === 'draft' ? 'draft' : 'published';
+    const id = await saveManualDeal(deal as DealSubmission, terms, editor!, status);
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error('Error submitting deal:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit deal' },
+      { status: 500 }
+    );
+  }
+}
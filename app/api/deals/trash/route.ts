@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { requireEditor } from '@/lib/editors';
+import { getTrashRetentionDays, purgeDate } from '@/lib/trash';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Soft-deleted deals, newest deletion first, with the date each will be purged
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = requireEditor(request);
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100', 10) || 100, 1), 500);
+
+    const deals = await getDatabase().getDeletedDeals(limit);
+
+    return NextResponse.json({
+      retention_days: getTrashRetentionDays(),
+      deals: deals.map(deal => ({ ...deal, purge_at: purgeDate(deal.deleted_at!) }))
+    });
+  } catch (error) {
+    console.error('Error fetching deleted deals:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deleted deals' },
+      { status: 500 }
+    );
+  }
+}
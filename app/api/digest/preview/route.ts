@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { buildDailyDigest } from '@/lib/digest';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Render the daily digest without sending it.
+ * ?date=YYYY-MM-DD (default today) &format=html|markdown|json (default html)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date') || format(new Date(), 'yyyy-MM-dd');
+    const outputFormat = searchParams.get('format') || 'html';
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { error: 'date must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    const digest = await buildDailyDigest(date);
+
+    if (outputFormat === 'json') {
+      return NextResponse.json(digest);
+    }
+
+    if (outputFormat === 'markdown') {
+      return new NextResponse(digest.markdown, {
+        headers: { 'Content-Type': 'text/markdown; charset=utf-8' }
+      });
+    }
+
+    return new NextResponse(digest.html, {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    });
+  } catch (error) {
+    console.error('Error building digest preview:', error);
+    return NextResponse.json(
+      { error: 'Failed to build digest preview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { sendDailyDigest } from '@/lib/digest';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Send the digest for a date through the configured transports. Body: { date? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.CRON_SECRET && request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const date = body.date || format(new Date(), 'yyyy-MM-dd');
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { error: 'date must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    const result = await sendDailyDigest(date);
+    return NextResponse.json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    console.error('Error sending digest:', error);
+    return NextResponse.json(
+      { error: 'Failed to send digest' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { DedupEngine } from '@/lib/dedup';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Run two deals through the dedup stages. Query: a, b (deal ids).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (process.env.CRON_SECRET && request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const a = parseInt(searchParams.get('a') || '', 10);
+    const b = parseInt(searchParams.get('b') || '', 10);
+
+    if (!(a > 0) || !(b > 0) || a === b) {
+      return NextResponse.json(
+        { error: 'a and b must be two different deal ids' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+    const [first, second] = await Promise.all([db.getDealById(a), db.getDealById(b)]);
+
+    if (!first || !second) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      );
+    }
+
+    const verdict = await new DedupEngine().compareDeals(first, second);
+    return NextResponse.json({ a: first.id, b: second.id, verdict });
+  } catch (error) {
+    console.error('Error comparing deals:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare deals' },
+      { status: 500 }
+    );
+  }
+}
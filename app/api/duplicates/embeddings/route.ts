@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backfillEmbeddings } from '@/lib/embeddings';
+
+export const dynamic = 'force-dynamic';
+
+// Keep a single request well inside the serverless time limit
+const MAX_BATCH = 500;
+
+/**
+ * Backfill embeddings for deals saved before the index existed, or after a
+ * change of embedding model. Body: { afterId?, limit? } - call again with the
+ * returned lastId until done is true.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.CRON_SECRET && request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await backfillEmbeddings({
+      afterId: parseInt(body.afterId, 10) || 0,
+      limit: Math.min(Math.max(parseInt(body.limit, 10) || 100, 1), MAX_BATCH)
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Embedded ${result.embedded} of ${result.processed} deals`,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error backfilling embeddings:', error);
+    return NextResponse.json(
+      { error: 'Failed to backfill embeddings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDedup } from '@/lib/dedup';
+
+export const dynamic = 'force-dynamic';
+
+const authorized = (request: NextRequest): boolean =>
+  !process.env.CRON_SECRET || request.headers.get('authorization') === `Bearer ${process.env.CRON_SECRET}`;
+
+const positiveInt = (value: unknown): number | undefined => {
+  const parsed = parseInt(String(value), 10);
+  return parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Dry run: the duplicate clusters the engine would merge, with the stage that
+ * settled each pair. Query: days, limit, archive=true for every deal.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!authorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const result = await runDedup({
+      actor: 'route:duplicates',
+      days: positiveInt(searchParams.get('days')),
+      limit: positiveInt(searchParams.get('limit')),
+      archive: searchParams.get('archive') === 'true',
+      dryRun: true
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error previewing duplicates:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview duplicates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Merge duplicate clusters into their canonical deals. Body: { days?, limit?, archive?, dryRun? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!authorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await runDedup({
+      actor: 'route:duplicates',
+      days: positiveInt(body.days),
+      limit: positiveInt(body.limit),
+      archive: body.archive === true,
+      dryRun: body.dryRun === true
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error merging duplicates:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge duplicates' },
+      { status: 500 }
+    );
+  }
+}
@@ -27,13 +27,11 @@ export async function POST(request: NextRequest) {
         
         if (enhancement.title && enhancement.summary) {
           // Update the deal in database
-          const updatedDeal = {
-            ...deal,
-            title: enhancement.title,
-            summary: enhancement.summary
-          };
-          
-          await db.saveDeal(updatedDeal);
+          await db.updateDeal(
+            deal.id!,
+            { title: enhancement.title, summary: enhancement.summary },
+            { actor: 'route:enhance-articles', reason: 'Title and summary rewritten by the model' }
+          );
           enhanced++;
           console.log(`✅ Enhanced: ${enhancement.title}`);
         } else {
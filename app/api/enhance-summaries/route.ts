@@ -84,12 +84,14 @@ Please rewrite this to be exactly 2-3 informative sentences with bold formatting
               continue;
             }
             
-            // For now, just log the enhancement (we'll add proper update method later)
+            await db.updateDeal(
+              article.id,
+              { summary: enhancedSummary },
+              { actor: 'route:enhance-summaries', reason: 'Summary rewritten by the model' }
+            );
             console.log(`✅ Enhanced summary for article ${article.id}: "${enhancedSummary.substring(0, 100)}..."`);
             enhanced++;
-            
-            // TODO: Add proper database update method for summaries
-            
+
           } catch (updateError) {
             console.error(`❌ Failed to update article ${article.id}:`, updateError);
             errors++;
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildEntityProfile, findEntity } from '@/lib/entity-profile';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const entity = await findEntity(params.id);
+
+    if (!entity) {
+      return NextResponse.json(
+        { error: 'Entity not found' },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const counterpartyLimit = parseInt(searchParams.get('counterparties') || '10', 10);
+
+    const profile = await buildEntityProfile(entity, counterpartyLimit);
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error('Error fetching entity profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch entity profile' },
+      { status: 500 }
+    );
+  }
+}
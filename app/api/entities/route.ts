@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { getEntityResolver, normalizeEntityName, slugifyEntityName } from '@/lib/entities';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q');
+    const type = searchParams.get('type');
+
+    const resolver = getEntityResolver();
+
+    if (query) {
+      // Exact alias/ticker hit first, then a looser substring match over names and aliases
+      const exact = await resolver.resolve(query);
+      const needle = normalizeEntityName(query);
+      const all = await resolver.getAll();
+      const matches = all.filter(entity =>
+        entity.id !== exact?.id &&
+        [entity.canonical_name, ...entity.aliases].some(name => normalizeEntityName(name).includes(needle))
+      );
+
+      return NextResponse.json({
+        query,
+        match: exact,
+        entities: exact ? [exact, ...matches] : matches
+      });
+    }
+
+    const entities = (await resolver.getAll()).filter(entity => !type || entity.type === type);
+    return NextResponse.json({ entities, total: entities.length });
+  } catch (error) {
+    console.error('Error fetching entities:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch entities' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    const db = getDatabase();
+    const resolver = getEntityResolver();
+
+    if (action === 'create') {
+      const { name, type = 'other', aliases = [], tickers = [], parentId } = body;
+      if (!name) {
+        return NextResponse.json({ error: 'name is required' }, { status: 400 });
+      }
+
+      const existing = await resolver.resolve(name);
+      if (existing) {
+        return NextResponse.json({ error: 'Entity already exists', entity: existing }, { status: 409 });
+      }
+
+      const entity = await db.saveEntity({
+        slug: slugifyEntityName(name),
+        canonical_name: name,
+        type,
+        aliases,
+        tickers,
+        parent_id: parentId || null
+      });
+      resolver.refresh();
+
+      return NextResponse.json({ success: true, entity });
+    } else if (action === 'add_alias') {
+      const { entityId, aliases = [], tickers = [] } = body;
+      const entity = entityId ? await db.getEntityById(entityId) : null;
+      if (!entity) {
+        return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+      }
+
+      const updated = await db.updateEntity(entity.id!, {
+        aliases: Array.from(new Set([...entity.aliases, ...aliases])),
+        tickers: Array.from(new Set([...entity.tickers, ...tickers.map((t: string) => t.toUpperCase())]))
+      });
+      resolver.refresh();
+
+      return NextResponse.json({ success: true, entity: updated });
+    } else if (action === 'backfill') {
+      // Link existing deals to the registry using stored terms plus text mentions
+      const deals = await db.getAllDeals();
+      const terms = await db.getDealTermsForDeals(deals.map(deal => deal.id!));
+      const termsByDeal = new Map(terms.map(t => [t.deal_id, t]));
+
+      let linked = 0;
+      let failed = 0;
+
+      for (const deal of deals) {
+        try {
+          const links = await resolver.linkDeal(deal, termsByDeal.get(deal.id!)?.parties || []);
+          linked += links.length;
+        } catch (error) {
+          console.error(`❌ Failed to link entities for deal ${deal.id}:`, error);
+          failed++;
+        }
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: `Linked ${linked} entity references across ${deals.length} deals`,
+        dealsProcessed: deals.length,
+        linksCreated: linked,
+        failed
+      });
+    }
+
+    return NextResponse.json(
+      { error: 'Invalid action' },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error('Error in POST /api/entities:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request' },
+      { status: 500 }
+    );
+  }
+}
@@ -84,7 +84,7 @@ export async function POST(request: NextRequest) {
           }
           
           // Update the article in the database
-          await db.updateDealDate(article.id, correctedDate);
+          await db.updateDealDate(article.id, correctedDate, { actor: 'route:fix-all-dates', reason: 'Date corrected from content' });
           console.log(`   ✅ Updated article ${article.id} from ${article.date} to ${correctedDate}`);
           fixed++;
           
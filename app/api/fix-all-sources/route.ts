@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/database';
+import { CATEGORY_SEPARATOR, normalizeCategory } from '@/lib/taxonomy';
 
 export async function POST() {
   console.log('🔧 Starting comprehensive source fix for ALL articles...');
@@ -72,7 +73,8 @@ export async function POST() {
         await db.updateDealSourceUrl(
           deal.id, 
           deal.source_url || '', 
-          extractedSource
+          extractedSource,
+          { actor: 'route:fix-all-sources', reason: `Source attributed by ${method}` }
         );
         
         updatedArticles.push({
@@ -256,19 +258,27 @@ function inferSourceFromTitle(title: string, summary: string): string | null {
 
 function getDefaultSourceByCategory(category: string): string {
   const categoryMap: { [key: string]: string } = {
-    'Credit Facility': 'Lending News',
-    'Fund Raising': 'Private Equity News',
-    'M&A Financing': 'M&A News',
-    'CLO/Securitization': 'Structured Finance News',
-    'Credit Rating': 'Rating Agency Report',
-    'Real Estate Credit': 'Real Estate Finance News',
-    'Infrastructure Credit': 'Infrastructure Finance News',
-    'Special Situations': 'Distressed Debt News',
-    'Market News': 'Financial Markets News',
-    'Deal Activity': 'Deal News'
+    'Private Credit': 'Lending News',
+    'Private Credit > Acquisition Financing': 'M&A News',
+    'Private Credit > Asset-Based Finance > CLO / Securitization': 'Structured Finance News',
+    'Private Credit > Real Estate Credit': 'Real Estate Finance News',
+    'Private Credit > Infrastructure Credit': 'Infrastructure Finance News',
+    'Private Credit > Special Situations': 'Distressed Debt News',
+    'Fundraising': 'Private Equity News',
+    'Private Equity': 'Private Equity News',
+    'Credit Ratings': 'Rating Agency Report',
+    'Market News': 'Financial Markets News'
   };
-  
-  return categoryMap[category] || 'Financial News';
+
+  // Walk up from the most specific branch to the first one with a default source
+  let path: string | undefined = normalizeCategory(category);
+  while (path) {
+    if (categoryMap[path]) return categoryMap[path];
+    const parent = path.lastIndexOf(CATEGORY_SEPARATOR);
+    path = parent > 0 ? path.substring(0, parent) : undefined;
+  }
+
+  return 'Financial News';
 }
 
 // GET endpoint to preview what would be updated
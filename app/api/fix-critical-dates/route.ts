@@ -63,7 +63,7 @@ export async function POST(request: NextRequest) {
         console.log(`   New date: ${newDate}`);
         
         // Update the article in the database
-        await db.updateDealDate(article.id, newDate);
+        await db.updateDealDate(article.id, newDate, { actor: 'route:fix-critical-dates', reason: `Invalid date (${getDateIssue(currentDate)})` });
         console.log(`   ✅ Updated article ${article.id} from ${currentDate} to ${newDate}`);
         fixed++;
         
@@ -60,7 +60,7 @@ export async function POST(request: NextRequest) {
         console.log(`   December date: ${article.date} → Today: ${today}`);
         
         // Update the article to today's date
-        await db.updateDealDate(article.id, today);
+        await db.updateDealDate(article.id, today, { actor: 'route:fix-december-dates', reason: 'December date moved to today' });
         console.log(`   ✅ Updated article ${article.id} to ${today}`);
         fixed++;
         
@@ -62,7 +62,7 @@ export async function POST(request: NextRequest) {
         console.log(`   Future date: ${article.date} → Today: ${today}`);
         
         // Update the article to today's date
-        await db.updateDealDate(article.id, today);
+        await db.updateDealDate(article.id, today, { actor: 'route:fix-future-dates', reason: 'Future date moved to today' });
         console.log(`   ✅ Updated article ${article.id} to ${today}`);
         fixed++;
         
@@ -106,7 +106,7 @@ export async function POST(request: NextRequest) {
         
         if (realDate && realDate !== article.date) {
           // Update the article with the real date
-          await db.updateDealDate(article.id, realDate);
+          await db.updateDealDate(article.id, realDate, { actor: 'route:fix-real-dates', reason: 'Date estimated from content' });
           console.log(`   ✅ Updated article ${article.id} from ${article.date} to ${realDate}`);
           fixed++;
         } else {
@@ -37,7 +37,8 @@ export async function POST() {
         await db.updateDealSourceUrl(
           deal.id, 
           deal.source_url, // Keep existing URL
-          extractedSource  // Update source name
+          extractedSource,  // Update source name
+          { actor: 'route:fix-sources-advanced', reason: 'Source attributed from URL' }
         );
         
         updatedArticles.push({
@@ -24,7 +24,7 @@ export async function POST(request: NextRequest) {
         console.log(`🔍 Fixing article ID: ${articleId}`);
         
         // Update the article to the target date
-        await db.updateDealDate(articleId, targetDate);
+        await db.updateDealDate(articleId, targetDate, { actor: 'route:fix-specific-articles', reason: 'Date set by request' });
         console.log(`   ✅ Updated article ${articleId} to ${targetDate}`);
         fixed++;
         
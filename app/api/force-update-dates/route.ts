@@ -48,7 +48,7 @@ export async function POST(request: NextRequest) {
           console.error(`❌ Article has no ID, skipping`);
           continue;
         }
-        await db.updateDealDate(article.id, targetDate);
+        await db.updateDealDate(article.id, targetDate, { actor: 'route:force-update-dates', reason: 'Forced date update' });
         updated++;
         console.log(`✅ Updated article ${article.id} from ${oldDate} to ${targetDate}`);
       } catch (error) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/database';
 import { getScheduler } from '@/lib/scheduler';
 import { OpenAIService } from '@/lib/openai';
+import { getEntityResolver } from '@/lib/entities';
 
 export async function POST(request: NextRequest) {
   const body = await request.json();
@@ -11,8 +12,18 @@ export async function POST(request: NextRequest) {
   
   if (!query) return NextResponse.json({ error: 'Query required' }, { status: 400 });
   
-  // Search DB first
-  const existing = await db.searchDealsByTitle(query); // Assume this method exists or add it
+  // Resolve the query against the entity registry so "Apollo" also finds "Apollo Global Management" deals
+  const entity = await getEntityResolver().resolve(query);
+  if (entity && !refresh) {
+    const links = await db.getEntityDealLinks(entity.id!);
+    const linkedDeals = await db.getDealsByIds(Array.from(new Set(links.map(link => link.deal_id))));
+    if (linkedDeals.length > 0) {
+      return NextResponse.json({ entity, deals: linkedDeals, profile: `/entity/${entity.slug}` });
+    }
+  }
+
+  // Fall back to a title search for names not in the registry yet
+  const existing = await db.searchDealsByTitle(query);
   if (existing.length > 0 && !refresh) {
     return NextResponse.json({ deals: existing });
   }
@@ -31,9 +42,9 @@ export async function POST(request: NextRequest) {
     content: `${search1}\n\n${search2}`,
     source: 'Perplexity + OpenAI',
     source_url: undefined,
-    category: 'Fund Report'
+    category: 'Market News > Manager Reports'
   };
-  await db.saveDeal(updatedDeal);
+  await db.saveDeal(updatedDeal, { actor: 'route:funds', reason: `Fund report for "${query}"` });
   
   return NextResponse.json({ updatedDeal });
 } 
\ No newline at end of file
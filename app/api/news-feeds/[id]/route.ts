@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { parseNewsFeedInput } from '@/lib/news-feeds';
+
+export const dynamic = 'force-dynamic';
+
+// Feed changes decide what the server fetches, so without CRON_SECRET nobody may make them
+function isAuthorized(request: NextRequest): boolean {
+  return !!process.env.CRON_SECRET && request.headers.get('authorization') === `Bearer ${process.env.CRON_SECRET}`;
+}
+
+/**
+ * Update a registered feed. Body: any of { name, url, category, keywords, active }
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const feedId = parseInt(params.id, 10);
+    const existing = feedId > 0 ? await getDatabase().getNewsFeedById(feedId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'News feed not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { feed, error } = parseNewsFeedInput(body, true);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const updated = await getDatabase().updateNewsFeed(feedId, feed);
+    return NextResponse.json({ success: true, feed: updated });
+  } catch (error) {
+    console.error('Error updating news feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to update news feed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const feedId = parseInt(params.id, 10);
+    const existing = feedId > 0 ? await getDatabase().getNewsFeedById(feedId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'News feed not found' },
+        { status: 404 }
+      );
+    }
+
+    await getDatabase().deleteNewsFeed(feedId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting news feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete news feed' },
+      { status: 500 }
+    );
+  }
+}
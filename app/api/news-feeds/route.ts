@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { NewsFeedInput, parseNewsFeedInput } from '@/lib/news-feeds';
+import { newsFeedSourceId } from '@/lib/news-sources';
+import { isPublicHostError } from '@/lib/public-host';
+import { fetchFeed } from '@/lib/rss-source';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Registered feeds with their polling state (last poll, last error, GUIDs seen)
+ */
+export async function GET() {
+  try {
+    const db = getDatabase();
+    const feeds = await db.getNewsFeeds();
+    const states = await db.getFeedStates(feeds.map(newsFeedSourceId));
+
+    return NextResponse.json({
+      feeds: feeds.map(feed => {
+        const state = states.find(row => row.source_id === newsFeedSourceId(feed));
+        return {
+          ...feed,
+          source_id: newsFeedSourceId(feed),
+          last_polled_at: state ? state.last_polled_at : null,
+          last_error: state ? state.last_error : null,
+          seen_count: state ? state.seen_guids.length : 0
+        };
+      }),
+      total: feeds.length
+    });
+  } catch (error) {
+    console.error('Error fetching news feeds:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch news feeds' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Register an RSS/Atom feed for the scheduler to poll. Body: { name, url,
+ * category?, keywords? }. The feed is fetched once to check that it parses.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Registering makes the server fetch the URL on every run, so it is never open
+    if (!process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Feed registration is disabled - set CRON_SECRET' }, { status: 503 });
+    }
+    if (request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { feed, error } = parseNewsFeedInput(body);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const db = getDatabase();
+    const existing = (await db.getNewsFeeds()).find(row => row.url === feed.url);
+    if (existing) {
+      return NextResponse.json(
+        { error: `Feed is already registered as "${existing.name}"`, feed: existing },
+        { status: 409 }
+      );
+    }
+
+    let entryCount = 0;
+    try {
+      const response = await fetchFeed(feed.url!);
+      entryCount = response.feed ? response.feed.entries.length : 0;
+    } catch (fetchError) {
+      // The reason stays in the log: echoing it would tell callers what is listening where
+      console.error(`Error reading feed ${feed.url}:`, fetchError);
+      return NextResponse.json(
+        { error: isPublicHostError(fetchError) ? 'url must be on a public host' : `Could not read a feed at ${feed.url}` },
+        { status: 400 }
+      );
+    }
+
+    const saved = await db.saveNewsFeed(feed as NewsFeedInput);
+    return NextResponse.json({ success: true, feed: saved, entryCount });
+  } catch (error) {
+    console.error('Error registering news feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to register news feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import type { DealStatus } from '@/lib/database';
+import { requireEditor } from '@/lib/editors';
+import { DEAL_STATUSES, reviewDeals } from '@/lib/review';
+
+export const dynamic = 'force-dynamic';
+
+// Bulk actions and the status each one moves deals to
+const REVIEW_ACTIONS: { [action: string]: DealStatus } = {
+  approve: 'published',
+  reject: 'rejected',
+  requeue: 'pending_review'
+};
+
+/**
+ * The review queue. Query: status (default pending_review), limit.
+ * Lowest-confidence deals come first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = requireEditor(request);
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') || 'pending_review') as DealStatus;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100', 10) || 100, 1), 500);
+
+    if (!DEAL_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${DEAL_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+    const [deals, counts] = await Promise.all([
+      db.getDealsByStatus(status, limit),
+      db.getDealStatusCounts()
+    ]);
+    const terms = await db.getDealTermsForDeals(deals.map(deal => deal.id!));
+
+    return NextResponse.json({ status, deals, terms, counts });
+  } catch (error) {
+    console.error('Error fetching review queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch review queue' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Approve, reject or requeue deals in bulk. Body: { ids: number[], action }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { editor, response } = requireEditor(request);
+    if (response) return response;
+
+    const body = await request.json().catch(() => ({}));
+    const status = Object.prototype.hasOwnProperty.call(REVIEW_ACTIONS, body.action)
+      ? REVIEW_ACTIONS[body.action]
+      : null;
+    const ids: number[] = Array.isArray(body.ids)
+      ? body.ids.map((id: any) => parseInt(id, 10)).filter((id: number) => id > 0)
+      : [];
+
+    if (!status) {
+      return NextResponse.json(
+        { error: `action must be one of ${Object.keys(REVIEW_ACTIONS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (ids.length === 0) {
+      return NextResponse.json(
+        { error: 'ids must list at least one deal id' },
+        { status: 400 }
+      );
+    }
+
+    const changed = await reviewDeals(ids, status, editor!);
+    console.log(`🗂️ ${editor} moved ${changed.length} deal(s) to ${status}`);
+
+    return NextResponse.json({ success: true, status, updated: changed.map(deal => deal.id) });
+  } catch (error) {
+    console.error('Error reviewing deals:', error);
+    return NextResponse.json(
+      { error: 'Failed to review deals' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchDeals } from '@/lib/search';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim();
+
+    if (!query) {
+      return NextResponse.json({ error: 'Query parameter "q" is required' }, { status: 400 });
+    }
+
+    const month = searchParams.get('month');
+    if (month && !/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json({ error: 'month must be formatted as YYYY-MM' }, { status: 400 });
+    }
+
+    const result = await searchDeals({
+      query,
+      category: searchParams.get('category'),
+      region: searchParams.get('region'),
+      month,
+      cursor: searchParams.get('cursor'),
+      limit: parseInt(searchParams.get('limit') || '', 10) || undefined
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    console.error('Error searching deals:', error);
+    return NextResponse.json(
+      { error: 'Search failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ALL_CATEGORIES, TAXONOMY } from '@/lib/taxonomy';
+import { migrateDealCategories } from '@/lib/taxonomy-migration';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json({ taxonomy: TAXONOMY, categories: ALL_CATEGORIES });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (body.action === 'migrate') {
+      // Dry run unless explicitly turned off, so a stray call only reports
+      const result = await migrateDealCategories(body.dryRun !== false);
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    return NextResponse.json(
+      { error: 'Invalid action' },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error('Error in POST /api/taxonomy:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request' },
+      { status: 500 }
+    );
+  }
+}
@@ -52,7 +52,7 @@ export async function POST(request: NextRequest) {
           console.error(`❌ Article has no ID, skipping`);
           continue;
         }
-        await db.updateDealDate(article.id, today);
+        await db.updateDealDate(article.id, today, { actor: 'route:update-dates-to-today', reason: "Yesterday's deal moved to today" });
         updated++;
         console.log(`✅ Updated article ${article.id} to ${today}`);
       } catch (error) {
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { parseWatchlistInput } from '@/lib/watchlists';
+
+export const dynamic = 'force-dynamic';
+
+// There are no accounts, so reads and changes must name the owner the watchlist was created with
+async function findOwnedWatchlist(id: string, owner: string | null) {
+  const watchlistId = parseInt(id, 10);
+  const watchlist = watchlistId ? await getDatabase().getWatchlistById(watchlistId) : null;
+
+  if (!watchlist) {
+    return { watchlist: null, response: NextResponse.json({ error: 'Watchlist not found' }, { status: 404 }) };
+  }
+  if (!owner || owner.trim().toLowerCase() !== watchlist.owner) {
+    return { watchlist: null, response: NextResponse.json({ error: 'Not the owner of this watchlist' }, { status: 403 }) };
+  }
+
+  return { watchlist, response: null };
+}
+
+/**
+ * A watchlist with its most recent alerts and the deals they point at. Query:
+ * owner (required - the notify address and webhook are private), limit.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { watchlist, response } = await findOwnedWatchlist(params.id, searchParams.get('owner'));
+    if (!watchlist) return response;
+
+    const db = getDatabase();
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+
+    const alerts = await db.getWatchlistAlerts(watchlist.id!, limit);
+    const deals = await db.getDealsByIds(alerts.map(alert => alert.deal_id));
+    const dealsById = new Map(deals.map(deal => [deal.id, deal]));
+
+    return NextResponse.json({
+      watchlist,
+      alerts: alerts.map(alert => ({ ...alert, deal: dealsById.get(alert.deal_id) || null }))
+    });
+  } catch (error) {
+    console.error('Error fetching watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { watchlist: existing, response } = await findOwnedWatchlist(params.id, body.owner);
+    if (!existing) return response;
+
+    // Ownership cannot be transferred
+    const { watchlist: updates, error } = parseWatchlistInput({ ...body, owner: undefined }, true);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const watchlist = await getDatabase().updateWatchlist(existing.id!, updates);
+    return NextResponse.json({ success: true, watchlist });
+  } catch (error) {
+    console.error('Error updating watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to update watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { watchlist, response } = await findOwnedWatchlist(params.id, searchParams.get('owner'));
+    if (!watchlist) return response;
+
+    await getDatabase().deleteWatchlist(watchlist.id!);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete watchlist' },
+      { status: 500 }
+    );
+  }
+}
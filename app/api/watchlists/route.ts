@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { WatchlistInput, parseWatchlistInput } from '@/lib/watchlists';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const owner = searchParams.get('owner');
+
+    if (!owner) {
+      return NextResponse.json(
+        { error: 'owner is required' },
+        { status: 400 }
+      );
+    }
+
+    const watchlists = await getDatabase().getWatchlists(owner);
+    return NextResponse.json({ watchlists, total: watchlists.length });
+  } catch (error) {
+    console.error('Error fetching watchlists:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch watchlists' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a watchlist. Body: { name, owner, entity_ids, categories, keywords,
+ * notify_email?, notify_webhook? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { watchlist, error } = parseWatchlistInput(body);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const saved = await getDatabase().saveWatchlist(watchlist as WatchlistInput);
+    return NextResponse.json({ success: true, watchlist: saved });
+  } catch (error) {
+    console.error('Error creating watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to create watchlist' },
+      { status: 500 }
+    );
+  }
+}
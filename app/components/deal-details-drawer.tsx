@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import RelatedDeals from './related-deals';
+
+interface FieldConfidence {
+  amount: number;
+  parties: number;
+  date: number;
+  url: number;
+}
+
+interface ProvenanceRecord {
+  source_id: string | null;
+  source_kind: string | null;
+  query: string | null;
+  section_label: string | null;
+  raw_section: string | null;
+  item_url: string | null;
+  published_at: string | null;
+  extractor: string;
+  model: string | null;
+  prompt_version: string | null;
+  field_confidence: FieldConfidence;
+  created_at?: string;
+}
+
+interface ProvenanceResponse {
+  origin: string;
+  submitted_by: string | null;
+  status: string;
+  confidence: number | null;
+  review_reasons: string[];
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  provenance: ProvenanceRecord | null;
+}
+
+const FIELD_LABELS: { field: keyof FieldConfidence; label: string }[] = [
+  { field: 'amount', label: 'Amount' },
+  { field: 'parties', label: 'Parties' },
+  { field: 'date', label: 'Date' },
+  { field: 'url', label: 'Source link' }
+];
+
+const EXTRACTOR_LABELS: { [extractor: string]: string } = {
+  model: 'Language model',
+  rules: 'Rule-based fallback',
+  structured: 'Parsed from structured data',
+  manual: 'Entered by an editor'
+};
+
+const confidenceColor = (value: number): string => {
+  if (value >= 0.8) return 'var(--apple-green)';
+  if (value >= 0.5) return 'var(--apple-orange)';
+  return 'var(--apple-red)';
+};
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between items-start py-2 border-b border-gray-100">
+      <span className="apple-caption">{label}</span>
+      <span className="apple-small text-right ml-4 break-all">{children}</span>
+    </div>
+  );
+}
+
+/**
+ * Side drawer showing where a deal came from, how far to trust it and the
+ * deals related to it
+ */
+export default function DealDetailsDrawer({ dealId, onClose }: { dealId: number; onClose: () => void }) {
+  const [details, setDetails] = useState<ProvenanceResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showRaw, setShowRaw] = useState(false);
+
+  useEffect(() => {
+    setDetails(null);
+    setError(null);
+    setShowRaw(false);
+
+    fetch(`/api/deals/${dealId}/provenance`)
+      .then(response => response.json().then(data => ({ ok: response.ok, data })))
+      .then(({ ok, data }) => {
+        if (!ok) throw new Error(data.error || 'Failed to load details');
+        setDetails(data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load details'));
+  }, [dealId]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const provenance = details ? details.provenance : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end" style={{ background: 'rgba(0, 0, 0, 0.2)' }} onClick={onClose}>
+      <aside
+        className="h-full w-full max-w-md bg-white shadow-lg overflow-y-auto p-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="apple-headline text-lg">Deal Details</h2>
+          <button onClick={onClose} className="apple-caption hover:opacity-80">Close ✕</button>
+        </div>
+
+        {error && <p className="apple-body">{error}</p>}
+        {!details && !error && <p className="apple-caption">Loading...</p>}
+
+        {details && (
+          <div className="space-y-8">
+            <section>
+              <h3 className="apple-caption mb-2">Trust</h3>
+              <Row label="Status">{details.status.replace('_', ' ')}</Row>
+              <Row label="Overall confidence">
+                {details.confidence === null ? 'Not scored' : `${Math.round(details.confidence * 100)}%`}
+              </Row>
+              {details.review_reasons.length > 0 && (
+                <Row label="Flags">{details.review_reasons.join(', ')}</Row>
+              )}
+              {details.reviewed_by && (
+                <Row label="Reviewed">
+                  {details.reviewed_by}
+                  {details.reviewed_at ? ` · ${format(new Date(details.reviewed_at), 'MMM d, yyyy')}` : ''}
+                </Row>
+              )}
+            </section>
+
+            {!provenance ? (
+              <p className="apple-caption">
+                No provenance was recorded for this deal{details.origin === 'manual' && details.submitted_by ? ` (submitted by ${details.submitted_by})` : ''}.
+              </p>
+            ) : (
+              <>
+                <section>
+                  <h3 className="apple-caption mb-3">Field Confidence</h3>
+                  <div className="space-y-3">
+                    {FIELD_LABELS.map(({ field, label }) => {
+                      const value = provenance.field_confidence[field] || 0;
+                      return (
+                        <div key={field}>
+                          <div className="flex justify-between mb-1">
+                            <span className="apple-small">{label}</span>
+                            <span className="apple-small">{value > 0 ? `${Math.round(value * 100)}%` : 'Not found'}</span>
+                          </div>
+                          <div className="h-1 rounded-full bg-gray-100">
+                            <div
+                              className="h-1 rounded-full"
+                              style={{ width: `${Math.round(value * 100)}%`, background: confidenceColor(value) }}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+
+                <section>
+                  <h3 className="apple-caption mb-2">Source</h3>
+                  <Row label="Source">
+                    {provenance.source_id || 'Unknown'}{provenance.source_kind ? ` (${provenance.source_kind})` : ''}
+                  </Row>
+                  {provenance.query && <Row label="Query">{provenance.query}</Row>}
+                  {provenance.section_label && <Row label="Section">{provenance.section_label}</Row>}
+                  {provenance.item_url && (
+                    <Row label="Item">
+                      <a href={provenance.item_url} target="_blank" rel="noopener noreferrer" className="hover:opacity-80">
+                        {provenance.item_url}
+                      </a>
+                    </Row>
+                  )}
+                  {provenance.published_at && (
+                    <Row label="Published">{format(new Date(provenance.published_at), 'MMM d, yyyy h:mm a')}</Row>
+                  )}
+                </section>
+
+                <section>
+                  <h3 className="apple-caption mb-2">Extraction</h3>
+                  <Row label="Extracted by">{EXTRACTOR_LABELS[provenance.extractor] || provenance.extractor}</Row>
+                  {provenance.model && <Row label="Model">{provenance.model}</Row>}
+                  {provenance.prompt_version && <Row label="Prompt">{provenance.prompt_version}</Row>}
+                  {provenance.created_at && (
+                    <Row label="Recorded">{format(new Date(provenance.created_at), 'MMM d, yyyy h:mm a')}</Row>
+                  )}
+                </section>
+
+                {provenance.raw_section && (
+                  <section>
+                    <button onClick={() => setShowRaw(!showRaw)} className="apple-caption hover:opacity-80">
+                      {showRaw ? 'Hide raw section ▴' : 'Show raw section ▾'}
+                    </button>
+                    {showRaw && (
+                      <pre className="apple-small mt-3 p-4 rounded-lg bg-gray-50 whitespace-pre-wrap">
+                        {provenance.raw_section}
+                      </pre>
+                    )}
+                  </section>
+                )}
+              </>
+            )}
+
+            <section>
+              <h3 className="apple-caption mb-3">Related Deals</h3>
+              <RelatedDeals dealId={dealId} />
+            </section>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
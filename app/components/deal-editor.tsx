@@ -0,0 +1,589 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { flattenTaxonomy } from '@/lib/taxonomy';
+import { DEAL_REGIONS } from '@/lib/classification';
+import { DEAL_PARTY_ROLES, INSTRUMENT_TYPES, formatAmount } from '@/lib/deal-terms';
+
+interface DealParty {
+  name: string;
+  role: string;
+}
+
+interface DealTerms {
+  parties: DealParty[];
+  amount: number | null;
+  currency: string | null;
+  instrument_type: string | null;
+  tenor: string | null;
+  pricing: string | null;
+  use_of_proceeds: string | null;
+}
+
+interface DuplicateDeal {
+  id: number;
+  title: string;
+  date: string;
+  source: string;
+}
+
+interface DealForm {
+  date: string;
+  title: string;
+  summary: string;
+  content: string;
+  source: string;
+  source_url: string;
+  category: string;
+  deal_type: string;
+  region: string;
+  countries: string;
+  amount: string;
+  currency: string;
+  instrument_type: string;
+  pricing: string;
+  tenor: string;
+  use_of_proceeds: string;
+  parties: DealParty[];
+}
+
+// Editors have no accounts - the token from EDITOR_TOKENS is remembered in this browser
+export const TOKEN_STORAGE_KEY = 'editorToken';
+
+const EMPTY_FORM: DealForm = {
+  date: '',
+  title: '',
+  summary: '',
+  content: '',
+  source: '',
+  source_url: '',
+  category: '',
+  deal_type: '',
+  region: '',
+  countries: '',
+  amount: '',
+  currency: '',
+  instrument_type: '',
+  pricing: '',
+  tenor: '',
+  use_of_proceeds: '',
+  parties: []
+};
+
+function formFromDeal(deal: any, terms: DealTerms | null): DealForm {
+  return {
+    date: deal.date || '',
+    title: deal.title || '',
+    summary: deal.summary || '',
+    content: deal.content || '',
+    source: deal.source || '',
+    source_url: deal.source_url || '',
+    category: deal.category || '',
+    deal_type: deal.deal_type || '',
+    region: deal.region || '',
+    countries: (deal.countries || []).join(', '),
+    amount: terms && terms.amount ? formatAmount(terms.amount, terms.currency) : '',
+    currency: (terms && terms.currency) || '',
+    instrument_type: (terms && terms.instrument_type) || '',
+    pricing: (terms && terms.pricing) || '',
+    tenor: (terms && terms.tenor) || '',
+    use_of_proceeds: (terms && terms.use_of_proceeds) || '',
+    parties: terms ? terms.parties : []
+  };
+}
+
+export default function DealEditor({ dealId }: { dealId?: number }) {
+  const [token, setToken] = useState<string>('');
+  const [tokenInput, setTokenInput] = useState<string>('');
+  const [pasteUrl, setPasteUrl] = useState('');
+  const [pasteText, setPasteText] = useState('');
+  const [form, setForm] = useState<DealForm>(EMPTY_FORM);
+  const [hasDraft, setHasDraft] = useState(false);
+  const [extraction, setExtraction] = useState<string | null>(null);
+  const [drafting, setDrafting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateDeal[]>([]);
+  const [savedId, setSavedId] = useState<number | null>(null);
+  const [lastSaveAsDraft, setLastSaveAsDraft] = useState(false);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(TOKEN_STORAGE_KEY);
+    if (stored) {
+      setToken(stored);
+      setTokenInput(stored);
+    }
+  }, []);
+
+  // Corrections start from the stored deal
+  useEffect(() => {
+    if (!dealId) return;
+
+    // Drafts and held deals are only returned to editors
+    fetch(`/api/deals/${dealId}`, token ? { headers: { 'Authorization': `Bearer ${token}` } } : undefined)
+      .then(response => response.json())
+      .then(data => {
+        if (!data.deal) throw new Error(data.error || 'Deal not found');
+        setForm(formFromDeal(data.deal, data.terms));
+        setHasDraft(true);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load deal'));
+  }, [dealId, token]);
+
+  const authHeaders = () => ({ 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` });
+
+  const handleTokenSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = tokenInput.trim();
+    if (!value) return;
+    window.localStorage.setItem(TOKEN_STORAGE_KEY, value);
+    setToken(value);
+  };
+
+  const handleDraft = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setDrafting(true);
+    setSavedId(null);
+    try {
+      const response = await fetch('/api/deals/draft', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ url: pasteUrl, text: pasteText })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to draft deal');
+
+      setForm(formFromDeal(data.draft, data.draft.terms));
+      setExtraction(data.draft.extraction);
+      setHasDraft(true);
+      setDuplicates([]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to draft deal');
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  const handleSave = async (force: boolean = false, asDraft: boolean = false) => {
+    setSaving(true);
+    setLastSaveAsDraft(asDraft);
+    try {
+      const body = {
+        date: form.date,
+        title: form.title,
+        summary: form.summary,
+        content: form.content,
+        source: form.source,
+        source_url: form.source_url,
+        category: form.category,
+        deal_type: form.deal_type,
+        region: form.region,
+        countries: form.countries,
+        terms: {
+          amount: form.amount,
+          currency: form.currency,
+          instrument_type: form.instrument_type,
+          pricing: form.pricing,
+          tenor: form.tenor,
+          use_of_proceeds: form.use_of_proceeds,
+          parties: form.parties.filter(party => party.name.trim())
+        },
+        status: asDraft ? 'draft' : 'published',
+        force
+      };
+
+      const response = await fetch(dealId ? `/api/deals/${dealId}` : '/api/deals/submit', {
+        method: dealId ? 'PATCH' : 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (response.status === 409) {
+        setDuplicates(data.duplicates || []);
+        setError(data.error);
+        return;
+      }
+      if (!response.ok) throw new Error(data.error || 'Failed to save deal');
+
+      setSavedId(dealId || data.id);
+      setDuplicates([]);
+      setError(null);
+      if (!dealId) {
+        setForm(EMPTY_FORM);
+        setHasDraft(false);
+        setPasteUrl('');
+        setPasteText('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save deal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateParty = (index: number, changes: Partial<DealParty>) => {
+    setForm(current => ({
+      ...current,
+      parties: current.parties.map((party, i) => (i === index ? { ...party, ...changes } : party))
+    }));
+  };
+
+  if (!token) {
+    return (
+      <div className="apple-card p-6">
+        <h2 className="apple-headline text-lg mb-1">Editor Access</h2>
+        <p className="apple-caption mb-6">Enter your editor token to add or correct deals.</p>
+        <form onSubmit={handleTokenSubmit} className="flex items-center space-x-3">
+          <input
+            type="password"
+            required
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="Editor token"
+            className="apple-input flex-1"
+          />
+          <button type="submit" className="apple-button apple-button-primary">Continue</button>
+        </form>
+      </div>
+    );
+  }
+
+  const taxonomy = flattenTaxonomy();
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <p className="apple-caption">Editor token saved in this browser</p>
+        <button
+          onClick={() => {
+            window.localStorage.removeItem(TOKEN_STORAGE_KEY);
+            setToken('');
+            setTokenInput('');
+          }}
+          className="apple-caption hover:opacity-80"
+        >
+          Forget token
+        </button>
+      </div>
+
+      {error && (
+        <div className="apple-card p-4" style={{ background: 'rgba(255, 59, 48, 0.05)', borderColor: 'var(--apple-red)' }}>
+          <p className="apple-body">{error}</p>
+          {duplicates.length > 0 && (
+            <div className="mt-3 space-y-1">
+              {duplicates.map(duplicate => (
+                <p key={duplicate.id} className="apple-small">
+                  #{duplicate.id} · {duplicate.date} · {duplicate.title} ({duplicate.source})
+                </p>
+              ))}
+              <button onClick={() => handleSave(true, lastSaveAsDraft)} disabled={saving} className="apple-button apple-button-secondary mt-3">
+                Save anyway
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {savedId && (
+        <div className="apple-card p-4" style={{ background: 'rgba(52, 199, 89, 0.05)' }}>
+          <p className="apple-body">
+            {dealId ? `Deal #${savedId} updated.` : `Saved as deal #${savedId}${lastSaveAsDraft ? ' (draft - publish it from the review queue)' : ''}.`}
+          </p>
+        </div>
+      )}
+
+      {/* Paste a source */}
+      {!dealId && (
+        <form onSubmit={handleDraft} className="apple-card p-6 space-y-6">
+          <div>
+            <h2 className="apple-headline text-lg mb-1">Start From a Source</h2>
+            <p className="apple-caption">Paste an article URL, its text, or both. Extraction drafts the deal for you to review.</p>
+          </div>
+
+          <div>
+            <label className="block apple-caption mb-3">Article URL</label>
+            <input
+              type="url"
+              value={pasteUrl}
+              onChange={(e) => setPasteUrl(e.target.value)}
+              placeholder="https://..."
+              className="apple-input w-full"
+            />
+          </div>
+
+          <div>
+            <label className="block apple-caption mb-3">Article Text</label>
+            <textarea
+              value={pasteText}
+              onChange={(e) => setPasteText(e.target.value)}
+              rows={6}
+              placeholder="Paste the announcement or article text"
+              className="apple-input w-full"
+            />
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <button type="submit" disabled={drafting} className="apple-button apple-button-primary">
+              {drafting ? 'Drafting...' : 'Draft Deal'}
+            </button>
+            <button type="button" onClick={() => setHasDraft(true)} className="apple-button apple-button-ghost">
+              Write from scratch
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Editable deal */}
+      {hasDraft && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+          className="apple-card p-6 space-y-6"
+        >
+          <div>
+            <h2 className="apple-headline text-lg mb-1">{dealId ? `Correct Deal #${dealId}` : 'Review Deal'}</h2>
+            {extraction === 'rules' && (
+              <p className="apple-caption">The extraction model was unavailable, so this draft is rough - check every field.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block apple-caption mb-3">Title</label>
+            <input
+              required
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              className="apple-input w-full"
+            />
+          </div>
+
+          <div>
+            <label className="block apple-caption mb-3">Summary</label>
+            <textarea
+              required
+              value={form.summary}
+              onChange={(e) => setForm({ ...form, summary: e.target.value })}
+              rows={4}
+              className="apple-input w-full"
+            />
+          </div>
+
+          <div className="apple-grid apple-grid-3">
+            <div>
+              <label className="block apple-caption mb-3">Date</label>
+              <input
+                type="date"
+                required
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                className="apple-input w-full"
+              />
+            </div>
+            <div>
+              <label className="block apple-caption mb-3">Source</label>
+              <input
+                required
+                value={form.source}
+                onChange={(e) => setForm({ ...form, source: e.target.value })}
+                placeholder="e.g. Bloomberg"
+                className="apple-input w-full"
+              />
+            </div>
+            <div>
+              <label className="block apple-caption mb-3">Source URL</label>
+              <input
+                type="url"
+                value={form.source_url}
+                onChange={(e) => setForm({ ...form, source_url: e.target.value })}
+                className="apple-input w-full"
+              />
+            </div>
+          </div>
+
+          <div className="apple-grid apple-grid-2">
+            <div>
+              <label className="block apple-caption mb-3">Category</label>
+              <select
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+                className="apple-select w-full"
+              >
+                <option value="">Infer from title</option>
+                {taxonomy.map(node => (
+                  <option key={node.path} value={node.path}>{'  '.repeat(node.depth)}{node.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block apple-caption mb-3">Deal Type</label>
+              <select
+                value={form.deal_type}
+                onChange={(e) => setForm({ ...form, deal_type: e.target.value })}
+                className="apple-select w-full"
+              >
+                <option value="">None</option>
+                {taxonomy.map(node => (
+                  <option key={node.path} value={node.path}>{'  '.repeat(node.depth)}{node.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="apple-grid apple-grid-2">
+            <div>
+              <label className="block apple-caption mb-3">Region</label>
+              <select
+                value={form.region}
+                onChange={(e) => setForm({ ...form, region: e.target.value })}
+                className="apple-select w-full"
+              >
+                <option value="">Unknown</option>
+                {DEAL_REGIONS.map(region => (
+                  <option key={region} value={region}>{region}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block apple-caption mb-3">Countries</label>
+              <input
+                value={form.countries}
+                onChange={(e) => setForm({ ...form, countries: e.target.value })}
+                placeholder="Comma-separated, e.g. United States, Canada"
+                className="apple-input w-full"
+              />
+            </div>
+          </div>
+
+          <div className="apple-grid apple-grid-3">
+            <div>
+              <label className="block apple-caption mb-3">Amount</label>
+              <input
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                placeholder="e.g. $500M"
+                className="apple-input w-full"
+              />
+            </div>
+            <div>
+              <label className="block apple-caption mb-3">Currency</label>
+              <input
+                value={form.currency}
+                onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                placeholder="USD"
+                maxLength={3}
+                className="apple-input w-full"
+              />
+            </div>
+            <div>
+              <label className="block apple-caption mb-3">Instrument</label>
+              <select
+                value={form.instrument_type}
+                onChange={(e) => setForm({ ...form, instrument_type: e.target.value })}
+                className="apple-select w-full"
+              >
+                <option value="">Unknown</option>
+                {INSTRUMENT_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="apple-grid apple-grid-3">
+            <div>
+              <label className="block apple-caption mb-3">Pricing</label>
+              <input
+                value={form.pricing}
+                onChange={(e) => setForm({ ...form, pricing: e.target.value })}
+                placeholder="e.g. SOFR + 525bps"
+                className="apple-input w-full"
+              />
+            </div>
+            <div>
+              <label className="block apple-caption mb-3">Tenor</label>
+              <input
+                value={form.tenor}
+                onChange={(e) => setForm({ ...form, tenor: e.target.value })}
+                placeholder="e.g. 7 years"
+                className="apple-input w-full"
+              />
+            </div>
+            <div>
+              <label className="block apple-caption mb-3">Use of Proceeds</label>
+              <input
+                value={form.use_of_proceeds}
+                onChange={(e) => setForm({ ...form, use_of_proceeds: e.target.value })}
+                className="apple-input w-full"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block apple-caption mb-3">Parties</label>
+            <div className="space-y-2">
+              {form.parties.map((party, index) => (
+                <div key={index} className="flex items-center space-x-3">
+                  <input
+                    value={party.name}
+                    onChange={(e) => updateParty(index, { name: e.target.value })}
+                    placeholder="Name"
+                    className="apple-input flex-1"
+                  />
+                  <select
+                    value={party.role}
+                    onChange={(e) => updateParty(index, { role: e.target.value })}
+                    className="apple-select"
+                  >
+                    {DEAL_PARTY_ROLES.map(role => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, parties: form.parties.filter((_, i) => i !== index) })}
+                    className="apple-caption hover:opacity-80"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setForm({ ...form, parties: [...form.parties, { name: '', role: 'borrower' }] })}
+              className="apple-caption hover:opacity-80 mt-3"
+            >
+              + Add party
+            </button>
+          </div>
+
+          <div>
+            <label className="block apple-caption mb-3">Source Text (kept for reference)</label>
+            <textarea
+              value={form.content}
+              onChange={(e) => setForm({ ...form, content: e.target.value })}
+              rows={4}
+              className="apple-input w-full"
+            />
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <button type="submit" disabled={saving} className="apple-button apple-button-primary">
+              {saving ? 'Saving...' : dealId ? 'Save Correction' : 'Publish Deal'}
+            </button>
+            {!dealId && (
+              <button type="button" onClick={() => handleSave(false, true)} disabled={saving} className="apple-button apple-button-secondary">
+                Save as Draft
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
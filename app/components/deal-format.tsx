@@ -0,0 +1,51 @@
+import React from 'react';
+import { CATEGORY_SEPARATOR, normalizeCategory } from '@/lib/taxonomy';
+
+// Function to convert markdown-style bold formatting to HTML
+export const formatSummaryWithBold = (summary: string): React.ReactNode => {
+  const parts = summary.split(/(\*\*.*?\*\*)/g);
+  
+  return parts.map((part, index) => {
+    if (part.startsWith('**') && part.endsWith('**')) {
+      // Remove the ** markers and make it bold
+      const boldText = part.slice(2, -2);
+      return <strong key={index} className="font-semibold text-gray-900">{boldText}</strong>;
+    }
+    return part;
+  });
+};
+
+// Apple-style category badge mapping, keyed by taxonomy branch
+export const getCategoryBadge = (category: string): string => {
+  const badges: { [key: string]: string } = {
+    'Private Credit': 'apple-badge-purple',
+    'Private Credit > Special Situations': 'apple-badge-orange',
+    'Private Credit > Real Estate Credit': 'apple-badge-green',
+    'Fundraising': 'apple-badge-green',
+    'Private Equity': 'apple-badge-blue',
+    'Credit Ratings': 'apple-badge-orange',
+    'Market News': 'apple-badge-gray',
+  };
+
+  const path = normalizeCategory(category);
+  const parts = path.split(CATEGORY_SEPARATOR);
+  // Most specific branch with its own colour wins
+  for (let depth = parts.length; depth > 0; depth--) {
+    const badge = badges[parts.slice(0, depth).join(CATEGORY_SEPARATOR)];
+    if (badge) return badge;
+  }
+  return 'apple-badge-gray';
+};
+
+export const getRegionFlag = (region: string): string => {
+  const flags: { [key: string]: string } = {
+    'US': '🇺🇸',
+    'Europe': '🇪🇺',
+    'UK': '🇬🇧',
+    'Asia': '🌏',
+    'Middle East': '🌍',
+    'Latin America': '🌎',
+    'Global': '🌍',
+  };
+  return flags[region] || '🌍';
+};
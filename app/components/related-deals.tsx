@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+
+interface RelatedReason {
+  type: string;
+  label: string;
+  entity: { id: number; name: string; slug: string } | null;
+}
+
+interface RelatedDeal {
+  id?: number;
+  date: string;
+  title: string;
+  source: string;
+  source_url?: string;
+  timing: 'earlier' | 'later' | 'same day';
+  score: number;
+  reasons: RelatedReason[];
+}
+
+const TIMING_BADGES: { [timing: string]: string } = {
+  earlier: 'apple-badge-gray',
+  later: 'apple-badge-blue',
+  'same day': 'apple-badge-purple'
+};
+
+/**
+ * Deals connected to this one, with why, so a story can be followed across
+ * the timeline
+ */
+export default function RelatedDeals({ dealId }: { dealId: number }) {
+  const [related, setRelated] = useState<RelatedDeal[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRelated(null);
+    setError(null);
+
+    fetch(`/api/deals/${dealId}/related`)
+      .then(response => response.json().then(data => ({ ok: response.ok, data })))
+      .then(({ ok, data }) => {
+        if (!ok) throw new Error(data.error || 'Failed to load related deals');
+        setRelated(data.related);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load related deals'));
+  }, [dealId]);
+
+  if (error) return <p className="apple-caption">{error}</p>;
+  if (!related) return <p className="apple-caption">Loading...</p>;
+  return <RelatedDealList related={related} />;
+}
+
+/**
+ * The related deals themselves, for pages that load them on the server
+ */
+export function RelatedDealList({ related }: { related: RelatedDeal[] }) {
+  if (related.length === 0) return <p className="apple-caption">No related deals found.</p>;
+
+  return (
+    <ul className="space-y-4">
+      {related.map(deal => (
+        <li key={deal.id} className="pb-4 border-b border-gray-100">
+          <div className="flex items-center gap-2 mb-1">
+            <span className={`apple-badge ${TIMING_BADGES[deal.timing]}`}>{deal.timing}</span>
+            <span className="apple-caption">{format(new Date(deal.date), 'MMM d, yyyy')} · {deal.source}</span>
+          </div>
+          <a href={`/deals/${deal.id}`} className="apple-small font-medium hover:opacity-80">
+            {deal.title.replace(/\*\*/g, '')}
+          </a>
+          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+            {deal.reasons.map(reason => (
+              reason.entity ? (
+                <a key={`${reason.type}-${reason.entity.id}`} href={`/entity/${reason.entity.slug}`} className="apple-caption hover:opacity-80">
+                  {reason.label}
+                </a>
+              ) : (
+                <span key={reason.type} className="apple-caption">{reason.label}</span>
+              )
+            ))}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
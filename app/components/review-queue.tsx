@@ -0,0 +1,421 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { flattenTaxonomy, categoryLabel } from '@/lib/taxonomy';
+import { formatAmount } from '@/lib/deal-terms';
+import { TOKEN_STORAGE_KEY } from './deal-editor';
+
+interface QueueDeal {
+  id: number;
+  date: string;
+  title: string;
+  summary: string;
+  source: string;
+  source_url?: string;
+  category: string;
+  status: string;
+  confidence?: number | null;
+  review_reasons?: string[] | null;
+  provenance?: string;
+  submitted_by?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  deleted_at?: string | null;
+  deleted_reason?: string | null;
+  merged_into?: number | null;
+  purge_at?: string;
+}
+
+interface QueueTerms {
+  deal_id: number;
+  amount: number | null;
+  currency: string | null;
+}
+
+interface InlineEdit {
+  title: string;
+  summary: string;
+  category: string;
+  date: string;
+}
+
+const STATUS_TABS: { status: string; label: string }[] = [
+  { status: 'pending_review', label: 'Pending Review' },
+  { status: 'draft', label: 'Drafts' },
+  { status: 'rejected', label: 'Rejected' },
+  { status: 'published', label: 'Published' },
+  { status: 'trash', label: 'Trash' }
+];
+
+const TRASH = 'trash';
+
+const confidenceBadge = (confidence: number | null | undefined): string => {
+  if (confidence === null || confidence === undefined) return 'apple-badge-gray';
+  return confidence >= 0.6 ? 'apple-badge-green' : 'apple-badge-orange';
+};
+
+export default function ReviewQueue() {
+  const [token, setToken] = useState<string>('');
+  const [tokenInput, setTokenInput] = useState<string>('');
+  const [status, setStatus] = useState('pending_review');
+  const [deals, setDeals] = useState<QueueDeal[]>([]);
+  const [terms, setTerms] = useState<{ [dealId: number]: QueueTerms }>({});
+  const [counts, setCounts] = useState<{ [status: string]: number }>({});
+  const [selected, setSelected] = useState<number[]>([]);
+  const [editing, setEditing] = useState<number | null>(null);
+  const [edit, setEdit] = useState<InlineEdit | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(TOKEN_STORAGE_KEY);
+    if (stored) {
+      setToken(stored);
+      setTokenInput(stored);
+    }
+  }, []);
+
+  const authHeaders = useCallback(
+    () => ({ 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }),
+    [token]
+  );
+
+  const loadQueue = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const url = status === TRASH ? '/api/deals/trash' : `/api/review?status=${status}`;
+      const response = await fetch(url, { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load review queue');
+
+      const termsByDeal: { [dealId: number]: QueueTerms } = {};
+      (data.terms || []).forEach((dealTerms: QueueTerms) => {
+        termsByDeal[dealTerms.deal_id] = dealTerms;
+      });
+
+      setDeals(data.deals || []);
+      setTerms(termsByDeal);
+      if (data.counts) setCounts(data.counts);
+      setSelected([]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, status, authHeaders]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleTokenSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = tokenInput.trim();
+    if (!value) return;
+    window.localStorage.setItem(TOKEN_STORAGE_KEY, value);
+    setToken(value);
+  };
+
+  const handleBulk = async (action: 'approve' | 'reject' | 'requeue', ids: number[] = selected) => {
+    if (ids.length === 0) return;
+    setBusy(true);
+    try {
+      const response = await fetch('/api/review', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ ids, action })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to review deals');
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review deals');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (ids: number[] = selected) => {
+    if (ids.length === 0) return;
+    setBusy(true);
+    try {
+      for (const id of ids) {
+        const response = await fetch(`/api/deals/${id}/restore`, { method: 'POST', headers: authHeaders() });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to restore deal');
+      }
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore deal');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEdit = (deal: QueueDeal) => {
+    setEditing(deal.id);
+    setEdit({ title: deal.title, summary: deal.summary, category: deal.category, date: deal.date });
+  };
+
+  const saveEdit = async (dealId: number) => {
+    if (!edit) return;
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/deals/${dealId}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify(edit)
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save deal');
+
+      setDeals(current => current.map(deal => (deal.id === dealId ? { ...deal, ...data.deal } : deal)));
+      setEditing(null);
+      setEdit(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save deal');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleSelected = (dealId: number) => {
+    setSelected(current => (current.includes(dealId) ? current.filter(id => id !== dealId) : current.concat(dealId)));
+  };
+
+  if (!token) {
+    return (
+      <div className="apple-card p-6">
+        <h2 className="apple-headline text-lg mb-1">Editor Access</h2>
+        <p className="apple-caption mb-6">Enter your editor token to review deals.</p>
+        <form onSubmit={handleTokenSubmit} className="flex items-center space-x-3">
+          <input
+            type="password"
+            required
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="Editor token"
+            className="apple-input flex-1"
+          />
+          <button type="submit" className="apple-button apple-button-primary">Continue</button>
+        </form>
+      </div>
+    );
+  }
+
+  const taxonomy = flattenTaxonomy();
+  const allSelected = deals.length > 0 && selected.length === deals.length;
+
+  return (
+    <div className="space-y-6">
+      {/* Status tabs */}
+      <div className="flex flex-wrap gap-2">
+        {STATUS_TABS.map(tab => (
+          <button
+            key={tab.status}
+            onClick={() => setStatus(tab.status)}
+            className={`apple-button ${status === tab.status ? 'apple-button-primary' : 'apple-button-secondary'}`}
+          >
+            {tab.status === TRASH ? tab.label : `${tab.label} (${counts[tab.status] || 0})`}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="apple-card p-4" style={{ background: 'rgba(255, 59, 48, 0.05)', borderColor: 'var(--apple-red)' }}>
+          <p className="apple-body">{error}</p>
+        </div>
+      )}
+
+      {/* Bulk actions */}
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-2 apple-caption">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() => setSelected(allSelected ? [] : deals.map(deal => deal.id))}
+          />
+          <span>{selected.length > 0 ? `${selected.length} selected` : 'Select all'}</span>
+        </label>
+        {status === TRASH ? (
+          <button onClick={() => handleRestore()} disabled={busy || selected.length === 0} className="apple-button apple-button-primary">
+            Restore
+          </button>
+        ) : (
+          <div className="flex items-center space-x-3">
+            {status !== 'published' && (
+              <button onClick={() => handleBulk('approve')} disabled={busy || selected.length === 0} className="apple-button apple-button-primary">
+                Approve
+              </button>
+            )}
+            {status !== 'rejected' && (
+              <button onClick={() => handleBulk('reject')} disabled={busy || selected.length === 0} className="apple-button apple-button-secondary">
+                Reject
+              </button>
+            )}
+            {status !== 'pending_review' && (
+              <button onClick={() => handleBulk('requeue')} disabled={busy || selected.length === 0} className="apple-button apple-button-ghost">
+                Back to queue
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="apple-caption">Loading...</p>
+      ) : deals.length === 0 ? (
+        <div className="apple-card p-6">
+          <p className="apple-caption">Nothing here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {deals.map(deal => {
+            const dealTerms = terms[deal.id];
+            const isEditing = editing === deal.id && edit;
+
+            return (
+              <div key={deal.id} className="apple-card p-6">
+                <div className="flex items-start space-x-4">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={selected.includes(deal.id)}
+                    onChange={() => toggleSelected(deal.id)}
+                  />
+                  <div className="flex-1 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`apple-badge ${confidenceBadge(deal.confidence)}`}>
+                        {deal.confidence === null || deal.confidence === undefined
+                          ? 'No score'
+                          : `${Math.round(deal.confidence * 100)}% confidence`}
+                      </span>
+                      {(deal.review_reasons || []).map(reason => (
+                        <span key={reason} className="apple-badge apple-badge-gray">{reason}</span>
+                      ))}
+                      {deal.deleted_at && (
+                        <span className="apple-badge apple-badge-orange">
+                          Deleted {format(new Date(deal.deleted_at), 'MMM d')}
+                          {deal.purge_at ? ` · purged ${format(new Date(deal.purge_at), 'MMM d')}` : ''}
+                        </span>
+                      )}
+                      {deal.merged_into && (
+                        <span className="apple-badge apple-badge-gray">Merged into #{deal.merged_into}</span>
+                      )}
+                      {deal.provenance === 'manual' && (
+                        <span className="apple-badge apple-badge-blue">Manual{deal.submitted_by ? ` · ${deal.submitted_by}` : ''}</span>
+                      )}
+                    </div>
+
+                    {isEditing ? (
+                      <div className="space-y-3">
+                        <input
+                          value={edit!.title}
+                          onChange={(e) => setEdit({ ...edit!, title: e.target.value })}
+                          className="apple-input w-full"
+                        />
+                        <textarea
+                          value={edit!.summary}
+                          onChange={(e) => setEdit({ ...edit!, summary: e.target.value })}
+                          rows={4}
+                          className="apple-input w-full"
+                        />
+                        <div className="apple-grid apple-grid-2">
+                          <input
+                            type="date"
+                            value={edit!.date}
+                            onChange={(e) => setEdit({ ...edit!, date: e.target.value })}
+                            className="apple-input w-full"
+                          />
+                          <select
+                            value={edit!.category}
+                            onChange={(e) => setEdit({ ...edit!, category: e.target.value })}
+                            className="apple-select w-full"
+                          >
+                            {taxonomy.map(node => (
+                              <option key={node.path} value={node.path}>{'  '.repeat(node.depth)}{node.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <button onClick={() => saveEdit(deal.id)} disabled={busy} className="apple-button apple-button-primary">
+                            Save
+                          </button>
+                          <button
+                            onClick={() => {
+                              setEditing(null);
+                              setEdit(null);
+                            }}
+                            className="apple-button apple-button-ghost"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div>
+                        <h3 className="apple-headline">{deal.title.replace(/\*\*/g, '')}</h3>
+                        <p className="apple-small mt-1">
+                          {deal.date} · {categoryLabel(deal.category)} · {deal.source}
+                          {dealTerms && dealTerms.amount ? ` · ${formatAmount(dealTerms.amount, dealTerms.currency)}` : ''}
+                        </p>
+                        <p className="apple-body mt-3">{deal.summary.replace(/\*\*/g, '')}</p>
+                        {deal.deleted_reason && (
+                          <p className="apple-caption mt-2">Deleted: {deal.deleted_reason}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {!isEditing && status === TRASH && (
+                      <div className="flex flex-wrap items-center gap-4 apple-caption">
+                        <button onClick={() => handleRestore([deal.id])} disabled={busy} className="hover:opacity-80">
+                          Restore
+                        </button>
+                        {deal.source_url && (
+                          <a href={deal.source_url} target="_blank" rel="noopener noreferrer" className="hover:opacity-80">
+                            Source ↗
+                          </a>
+                        )}
+                      </div>
+                    )}
+
+                    {!isEditing && status !== TRASH && (
+                      <div className="flex flex-wrap items-center gap-4 apple-caption">
+                        {status !== 'published' && (
+                          <button onClick={() => handleBulk('approve', [deal.id])} disabled={busy} className="hover:opacity-80">
+                            Approve
+                          </button>
+                        )}
+                        {status !== 'rejected' && (
+                          <button onClick={() => handleBulk('reject', [deal.id])} disabled={busy} className="hover:opacity-80">
+                            Reject
+                          </button>
+                        )}
+                        <button onClick={() => startEdit(deal)} className="hover:opacity-80">Edit</button>
+                        <Link href={`/submit?id=${deal.id}`} className="hover:opacity-80">Full editor →</Link>
+                        {deal.source_url && (
+                          <a href={deal.source_url} target="_blank" rel="noopener noreferrer" className="hover:opacity-80">
+                            Source ↗
+                          </a>
+                        )}
+                        {deal.reviewed_by && (
+                          <span>Reviewed by {deal.reviewed_by}</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useState } from 'react';
+
+/**
+ * Upvote control for pages rendered on the server
+ */
+export default function UpvoteButton({ dealId, initialUpvotes }: { dealId: number; initialUpvotes: number }) {
+  const [upvotes, setUpvotes] = useState(initialUpvotes);
+  const [upvoting, setUpvoting] = useState(false);
+
+  const handleUpvote = async () => {
+    if (upvoting) return;
+
+    setUpvoting(true);
+    try {
+      const response = await fetch('/api/deals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'upvote', articleId: dealId }),
+      });
+
+      if (response.ok) {
+        setUpvotes(upvotes + 1);
+      }
+    } catch (error) {
+      console.error('Error upvoting:', error);
+    } finally {
+      setUpvoting(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleUpvote}
+      disabled={upvoting}
+      className="ml-6 flex flex-col items-center p-3 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+    >
+      <svg className="w-5 h-5 mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+      </svg>
+      <span className="apple-small font-medium">{upvotes}</span>
+    </button>
+  );
+}
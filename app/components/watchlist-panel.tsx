@@ -0,0 +1,459 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { categoryLabel, flattenTaxonomy } from '@/lib/taxonomy';
+
+interface EntityOption {
+  id: number;
+  slug: string;
+  canonical_name: string;
+  type: string;
+}
+
+interface Watchlist {
+  id: number;
+  name: string;
+  owner: string;
+  entity_ids: number[];
+  categories: string[];
+  keywords: string[];
+  notify_email: string | null;
+  notify_webhook: string | null;
+  active: boolean;
+  created_at: string;
+}
+
+interface WatchlistAlertRow {
+  id: number;
+  deal_id: number;
+  reasons: string[];
+  delivered_at: string | null;
+  delivery_error: string | null;
+  created_at: string;
+  deal: { id: number; title: string; date: string; source_url?: string } | null;
+}
+
+interface WatchlistForm {
+  name: string;
+  entities: EntityOption[];
+  categories: string[];
+  keywords: string;
+  notifyEmail: string;
+  notifyWebhook: string;
+}
+
+// Analysts have no accounts - the email is remembered in this browser
+const OWNER_STORAGE_KEY = 'watchlistOwner';
+
+const EMPTY_FORM: WatchlistForm = {
+  name: '',
+  entities: [],
+  categories: [],
+  keywords: '',
+  notifyEmail: '',
+  notifyWebhook: ''
+};
+
+export default function WatchlistPanel() {
+  const [owner, setOwner] = useState<string>('');
+  const [ownerInput, setOwnerInput] = useState<string>('');
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [entityNames, setEntityNames] = useState<{ [id: number]: string }>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<WatchlistForm>(EMPTY_FORM);
+  const [entityQuery, setEntityQuery] = useState('');
+  const [entityResults, setEntityResults] = useState<EntityOption[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [alerts, setAlerts] = useState<WatchlistAlertRow[]>([]);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(OWNER_STORAGE_KEY);
+    if (stored) {
+      setOwner(stored);
+      setOwnerInput(stored);
+    }
+
+    fetch('/api/entities')
+      .then(response => response.json())
+      .then(data => {
+        const names: { [id: number]: string } = {};
+        (data.entities || []).forEach((entity: EntityOption) => { names[entity.id] = entity.canonical_name; });
+        setEntityNames(names);
+      })
+      .catch(err => console.error('Error loading entities:', err));
+  }, []);
+
+  useEffect(() => {
+    if (owner) loadWatchlists(owner);
+  }, [owner]);
+
+  // Debounced entity lookup for the picker
+  useEffect(() => {
+    if (entityQuery.trim().length < 2) {
+      setEntityResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/entities?q=${encodeURIComponent(entityQuery.trim())}`);
+        const data = await response.json();
+        setEntityResults((data.entities || []).slice(0, 8));
+      } catch (err) {
+        console.error('Error searching entities:', err);
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [entityQuery]);
+
+  const loadWatchlists = async (ownerEmail: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/watchlists?owner=${encodeURIComponent(ownerEmail)}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load watchlists');
+      setWatchlists(data.watchlists || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load watchlists');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOwnerSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = ownerInput.trim().toLowerCase();
+    if (!email) return;
+    window.localStorage.setItem(OWNER_STORAGE_KEY, email);
+    setOwner(email);
+    setForm(current => ({ ...current, notifyEmail: current.notifyEmail || email }));
+  };
+
+  const addEntity = (entity: EntityOption) => {
+    setForm(current => current.entities.some(e => e.id === entity.id)
+      ? current
+      : { ...current, entities: [...current.entities, entity] });
+    setEntityNames(current => ({ ...current, [entity.id]: entity.canonical_name }));
+    setEntityQuery('');
+    setEntityResults([]);
+  };
+
+  const toggleCategory = (path: string) => {
+    setForm(current => ({
+      ...current,
+      categories: current.categories.includes(path)
+        ? current.categories.filter(c => c !== path)
+        : [...current.categories, path]
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/watchlists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          owner,
+          entity_ids: form.entities.map(entity => entity.id),
+          categories: form.categories,
+          keywords: form.keywords,
+          notify_email: form.notifyEmail,
+          notify_webhook: form.notifyWebhook
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create watchlist');
+
+      setWatchlists(current => [data.watchlist, ...current]);
+      setForm({ ...EMPTY_FORM, notifyEmail: form.notifyEmail });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create watchlist');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (watchlist: Watchlist) => {
+    try {
+      const response = await fetch(`/api/watchlists/${watchlist.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ owner, active: !watchlist.active })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update watchlist');
+      setWatchlists(current => current.map(w => (w.id === watchlist.id ? data.watchlist : w)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update watchlist');
+    }
+  };
+
+  const deleteWatchlist = async (watchlist: Watchlist) => {
+    if (!window.confirm(`Delete the watchlist "${watchlist.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/watchlists/${watchlist.id}?owner=${encodeURIComponent(owner)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to delete watchlist');
+      setWatchlists(current => current.filter(w => w.id !== watchlist.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete watchlist');
+    }
+  };
+
+  const toggleAlerts = async (watchlist: Watchlist) => {
+    if (expandedId === watchlist.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(watchlist.id);
+    setAlerts([]);
+    try {
+      const response = await fetch(`/api/watchlists/${watchlist.id}?owner=${encodeURIComponent(owner)}&limit=20`);
+      const data = await response.json();
+      setAlerts(data.alerts || []);
+    } catch (err) {
+      console.error('Error loading alerts:', err);
+    }
+  };
+
+  if (!owner) {
+    return (
+      <div className="apple-card p-6">
+        <h2 className="apple-headline text-lg mb-1">Your Watchlists</h2>
+        <p className="apple-caption mb-6">Enter your email to manage the managers, borrowers, sectors and keywords you follow.</p>
+        <form onSubmit={handleOwnerSubmit} className="flex items-center space-x-3">
+          <input
+            type="email"
+            required
+            value={ownerInput}
+            onChange={(e) => setOwnerInput(e.target.value)}
+            placeholder="you@firm.com"
+            className="apple-input flex-1"
+          />
+          <button type="submit" className="apple-button apple-button-primary">Continue</button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <p className="apple-caption">Signed in as <span className="font-medium">{owner}</span></p>
+        <button
+          onClick={() => {
+            window.localStorage.removeItem(OWNER_STORAGE_KEY);
+            setOwner('');
+            setWatchlists([]);
+          }}
+          className="apple-caption hover:opacity-80"
+        >
+          Switch email
+        </button>
+      </div>
+
+      {error && (
+        <div className="apple-card p-4" style={{ background: 'rgba(255, 59, 48, 0.05)', borderColor: 'var(--apple-red)' }}>
+          <p className="apple-body">{error}</p>
+        </div>
+      )}
+
+      {/* New watchlist */}
+      <form onSubmit={handleCreate} className="apple-card p-6 space-y-6">
+        <div>
+          <h2 className="apple-headline text-lg mb-1">New Watchlist</h2>
+          <p className="apple-caption">You are alerted when a newly saved deal matches any entity, sector or keyword.</p>
+        </div>
+
+        <div>
+          <label className="block apple-caption mb-3">Name</label>
+          <input
+            required
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. Direct lending - sponsors I cover"
+            className="apple-input w-full"
+          />
+        </div>
+
+        <div>
+          <label className="block apple-caption mb-3">Managers, Borrowers & Sponsors</label>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {form.entities.map(entity => (
+              <button
+                key={entity.id}
+                type="button"
+                onClick={() => setForm({ ...form, entities: form.entities.filter(e => e.id !== entity.id) })}
+                className="apple-badge apple-badge-blue"
+                title="Remove"
+              >
+                {entity.canonical_name} ×
+              </button>
+            ))}
+          </div>
+          <div className="relative">
+            <input
+              value={entityQuery}
+              onChange={(e) => setEntityQuery(e.target.value)}
+              placeholder="Search the entity registry, e.g. Apollo"
+              className="apple-input w-full"
+            />
+            {entityResults.length > 0 && (
+              <div className="absolute z-10 left-0 right-0 mt-1 apple-card p-2">
+                {entityResults.map(entity => (
+                  <button
+                    key={entity.id}
+                    type="button"
+                    onClick={() => addEntity(entity)}
+                    className="block w-full text-left px-3 py-2 rounded hover:bg-gray-50"
+                  >
+                    <span className="apple-body">{entity.canonical_name}</span>
+                    <span className="apple-small ml-2">{entity.type}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="block apple-caption mb-3">Sectors</label>
+          <div className="flex flex-wrap gap-2">
+            {flattenTaxonomy().map(node => (
+              <button
+                key={node.path}
+                type="button"
+                onClick={() => toggleCategory(node.path)}
+                className={`apple-badge ${form.categories.includes(node.path) ? 'apple-badge-blue' : 'apple-badge-gray'}`}
+                title={node.path}
+              >
+                {node.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block apple-caption mb-3">Keywords</label>
+          <input
+            value={form.keywords}
+            onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+            placeholder="Comma-separated, e.g. data center, NAV loan, software"
+            className="apple-input w-full"
+          />
+        </div>
+
+        <div className="apple-grid apple-grid-2">
+          <div>
+            <label className="block apple-caption mb-3">Email Alerts To</label>
+            <input
+              type="email"
+              value={form.notifyEmail}
+              onChange={(e) => setForm({ ...form, notifyEmail: e.target.value })}
+              placeholder={owner}
+              className="apple-input w-full"
+            />
+          </div>
+          <div>
+            <label className="block apple-caption mb-3">Webhook URL (optional)</label>
+            <input
+              type="url"
+              value={form.notifyWebhook}
+              onChange={(e) => setForm({ ...form, notifyWebhook: e.target.value })}
+              placeholder="https://hooks.slack.com/services/..."
+              className="apple-input w-full"
+            />
+          </div>
+        </div>
+
+        <button type="submit" disabled={saving} className="apple-button apple-button-primary">
+          {saving ? 'Saving...' : 'Create Watchlist'}
+        </button>
+      </form>
+
+      {/* Existing watchlists */}
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="apple-spinner mx-auto"></div>
+        </div>
+      ) : watchlists.length === 0 ? (
+        <p className="apple-caption text-center py-8">No watchlists yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {watchlists.map(watchlist => (
+            <div key={watchlist.id} className="apple-card p-6">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <h3 className="apple-headline text-lg">{watchlist.name}</h3>
+                  <p className="apple-small">
+                    {[watchlist.notify_email, watchlist.notify_webhook && 'webhook'].filter(Boolean).join(' · ') || 'No delivery configured'}
+                  </p>
+                </div>
+                <span className={`apple-badge ${watchlist.active ? 'apple-badge-green' : 'apple-badge-gray'}`}>
+                  {watchlist.active ? 'Active' : 'Paused'}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap gap-2 mb-4">
+                {watchlist.entity_ids.map(id => (
+                  <span key={`e-${id}`} className="apple-badge apple-badge-blue">{entityNames[id] || `Entity #${id}`}</span>
+                ))}
+                {watchlist.categories.map(category => (
+                  <span key={`c-${category}`} className="apple-badge apple-badge-purple" title={category}>{categoryLabel(category)}</span>
+                ))}
+                {watchlist.keywords.map(keyword => (
+                  <span key={`k-${keyword}`} className="apple-badge apple-badge-gray">“{keyword}”</span>
+                ))}
+              </div>
+
+              <div className="flex items-center space-x-4">
+                <button onClick={() => toggleAlerts(watchlist)} className="apple-caption hover:opacity-80">
+                  {expandedId === watchlist.id ? 'Hide alerts' : 'Recent alerts'}
+                </button>
+                <button onClick={() => toggleActive(watchlist)} className="apple-caption hover:opacity-80">
+                  {watchlist.active ? 'Pause' : 'Resume'}
+                </button>
+                <button onClick={() => deleteWatchlist(watchlist)} className="apple-caption hover:opacity-80" style={{ color: 'var(--apple-red)' }}>
+                  Delete
+                </button>
+              </div>
+
+              {expandedId === watchlist.id && (
+                <div className="mt-4 border-t border-gray-200 pt-4 space-y-3">
+                  {alerts.length === 0 ? (
+                    <p className="apple-small">No alerts yet.</p>
+                  ) : alerts.map(alert => (
+                    <div key={alert.id}>
+                      <div className="apple-body">
+                        {alert.deal?.source_url ? (
+                          <a href={alert.deal.source_url} target="_blank" rel="noopener noreferrer" className="hover:opacity-80">
+                            {alert.deal.title}
+                          </a>
+                        ) : (alert.deal?.title || `Deal #${alert.deal_id}`)}
+                      </div>
+                      <div className="apple-small">
+                        {format(new Date(alert.created_at), 'MMM d, yyyy h:mm a')} · {alert.reasons.join(', ')}
+                        {alert.delivery_error && <span style={{ color: 'var(--apple-red)' }}> · not delivered: {alert.delivery_error}</span>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
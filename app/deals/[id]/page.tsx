@@ -0,0 +1,207 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { format } from 'date-fns';
+import { getDatabase } from '@/lib/database';
+import { getDealDetail } from '@/lib/deal-detail';
+import { formatAmount } from '@/lib/deal-terms';
+import { getSiteUrl } from '@/lib/site';
+import { DEFAULT_CATEGORY, categoryLabel } from '@/lib/taxonomy';
+import { formatSummaryWithBold, getCategoryBadge, getRegionFlag } from '../../components/deal-format';
+import { RelatedDealList } from '../../components/related-deals';
+import UpvoteButton from '../../components/upvote-button';
+
+// Always render from the live database
+export const dynamic = 'force-dynamic';
+
+interface DealPageProps {
+  params: { id: string };
+}
+
+const plainText = (text: string): string => text.replace(/\*\*/g, '').replace(/\s+/g, ' ').trim();
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.substring(0, length - 1).trim()}…` : text;
+
+function TermRow({ label, value }: { label: string; value: string | null }) {
+  if (!value) return null;
+  return (
+    <li className="flex justify-between apple-body">
+      <span className="apple-caption">{label}</span>
+      <span className="text-right ml-4">{value}</span>
+    </li>
+  );
+}
+
+export async function generateMetadata({ params }: DealPageProps): Promise<Metadata> {
+  const dealId = parseInt(params.id, 10);
+  const deal = dealId > 0 ? await getDatabase().getDealById(dealId) : null;
+  if (!deal || deal.deleted_at || (deal.status && deal.status !== 'published')) return { title: 'Deal not found' };
+
+  const siteUrl = getSiteUrl();
+  const title = plainText(deal.title);
+  const description = truncate(plainText(deal.summary), 200);
+
+  return {
+    title: `${title} | Private Credit Intelligence`,
+    description,
+    metadataBase: siteUrl ? new URL(siteUrl) : undefined,
+    alternates: { canonical: `/deals/${dealId}` },
+    openGraph: {
+      type: 'article',
+      title,
+      description,
+      url: `/deals/${dealId}`,
+      siteName: 'Private Credit Intelligence',
+      publishedTime: deal.date,
+      section: categoryLabel(deal.deal_type || deal.category),
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+  };
+}
+
+export default async function DealPage({ params }: DealPageProps) {
+  const dealId = parseInt(params.id, 10);
+  const lookup = await getDealDetail(dealId);
+
+  if (!lookup.found) {
+    // Shared links to a merged duplicate land on the deal it was merged into
+    if (lookup.mergedInto) redirect(`/deals/${lookup.mergedInto}`);
+    notFound();
+  }
+
+  const { deal, terms, sources, entities, related } = lookup.detail;
+  const type = deal.deal_type || deal.category || DEFAULT_CATEGORY;
+  const region = deal.region || 'Global';
+  const firstSeen = sources.reduce<string | null>(
+    (earliest, source) => (source.first_seen_at && (!earliest || source.first_seen_at < earliest) ? source.first_seen_at : earliest),
+    deal.created_at || null
+  );
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="apple-container">
+
+        {/* Header */}
+        <div className="py-12">
+          <Link href="/" className="apple-caption hover:opacity-80">
+            ← All deals
+          </Link>
+          <div className="flex justify-between items-start mt-6">
+            <div className="flex-1">
+              <div className="flex items-center space-x-3 mb-4">
+                <span className={`apple-badge ${getCategoryBadge(type)}`} title={type}>
+                  {categoryLabel(type)}
+                </span>
+                <span className="apple-badge apple-badge-gray">
+                  {getRegionFlag(region)} {region}
+                </span>
+                <span className="apple-small">{format(new Date(deal.date), 'MMM d, yyyy')}</span>
+                {terms?.amount && (
+                  <span className="apple-small font-medium">{formatAmount(terms.amount, terms.currency)}</span>
+                )}
+              </div>
+              <h1 className="apple-title text-4xl mb-3 leading-tight">{plainText(deal.title)}</h1>
+              <p className="apple-caption">
+                {deal.source}
+                {firstSeen ? ` · First seen ${format(new Date(firstSeen), 'MMM d, yyyy h:mm a')}` : ''}
+              </p>
+            </div>
+            <UpvoteButton dealId={deal.id!} initialUpvotes={deal.upvotes || 0} />
+          </div>
+        </div>
+
+        <div className="apple-grid apple-grid-3 mb-8">
+          {/* Summary and full content */}
+          <div className="apple-card p-8" style={{ gridColumn: 'span 2' }}>
+            {deal.source_url && (
+              <div className="mb-6">
+                <a
+                  href={deal.source_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center px-4 py-2 bg-blue-50 hover:bg-blue-100 text-blue-700 text-sm font-medium rounded-lg transition-colors"
+                >
+                  Read Original Article
+                </a>
+              </div>
+            )}
+            <div className="apple-body leading-relaxed mb-8">
+              {formatSummaryWithBold(deal.summary)}
+            </div>
+            {deal.content && deal.content !== deal.summary && (
+              <>
+                <h2 className="apple-headline text-lg mb-3">Full Content</h2>
+                <div className="apple-body leading-relaxed whitespace-pre-wrap">{deal.content}</div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {/* Structured terms */}
+            <div className="apple-card p-6">
+              <h2 className="apple-headline text-lg mb-4">Terms</h2>
+              {!terms ? (
+                <p className="apple-caption">No structured terms recorded</p>
+              ) : (
+                <ul className="space-y-2">
+                  <TermRow label="Amount" value={formatAmount(terms.amount, terms.currency) || null} />
+                  <TermRow label="Instrument" value={terms.instrument_type} />
+                  <TermRow label="Pricing" value={terms.pricing} />
+                  <TermRow label="Tenor" value={terms.tenor} />
+                  <TermRow label="Use of proceeds" value={terms.use_of_proceeds} />
+                  {terms.parties.map(party => (
+                    <TermRow key={`${party.role}-${party.name}`} label={party.role} value={party.name} />
+                  ))}
+                </ul>
+              )}
+              {entities.length > 0 && (
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-4">
+                  {entities.map(({ entity, roles }) => (
+                    <Link key={entity.id} href={`/entity/${entity.slug}`} className="apple-caption text-blue-700 hover:underline">
+                      {entity.canonical_name}{roles.filter(role => role !== 'mentioned').length > 0 ? ` (${roles.filter(role => role !== 'mentioned').join(', ')})` : ''}
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Every publication that reported the deal */}
+            <div className="apple-card p-6">
+              <h2 className="apple-headline text-lg mb-4">
+                {sources.length > 0 ? `Reported by ${sources.length + 1} sources` : 'Source'}
+              </h2>
+              <ul className="space-y-2">
+                <li className="apple-body">
+                  {deal.source_url ? (
+                    <a href={deal.source_url} target="_blank" rel="noopener noreferrer" className="text-blue-700 hover:underline">{deal.source} ↗</a>
+                  ) : deal.source}
+                </li>
+                {sources.map(source => (
+                  <li key={source.merged_deal_id} className="apple-body">
+                    {source.source_url ? (
+                      <a href={source.source_url} target="_blank" rel="noopener noreferrer" className="text-blue-700 hover:underline">{source.source} ↗</a>
+                    ) : source.source}
+                    <div className="apple-small">{plainText(source.title)}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+
+        {/* Related deals */}
+        <div className="mb-16">
+          <h2 className="apple-headline text-2xl mb-6">Related Deals</h2>
+          <div className="apple-card p-8">
+            <RelatedDealList related={related} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
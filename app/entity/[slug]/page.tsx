@@ -0,0 +1,197 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { buildEntityProfile, findEntity, VolumeBucket } from '@/lib/entity-profile';
+import { formatAmount } from '@/lib/deal-terms';
+import { DEFAULT_CATEGORY, categoryLabel } from '@/lib/taxonomy';
+import { formatSummaryWithBold, getCategoryBadge } from '../../components/deal-format';
+
+// Always render from the live database
+export const dynamic = 'force-dynamic';
+
+interface EntityPageProps {
+  params: { slug: string };
+}
+
+const ENTITY_TYPE_LABELS: { [key: string]: string } = {
+  manager: 'Manager',
+  fund: 'Fund',
+  borrower: 'Borrower',
+  sponsor: 'Sponsor',
+  lender: 'Lender',
+  other: 'Entity',
+};
+
+const formatVolume = (bucket: VolumeBucket): string => {
+  if (!bucket.total) return 'Undisclosed';
+  return formatAmount(bucket.total, bucket.currency === 'N/A' ? null : bucket.currency);
+};
+
+export async function generateMetadata({ params }: EntityPageProps): Promise<Metadata> {
+  const entity = await findEntity(params.slug);
+  if (!entity) return { title: 'Entity not found' };
+
+  return {
+    title: `${entity.canonical_name} | Private Credit Intelligence`,
+    description: `Deal history, disclosed volume and counterparties for ${entity.canonical_name}`,
+    alternates: {
+      types: { 'application/rss+xml': `/feed.xml?entity=${entity.slug}` },
+    },
+  };
+}
+
+export default async function EntityPage({ params }: EntityPageProps) {
+  const entity = await findEntity(params.slug);
+  if (!entity) notFound();
+
+  const profile = await buildEntityProfile(entity);
+  const { stats } = profile;
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="apple-container">
+
+        {/* Header */}
+        <div className="py-12">
+          <Link href="/" className="apple-caption hover:opacity-80">
+            ← All deals
+          </Link>
+          <div className="flex items-center space-x-3 mt-6 mb-3">
+            <span className="apple-badge apple-badge-blue">
+              {ENTITY_TYPE_LABELS[entity.type] || 'Entity'}
+            </span>
+            {entity.tickers.map(ticker => (
+              <span key={ticker} className="apple-badge apple-badge-gray">{ticker}</span>
+            ))}
+          </div>
+          <h1 className="apple-title text-4xl mb-3">{entity.canonical_name}</h1>
+          {entity.aliases.length > 0 && (
+            <p className="apple-caption">Also known as {entity.aliases.join(', ')}</p>
+          )}
+          <p className="apple-caption mt-2">
+            Follow: <a href={`/feed.xml?entity=${entity.slug}`} className="hover:opacity-80">RSS</a>
+            {' · '}<a href={`/atom.xml?entity=${entity.slug}`} className="hover:opacity-80">Atom</a>
+            {' · '}<a href={`/feed.json?entity=${entity.slug}`} className="hover:opacity-80">JSON Feed</a>
+          </p>
+        </div>
+
+        {/* Statistics */}
+        <div className="mb-8">
+          <div className="apple-grid apple-grid-4">
+            <div className="apple-stat-card py-4">
+              <div className="text-2xl font-bold apple-title mb-1">{stats.totalDeals}</div>
+              <div className="apple-caption">Deals</div>
+            </div>
+            <div className="apple-stat-card py-4">
+              <div className="text-2xl font-bold apple-title mb-1" style={{ color: 'var(--apple-green)' }}>{stats.disclosedDeals}</div>
+              <div className="apple-caption">With Disclosed Size</div>
+            </div>
+            <div className="apple-stat-card py-4">
+              <div className="text-2xl font-bold apple-title mb-1" style={{ color: 'var(--apple-blue)' }}>
+                {stats.firstSeen ? format(new Date(stats.firstSeen), 'MMM yyyy') : '—'}
+              </div>
+              <div className="apple-caption">First Seen</div>
+            </div>
+            <div className="apple-stat-card py-4">
+              <div className="text-2xl font-bold apple-title mb-1" style={{ color: 'var(--apple-orange)' }}>
+                {stats.lastSeen ? format(new Date(stats.lastSeen), 'MMM d, yyyy') : '—'}
+              </div>
+              <div className="apple-caption">Last Seen</div>
+            </div>
+          </div>
+        </div>
+
+        {/* Volume and counterparties */}
+        <div className="apple-grid apple-grid-3 mb-8">
+          <div className="apple-card p-6">
+            <h2 className="apple-headline text-lg mb-4">Volume by Year</h2>
+            {profile.volumeByYear.length === 0 ? (
+              <p className="apple-caption">No deals yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {profile.volumeByYear.map(bucket => (
+                  <li key={`${bucket.key}-${bucket.currency}`} className="flex justify-between apple-body">
+                    <span>{bucket.key}</span>
+                    <span>{formatVolume(bucket)} <span className="apple-small">({bucket.count})</span></span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="apple-card p-6">
+            <h2 className="apple-headline text-lg mb-4">Volume by Category</h2>
+            {profile.volumeByCategory.length === 0 ? (
+              <p className="apple-caption">No deals yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {profile.volumeByCategory.map(bucket => (
+                  <li key={`${bucket.key}-${bucket.currency}`} className="flex justify-between apple-body">
+                    <span title={bucket.key}>{categoryLabel(bucket.key)}</span>
+                    <span>{formatVolume(bucket)} <span className="apple-small">({bucket.count})</span></span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="apple-card p-6">
+            <h2 className="apple-headline text-lg mb-4">Frequent Counterparties</h2>
+            {profile.topCounterparties.length === 0 ? (
+              <p className="apple-caption">No counterparties recorded</p>
+            ) : (
+              <ul className="space-y-2">
+                {profile.topCounterparties.map(counterparty => (
+                  <li key={counterparty.entity.id} className="flex justify-between apple-body">
+                    <Link href={`/entity/${counterparty.entity.slug}`} className="text-blue-700 hover:underline">
+                      {counterparty.entity.canonical_name}
+                    </Link>
+                    <span className="apple-small">{counterparty.dealCount} deal{counterparty.dealCount > 1 ? 's' : ''}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Deal timeline */}
+        <div className="mb-16">
+          <h2 className="apple-headline text-2xl mb-6">Deal Timeline</h2>
+          <div className="apple-grid gap-6">
+            {profile.deals.map(deal => (
+              <article key={deal.id} className="apple-card p-8">
+                <div className="flex items-center space-x-3 mb-4">
+                  <span className={`apple-badge ${getCategoryBadge(deal.category || DEFAULT_CATEGORY)}`} title={deal.category}>
+                    {categoryLabel(deal.category)}
+                  </span>
+                  {deal.roles.filter(role => role !== 'mentioned').map(role => (
+                    <span key={role} className="apple-badge apple-badge-gray">{role}</span>
+                  ))}
+                  <span className="apple-small">{format(new Date(deal.date), 'MMM d, yyyy')}</span>
+                  {deal.terms?.amount && (
+                    <span className="apple-small font-medium">{formatAmount(deal.terms.amount, deal.terms.currency)}</span>
+                  )}
+                </div>
+                <h3 className="apple-headline text-xl mb-3 leading-tight">{deal.title}</h3>
+                <div className="apple-body leading-relaxed">
+                  {formatSummaryWithBold(deal.summary)}
+                </div>
+                {deal.source_url && (
+                  <a
+                    href={deal.source_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-block mt-4 text-sm text-blue-700 hover:underline"
+                  >
+                    {deal.source} →
+                  </a>
+                )}
+              </article>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { feedResponse } from '@/lib/feeds';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * JSON feed of the latest deals. Optional ?category= (taxonomy path or name),
+ * ?entity= (id or slug) and ?limit=
+ */
+export async function GET(request: NextRequest) {
+  return feedResponse(request, 'json');
+}
@@ -11,6 +11,13 @@ const inter = Inter({
 export const metadata: Metadata = {
   title: 'Private Credit Intelligence',
   description: 'Real-time market updates and transaction analysis for private credit professionals',
+  alternates: {
+    types: {
+      'application/rss+xml': '/feed.xml',
+      'application/atom+xml': '/atom.xml',
+      'application/feed+json': '/feed.json',
+    },
+  },
 }
 
 export default function RootLayout({
@@ -1,7 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { format, isToday, isYesterday, isThisWeek } from 'date-fns';
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { format, isToday, isYesterday, subDays, startOfWeek, endOfWeek } from 'date-fns';
+import { formatSummaryWithBold, getCategoryBadge, getRegionFlag } from './components/deal-format';
+import DealDetailsDrawer from './components/deal-details-drawer';
+import { DEAL_REGIONS } from '@/lib/classification';
+import { DEFAULT_CATEGORY, categoryLabel, flattenTaxonomy } from '@/lib/taxonomy';
 
 interface Deal {
   id?: number;
@@ -12,126 +17,101 @@ interface Deal {
   source: string;
   source_url?: string;
   category: string;
+  region?: string | null;
+  countries?: string[];
+  deal_type?: string | null;
   upvotes?: number;
   created_at?: string;
+  sources?: DealSource[];
+  first_seen_at?: string | null;
 }
 
-// Enhanced categorization logic
-const categorizeArticle = (deal: Deal): { category: string; region: string; type: string } => {
-  const title = deal.title.toLowerCase();
-  const summary = deal.summary.toLowerCase();
-  const content = deal.content.toLowerCase();
-  
-  // Region detection
-  let region = 'Global';
-  if (title.includes('europe') || summary.includes('europe') || content.includes('europe') || 
-      title.includes('eltif') || summary.includes('eltif') || content.includes('eltif') ||
-      title.includes('€') || summary.includes('€') || content.includes('€')) {
-    region = 'Europe';
-  } else if (title.includes('us ') || title.includes('usa') || title.includes('america') || 
-             summary.includes('us ') || summary.includes('usa') || summary.includes('america') ||
-             title.includes('$') || summary.includes('$') || content.includes('$')) {
-    region = 'US';
-  } else if (title.includes('uk') || title.includes('britain') || title.includes('£') ||
-             summary.includes('uk') || summary.includes('britain') || summary.includes('£')) {
-    region = 'UK';
-  } else if (title.includes('asia') || title.includes('japan') || title.includes('china') ||
-             summary.includes('asia') || summary.includes('japan') || summary.includes('china')) {
-    region = 'Asia';
-  }
-  
-  // Type detection
-  let type = 'Market News';
-  if (title.includes('fund') && (title.includes('raise') || title.includes('launch') || title.includes('close'))) {
-    type = 'Fund Raising';
-  } else if (title.includes('private equity') || title.includes('pe ') || summary.includes('private equity')) {
-    type = 'Private Equity';
-  } else if (title.includes('credit facility') || title.includes('loan') || title.includes('financing') ||
-             title.includes('warehouse') || title.includes('revolving') || title.includes('term loan')) {
-    type = 'Credit Facility';
-  } else if (title.includes('acquisition') || title.includes('merger') || title.includes('buyout')) {
-    type = 'M&A';
-  } else if (title.includes('ipo') || title.includes('public offering') || title.includes('listing')) {
-    type = 'Public Markets';
-  } else if (title.includes('distressed') || title.includes('restructuring') || title.includes('bankruptcy')) {
-    type = 'Distressed';
-  } else if (title.includes('real estate') || title.includes('property') || title.includes('reit')) {
-    type = 'Real Estate';
-  } else if (title.includes('infrastructure') || title.includes('energy') || title.includes('utilities')) {
-    type = 'Infrastructure';
-  }
-  
-  // Category based on existing category or type
-  let category = deal.category || type;
-  
-  return { category, region, type };
-};
+// Another article merged into this deal as a duplicate
+interface DealSource {
+  merged_deal_id: number;
+  source: string;
+  source_url: string | null;
+}
 
-// Function to convert markdown-style bold formatting to HTML
-const formatSummaryWithBold = (summary: string): React.ReactNode => {
-  const parts = summary.split(/(\*\*.*?\*\*)/g);
-  
-  return parts.map((part, index) => {
-    if (part.startsWith('**') && part.endsWith('**')) {
-      // Remove the ** markers and make it bold
-      const boldText = part.slice(2, -2);
-      return <strong key={index} className="font-semibold text-gray-900">{boldText}</strong>;
-    }
-    return part;
-  });
-};
+interface ListingFilters {
+  range: string;
+  sort: string;
+  dealType: string;
+  region: string;
+}
 
-// Apple-style category badge mapping
-const getCategoryBadge = (type: string): string => {
-  const badges: { [key: string]: string } = {
-    'Fund Raising': 'apple-badge-green',
-    'Private Equity': 'apple-badge-blue',
-    'Credit Facility': 'apple-badge-purple',
-    'M&A': 'apple-badge-orange',
-    'Public Markets': 'apple-badge-blue',
-    'Distressed': 'apple-badge-orange',
-    'Real Estate': 'apple-badge-green',
-    'Infrastructure': 'apple-badge-purple',
-    'Market News': 'apple-badge-gray',
-    'Deal Activity': 'apple-badge-blue',
-  };
-  return badges[type] || 'apple-badge-gray';
+const PAGE_SIZE = 30;
+
+// Translate the time period selector into an inclusive from/to range for the listing API
+const getDateRangeBounds = (range: string): { from?: string; to?: string } => {
+  const today = new Date();
+  const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+  switch (range) {
+    case 'today':
+      return { from: day(today), to: day(today) };
+    case 'yesterday':
+      return { from: day(subDays(today, 1)), to: day(subDays(today, 1)) };
+    case '2days':
+      return { from: day(subDays(today, 2)) };
+    case 'week':
+      return { from: day(startOfWeek(today)), to: day(endOfWeek(today)) };
+    case 'lastweek':
+      return { from: day(subDays(today, 7)) };
+    case 'all':
+    default:
+      return {};
+  }
 };
 
-const getRegionFlag = (region: string): string => {
-  const flags: { [key: string]: string } = {
-    'US': '🇺🇸',
-    'Europe': '🇪🇺',
-    'UK': '🇬🇧',
-    'Asia': '🌏',
-    'Global': '🌍',
-  };
-  return flags[region] || '🌍';
+const buildListUrl = (filters: ListingFilters, cursor?: string | null): string => {
+  const params = new URLSearchParams({ sort: filters.sort, limit: String(PAGE_SIZE) });
+  const { from, to } = getDateRangeBounds(filters.range);
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  if (filters.dealType !== 'all') params.set('dealType', filters.dealType);
+  if (filters.region !== 'all') params.set('region', filters.region);
+  if (cursor) params.set('cursor', cursor);
+  params.set('t', String(Date.now())); // cache busting
+  return `/api/deals/list?${params.toString()}`;
 };
 
 export default function Home() {
   const [deals, setDeals] = useState<Deal[]>([]);
-  const [filteredDeals, setFilteredDeals] = useState<Deal[]>([]);
   const [availableDates, setAvailableDates] = useState<string[]>([]);
   const [selectedDateRange, setSelectedDateRange] = useState<string>('all');
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [selectedSort, setSelectedSort] = useState<string>('date');
+  const [selectedDealType, setSelectedDealType] = useState<string>('all');
   const [selectedRegion, setSelectedRegion] = useState<string>('all');
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [upvoting, setUpvoting] = useState<number | null>(null);
+  const [detailsDealId, setDetailsDealId] = useState<number | null>(null);
   const [apiStatus, setApiStatus] = useState<{perplexity: string, openai: string, supabase: string} | null>(null);
   const [newDealsCount, setNewDealsCount] = useState<number>(0);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
   const [isPolling, setIsPolling] = useState<boolean>(true);
   const [isManualRefreshing, setIsManualRefreshing] = useState<boolean>(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // Latest loaded deals, read by the polling interval without re-subscribing it
+  const dealsRef = useRef<Deal[]>([]);
+
+  const currentFilters: ListingFilters = {
+    range: selectedDateRange,
+    sort: selectedSort,
+    dealType: selectedDealType,
+    region: selectedRegion
+  };
 
-  // Load all deals and check API status on component mount
+  // Load the first page and check API status on component mount
   useEffect(() => {
-    handleDateRangeChange('all');
+    loadFirstPage(currentFilters);
     loadAvailableDates();
     checkApiStatus();
   }, []);
 
-  // Auto-refresh deals every 15 seconds (reduced from 30)
+  // Auto-refresh the first page every 15 seconds
   useEffect(() => {
     if (!isPolling) return;
 
@@ -144,18 +124,32 @@ export default function Home() {
       } catch (error) {
         console.error('❌ Error in auto-refresh:', error);
       }
-    }, 15000); // 15 seconds (reduced from 30)
+    }, 15000);
 
     return () => {
       console.log('🛑 Auto-refresh interval cleared');
       clearInterval(interval);
     };
-  }, [selectedDateRange, isPolling]);
+  }, [selectedDateRange, selectedSort, selectedDealType, selectedRegion, isPolling]);
+
+  // Infinite scroll - fetch the next page when the sentinel below the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: '600px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore, selectedDateRange, selectedSort, selectedDealType, selectedRegion]);
 
-  // Filter deals when filters change
   useEffect(() => {
-    filterDeals();
-  }, [deals, selectedCategory, selectedRegion]);
+    dealsRef.current = deals;
+  }, [deals]);
 
   // Clear new deals notification after 5 seconds
   useEffect(() => {
@@ -167,98 +161,81 @@ export default function Home() {
     }
   }, [newDealsCount]);
 
+  const fetchPage = async (filters: ListingFilters, cursor?: string | null): Promise<{ deals: Deal[]; nextCursor: string | null }> => {
+    const response = await fetch(buildListUrl(filters, cursor), {
+      method: 'GET',
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return { deals: data.deals || [], nextCursor: data.nextCursor || null };
+  };
+
+  const loadFirstPage = async (filters: ListingFilters) => {
+    setLoading(true);
+    try {
+      const page = await fetchPage(filters);
+      console.log(`📊 Frontend: Loaded first page of ${page.deals.length} deals for range '${filters.range}' sorted by ${filters.sort}`);
+
+      setDeals(removeDuplicatesAggressive(page.deals));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('❌ Error loading deals:', error);
+      setDeals([]);
+      setNextCursor(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(currentFilters, nextCursor);
+      console.log(`📥 Frontend: Loaded ${page.deals.length} more deals`);
+
+      setDeals(prev => removeDuplicatesAggressive([...prev, ...page.deals]));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('❌ Error loading more deals:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const refreshDealsQuietly = async () => {
     try {
-      // Add cache busting with timestamp
-      const timestamp = Date.now();
-      const url = `/api/deals/all?t=${timestamp}&cb=${Math.random()}`;
-      
-      console.log(`🔄 Frontend: Refreshing deals at ${new Date().toISOString()}`);
-      console.log(`🔍 Current selectedDateRange: ${selectedDateRange}`);
-      console.log(`🔍 Current deals count before refresh: ${deals.length}`);
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache',
-          'Expires': '0'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      const allDeals = data.deals || [];
-      
-      console.log(`📊 Frontend: Received ${allDeals.length} deals from API`);
-      console.log(`🎯 Latest deal: ${allDeals.length > 0 ? `${allDeals[0]?.title?.substring(0, 50)}... (${allDeals[0]?.date})` : 'No deals'}`);
-      
-      // Filter by date range
-      const now = new Date();
-      let filteredByDate = allDeals;
-      
-      switch (selectedDateRange) {
-        case 'today':
-          filteredByDate = allDeals.filter((deal: Deal) => isToday(new Date(deal.date)));
-          console.log(`📅 Filtered for TODAY: ${filteredByDate.length} deals`);
-          break;
-        case 'yesterday':
-          filteredByDate = allDeals.filter((deal: Deal) => isYesterday(new Date(deal.date)));
-          console.log(`📅 Filtered for YESTERDAY: ${filteredByDate.length} deals`);
-          break;
-        case '2days':
-          const twoDaysAgo = new Date();
-          twoDaysAgo.setDate(twoDaysAgo.getDate() - 2);
-          filteredByDate = allDeals.filter((deal: Deal) => new Date(deal.date) >= twoDaysAgo);
-          console.log(`📅 Filtered for LAST 2 DAYS: ${filteredByDate.length} deals`);
-          break;
-        case 'week':
-          filteredByDate = allDeals.filter((deal: Deal) => isThisWeek(new Date(deal.date)));
-          console.log(`📅 Filtered for THIS WEEK: ${filteredByDate.length} deals`);
-          break;
-        case 'lastweek':
-          const weekAgo = new Date();
-          weekAgo.setDate(weekAgo.getDate() - 7);
-          filteredByDate = allDeals.filter((deal: Deal) => new Date(deal.date) >= weekAgo);
-          console.log(`📅 Filtered for LAST WEEK: ${filteredByDate.length} deals`);
-          break;
-        case 'all':
-        default:
-          filteredByDate = allDeals.slice(0, 100);
-          console.log(`📅 Filtered for ALL (top 100): ${filteredByDate.length} deals`);
-          break;
-      }
-      
-      console.log(`🔽 Frontend: Filtered to ${filteredByDate.length} deals for range '${selectedDateRange}'`);
-      
-      // Remove duplicates and sort
-      const uniqueDeals = removeDuplicatesAggressive(filteredByDate);
-      const sortedDeals = uniqueDeals.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      
-      console.log(`🧹 After deduplication: ${sortedDeals.length} unique deals`);
-      console.log(`📋 Setting state with ${sortedDeals.length} deals...`);
-      
-      // Always update deals and show notification
-      const previousCount = deals.length;
-      setDeals(sortedDeals);
+      console.log(`🔄 Frontend: Refreshing first page at ${new Date().toISOString()}`);
+
+      const page = await fetchPage(currentFilters);
+
+      // Merge the fresh first page over what is already loaded so scroll position survives
+      const known = new Set(dealsRef.current.map(deal => deal.id));
+      const newDeals = page.deals.filter(deal => !known.has(deal.id));
+      const freshById = new Map(page.deals.map(deal => [deal.id, deal]));
+
+      setDeals(prev => removeDuplicatesAggressive([
+        ...newDeals,
+        ...prev.map(deal => freshById.get(deal.id) || deal)
+      ]));
       setLastRefresh(new Date());
-      
-      // Show notification if count changed
-      const diff = sortedDeals.length - previousCount;
-      if (diff !== 0) {
-        console.log(`🎉 Deal count changed by ${diff}!`);
-        setNewDealsCount(Math.abs(diff));
-      } else {
-        console.log(`ℹ️  Deal count unchanged: ${sortedDeals.length} deals`);
+
+      if (newDeals.length > 0) {
+        console.log(`🎉 ${newDeals.length} new deals since last refresh!`);
+        setNewDealsCount(newDeals.length);
       }
-      
-      console.log(`✅ Frontend: State update completed with ${sortedDeals.length} deals`);
     } catch (error) {
       console.error('❌ Error in quiet refresh:', error);
-      console.error('Error details:', error);
     }
   };
 
@@ -282,51 +259,8 @@ export default function Home() {
     }
   };
 
-  const loadAllDeals = async () => {
-    setLoading(true);
-    try {
-      // Add cache busting with timestamp
-      const timestamp = Date.now();
-      const url = `/api/deals/all?t=${timestamp}&cb=${Math.random()}`;
-      
-      console.log(`🔄 Frontend: Loading all deals at ${new Date().toISOString()}`);
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache',
-          'Expires': '0'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      // Get all deals without date filtering
-      const allDeals = data.deals || [];
-      
-      console.log(`📊 Frontend: Loaded ${allDeals.length} deals from API`);
-      console.log(`🎯 Latest deal: ${allDeals.length > 0 ? `${allDeals[0]?.title?.substring(0, 50)}... (${allDeals[0]?.date})` : 'No deals'}`);
-      
-      // Remove duplicates and sort by date (newest first)
-      const uniqueDeals = removeDuplicatesAggressive(allDeals);
-      const sortedDeals = uniqueDeals.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      
-      setDeals(sortedDeals);
-      console.log(`✅ Frontend: Set ${sortedDeals.length} deals in state`);
-    } catch (error) {
-      console.error('❌ Error loading all deals:', error);
-      setDeals([]);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Aggressive duplicate removal - remove duplicates even from different sources
+  // Aggressive duplicate removal - remove duplicates even from different sources.
+  // Keeps the first occurrence's position so paging order is preserved.
   const removeDuplicatesAggressive = (deals: Deal[]): Deal[] => {
     const seen = new Map<string, Deal>();
     
@@ -338,12 +272,6 @@ export default function Home() {
         .replace(/\b(inc|ltd|llc|corp|company|fund|capital|management|group)\b/g, '')
         .trim();
       
-      // Also check for similar content in summary
-      const normalizedSummary = deal.summary.toLowerCase()
-        .replace(/[^\w\s]/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
-      
       const key = normalizedTitle;
       
       // Keep the one with more content, higher upvotes, or more recent
@@ -363,75 +291,13 @@ export default function Home() {
     return Array.from(seen.values());
   };
 
-  const filterDeals = () => {
-    let filtered = [...deals];
-
-    // Filter by category
-    if (selectedCategory !== 'all') {
-      filtered = filtered.filter(deal => {
-        const { type } = categorizeArticle(deal);
-        return type === selectedCategory;
-      });
-    }
-
-    // Filter by region
-    if (selectedRegion !== 'all') {
-      filtered = filtered.filter(deal => {
-        const { region } = categorizeArticle(deal);
-        return region === selectedRegion;
-      });
-    }
-
-    setFilteredDeals(filtered);
-  };
-
-  const handleDateRangeChange = async (range: string) => {
-    setSelectedDateRange(range);
-    setLoading(true);
-
-    try {
-      const response = await fetch('/api/deals/all');
-      const data = await response.json();
-      const allDeals = data.deals || [];
-      
-      const now = new Date();
-      let filteredByDate = allDeals;
-      
-      switch (range) {
-        case 'today':
-          filteredByDate = allDeals.filter((deal: Deal) => isToday(new Date(deal.date)));
-          break;
-        case 'yesterday':
-          filteredByDate = allDeals.filter((deal: Deal) => isYesterday(new Date(deal.date)));
-          break;
-        case '2days':
-          const twoDaysAgo = new Date();
-          twoDaysAgo.setDate(twoDaysAgo.getDate() - 2);
-          filteredByDate = allDeals.filter((deal: Deal) => new Date(deal.date) >= twoDaysAgo);
-          break;
-        case 'week':
-          filteredByDate = allDeals.filter((deal: Deal) => isThisWeek(new Date(deal.date)));
-          break;
-        case 'lastweek':
-          const weekAgo = new Date();
-          weekAgo.setDate(weekAgo.getDate() - 7);
-          filteredByDate = allDeals.filter((deal: Deal) => new Date(deal.date) >= weekAgo);
-          break;
-        case 'all':
-        default:
-          // Show newest 100 for "all time"
-          filteredByDate = allDeals.slice(0, 100);
-          break;
-      }
-      
-      // Remove duplicates and sort
-      const uniqueDeals = removeDuplicatesAggressive(filteredByDate);
-      const sortedDeals = uniqueDeals.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      
-      setDeals(sortedDeals);
-    } finally {
-      setLoading(false);
-    }
+  // Every filter is applied server-side, so any change reloads from the first page
+  const handleFilterChange = async (changes: Partial<ListingFilters>) => {
+    if (changes.range !== undefined) setSelectedDateRange(changes.range);
+    if (changes.sort !== undefined) setSelectedSort(changes.sort);
+    if (changes.dealType !== undefined) setSelectedDealType(changes.dealType);
+    if (changes.region !== undefined) setSelectedRegion(changes.region);
+    await loadFirstPage({ ...currentFilters, ...changes });
   };
 
   const handleUpvote = async (dealId?: number) => {
@@ -468,9 +334,9 @@ export default function Home() {
     return format(date, 'MMM d, yyyy');
   };
 
-  // Get unique categories and regions for filters
-  const categories = Array.from(new Set(deals.map(deal => categorizeArticle(deal).type))).sort();
-  const regions = Array.from(new Set(deals.map(deal => categorizeArticle(deal).region))).sort();
+  // Distinct stored deal types and regions among the loaded deals
+  const dealTypes = Array.from(new Set(deals.map(deal => deal.deal_type || DEFAULT_CATEGORY)));
+  const regions = Array.from(new Set(deals.map(deal => deal.region || 'Global')));
 
   return (
     <div className="min-h-screen bg-white">
@@ -591,6 +457,17 @@ export default function Home() {
                 Private Credit Pulse
               </h1>
             </a>
+            <div>
+              <a href="/watchlists" className="apple-caption hover:opacity-80">
+                Watchlists & alerts →
+              </a>
+              <a href="/submit" className="apple-caption hover:opacity-80 ml-6">
+                Submit a deal →
+              </a>
+              <a href="/review" className="apple-caption hover:opacity-80 ml-6">
+                Review queue →
+              </a>
+            </div>
           </div>
           
           {/* Substack Embed - Right Corner */}
@@ -626,13 +503,13 @@ export default function Home() {
               </p>
             </div>
             
-            <div className="apple-grid apple-grid-3">
+            <div className="apple-grid apple-grid-4">
               {/* Time Period */}
               <div>
                 <label className="block apple-caption mb-3">Time Period</label>
                 <select
                   value={selectedDateRange}
-                  onChange={(e) => handleDateRangeChange(e.target.value)}
+                  onChange={(e) => handleFilterChange({ range: e.target.value })}
                   className="apple-select w-full"
                 >
                   <option value="all">All Time</option>
@@ -644,17 +521,33 @@ export default function Home() {
                 </select>
               </div>
 
+              {/* Sort Order */}
+              <div>
+                <label className="block apple-caption mb-3">Sort By</label>
+                <select
+                  value={selectedSort}
+                  onChange={(e) => handleFilterChange({ sort: e.target.value })}
+                  className="apple-select w-full"
+                >
+                  <option value="date">Newest</option>
+                  <option value="upvotes">Most Upvoted</option>
+                  <option value="created_at">Recently Added</option>
+                </select>
+              </div>
+
               {/* Transaction Type */}
               <div>
                 <label className="block apple-caption mb-3">Transaction Type</label>
                 <select
-                  value={selectedCategory}
-                  onChange={(e) => setSelectedCategory(e.target.value)}
+                  value={selectedDealType}
+                  onChange={(e) => handleFilterChange({ dealType: e.target.value })}
                   className="apple-select w-full"
                 >
                   <option value="all">All Types</option>
-                  {categories.map(category => (
-                    <option key={category} value={category}>{category}</option>
+                  {flattenTaxonomy().map(node => (
+                    <option key={node.path} value={node.path}>
+                      {'\u00A0\u00A0'.repeat(node.depth)}{node.name}
+                    </option>
                   ))}
                 </select>
               </div>
@@ -664,11 +557,11 @@ export default function Home() {
                 <label className="block apple-caption mb-3">Region</label>
                 <select
                   value={selectedRegion}
-                  onChange={(e) => setSelectedRegion(e.target.value)}
+                  onChange={(e) => handleFilterChange({ region: e.target.value })}
                   className="apple-select w-full"
                 >
-                  <option value="all">Global</option>
-                  {regions.map(region => (
+                  <option value="all">All Regions</option>
+                  {DEAL_REGIONS.map(region => (
                     <option key={region} value={region}>{getRegionFlag(region)} {region}</option>
                   ))}
                 </select>
@@ -682,11 +575,11 @@ export default function Home() {
           <div className="mb-8">
             <div className="apple-grid apple-grid-4">
               <div className="apple-stat-card py-4">
-                <div className="text-2xl font-bold apple-title mb-1">{filteredDeals.length}</div>
+                <div className="text-2xl font-bold apple-title mb-1">{deals.length}</div>
                 <div className="apple-caption">Articles</div>
               </div>
               <div className="apple-stat-card py-4">
-                <div className="text-2xl font-bold apple-title mb-1" style={{ color: 'var(--apple-green)' }}>{categories.length}</div>
+                <div className="text-2xl font-bold apple-title mb-1" style={{ color: 'var(--apple-green)' }}>{dealTypes.length}</div>
                 <div className="apple-caption">Deal Types</div>
               </div>
               <div className="apple-stat-card py-4">
@@ -695,7 +588,7 @@ export default function Home() {
               </div>
               <div className="apple-stat-card py-4">
                 <div className="text-2xl font-bold apple-title mb-1" style={{ color: 'var(--apple-orange)' }}>
-                  {filteredDeals.reduce((sum, deal) => sum + (deal.upvotes || 0), 0)}
+                  {deals.reduce((sum, deal) => sum + (deal.upvotes || 0), 0)}
                 </div>
                 <div className="apple-caption">Upvotes</div>
               </div>
@@ -715,12 +608,12 @@ export default function Home() {
         {/* Articles */}
         {!loading && (
           <div>
-            {filteredDeals.length === 0 ? (
+            {deals.length === 0 ? (
               <div className="text-center py-20">
                 <div className="text-8xl mb-8 opacity-20">📊</div>
                 <h3 className="apple-headline text-2xl mb-4">No Articles Found</h3>
                 <p className="apple-body max-w-md mx-auto">
-                  {selectedCategory !== 'all' || selectedRegion !== 'all' 
+                  {selectedDealType !== 'all' || selectedRegion !== 'all' 
                     ? 'Try adjusting your filters to see more content'
                     : 'No articles match your current criteria'
                   }
@@ -728,16 +621,10 @@ export default function Home() {
               </div>
             ) : (
               <div className="apple-grid gap-6">
-                {filteredDeals
-                  .sort((a, b) => {
-                    // Sort by upvotes first, then by date
-                    if ((b.upvotes || 0) !== (a.upvotes || 0)) {
-                      return (b.upvotes || 0) - (a.upvotes || 0);
-                    }
-                    return new Date(b.date).getTime() - new Date(a.date).getTime();
-                  })
+                {deals
                   .map((deal) => {
-                    const { category, region, type } = categorizeArticle(deal);
+                    const type = deal.deal_type || DEFAULT_CATEGORY;
+                    const region = deal.region || 'Global';
                     const badgeClass = getCategoryBadge(type);
                     const regionFlag = getRegionFlag(region);
                     
@@ -747,8 +634,8 @@ export default function Home() {
                         <div className="flex justify-between items-start mb-6">
                           <div className="flex-1">
                             <div className="flex items-center space-x-3 mb-4">
-                              <span className={`apple-badge ${badgeClass}`}>
-                                {type}
+                              <span className={`apple-badge ${badgeClass}`} title={type}>
+                                {categoryLabel(type)}
                               </span>
                               <span className="apple-badge apple-badge-gray">
                                 {regionFlag} {region}
@@ -758,7 +645,11 @@ export default function Home() {
                               </span>
                             </div>
                             <h3 className="apple-headline text-xl mb-3 leading-tight">
-                              {deal.title}
+                              {deal.id ? (
+                                <Link href={`/deals/${deal.id}`} className="hover:opacity-80">
+                                  {deal.title}
+                                </Link>
+                              ) : deal.title}
                             </h3>
                           </div>
                           
@@ -804,17 +695,60 @@ export default function Home() {
                               <span className="apple-small text-gray-500">
                                 Source: {deal.source}
                               </span>
+                              {deal.sources && deal.sources.length > 0 && (
+                                <span className="apple-small text-gray-500">
+                                  Reported by {deal.sources.length + 1} sources
+                                </span>
+                              )}
+                              <button
+                                onClick={() => setDetailsDealId(deal.id || null)}
+                                className="apple-small text-gray-500 hover:opacity-80"
+                              >
+                                Details
+                              </button>
                             </div>
-                            <span className="apple-small">
-                              {deal.created_at && format(new Date(deal.created_at), 'MMM d, h:mm a')}
+                            <span className="apple-small" title={deal.first_seen_at ? 'First seen' : undefined}>
+                              {(deal.first_seen_at || deal.created_at) && format(new Date((deal.first_seen_at || deal.created_at)!), 'MMM d, h:mm a')}
                             </span>
                           </div>
+                          {deal.sources && deal.sources.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-3 mt-3 apple-small text-gray-500">
+                              <span>Also reported by</span>
+                              {deal.sources.map(source => (
+                                source.source_url ? (
+                                  <a
+                                    key={source.merged_deal_id}
+                                    href={source.source_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="hover:opacity-80"
+                                  >
+                                    {source.source} ↗
+                                  </a>
+                                ) : (
+                                  <span key={source.merged_deal_id}>{source.source}</span>
+                                )
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </article>
                     );
                   })}
               </div>
             )}
+
+            {detailsDealId !== null && (
+              <DealDetailsDrawer dealId={detailsDealId} onClose={() => setDetailsDealId(null)} />
+            )}
+
+            {/* Infinite scroll sentinel */}
+            <div ref={sentinelRef} className="py-10 text-center">
+              {loadingMore && <p className="apple-caption">Loading more articles...</p>}
+              {!loadingMore && !nextCursor && deals.length > 0 && (
+                <p className="apple-caption">You've reached the end of the archive</p>
+              )}
+            </div>
           </div>
         )}
       </div>
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import ReviewQueue from '../components/review-queue';
+
+export const metadata: Metadata = {
+  title: 'Review Queue | Private Credit Intelligence',
+  description: 'Approve or reject deals before they are published',
+};
+
+export default function ReviewPage() {
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="apple-container">
+
+        {/* Header */}
+        <div className="py-12">
+          <Link href="/" className="apple-caption hover:opacity-80">
+            ← All deals
+          </Link>
+          <h1 className="apple-title text-4xl mt-6 mb-3">Review Queue</h1>
+          <p className="apple-caption">
+            Low-confidence extractions and drafts wait here. Only published deals appear in the public listing.
+          </p>
+        </div>
+
+        <div className="max-w-4xl pb-16">
+          <ReviewQueue />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import DealEditor from '../components/deal-editor';
+
+export const metadata: Metadata = {
+  title: 'Submit a Deal | Private Credit Intelligence',
+  description: 'Add or correct a deal by hand',
+};
+
+export default function SubmitPage({ searchParams }: { searchParams: { id?: string } }) {
+  const dealId = searchParams.id ? parseInt(searchParams.id, 10) || undefined : undefined;
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="apple-container">
+
+        {/* Header */}
+        <div className="py-12">
+          <Link href="/" className="apple-caption hover:opacity-80">
+            ← All deals
+          </Link>
+          <h1 className="apple-title text-4xl mt-6 mb-3">{dealId ? 'Correct a Deal' : 'Submit a Deal'}</h1>
+          <p className="apple-caption">
+            {dealId
+              ? 'Fix the fields ingestion got wrong. Terms you fill in replace the extracted ones.'
+              : 'Paste a URL or text, review the extracted draft, and save it as a manually sourced deal.'}
+          </p>
+        </div>
+
+        <div className="max-w-3xl pb-16">
+          <DealEditor dealId={dealId} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import WatchlistPanel from '../components/watchlist-panel';
+
+export const metadata: Metadata = {
+  title: 'Watchlists | Private Credit Intelligence',
+  description: 'Get alerted when new deals involve the managers, borrowers, sectors or keywords you follow',
+};
+
+export default function WatchlistsPage() {
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="apple-container">
+
+        {/* Header */}
+        <div className="py-12">
+          <Link href="/" className="apple-caption hover:opacity-80">
+            ← All deals
+          </Link>
+          <h1 className="apple-title text-4xl mt-6 mb-3">Watchlists</h1>
+          <p className="apple-caption">
+            Follow managers, borrowers, sectors or keywords and get an email or webhook when a new deal matches.
+          </p>
+        </div>
+
+        <div className="max-w-3xl pb-16">
+          <WatchlistPanel />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import axios from 'axios';
+import { getDatabase } from './database';
+import type { Deal, Watchlist, WatchlistAlert } from './supabase';
+import { matchWatchlist } from './watchlists';
+import { getSmtpOptions, sendMail } from './mailer';
+import { PUBLIC_HOST_REQUEST, assertPublicUrl } from './public-host';
+import { getSiteUrl } from './site';
+import { categoryLabel } from './taxonomy';
+
+const WEBHOOK_TIMEOUT_MS = 15000;
+
+function describeReasons(reasons: string[]): string {
+  return reasons.map(reason => reason.replace(/^(\w+):/, '$1 ')).join(', ');
+}
+
+function alertText(watchlist: Watchlist, deal: Deal, reasons: string[]): string {
+  const siteUrl = getSiteUrl();
+  const lines = [
+    `New deal matching your watchlist "${watchlist.name}"`,
+    '',
+    deal.title.replace(/\*\*/g, ''),
+    `${deal.date} · ${categoryLabel(deal.deal_type || deal.category)}${deal.region ? ` · ${deal.region}` : ''} · ${deal.source}`,
+    '',
+    deal.summary.replace(/\*\*/g, '').trim(),
+    '',
+    `Matched on: ${describeReasons(reasons)}`
+  ];
+
+  if (deal.source_url) lines.push(`Source: ${deal.source_url}`);
+  if (siteUrl) lines.push(`All deals: ${siteUrl}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Send one alert to the watchlist's email and/or webhook. Throws when every
+ * configured channel failed; succeeds if at least one got through.
+ */
+async function deliverAlert(watchlist: Watchlist, deal: Deal, alert: WatchlistAlert): Promise<void> {
+  const errors: string[] = [];
+  let delivered = 0;
+  const text = alertText(watchlist, deal, alert.reasons);
+
+  if (watchlist.notify_email) {
+    const smtp = getSmtpOptions();
+    if (!smtp) {
+      errors.push('email: SMTP is not configured');
+    } else {
+      try {
+        await sendMail(smtp, {
+          to: [watchlist.notify_email],
+          subject: `[${watchlist.name}] ${deal.title.replace(/\*\*/g, '')}`,
+          text
+        });
+        delivered++;
+      } catch (error) {
+        errors.push(`email: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  if (watchlist.notify_webhook) {
+    try {
+      // Anyone can create a watchlist, so the webhook must not reach internal hosts
+      assertPublicUrl(watchlist.notify_webhook);
+      await axios.post(watchlist.notify_webhook, {
+        text,
+        watchlist: { id: watchlist.id, name: watchlist.name },
+        deal: {
+          id: deal.id,
+          date: deal.date,
+          title: deal.title,
+          summary: deal.summary,
+          source: deal.source,
+          source_url: deal.source_url,
+          category: deal.category,
+          deal_type: deal.deal_type,
+          region: deal.region
+        },
+        reasons: alert.reasons
+      }, { timeout: WEBHOOK_TIMEOUT_MS, ...PUBLIC_HOST_REQUEST });
+      delivered++;
+    } catch (error) {
+      errors.push(`webhook: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (delivered === 0 && errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+}
+
+/**
+ * Check a newly saved deal against every active watchlist, record an alert for
+ * each match and deliver it. Runs after the deal's entities are linked so entity
+ * watches can match. Never throws - alerts must not fail the ingest.
+ */
+export async function processDealAlerts(deal: Deal, entityIds: number[]): Promise<WatchlistAlert[]> {
+  // Deals waiting for review alert once they are approved (see lib/review.ts)
+  if (deal.status && deal.status !== 'published') return [];
+
+  try {
+    const db = getDatabase();
+    const watchlists = await db.getActiveWatchlists();
+    if (watchlists.length === 0) return [];
+
+    const entities = await db.getEntitiesByIds(Array.from(new Set(entityIds)));
+
+    const matches = watchlists
+      .map(watchlist => ({ watchlist, reasons: matchWatchlist(watchlist, deal, entities) }))
+      .filter(match => match.reasons.length > 0);
+
+    if (matches.length === 0) return [];
+
+    const alerts = await db.saveWatchlistAlerts(matches.map(match => ({
+      watchlist_id: match.watchlist.id!,
+      deal_id: deal.id!,
+      reasons: match.reasons
+    })));
+
+    for (const alert of alerts) {
+      const watchlist = matches.find(match => match.watchlist.id === alert.watchlist_id)!.watchlist;
+      if (!watchlist.notify_email && !watchlist.notify_webhook) continue;
+
+      try {
+        await deliverAlert(watchlist, deal, alert);
+        await db.markWatchlistAlertDelivery(alert.id!, null);
+        console.log(`🔔 Alerted watchlist "${watchlist.name}" about deal ${deal.id}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Failed to deliver alert for watchlist ${watchlist.id}, deal ${deal.id}:`, message);
+        await db.markWatchlistAlertDelivery(alert.id!, message).catch(() => undefined);
+      }
+    }
+
+    return alerts;
+  } catch (error) {
+    console.error(`❌ Error processing watchlist alerts for deal ${deal.id}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,67 @@
+import { getDatabase } from './database';
+import type { Deal, DealAuditEntry } from './supabase';
+
+export interface RevertResult {
+  deal: Deal | null;              // the deal after the revert; null when a create was undone
+  conflicts: string[];            // why the revert was refused; empty when it went through
+}
+
+/**
+ * Undo one audit entry on an editor's behalf. An update puts the old values
+ * back, a delete restores the deal from the trash, a restore deletes it again,
+ * a purge re-inserts the logged row and a create deletes the deal. Unless
+ * forced, nothing happens when the deal has changed since the entry - the
+ * conflicting columns are returned instead.
+ */
+export async function revertDealChange(entry: DealAuditEntry, editor: string, force: boolean = false): Promise<RevertResult> {
+  const db = getDatabase();
+  const current = await db.getDealById(entry.deal_id);
+  const audit = { actor: `editor:${editor}`, reason: `Revert of change #${entry.id}`, revertsId: entry.id };
+
+  if (entry.action === 'purge') {
+    if (current) return { deal: current, conflicts: ['deal exists again'] };
+    const deal = await db.restoreDealRow(entry.before as Deal, audit);
+    return { deal, conflicts: [] };
+  }
+
+  if (!current) {
+    return { deal: null, conflicts: ['deal has been purged'] };
+  }
+
+  if (entry.action === 'delete') {
+    if (!current.deleted_at) return { deal: current, conflicts: ['deal is not deleted'] };
+    const restored = await db.restoreDeals([entry.deal_id], audit);
+    return { deal: restored[0] || current, conflicts: [] };
+  }
+
+  if (current.deleted_at) {
+    return { deal: current, conflicts: ['deal is deleted'] };
+  }
+
+  if (entry.action === 'create') {
+    await db.deleteDeal(entry.deal_id, audit);
+    return { deal: null, conflicts: [] };
+  }
+
+  if (entry.action === 'restore') {
+    const mergedInto = entry.before && entry.before.merged_into ? entry.before.merged_into : null;
+    if (mergedInto) {
+      await db.mergeDeals(mergedInto, [entry.deal_id], audit);
+    } else {
+      await db.deleteDeal(entry.deal_id, audit);
+    }
+    return { deal: null, conflicts: [] };
+  }
+
+  const before: Partial<Deal> = entry.before || {};
+  const after: any = entry.after || {};
+  const same = (a: any, b: any) => JSON.stringify(a === undefined ? null : a) === JSON.stringify(b === undefined ? null : b);
+  const conflicts = Object.keys(before).filter(column => !same((current as any)[column], after[column]));
+
+  if (conflicts.length > 0 && !force) {
+    return { deal: current, conflicts: conflicts.map(column => `${column} changed since`) };
+  }
+
+  const deal = await db.restoreDealFields(entry.deal_id, before, audit);
+  return { deal, conflicts: [] };
+}
@@ -0,0 +1,202 @@
+import type { Deal, DealClassification } from './supabase';
+import { DEFAULT_CATEGORY, findCategory, inferCategory } from './taxonomy';
+
+export const DEAL_REGIONS = [
+  'US',
+  'UK',
+  'Europe',
+  'Asia',
+  'Middle East',
+  'Latin America',
+  'Global'
+];
+
+// Country names, demonyms and major financial centres, matched as whole words
+const COUNTRY_KEYWORDS: Array<{ country: string; region: string; pattern: RegExp }> = [
+  { country: 'United States', region: 'US', pattern: /\b(united states|u\.s(?=\.)|usa|american|new york|texas|california|florida|chicago|boston)\b/i },
+  { country: 'Canada', region: 'US', pattern: /\b(canada|canadian|toronto|montreal)\b/i },
+  { country: 'United Kingdom', region: 'UK', pattern: /\b(united kingdom|u\.k(?=\.)|uk|britain|british|england|scotland|london)\b/i },
+  { country: 'Ireland', region: 'Europe', pattern: /\b(ireland|irish|dublin)\b/i },
+  { country: 'Germany', region: 'Europe', pattern: /\b(germany|german|frankfurt|munich|berlin)\b/i },
+  { country: 'France', region: 'Europe', pattern: /\b(france|french|paris)\b/i },
+  { country: 'Spain', region: 'Europe', pattern: /\b(spain|spanish|madrid)\b/i },
+  { country: 'Italy', region: 'Europe', pattern: /\b(italy|italian|milan)\b/i },
+  { country: 'Netherlands', region: 'Europe', pattern: /\b(netherlands|dutch|amsterdam)\b/i },
+  { country: 'Luxembourg', region: 'Europe', pattern: /\bluxembourg\b/i },
+  { country: 'Switzerland', region: 'Europe', pattern: /\b(switzerland|swiss|zurich|geneva)\b/i },
+  { country: 'Sweden', region: 'Europe', pattern: /\b(sweden|swedish|stockholm)\b/i },
+  { country: 'Norway', region: 'Europe', pattern: /\b(norway|norwegian|oslo)\b/i },
+  { country: 'Denmark', region: 'Europe', pattern: /\b(denmark|danish|copenhagen)\b/i },
+  { country: 'Finland', region: 'Europe', pattern: /\b(finland|finnish|helsinki)\b/i },
+  { country: 'Poland', region: 'Europe', pattern: /\b(poland|polish|warsaw)\b/i },
+  { country: 'Japan', region: 'Asia', pattern: /\b(japan|japanese|tokyo)\b/i },
+  { country: 'China', region: 'Asia', pattern: /\b(china|chinese|beijing|shanghai)\b/i },
+  { country: 'Hong Kong', region: 'Asia', pattern: /\bhong kong\b/i },
+  { country: 'India', region: 'Asia', pattern: /\b(india|indian|mumbai)\b/i },
+  { country: 'Singapore', region: 'Asia', pattern: /\bsingapore(an)?\b/i },
+  { country: 'South Korea', region: 'Asia', pattern: /\b(south korea|korean|seoul)\b/i },
+  { country: 'Australia', region: 'Asia', pattern: /\b(australia|australian|sydney|melbourne)\b/i },
+  { country: 'United Arab Emirates', region: 'Middle East', pattern: /\b(uae|united arab emirates|dubai|abu dhabi)\b/i },
+  { country: 'Saudi Arabia', region: 'Middle East', pattern: /\b(saudi arabia|saudi|riyadh)\b/i },
+  { country: 'Qatar', region: 'Middle East', pattern: /\b(qatar|qatari|doha)\b/i },
+  { country: 'Israel', region: 'Middle East', pattern: /\b(israel|israeli|tel aviv)\b/i },
+  { country: 'Brazil', region: 'Latin America', pattern: /\b(brazil|brazilian|sao paulo|são paulo)\b/i },
+  { country: 'Mexico', region: 'Latin America', pattern: /\b(mexico|mexican)\b/i },
+  { country: 'Chile', region: 'Latin America', pattern: /\b(chile|chilean|santiago)\b/i },
+  { country: 'Colombia', region: 'Latin America', pattern: /\b(colombia|colombian|bogota)\b/i }
+];
+
+// Region-level words that name no single country
+const REGION_KEYWORDS: Array<{ region: string; pattern: RegExp }> = [
+  { region: 'Europe', pattern: /\b(europe|european|eltif|eurozone|nordic|nordics|dach|benelux)\b/i },
+  { region: 'Asia', pattern: /\b(asia|asian|apac|asia-pacific|southeast asia)\b/i },
+  { region: 'Middle East', pattern: /\b(middle east|gcc|mena)\b/i },
+  { region: 'Latin America', pattern: /\b(latin america|latam)\b/i }
+];
+
+// Only non-dollar currencies are a region signal; dollars are the default deal currency everywhere
+const CURRENCY_REGIONS: { [key: string]: string } = {
+  '€': 'Europe',
+  '£': 'UK',
+  '¥': 'Asia'
+};
+
+// Instrument types from extracted deal terms that settle the deal type on their own
+const INSTRUMENT_DEAL_TYPES: { [key: string]: string } = {
+  'Fund Commitment': 'Fundraising',
+  'Equity': 'Private Equity',
+  'Unitranche': 'Private Credit > Direct Lending > Unitranche',
+  'Revolving Credit Facility': 'Private Credit > Direct Lending > Revolving Credit Facility',
+  'Asset-Based Loan': 'Private Credit > Asset-Based Finance',
+  'NAV Facility': 'Private Credit > Fund Finance',
+  'CLO': 'Private Credit > Asset-Based Finance > CLO / Securitization',
+  'Securitization': 'Private Credit > Asset-Based Finance > CLO / Securitization'
+};
+
+function plainText(value?: string | null): string {
+  return (value || '').replace(/\*\*/g, '');
+}
+
+/**
+ * Find the countries named in a piece of text, in a stable order
+ */
+export function detectCountries(text: string): string[] {
+  const plain = plainText(text);
+  return COUNTRY_KEYWORDS
+    .filter(entry => entry.pattern.test(plain))
+    .map(entry => entry.country);
+}
+
+/**
+ * Pick a single region for a set of countries plus any region-level wording.
+ * Deals spanning more than one region are 'Global'.
+ */
+export function regionForCountries(countries: string[], text: string = ''): string {
+  const regions = new Set<string>();
+
+  countries.forEach(country => {
+    const entry = COUNTRY_KEYWORDS.find(e => e.country === country);
+    if (entry) regions.add(entry.region);
+  });
+
+  if (regions.size === 0) {
+    const plain = plainText(text);
+    REGION_KEYWORDS.forEach(entry => {
+      if (entry.pattern.test(plain)) regions.add(entry.region);
+    });
+  }
+
+  if (regions.size === 0) {
+    const plain = plainText(text);
+    Object.keys(CURRENCY_REGIONS).forEach(symbol => {
+      if (plain.includes(symbol)) regions.add(CURRENCY_REGIONS[symbol]);
+    });
+  }
+
+  // The UK is part of Europe for filtering purposes when both are named
+  if (regions.size === 2 && regions.has('UK') && regions.has('Europe')) return 'Europe';
+  if (regions.size === 1) return Array.from(regions)[0];
+  return 'Global';
+}
+
+/**
+ * Rule-based deal type (a taxonomy path) from the headline first, then the summary
+ */
+export function detectDealType(title: string, summary: string = '', instrumentType?: string | null): string {
+  if (instrumentType && INSTRUMENT_DEAL_TYPES[instrumentType]) {
+    return INSTRUMENT_DEAL_TYPES[instrumentType];
+  }
+
+  const fromTitle = inferCategory(title);
+  return fromTitle !== DEFAULT_CATEGORY ? fromTitle : inferCategory(summary);
+}
+
+/**
+ * Rule-based classification used when the classification model is unavailable,
+ * and for cheap backfills
+ */
+export function classifyDealFromText(
+  deal: Pick<Deal, 'title' | 'summary'> & { content?: string },
+  instrumentType?: string | null
+): DealClassification {
+  // Content is raw search output that often mentions unrelated deals, so it only
+  // contributes countries when the headline and summary name none
+  const headline = `${deal.title}. ${deal.summary}`;
+  let countries = detectCountries(headline);
+  if (countries.length === 0 && deal.content) {
+    countries = detectCountries(deal.content.substring(0, 1500));
+  }
+
+  return {
+    region: regionForCountries(countries, headline),
+    countries,
+    deal_type: detectDealType(deal.title, deal.summary, instrumentType)
+  };
+}
+
+function normalizeRegion(value: any): string | null {
+  if (typeof value !== 'string') return null;
+  const lower = value.trim().toLowerCase();
+
+  const exact = DEAL_REGIONS.find(region => region.toLowerCase() === lower);
+  if (exact) return exact;
+
+  if (['united states', 'usa', 'u.s.', 'north america', 'americas'].includes(lower)) return 'US';
+  if (['united kingdom', 'u.k.', 'britain', 'great britain'].includes(lower)) return 'UK';
+  if (['emea', 'western europe', 'eu'].includes(lower)) return 'Europe';
+  if (['apac', 'asia-pacific', 'asia pacific', 'australia'].includes(lower)) return 'Asia';
+  if (['mena', 'gcc'].includes(lower)) return 'Middle East';
+  if (['latam', 'south america'].includes(lower)) return 'Latin America';
+
+  return null;
+}
+
+function normalizeDealType(value: any): string | null {
+  if (typeof value !== 'string') return null;
+  const node = findCategory(value);
+  return node ? node.path : null;
+}
+
+/**
+ * Normalize the loosely-typed JSON returned by the classification model,
+ * filling any field it could not settle from the rule-based result
+ */
+export function normalizeClassification(raw: any, fallback: DealClassification): DealClassification {
+  const countries: string[] = Array.isArray(raw?.countries)
+    ? Array.from(new Set<string>(
+        raw.countries
+          .filter((c: any) => typeof c === 'string' && c.trim())
+          .map((c: string) => {
+            if (/^u\.?s\.?a?\.?$/i.test(c.trim())) return 'United States';
+            const known = COUNTRY_KEYWORDS.find(entry => entry.pattern.test(c));
+            return known ? known.country : c.trim();
+          })
+      ))
+    : fallback.countries;
+
+  return {
+    region: normalizeRegion(raw?.region) || (countries.length > 0 ? regionForCountries(countries) : fallback.region),
+    countries,
+    deal_type: normalizeDealType(raw?.deal_type) || fallback.deal_type
+  };
+}
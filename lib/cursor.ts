@@ -0,0 +1,19 @@
+/**
+ * Opaque keyset cursors shared by the paginated APIs: base64url-encoded JSON
+ * holding the last row's sort value and id
+ */
+export function encodeCursor(value: string | number, id: number): string {
+  return Buffer.from(JSON.stringify({ v: value, id })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): { value: string | number; id: number } | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if ((typeof parsed.v !== 'number' && typeof parsed.v !== 'string') || typeof parsed.id !== 'number') {
+      return null;
+    }
+    return { value: parsed.v, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
@@ -1,4 +1,5 @@
 import { getSupabaseDatabase } from './supabase';
+import type { DealProvenance, DealStatus } from './supabase';
 
 export interface Deal {
   id?: number;
@@ -9,6 +10,19 @@ export interface Deal {
   source: string;
   source_url?: string;
   category?: string;
+  region?: string | null;
+  countries?: string[];
+  deal_type?: string | null;
+  provenance?: DealProvenance;
+  submitted_by?: string | null;
+  status?: DealStatus;
+  confidence?: number | null;
+  review_reasons?: string[];
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  deleted_at?: string | null;
+  deleted_reason?: string | null;
+  merged_into?: number | null;
   upvotes?: number;
   created_at?: string;
 }
@@ -20,7 +34,21 @@ export interface Vote {
   created_at?: string;
 }
 
+export type { DealParty, DealPartyRole, DealTerms, Entity, EntityType, DealEntityLink, DealEntityRole, DealClassification, DealClassificationFilters, Watchlist, WatchlistAlert, NewsFeed, FeedState, DealProvenance, DealStatus, DealUpdate, DealProvenanceRecord, FieldConfidence, ProvenanceExtractor, AuditAction, AuditContext, DealAuditEntry, DealSource, DealEmbedding, EmbeddingMatch } from './supabase';
+
+export type Database = ReturnType<typeof getSupabaseDatabase>;
+
+let databaseOverride: Database | null = null;
+
+/**
+ * Point getDatabase at another store, e.g. the pipeline harness's in-memory
+ * one. null goes back to Supabase.
+ */
+export function setDatabase(db: Database | null): void {
+  databaseOverride = db;
+}
+
 // Re-export the Supabase database with the same interface
-export function getDatabase() {
-  return getSupabaseDatabase();
+export function getDatabase(): Database {
+  return databaseOverride || getSupabaseDatabase();
 } 
\ No newline at end of file
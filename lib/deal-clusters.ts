@@ -0,0 +1,97 @@
+import { getDatabase } from './database';
+import type { Deal } from './supabase';
+
+// Several articles covering the same transaction: one canonical deal keeps the
+// listing, the rest become its sources
+export interface DealCluster {
+  canonical: Deal;
+  members: Deal[];
+  reason: string;
+}
+
+// A pair the dedup engine judged to be the same story
+export interface DuplicatePair {
+  article1: Deal;
+  article2: Deal;
+  reason: string;
+}
+
+// Deals saved without a status are published
+const isPublished = (deal: Deal): boolean => (deal.status || 'published') === 'published';
+
+/**
+ * Join pairwise matches into clusters, so A~B and B~C become one cluster of
+ * three. A published deal always becomes canonical over a draft, pending or
+ * rejected one, so a public listing is never merged into a hidden deal; within
+ * the same status the highest scoring deal wins.
+ */
+export function clustersFromPairs(pairs: DuplicatePair[], score: (deal: Deal) => number): DealCluster[] {
+  const deals: { [id: number]: Deal } = {};
+  const parent: { [id: number]: number } = {};
+  const reasons: { [id: number]: string } = {};
+
+  const find = (id: number): number => {
+    while (parent[id] !== id) {
+      parent[id] = parent[parent[id]];
+      id = parent[id];
+    }
+    return id;
+  };
+
+  pairs.forEach(pair => {
+    const a = pair.article1.id;
+    const b = pair.article2.id;
+    if (!a || !b || a === b) return;
+
+    [pair.article1, pair.article2].forEach(deal => {
+      if (parent[deal.id!] === undefined) {
+        parent[deal.id!] = deal.id!;
+        deals[deal.id!] = deal;
+      }
+    });
+
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[rootB] = rootA;
+    if (!reasons[a]) reasons[a] = pair.reason;
+    if (!reasons[b]) reasons[b] = pair.reason;
+  });
+
+  const groups: { [root: number]: Deal[] } = {};
+  Object.keys(deals).forEach(key => {
+    const id = Number(key);
+    const root = find(id);
+    groups[root] = (groups[root] || []).concat(deals[id]);
+  });
+
+  return Object.keys(groups).map(key => {
+    const members = groups[Number(key)].slice().sort((a, b) =>
+      Number(isPublished(b)) - Number(isPublished(a)) || score(b) - score(a));
+    const reason = members.map(deal => reasons[deal.id!]).filter(Boolean)[0] || 'Same transaction';
+    return { canonical: members[0], members: members.slice(1), reason };
+  });
+}
+
+/**
+ * Merge each cluster's members into its canonical deal. Returns how many deals
+ * were merged away; a failing cluster is logged and skipped.
+ */
+export async function mergeClusters(clusters: DealCluster[], actor: string): Promise<number> {
+  const db = getDatabase();
+  let merged = 0;
+
+  for (const cluster of clusters) {
+    const canonicalId = cluster.canonical.id!;
+    try {
+      merged += await db.mergeDeals(
+        canonicalId,
+        cluster.members.map(deal => deal.id!),
+        { actor, reason: `${cluster.reason} - duplicate of deal #${canonicalId}` }
+      );
+    } catch (error) {
+      console.error(`❌ Error merging duplicates into deal ${canonicalId}:`, error);
+    }
+  }
+
+  return merged;
+}
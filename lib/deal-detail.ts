@@ -0,0 +1,57 @@
+import { getDatabase } from './database';
+import type { Deal, DealEntityRole, DealSource, DealTerms, Entity } from './supabase';
+import { RelatedDeal, findRelatedDeals } from './related-deals';
+
+export interface DealDetailEntity {
+  entity: Entity;
+  roles: DealEntityRole[];
+}
+
+export interface DealDetail {
+  deal: Deal;
+  terms: DealTerms | null;
+  sources: DealSource[];          // other articles merged into this deal
+  entities: DealDetailEntity[];
+  related: RelatedDeal[];
+}
+
+export type DealLookup =
+  | { found: true; detail: DealDetail }
+  | { found: false; mergedInto: number | null };
+
+/**
+ * Whether anyone may see a deal. Drafts, held, rejected and deleted deals are
+ * for editors only.
+ */
+export function isPublicDeal(deal: Deal): boolean {
+  return !deal.deleted_at && (!deal.status || deal.status === 'published');
+}
+
+/**
+ * Everything the deal permalink shows. Drafts, rejected and deleted deals are
+ * not public; a deal merged into a cluster points at the deal that was kept so
+ * old links keep working.
+ */
+export async function getDealDetail(dealId: number): Promise<DealLookup> {
+  const db = getDatabase();
+  const deal = dealId > 0 ? await db.getDealById(dealId) : null;
+
+  if (!deal || !isPublicDeal(deal)) {
+    return { found: false, mergedInto: deal && deal.deleted_at ? deal.merged_into || null : null };
+  }
+
+  const [terms, sources, links, related] = await Promise.all([
+    db.getDealTerms(dealId),
+    db.getDealSources([dealId]),
+    db.getDealEntityLinks(dealId),
+    findRelatedDeals(deal)
+  ]);
+
+  const entityIds = links.map(link => link.entity_id).filter((id, index, ids) => ids.indexOf(id) === index);
+  const entities = (await db.getEntitiesByIds(entityIds)).map(entity => ({
+    entity,
+    roles: links.filter(link => link.entity_id === entity.id).map(link => link.role)
+  }));
+
+  return { found: true, detail: { deal, terms, sources, entities, related } };
+}
@@ -0,0 +1,81 @@
+import { getDatabase } from './database';
+import { decodeCursor, encodeCursor } from './cursor';
+import type { Deal, DealSort, DealSource, DealTerms, ListDealsOptions } from './supabase';
+
+export const DEAL_SORTS: DealSort[] = ['date', 'upvotes', 'created_at'];
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface DealListingParams extends Omit<ListDealsOptions, 'cursorValue' | 'cursorId'> {
+  cursor?: string | null;
+}
+
+export interface ListedDeal extends Deal {
+  terms: DealTerms | null;
+  sources: DealSource[];          // other articles merged into this deal
+  first_seen_at: string | null;   // earliest of the deal and its sources
+}
+
+export interface DealListingPage {
+  deals: ListedDeal[];
+  nextCursor: string | null;
+  sort: DealSort;
+  limit: number;
+}
+
+function sortValue(deal: Deal, sort: DealSort): string | number {
+  switch (sort) {
+    case 'upvotes':
+      return deal.upvotes || 0;
+    case 'created_at':
+      return deal.created_at || '';
+    default:
+      return deal.date;
+  }
+}
+
+function firstSeen(deal: Deal, sources: DealSource[]): string | null {
+  return sources.reduce<string | null>(
+    (earliest, source) => (source.first_seen_at && (!earliest || source.first_seen_at < earliest) ? source.first_seen_at : earliest),
+    deal.created_at || null
+  );
+}
+
+/**
+ * One page of deals in keyset order, with structured terms and merged sources attached
+ */
+export async function listDealsPage(params: DealListingParams): Promise<DealListingPage> {
+  const db = getDatabase();
+  const sort: DealSort = params.sort && DEAL_SORTS.includes(params.sort) ? params.sort : 'date';
+  const limit = Math.min(Math.max(params.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+  if (params.cursor && !cursor) {
+    throw new Error('Invalid cursor');
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db.listDeals({
+    ...params,
+    sort,
+    limit: limit + 1,
+    cursorValue: cursor ? String(cursor.value) : null,
+    cursorId: cursor ? cursor.id : null
+  });
+
+  const page = rows.slice(0, limit);
+  const terms = await db.getDealTermsForDeals(page.map(deal => deal.id!));
+  const termsByDeal = new Map(terms.map(t => [t.deal_id, t]));
+  const sources = await db.getDealSources(page.map(deal => deal.id!));
+  const last = page[page.length - 1];
+
+  return {
+    deals: page.map(deal => {
+      const dealSources = sources.filter(source => source.deal_id === deal.id);
+      return { ...deal, terms: termsByDeal.get(deal.id!) || null, sources: dealSources, first_seen_at: firstSeen(deal, dealSources) };
+    }),
+    nextCursor: rows.length > limit && last ? encodeCursor(sortValue(last, sort), last.id!) : null,
+    sort,
+    limit
+  };
+}
@@ -0,0 +1,271 @@
+import axios from 'axios';
+import { format } from 'date-fns';
+import { JSDOM } from 'jsdom';
+import { getDatabase } from './database';
+import type { Deal, DealUpdate } from './database';
+import { OpenAIService } from './openai';
+import { DEAL_REGIONS, classifyDealFromText } from './classification';
+import { ExtractedDealTerms, extractDealTermsFromText, hasDealTerms, normalizeDealTerms } from './deal-terms';
+import { getEntityResolver } from './entities';
+import { processDealAlerts } from './alerts';
+import { MANUAL_EXTRACTION, recordDealProvenance } from './provenance';
+import { indexDeal } from './embeddings';
+import { PUBLIC_HOST_REQUEST, assertPublicUrl } from './public-host';
+import { findCategory, inferCategory } from './taxonomy';
+
+const PAGE_TIMEOUT_MS = 15000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const MAX_CONTENT_CHARS = 12000;
+const USER_AGENT = 'Mozilla/5.0 (compatible; PrivateCreditPulse/1.0; +https://privatecreditpulse.substack.com)';
+
+export type DealSubmission = Required<DealUpdate>;
+
+export interface DealDraft extends DealSubmission {
+  terms: ExtractedDealTerms;
+  extraction: 'model' | 'rules';  // 'rules' when the extraction model was unavailable
+}
+
+interface FetchedArticle {
+  title: string;
+  publisher: string;
+  publishedAt: string | null;
+  text: string;
+}
+
+function meta(document: Document, ...names: string[]): string {
+  for (const name of names) {
+    const element = document.querySelector(`meta[property="${name}"], meta[name="${name}"]`);
+    const value = element ? (element.getAttribute('content') || '').trim() : '';
+    if (value) return value;
+  }
+  return '';
+}
+
+/**
+ * Headline, publisher, publish date and body text of an article page. Pages on
+ * private or internal hosts are refused before any request is sent.
+ */
+export async function fetchArticle(url: string): Promise<FetchedArticle> {
+  assertPublicUrl(url);
+
+  const response = await axios.get(url, {
+    timeout: PAGE_TIMEOUT_MS,
+    responseType: 'text',
+    headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,application/xhtml+xml' },
+    maxContentLength: MAX_PAGE_BYTES,
+    maxRedirects: MAX_REDIRECTS,
+    ...PUBLIC_HOST_REQUEST
+  });
+
+  const document = new JSDOM(response.data).window.document;
+  const paragraphs = Array.from(document.querySelectorAll('article p, main p, p'))
+    .map(paragraph => (paragraph.textContent || '').replace(/\s+/g, ' ').trim())
+    .filter(text => text.length > 40);
+  const published = new Date(meta(document, 'article:published_time', 'og:published_time', 'date'));
+
+  return {
+    title: meta(document, 'og:title', 'twitter:title') || (document.title || '').trim(),
+    publisher: meta(document, 'og:site_name') || new URL(url).hostname.replace(/^www\./, ''),
+    publishedAt: isNaN(published.getTime()) ? null : published.toISOString(),
+    text: Array.from(new Set(paragraphs)).join('\n\n').substring(0, MAX_CONTENT_CHARS)
+  };
+}
+
+function firstSentences(text: string, maxLength: number): string {
+  const sentences = text.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]+/g) || [text];
+  let summary = '';
+  for (const sentence of sentences) {
+    if (summary && (summary + sentence).length > maxLength) break;
+    summary += sentence;
+  }
+  return summary.trim().substring(0, maxLength);
+}
+
+/**
+ * Turn a pasted URL and/or text into an editable deal. The extraction model
+ * does the work when it is configured; otherwise the rule-based extractors
+ * give a rougher draft for the editor to fix.
+ */
+export async function buildDealDraft(input: { url?: string | null; text?: string | null }): Promise<DealDraft> {
+  const page = input.url ? await fetchArticle(input.url) : null;
+  const content = [page ? page.title : '', page ? page.text : '', input.text || '']
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join('\n\n')
+    .substring(0, MAX_CONTENT_CHARS);
+
+  const date = page && page.publishedAt ? page.publishedAt.substring(0, 10) : format(new Date(), 'yyyy-MM-dd');
+  const base = {
+    date,
+    content,
+    source: page ? page.publisher : 'Manual submission',
+    source_url: input.url || ''
+  };
+
+  try {
+    const openai = new OpenAIService();
+    const [article] = await openai.extractNewsArticles(content, 'Manual submission', date);
+    if (!article) throw new Error('Extraction found no article');
+
+    const terms = await openai.extractDealTerms(article.title, article.summary, content);
+    const classification = await openai.classifyDeal(article.title, article.summary, content, terms.instrument_type);
+
+    return {
+      ...base,
+      title: article.title,
+      summary: article.summary,
+      source: article.original_source || base.source,
+      source_url: input.url || article.source_url || '',
+      category: article.category,
+      ...classification,
+      terms,
+      extraction: 'model'
+    };
+  } catch (error) {
+    console.warn('⚠️ Model extraction unavailable for draft, using rules:', error instanceof Error ? error.message : error);
+
+    const title = (page && page.title) || content.split('\n')[0].substring(0, 200);
+    const summary = firstSentences(page ? page.text || content : content, 400);
+    const terms = extractDealTermsFromText(content);
+
+    return {
+      ...base,
+      title,
+      summary,
+      category: inferCategory(`${title} ${summary}`),
+      ...classifyDealFromText({ title, summary, content }, terms.instrument_type),
+      terms,
+      extraction: 'rules'
+    };
+  }
+}
+
+/**
+ * Validate a deal from an editor. With partial, only the fields that are
+ * present are checked and returned (for corrections). Terms are only returned
+ * when the body carries them.
+ */
+export function parseDealSubmission(raw: any, partial: boolean = false): { deal: DealUpdate; terms: ExtractedDealTerms | null; error: string | null } {
+  const deal: DealUpdate = {};
+  const has = (key: string) => !partial || (raw && raw[key] !== undefined);
+  const text = (key: string) => typeof raw?.[key] === 'string' ? raw[key].trim() : '';
+
+  if (has('date')) {
+    const date = text('date');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      return { deal, terms: null, error: 'date must be YYYY-MM-DD' };
+    }
+    deal.date = date;
+  }
+
+  if (has('title')) {
+    const title = text('title');
+    if (title.length < 5) return { deal, terms: null, error: 'title must be at least 5 characters' };
+    deal.title = title.substring(0, 300);
+  }
+
+  if (has('summary')) {
+    const summary = text('summary');
+    if (summary.length < 10) return { deal, terms: null, error: 'summary must be at least 10 characters' };
+    deal.summary = summary.substring(0, 5000);
+  }
+
+  if (has('content')) {
+    deal.content = text('content') || deal.summary || '';
+  }
+
+  if (has('source')) {
+    const source = text('source');
+    if (!source) return { deal, terms: null, error: 'source is required' };
+    deal.source = source.substring(0, 120);
+  }
+
+  if (has('source_url')) {
+    const sourceUrl = text('source_url');
+    if (sourceUrl && !/^https?:\/\/\S+$/i.test(sourceUrl)) {
+      return { deal, terms: null, error: 'source_url must be an http(s) URL' };
+    }
+    deal.source_url = sourceUrl || undefined;
+  }
+
+  if (has('category') && text('category')) {
+    const node = findCategory(text('category'));
+    if (!node) return { deal, terms: null, error: `Unknown category "${text('category')}"` };
+    deal.category = node.path;
+  }
+
+  if (has('deal_type')) {
+    const node = text('deal_type') ? findCategory(text('deal_type')) : null;
+    if (text('deal_type') && !node) return { deal, terms: null, error: `Unknown deal type "${text('deal_type')}"` };
+    deal.deal_type = node ? node.path : null;
+  }
+
+  if (has('region')) {
+    const region = text('region');
+    if (region && !DEAL_REGIONS.includes(region)) {
+      return { deal, terms: null, error: `region must be one of ${DEAL_REGIONS.join(', ')}` };
+    }
+    deal.region = region || null;
+  }
+
+  if (has('countries')) {
+    const countries = Array.isArray(raw?.countries) ? raw.countries : text('countries').split(',');
+    deal.countries = Array.from(new Set<string>(
+      countries
+        .filter((country: any) => typeof country === 'string')
+        .map((country: string) => country.trim())
+        .filter(Boolean)
+    ));
+  }
+
+  const terms = raw && raw.terms ? normalizeDealTerms(raw.terms) : null;
+  return { deal, terms, error: null };
+}
+
+/**
+ * Save an editor's deal with manual provenance, then run the same terms,
+ * entity linking and watchlist alerts as ingested deals. Drafts stay out of
+ * the public listing until published from the review queue.
+ */
+export async function saveManualDeal(
+  submission: DealSubmission,
+  terms: ExtractedDealTerms | null,
+  editor: string,
+  status: 'draft' | 'published' = 'published'
+): Promise<number> {
+  const db = getDatabase();
+  const deal: Omit<Deal, 'id' | 'created_at' | 'upvotes'> = {
+    ...submission,
+    content: submission.content || submission.summary,
+    provenance: 'manual',
+    submitted_by: editor,
+    status
+  };
+
+  const dealId = await db.saveDeal(deal, { actor: `editor:${editor}`, reason: 'Manual submission' });
+  console.log(`✍️ ${editor} submitted deal ${dealId}: "${deal.title}"`);
+
+  if (terms && hasDealTerms(terms)) {
+    await db.saveDealTerms({ deal_id: dealId, ...terms });
+  }
+  await recordDealProvenance(
+    dealId,
+    deal,
+    { category: 'Manual submission', content: deal.content, url: deal.source_url || null, sourceId: 'manual' },
+    MANUAL_EXTRACTION,
+    terms
+  );
+  await indexDeal(dealId, deal);
+
+  let entityIds: number[] = [];
+  try {
+    const links = await getEntityResolver().linkDeal({ id: dealId, ...deal }, terms ? terms.parties : []);
+    entityIds = links.map(link => link.entity_id);
+  } catch (error) {
+    console.error(`❌ Error linking entities for deal ${dealId}:`, error);
+  }
+
+  await processDealAlerts({ id: dealId, ...deal }, entityIds);
+  return dealId;
+}
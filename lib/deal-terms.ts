@@ -0,0 +1,254 @@
+import type { DealParty, DealPartyRole, DealTerms } from './supabase';
+
+export type ExtractedDealTerms = Omit<DealTerms, 'id' | 'deal_id' | 'created_at'>;
+
+export const DEAL_PARTY_ROLES: DealPartyRole[] = [
+  'borrower',
+  'lender',
+  'sponsor',
+  'arranger',
+  'manager',
+  'investor',
+  'target',
+  'other'
+];
+
+export const INSTRUMENT_TYPES = [
+  'Credit Facility',
+  'Term Loan',
+  'Revolving Credit Facility',
+  'Unitranche',
+  'Delayed Draw Term Loan',
+  'Asset-Based Loan',
+  'Mezzanine',
+  'Senior Notes',
+  'NAV Facility',
+  'CLO',
+  'Securitization',
+  'Fund Commitment',
+  'Equity',
+  'Other'
+];
+
+// Symbols and words that map onto ISO 4217 codes
+const CURRENCY_ALIASES: { [key: string]: string } = {
+  '$': 'USD',
+  'us$': 'USD',
+  'usd': 'USD',
+  'dollar': 'USD',
+  'dollars': 'USD',
+  '€': 'EUR',
+  'eur': 'EUR',
+  'euro': 'EUR',
+  'euros': 'EUR',
+  '£': 'GBP',
+  'gbp': 'GBP',
+  'pound': 'GBP',
+  'pounds': 'GBP',
+  'sterling': 'GBP',
+  '¥': 'JPY',
+  'jpy': 'JPY',
+  'yen': 'JPY',
+  'a$': 'AUD',
+  'aud': 'AUD',
+  'c$': 'CAD',
+  'cad': 'CAD',
+  'chf': 'CHF',
+  'sek': 'SEK'
+};
+
+const MULTIPLIERS: { [key: string]: number } = {
+  'k': 1e3,
+  'thousand': 1e3,
+  'm': 1e6,
+  'mm': 1e6,
+  'mn': 1e6,
+  'million': 1e6,
+  'b': 1e9,
+  'bn': 1e9,
+  'billion': 1e9,
+  't': 1e12,
+  'tn': 1e12,
+  'trillion': 1e12
+};
+
+const AMOUNT_PATTERN = /(us\$|a\$|c\$|\$|€|£|¥)?\s?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s?(thousand|million|billion|trillion|mm|mn|bn|tn|k|m|b|t)?\b\s?(usd|eur|gbp|jpy|aud|cad|chf|sek)?/i;
+
+/**
+ * Normalize a currency symbol or name to an ISO 4217 code
+ */
+export function normalizeCurrency(value?: string | null): string | null {
+  if (!value) return null;
+  const key = value.trim().toLowerCase();
+  if (CURRENCY_ALIASES[key]) return CURRENCY_ALIASES[key];
+  if (/^[a-z]{3}$/.test(key)) return key.toUpperCase();
+  return null;
+}
+
+/**
+ * Parse a human-written amount such as "$500M", "€1.2 billion" or "250 million USD"
+ */
+export function parseAmount(text?: string | number | null): { amount: number; currency: string | null } | null {
+  if (text === null || text === undefined) return null;
+  if (typeof text === 'number') {
+    return isFinite(text) && text > 0 ? { amount: text, currency: null } : null;
+  }
+
+  const pattern = new RegExp(AMOUNT_PATTERN.source, 'gi');
+  const plain = text.replace(/\*\*/g, '');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(plain)) !== null) {
+    const [, symbol, digits, unit, code] = match;
+    // A bare number with no currency and no unit (a year, a count) is not a deal size
+    if (!symbol && !unit && !code) continue;
+
+    const base = parseFloat(digits.replace(/,/g, ''));
+    if (!isFinite(base) || base <= 0) continue;
+
+    const multiplier = unit ? MULTIPLIERS[unit.toLowerCase()] || 1 : 1;
+
+    return {
+      amount: Math.round(base * multiplier),
+      currency: normalizeCurrency(code || symbol)
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Format a normalized amount for display, e.g. 500000000 USD -> "$500M"
+ */
+export function formatAmount(amount?: number | null, currency?: string | null): string {
+  if (!amount) return '';
+
+  const symbols: { [key: string]: string } = { USD: '$', EUR: '€', GBP: '£', JPY: '¥' };
+  const prefix = currency ? symbols[currency] || `${currency} ` : '';
+
+  if (amount >= 1e9) return `${prefix}${+(amount / 1e9).toFixed(2)}B`;
+  if (amount >= 1e6) return `${prefix}${+(amount / 1e6).toFixed(1)}M`;
+  if (amount >= 1e3) return `${prefix}${+(amount / 1e3).toFixed(0)}K`;
+  return `${prefix}${amount}`;
+}
+
+function normalizeRole(role?: string): DealPartyRole {
+  const value = (role || '').trim().toLowerCase();
+  if ((DEAL_PARTY_ROLES as string[]).includes(value)) return value as DealPartyRole;
+
+  if (['lead arranger', 'bookrunner', 'agent', 'administrative agent'].includes(value)) return 'arranger';
+  if (['issuer', 'company', 'obligor'].includes(value)) return 'borrower';
+  if (['private equity sponsor', 'pe sponsor', 'owner'].includes(value)) return 'sponsor';
+  if (['fund manager', 'gp', 'general partner', 'asset manager'].includes(value)) return 'manager';
+  if (['lp', 'limited partner', 'anchor investor'].includes(value)) return 'investor';
+  if (['acquisition target', 'acquiree'].includes(value)) return 'target';
+  if (['creditor', 'direct lender', 'bank'].includes(value)) return 'lender';
+
+  return 'other';
+}
+
+function normalizeInstrumentType(value?: string | null): string | null {
+  if (!value) return null;
+  const lower = value.toLowerCase();
+
+  const exact = INSTRUMENT_TYPES.find(type => type.toLowerCase() === lower);
+  if (exact) return exact;
+
+  if (lower.includes('unitranche')) return 'Unitranche';
+  if (lower.includes('delayed draw')) return 'Delayed Draw Term Loan';
+  if (lower.includes('revolv') || lower.includes('rcf')) return 'Revolving Credit Facility';
+  if (lower.includes('asset-based') || lower.includes('asset based') || lower.includes('abl')) return 'Asset-Based Loan';
+  if (lower.includes('mezz')) return 'Mezzanine';
+  if (lower.includes('nav')) return 'NAV Facility';
+  if (lower.includes('clo')) return 'CLO';
+  if (lower.includes('securiti') || lower.includes('abs')) return 'Securitization';
+  if (lower.includes('note') || lower.includes('bond')) return 'Senior Notes';
+  if (lower.includes('term loan') || lower.includes('loan')) return 'Term Loan';
+  if (lower.includes('facility')) return 'Credit Facility';
+  if (lower.includes('fund') || lower.includes('commitment')) return 'Fund Commitment';
+  if (lower.includes('equity')) return 'Equity';
+
+  return 'Other';
+}
+
+function cleanText(value: any): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.replace(/\*\*/g, '').trim();
+  if (!trimmed || ['n/a', 'na', 'none', 'unknown', 'not disclosed', 'null'].includes(trimmed.toLowerCase())) {
+    return null;
+  }
+  return trimmed;
+}
+
+/**
+ * Normalize the loosely-typed JSON returned by the extraction model into a DealTerms record
+ */
+export function normalizeDealTerms(raw: any): ExtractedDealTerms {
+  const parties: DealParty[] = [];
+  const seen = new Set<string>();
+
+  for (const party of Array.isArray(raw?.parties) ? raw.parties : []) {
+    const name = cleanText(party?.name);
+    if (!name) continue;
+
+    const role = normalizeRole(party?.role);
+    const key = `${name.toLowerCase()}|${role}`;
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    parties.push({ name, role });
+  }
+
+  let amount: number | null = null;
+  let currency = normalizeCurrency(cleanText(raw?.currency));
+
+  const parsed = parseAmount(typeof raw?.amount === 'number' ? raw.amount : cleanText(raw?.amount));
+  if (parsed) {
+    amount = parsed.amount;
+    currency = currency || parsed.currency;
+  }
+
+  return {
+    parties,
+    amount,
+    currency,
+    instrument_type: normalizeInstrumentType(cleanText(raw?.instrument_type)),
+    tenor: cleanText(raw?.tenor),
+    pricing: cleanText(raw?.pricing),
+    use_of_proceeds: cleanText(raw?.use_of_proceeds)
+  };
+}
+
+/**
+ * Rule-based fallback used when the extraction model is unavailable.
+ * Only picks up the headline amount and any obvious pricing/tenor phrases.
+ */
+export function extractDealTermsFromText(text: string): ExtractedDealTerms {
+  const plain = text.replace(/\*\*/g, '');
+
+  const pricingMatch = plain.match(/\b(?:SOFR|SONIA|EURIBOR|LIBOR|S)\s?\+\s?\d+(?:\.\d+)?\s?(?:bps|basis points|%)?/i);
+  const tenorMatch = plain.match(/\b(\d+(?:\.\d+)?)[-\s](year|yr|month)s?\b/i);
+  const instrumentMatch = plain.match(/\b(unitranche|revolving credit facility|revolver|delayed draw term loan|term loan|asset-based loan|mezzanine|senior notes|nav facility|credit facility|clo|securitization)\b/i);
+
+  return normalizeDealTerms({
+    amount: plain,
+    pricing: pricingMatch ? pricingMatch[0] : null,
+    tenor: tenorMatch ? `${tenorMatch[1]} ${tenorMatch[2].toLowerCase().startsWith('y') ? 'years' : 'months'}` : null,
+    instrument_type: instrumentMatch ? instrumentMatch[0] : null,
+    parties: []
+  });
+}
+
+/**
+ * True when the extracted record carries anything worth persisting
+ */
+export function hasDealTerms(terms: ExtractedDealTerms): boolean {
+  return !!(
+    terms.amount ||
+    terms.parties.length > 0 ||
+    terms.instrument_type ||
+    terms.pricing ||
+    terms.tenor ||
+    terms.use_of_proceeds
+  );
+}
@@ -0,0 +1,537 @@
+import { getDatabase } from './database';
+import type { Deal } from './supabase';
+import { OpenAIService } from './openai';
+import { extractDealTermsFromText } from './deal-terms';
+import { normalizeEntityName } from './entities';
+import { DealCluster, DuplicatePair, clustersFromPairs, mergeClusters } from './deal-clusters';
+import { embedDeals, getEmbedder, getVectorIndex } from './embeddings';
+import { rethrowMissingFixture } from './fixtures';
+
+/**
+ * The one duplicate engine. Each pair of deals goes through cheap checks first
+ * and only reaches the next stage when the earlier ones could not settle it:
+ *
+ *   url            same article link once tracking parameters are stripped
+ *   title          character shingle similarity of the titles
+ *   entity_amount  same amount and the same parties or resolved entities
+ *   embedding      cosine similarity of title + summary embeddings
+ *   llm            model adjudication, for borderline pairs only
+ *
+ * Which pairs get compared at all comes from the embedding index: each deal is
+ * paired with its nearest neighbours and with deals sharing its link or title,
+ * so a sweep grows with the number of deals rather than the number of pairs.
+ */
+export type DedupStage = 'url' | 'title' | 'entity_amount' | 'embedding' | 'llm';
+
+export const DEDUP_STAGES: DedupStage[] = ['url', 'title', 'entity_amount', 'embedding', 'llm'];
+
+// Every threshold the engine uses
+export interface DedupConfig {
+  maxDaysApart: number;         // deals dated further apart are never compared
+  shingleSize: number;          // characters per title shingle
+  titleDuplicate: number;       // title similarity that settles a pair as duplicate
+  titleCandidate: number;       // below this, a pair without matching terms is settled as different
+  amountTolerance: number;      // relative difference under which two amounts are the same
+  entityOverlap: number;        // share of parties that must match alongside the amount
+  embeddingDuplicate: number;   // cosine similarity that settles a pair as duplicate
+  embeddingBorderline: number;  // between this and embeddingDuplicate, the model decides
+  maxAdjudications: number;     // model calls per run
+  neighbours: number;           // nearest neighbours looked up per deal
+  neighbourSimilarity: number;  // neighbours less similar than this are not compared
+}
+
+export const DEDUP_CONFIG: DedupConfig = {
+  maxDaysApart: 7,
+  shingleSize: 4,
+  titleDuplicate: 0.8,
+  titleCandidate: 0.3,
+  amountTolerance: 0.02,
+  entityOverlap: 0.5,
+  embeddingDuplicate: 0.92,
+  embeddingBorderline: 0.8,
+  maxAdjudications: 20,
+  neighbours: 10,
+  neighbourSimilarity: 0.6
+};
+
+export interface DedupVerdict {
+  duplicate: boolean;
+  stage: DedupStage;            // the stage that settled the pair
+  score: number;                // that stage's similarity, 0-1
+  reason: string;
+}
+
+export interface ScoredPair extends DuplicatePair {
+  verdict: DedupVerdict;
+}
+
+export interface NearDuplicate {
+  deal: Deal;
+  verdict: DedupVerdict;
+}
+
+export interface DedupRunOptions {
+  actor: string;
+  days?: number;                // only deals dated within this many days
+  until?: string;               // of this date (YYYY-MM-DD) instead of today, for runs on past dates
+  limit?: number;               // newest deals to scan
+  archive?: boolean;            // scan every deal; days and the default limit do not apply
+  dryRun?: boolean;
+  config?: Partial<DedupConfig>;
+}
+
+export interface DedupRunResult {
+  dryRun: boolean;
+  scanned: number;
+  comparisons: number;
+  settledBy: { [stage: string]: number };
+  pairs: Array<{ deal_ids: [number, number]; titles: [string, string]; verdict: DedupVerdict }>;
+  clusters: Array<{ canonical: { id: number; title: string; source: string }; members: Array<{ id: number; title: string; source: string }>; reason: string }>;
+  merged: number;
+}
+
+const DEFAULT_RUN_DAYS = 7;
+const DEFAULT_RUN_LIMIT = 200;
+// Small scans also compare every pair, which catches pairs the index would miss
+const EXHAUSTIVE_LIMIT = 200;
+const ARCHIVE_PAGE_SIZE = 1000;
+
+// Parameters that vary between links to the same article
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|src|cmpid|ocid|guccounter)$/i;
+
+// Words that differ between headlines for the same deal without changing it
+const TITLE_NOISE = /\b(inc|ltd|llc|corp|company|the|a|an|announces?|completes?|closes?|raises?|secures?|launches?|forms?|provides?|reports?)\b/g;
+
+// Sources readers can open without a subscription; preferred as the canonical deal
+const FREE_SOURCES = ['reuters', 'yahoo', 'marketwatch', 'cnbc', 'businesswire', 'business wire', 'prnewswire', 'pr newswire', 'seekingalpha', 'seeking alpha', 'benzinga', 'sec.gov'];
+const PAYWALLED_SOURCES = ['bloomberg', 'ft.com', 'financial times', 'wsj', 'wall street journal'];
+
+export function normalizeUrl(url?: string | null): string | null {
+  if (!url) return null;
+
+  const match = url.trim().match(/^(?:https?:\/\/)?(?:www\.)?([^/?#]+)([^?#]*)(?:\?([^#]*))?/i);
+  if (!match) return null;
+
+  const host = match[1].toLowerCase();
+  const path = match[2].replace(/\/+$/, '').replace(/\/amp$/, '');
+  // A bare homepage says nothing about which article was meant
+  if (!path) return null;
+
+  const query = (match[3] || '')
+    .split('&')
+    .filter(param => param && !TRACKING_PARAMS.test(param.split('=')[0]))
+    .sort()
+    .join('&');
+
+  return `${host}${path}${query ? `?${query}` : ''}`;
+}
+
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/\*\*/g, '')
+    .replace(/[^\w\s$.]/g, ' ')
+    .replace(TITLE_NOISE, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function titleShingles(title: string, size: number = DEDUP_CONFIG.shingleSize): string[] {
+  const text = normalizeTitle(title);
+  if (text.length <= size) return text ? [text] : [];
+
+  const seen: { [shingle: string]: boolean } = {};
+  for (let i = 0; i <= text.length - size; i++) {
+    seen[text.substring(i, i + size)] = true;
+  }
+  return Object.keys(seen);
+}
+
+export function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const inA: { [key: string]: boolean } = {};
+  a.forEach(item => { inA[item] = true; });
+  const shared = b.filter(item => inA[item]).length;
+  return shared / (a.length + b.length - shared);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Which deal of a cluster stays listed once status is settled (see
+ * clustersFromPairs): free, linked sources first, then the more specific title
+ * and summary, then engagement
+ */
+export function canonicalScore(deal: Deal): number {
+  let score = 0;
+  const where = `${deal.source_url || ''} ${deal.source || ''}`.toLowerCase();
+
+  if (!deal.source_url) score -= 20;
+  if (FREE_SOURCES.some(source => where.includes(source))) score += 50;
+  else if (PAYWALLED_SOURCES.some(source => where.includes(source))) score += 20;
+  else if (deal.source_url) score += 25;
+
+  score += Math.min(deal.title.length / 8, 15);
+  if (/\$|million|billion/i.test(deal.title)) score += 15;
+  score += Math.min((deal.summary || '').length / 15, 20);
+  if ((deal.summary || '').includes('**')) score += 8;
+  score += (deal.upvotes || 0) * 3;
+
+  return score;
+}
+
+// What the stages look at, worked out once per deal
+interface DedupCandidate {
+  deal: Deal;
+  url: string | null;
+  shingles: string[];
+  amount: number | null;
+  currency: string | null;
+  entities: string[];           // resolved entity ids, or normalized party names when unresolved
+  embedding: number[] | null;
+}
+
+const daysApart = (a: Deal, b: Deal): number =>
+  Math.abs(new Date(a.date).getTime() - new Date(b.date).getTime()) / (24 * 60 * 60 * 1000);
+
+export class DedupEngine {
+  private config: DedupConfig;
+  private openaiService?: OpenAIService | null;
+  private adjudications = 0;
+
+  constructor(config: Partial<DedupConfig> = {}) {
+    this.config = { ...DEDUP_CONFIG, ...config };
+  }
+
+  // The llm stage is skipped when no LLM provider is configured
+  private getOpenAIService(): OpenAIService | null {
+    if (this.openaiService === undefined) {
+      try {
+        this.openaiService = new OpenAIService();
+      } catch (error) {
+        console.log('⚠️ Dedup: no LLM provider configured, model stage disabled');
+        this.openaiService = null;
+      }
+    }
+    return this.openaiService;
+  }
+
+  private async prepare(deals: Deal[]): Promise<DedupCandidate[]> {
+    const db = getDatabase();
+    const ids = deals.filter(deal => deal.id).map(deal => deal.id!);
+    const [terms, links] = await Promise.all([db.getDealTermsForDeals(ids), db.getDealEntityLinksForDeals(ids)]);
+
+    const candidates = deals.map(deal => {
+      const dealTerms = terms.find(t => t.deal_id === deal.id) || extractDealTermsFromText(`${deal.title}. ${deal.summary}`);
+      const entityIds = links.filter(link => link.deal_id === deal.id).map(link => `entity:${link.entity_id}`);
+
+      return {
+        deal,
+        url: normalizeUrl(deal.source_url),
+        shingles: titleShingles(deal.title, this.config.shingleSize),
+        amount: dealTerms.amount,
+        currency: dealTerms.currency,
+        entities: entityIds.length > 0 ? entityIds : dealTerms.parties.map(party => normalizeEntityName(party.name)).filter(Boolean),
+        embedding: null
+      };
+    });
+
+    await this.embed(candidates);
+    return candidates;
+  }
+
+  private async embed(candidates: DedupCandidate[]): Promise<void> {
+    if (candidates.length === 0) return;
+
+    try {
+      const vectors = await embedDeals(candidates.map(c => c.deal));
+      candidates.forEach((candidate, index) => {
+        candidate.embedding = vectors[index] || null;
+      });
+    } catch (error) {
+      rethrowMissingFixture(error);
+      console.error('❌ Dedup: embedding failed, skipping the embedding stage:', error);
+    }
+  }
+
+  private entityOverlap(a: DedupCandidate, b: DedupCandidate): number | null {
+    if (a.entities.length === 0 || b.entities.length === 0) return null;
+    const shared = a.entities.filter(entity => b.entities.indexOf(entity) !== -1).length;
+    return shared / Math.min(a.entities.length, b.entities.length);
+  }
+
+  private async compare(a: DedupCandidate, b: DedupCandidate): Promise<DedupVerdict> {
+    const config = this.config;
+
+    if (a.url && a.url === b.url) {
+      return { duplicate: true, stage: 'url', score: 1, reason: 'Same article link' };
+    }
+
+    const title = jaccard(a.shingles, b.shingles);
+    if (title >= config.titleDuplicate) {
+      return { duplicate: true, stage: 'title', score: title, reason: 'Near-identical titles' };
+    }
+
+    let sameAmount = false;
+    if (a.amount && b.amount && (!a.currency || !b.currency || a.currency === b.currency)) {
+      const difference = Math.abs(a.amount - b.amount) / Math.max(a.amount, b.amount);
+      if (difference > config.amountTolerance) {
+        return { duplicate: false, stage: 'entity_amount', score: 1 - difference, reason: 'Different amounts' };
+      }
+      sameAmount = true;
+    }
+
+    const overlap = this.entityOverlap(a, b);
+    if (sameAmount && overlap !== null) {
+      return overlap >= config.entityOverlap
+        ? { duplicate: true, stage: 'entity_amount', score: overlap, reason: 'Same amount and parties' }
+        : { duplicate: false, stage: 'entity_amount', score: overlap, reason: 'Same amount, different parties' };
+    }
+
+    if (title < config.titleCandidate && !sameAmount) {
+      return { duplicate: false, stage: 'title', score: title, reason: 'Unrelated titles' };
+    }
+
+    if (a.embedding && b.embedding) {
+      const similarity = cosineSimilarity(a.embedding, b.embedding);
+      if (similarity >= config.embeddingDuplicate) {
+        return { duplicate: true, stage: 'embedding', score: similarity, reason: 'Near-identical content' };
+      }
+      if (similarity < config.embeddingBorderline) {
+        return { duplicate: false, stage: 'embedding', score: similarity, reason: 'Different content' };
+      }
+    }
+
+    return this.adjudicate(a, b, title);
+  }
+
+  private async adjudicate(a: DedupCandidate, b: DedupCandidate, title: number): Promise<DedupVerdict> {
+    const openai = this.getOpenAIService();
+    if (!openai || this.adjudications >= this.config.maxAdjudications) {
+      return { duplicate: false, stage: 'llm', score: title, reason: 'Borderline pair left unmerged (no model call available)' };
+    }
+
+    this.adjudications++;
+    try {
+      const result = await openai.adjudicateDuplicate(a.deal, b.deal);
+      return { duplicate: result.duplicate, stage: 'llm', score: result.duplicate ? 1 : 0, reason: result.reason || (result.duplicate ? 'Same deal' : 'Different deals') };
+    } catch (error) {
+      rethrowMissingFixture(error);
+      console.error('❌ Dedup: model adjudication failed:', error);
+      return { duplicate: false, stage: 'llm', score: title, reason: 'Borderline pair left unmerged (model call failed)' };
+    }
+  }
+
+  /**
+   * Run one pair through the stages
+   */
+  async compareDeals(a: Deal, b: Deal): Promise<DedupVerdict> {
+    const [first, second] = await this.prepare([a, b]);
+    return this.compare(first, second);
+  }
+
+  // Deals sharing a key, paired up
+  private sameKeyPairs(candidates: DedupCandidate[], key: (candidate: DedupCandidate) => string | null): Array<[number, number]> {
+    const groups: { [key: string]: number[] } = {};
+    candidates.forEach((candidate, index) => {
+      const value = key(candidate);
+      if (value) (groups[value] || (groups[value] = [])).push(index);
+    });
+
+    const pairs: Array<[number, number]> = [];
+    Object.keys(groups).forEach(value => {
+      const group = groups[value];
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) pairs.push([group[i], group[j]]);
+      }
+    });
+    return pairs;
+  }
+
+  // Index neighbours of each candidate, loading neighbours outside the scan as extra candidates
+  private async neighbourPairs(candidates: DedupCandidate[]): Promise<Array<[number, number]>> {
+    const model = getEmbedder().model;
+    const positions: { [dealId: number]: number } = {};
+    candidates.forEach((candidate, index) => { positions[candidate.deal.id!] = index; });
+
+    const found: Array<[number, number]> = [];
+    const outside: { [dealId: number]: number[] } = {};
+
+    for (let i = 0; i < candidates.length; i++) {
+      const candidate = candidates[i];
+      if (!candidate.embedding) continue;
+
+      try {
+        const matches = await getVectorIndex().nearest(candidate.embedding, model, this.config.neighbours, this.config.neighbourSimilarity, candidate.deal.id);
+        matches.forEach(match => {
+          if (positions[match.deal_id] !== undefined) found.push([i, positions[match.deal_id]]);
+          else (outside[match.deal_id] || (outside[match.deal_id] = [])).push(i);
+        });
+      } catch (error) {
+        rethrowMissingFixture(error);
+        console.error(`❌ Dedup: neighbour lookup failed for deal ${candidate.deal.id}:`, error);
+      }
+    }
+
+    const outsideIds = Object.keys(outside).map(id => parseInt(id, 10));
+    if (outsideIds.length > 0) {
+      const extra = await this.prepare(await getDatabase().getDealsByIds(outsideIds, false));
+      extra.forEach(candidate => {
+        candidates.push(candidate);
+        outside[candidate.deal.id!].forEach(i => found.push([i, candidates.length - 1]));
+      });
+    }
+
+    return found;
+  }
+
+  /**
+   * Compare each deal with its index neighbours and with deals sharing its link
+   * or title (every pair, for small scans), then group the duplicates
+   */
+  async findClusters(deals: Deal[]): Promise<{ clusters: DealCluster[]; pairs: ScoredPair[]; comparisons: number }> {
+    const candidates = await this.prepare(deals.filter(deal => deal.id));
+    const scanned = candidates.length;
+
+    let candidatePairs: Array<[number, number]> = [];
+    if (scanned <= EXHAUSTIVE_LIMIT) {
+      for (let i = 0; i < scanned; i++) {
+        for (let j = i + 1; j < scanned; j++) candidatePairs.push([i, j]);
+      }
+    }
+    candidatePairs = candidatePairs.concat(
+      this.sameKeyPairs(candidates, candidate => candidate.url),
+      this.sameKeyPairs(candidates, candidate => normalizeTitle(candidate.deal.title) || null),
+      await this.neighbourPairs(candidates)
+    );
+
+    const pairs: ScoredPair[] = [];
+    const compared: { [key: string]: boolean } = {};
+    let comparisons = 0;
+
+    for (let p = 0; p < candidatePairs.length; p++) {
+      const a = candidates[candidatePairs[p][0]];
+      const b = candidates[candidatePairs[p][1]];
+      const key = a.deal.id! < b.deal.id! ? `${a.deal.id}:${b.deal.id}` : `${b.deal.id}:${a.deal.id}`;
+      if (a.deal.id === b.deal.id || compared[key]) continue;
+      compared[key] = true;
+
+      if (daysApart(a.deal, b.deal) > this.config.maxDaysApart) continue;
+
+      comparisons++;
+      const verdict = await this.compare(a, b);
+      pairs.push({ article1: a.deal, article2: b.deal, reason: verdict.reason, verdict });
+    }
+
+    const clusters = clustersFromPairs(pairs.filter(pair => pair.verdict.duplicate), canonicalScore);
+    return { clusters, pairs, comparisons };
+  }
+
+  /**
+   * Saved deals that duplicate a deal about to be saved, from its index
+   * neighbours. Returns the deal's vector too so it can be stored without
+   * embedding it again.
+   */
+  async findNearDuplicates(deal: Deal): Promise<{ duplicates: NearDuplicate[]; embedding: number[] | null }> {
+    const [candidate] = await this.prepare([deal]);
+    if (!candidate.embedding) return { duplicates: [], embedding: null };
+
+    const matches = await getVectorIndex().nearest(candidate.embedding, getEmbedder().model, this.config.neighbours, this.config.neighbourSimilarity, deal.id || null);
+    const neighbours = (await getDatabase().getDealsByIds(matches.map(match => match.deal_id), false))
+      .filter(other => daysApart(deal, other) <= this.config.maxDaysApart);
+
+    const duplicates: NearDuplicate[] = [];
+    const others = await this.prepare(neighbours);
+    for (let i = 0; i < others.length; i++) {
+      const verdict = await this.compare(candidate, others[i]);
+      if (verdict.duplicate) duplicates.push({ deal: others[i].deal, verdict });
+    }
+
+    return { duplicates, embedding: candidate.embedding };
+  }
+}
+
+/**
+ * Ingest-time check for a deal about to be saved. Never throws; when the check
+ * cannot run the deal is treated as new.
+ */
+export async function findNearDuplicates(deal: Deal): Promise<{ duplicates: NearDuplicate[]; embedding: number[] | null }> {
+  try {
+    return await new DedupEngine().findNearDuplicates(deal);
+  } catch (error) {
+    rethrowMissingFixture(error);
+    console.error(`❌ Dedup: near-duplicate check failed for "${deal.title}":`, error);
+    return { duplicates: [], embedding: null };
+  }
+}
+
+async function getArchiveDeals(): Promise<Deal[]> {
+  const db = getDatabase();
+  let deals: Deal[] = [];
+  let afterId = 0;
+
+  for (;;) {
+    const page = await db.getDealsAfterId(afterId, ARCHIVE_PAGE_SIZE);
+    deals = deals.concat(page);
+    if (page.length < ARCHIVE_PAGE_SIZE) return deals;
+    afterId = page[page.length - 1].id!;
+  }
+}
+
+/**
+ * Scan recent deals (or the whole archive) and merge each duplicate cluster
+ * into its canonical deal. With dryRun nothing is merged; the result shows
+ * what would be.
+ */
+export async function runDedup(options: DedupRunOptions): Promise<DedupRunResult> {
+  const days = options.days || DEFAULT_RUN_DAYS;
+  const limit = options.limit || (options.archive ? 0 : DEFAULT_RUN_LIMIT);
+  const end = options.until ? new Date(`${options.until}T00:00:00Z`).getTime() : Date.now();
+  const since = options.archive ? '' : new Date(end - days * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+  const until = options.archive || !options.until ? null : options.until;
+
+  const recent = (options.archive ? await getArchiveDeals() : await getDatabase().getAllDealsByDateRange(since, until, limit))
+    .sort((a, b) => (b.created_at || b.date).localeCompare(a.created_at || a.date));
+  const deals = limit ? recent.slice(0, limit) : recent;
+
+  console.log(`🔍 Dedup: scanning ${deals.length} deals ${options.archive ? 'in the archive' : until ? `from the ${days} days to ${until}` : `from the last ${days} days`}${options.dryRun ? ' (dry run)' : ''}`);
+
+  const engine = new DedupEngine(options.config);
+  const { clusters, pairs, comparisons } = await engine.findClusters(deals);
+
+  const settledBy: { [stage: string]: number } = {};
+  DEDUP_STAGES.forEach(stage => { settledBy[stage] = 0; });
+  pairs.forEach(pair => { settledBy[pair.verdict.stage]++; });
+
+  const merged = options.dryRun ? 0 : await mergeClusters(clusters, options.actor);
+  const summary = (deal: Deal) => ({ id: deal.id!, title: deal.title, source: deal.source });
+
+  console.log(`✅ Dedup: ${comparisons} comparisons, ${clusters.length} clusters, ${merged} deals merged`);
+
+  return {
+    dryRun: !!options.dryRun,
+    scanned: deals.length,
+    comparisons,
+    settledBy,
+    pairs: pairs
+      .filter(pair => pair.verdict.duplicate || pair.verdict.stage === 'llm')
+      .map(pair => ({
+        deal_ids: [pair.article1.id!, pair.article2.id!] as [number, number],
+        titles: [pair.article1.title, pair.article2.title] as [string, string],
+        verdict: pair.verdict
+      })),
+    clusters: clusters.map(cluster => ({ canonical: summary(cluster.canonical), members: cluster.members.map(summary), reason: cluster.reason })),
+    merged
+  };
+}
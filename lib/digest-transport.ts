@@ -0,0 +1,118 @@
+import axios from 'axios';
+import type { DailyDigest } from './digest';
+import { SmtpOptions, getSmtpOptions, sendMail } from './mailer';
+
+export interface DigestTransport {
+  name: string;
+  send(digest: DailyDigest): Promise<void>;
+}
+
+export interface WebhookTransportOptions {
+  url: string;
+  headers?: { [key: string]: string };
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Emails the digest with the Markdown as the plain-text part
+ */
+export class SmtpTransport implements DigestTransport {
+  name = 'smtp';
+
+  constructor(private options: SmtpOptions, private to: string[]) {}
+
+  async send(digest: DailyDigest): Promise<void> {
+    await sendMail(this.options, {
+      to: this.to,
+      subject: digest.subject,
+      text: digest.markdown,
+      html: digest.html
+    });
+  }
+}
+
+/**
+ * POSTs the digest as JSON. `text` carries the Markdown so Slack-style incoming
+ * webhooks can post it as-is; other receivers can use the html and groups.
+ */
+export class WebhookTransport implements DigestTransport {
+  name = 'webhook';
+
+  constructor(private options: WebhookTransportOptions) {}
+
+  async send(digest: DailyDigest): Promise<void> {
+    await axios.post(this.options.url, {
+      text: digest.markdown,
+      subject: digest.subject,
+      date: digest.date,
+      totalDeals: digest.totalDeals,
+      html: digest.html,
+      groups: digest.groups.map(group => ({
+        category: group.category,
+        dealCount: group.dealCount,
+        regions: group.regions.map(regionGroup => ({
+          region: regionGroup.region,
+          deals: regionGroup.deals.map(deal => ({
+            id: deal.id,
+            title: deal.title,
+            source: deal.source,
+            source_url: deal.source_url,
+            deal_type: deal.deal_type,
+            amount: deal.terms?.amount ?? null,
+            currency: deal.terms?.currency ?? null,
+            upvotes: deal.upvotes || 0
+          }))
+        }))
+      }))
+    }, {
+      headers: { 'Content-Type': 'application/json', ...(this.options.headers || {}) },
+      timeout: this.options.timeoutMs || DEFAULT_TIMEOUT_MS
+    });
+  }
+}
+
+function splitList(value?: string): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Transports named in DIGEST_TRANSPORTS (e.g. "smtp,webhook"). SMTP uses the shared
+ * relay from lib/mailer.ts and sends to DIGEST_TO; the webhook posts to
+ * DIGEST_WEBHOOK_URL. Misconfigured ones are skipped.
+ */
+export function getDigestTransports(): DigestTransport[] {
+  const transports: DigestTransport[] = [];
+
+  for (const name of splitList(process.env.DIGEST_TRANSPORTS).map(n => n.toLowerCase())) {
+    if (name === 'smtp') {
+      const smtp = getSmtpOptions();
+      const to = splitList(process.env.DIGEST_TO);
+
+      if (!smtp || to.length === 0) {
+        console.warn('⚠️ SMTP digest transport needs SMTP_HOST, MAIL_FROM and DIGEST_TO - skipping');
+        continue;
+      }
+
+      transports.push(new SmtpTransport(smtp, to));
+    } else if (name === 'webhook') {
+      const url = process.env.DIGEST_WEBHOOK_URL;
+
+      if (!url) {
+        console.warn('⚠️ Webhook digest transport needs DIGEST_WEBHOOK_URL - skipping');
+        continue;
+      }
+
+      const headers: { [key: string]: string } = {};
+      if (process.env.DIGEST_WEBHOOK_SECRET) {
+        headers['Authorization'] = `Bearer ${process.env.DIGEST_WEBHOOK_SECRET}`;
+      }
+      transports.push(new WebhookTransport({ url, headers }));
+    } else {
+      console.warn(`⚠️ Unknown digest transport "${name}" - skipping`);
+    }
+  }
+
+  return transports;
+}
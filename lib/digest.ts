@@ -0,0 +1,282 @@
+import { getDatabase } from './database';
+import type { Deal, DealTerms } from './supabase';
+import { DEAL_REGIONS } from './classification';
+import { formatAmount } from './deal-terms';
+import { DEFAULT_CATEGORY, TAXONOMY, categoryLabel, topLevelCategory } from './taxonomy';
+import { DigestTransport, getDigestTransports } from './digest-transport';
+import { getSiteUrl } from './site';
+
+// Regions are listed in this order inside each category; unknown ones go last
+const OTHER_REGION = 'Other';
+
+// Rough USD rates used only to order deals of different currencies by size.
+// Totals are never converted.
+const RANKING_USD_RATES: { [currency: string]: number } = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  CHF: 1.12,
+  CAD: 0.73,
+  AUD: 0.66,
+  SEK: 0.095,
+  JPY: 0.0067
+};
+
+export interface DigestDeal extends Deal {
+  terms: DealTerms | null;
+}
+
+export interface DigestRegionGroup {
+  region: string;
+  deals: DigestDeal[];
+}
+
+export interface DigestCategoryGroup {
+  category: string;             // top-level taxonomy path
+  dealCount: number;
+  regions: DigestRegionGroup[];
+}
+
+export interface DailyDigest {
+  date: string;
+  subject: string;
+  totalDeals: number;
+  groups: DigestCategoryGroup[];
+  html: string;
+  markdown: string;
+}
+
+export interface DigestDeliveryResult {
+  date: string;
+  totalDeals: number;
+  delivered: string[];
+  failed: Array<{ transport: string; error: string }>;
+  skipped?: string;
+}
+
+function rankingSize(terms: DealTerms | null): number {
+  if (!terms?.amount) return 0;
+  const rate = RANKING_USD_RATES[terms.currency || 'USD'] ?? 1;
+  return Number(terms.amount) * rate;
+}
+
+// Largest disclosed deals first, then the most upvoted, then the newest
+function compareDeals(a: DigestDeal, b: DigestDeal): number {
+  return (
+    rankingSize(b.terms) - rankingSize(a.terms) ||
+    (b.upvotes || 0) - (a.upvotes || 0) ||
+    (b.id || 0) - (a.id || 0)
+  );
+}
+
+function categoryOrder(category: string): number {
+  const index = TAXONOMY.findIndex(node => node.path === category);
+  return index === -1 ? TAXONOMY.length : index;
+}
+
+function regionOrder(region: string): number {
+  const index = DEAL_REGIONS.indexOf(region);
+  return index === -1 ? DEAL_REGIONS.length : index;
+}
+
+/**
+ * Group deals by top-level category and then region, each list ranked by size and upvotes
+ */
+export function groupDigestDeals(deals: DigestDeal[]): DigestCategoryGroup[] {
+  const byCategory = new Map<string, Map<string, DigestDeal[]>>();
+
+  for (const deal of deals) {
+    const category = topLevelCategory(deal.deal_type || deal.category || DEFAULT_CATEGORY);
+    const region = deal.region || OTHER_REGION;
+
+    const regions = byCategory.get(category) || new Map<string, DigestDeal[]>();
+    const list = regions.get(region) || [];
+    list.push(deal);
+    regions.set(region, list);
+    byCategory.set(category, regions);
+  }
+
+  return Array.from(byCategory.entries())
+    .map(([category, regions]) => {
+      const regionGroups = Array.from(regions.entries())
+        .map(([region, list]) => ({ region, deals: list.sort(compareDeals) }))
+        .sort((a, b) => regionOrder(a.region) - regionOrder(b.region));
+
+      return {
+        category,
+        dealCount: regionGroups.reduce((sum, group) => sum + group.deals.length, 0),
+        regions: regionGroups
+      };
+    })
+    .sort((a, b) => categoryOrder(a.category) - categoryOrder(b.category));
+}
+
+function plainSummary(summary: string): string {
+  return summary.replace(/\*\*/g, '').trim();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_\[\]])/g, '\\$1');
+}
+
+function dealMeta(deal: DigestDeal): string[] {
+  const meta: string[] = [];
+  const amount = formatAmount(deal.terms?.amount, deal.terms?.currency);
+  if (amount) meta.push(amount);
+  if (deal.deal_type) meta.push(categoryLabel(deal.deal_type));
+  if (deal.upvotes) meta.push(`▲ ${deal.upvotes}`);
+  meta.push(deal.source);
+  return meta;
+}
+
+/**
+ * Markdown body, also used as the plain-text part of the email and for chat webhooks
+ */
+export function renderDigestMarkdown(date: string, groups: DigestCategoryGroup[]): string {
+  const total = groups.reduce((sum, group) => sum + group.dealCount, 0);
+  const lines: string[] = [`# Private Credit Daily Digest - ${date}`, '', `${total} ${total === 1 ? 'deal' : 'deals'} reported.`];
+
+  if (total === 0) {
+    lines.push('', 'No deals were reported for this date.');
+  }
+
+  for (const group of groups) {
+    lines.push('', `## ${group.category} (${group.dealCount})`);
+
+    for (const regionGroup of group.regions) {
+      lines.push('', `### ${regionGroup.region}`, '');
+
+      for (const deal of regionGroup.deals) {
+        const title = deal.source_url ? `[${escapeMarkdown(deal.title)}](${deal.source_url})` : escapeMarkdown(deal.title);
+        lines.push(`- **${title}** - ${dealMeta(deal).join(' · ')}`);
+        lines.push(`  ${escapeMarkdown(plainSummary(deal.summary))}`);
+      }
+    }
+  }
+
+  const url = getSiteUrl();
+  if (url) {
+    lines.push('', `More deals: ${url}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Self-contained HTML email with inline styles, as most mail clients drop <style> blocks
+ */
+export function renderDigestHtml(date: string, groups: DigestCategoryGroup[]): string {
+  const total = groups.reduce((sum, group) => sum + group.dealCount, 0);
+  const url = getSiteUrl();
+  const parts: string[] = [];
+
+  parts.push(
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>Private Credit Daily Digest - ${escapeHtml(date)}</title></head>`,
+    '<body style="margin:0;padding:0;background:#f5f5f7;font-family:-apple-system,BlinkMacSystemFont,\'Segoe UI\',Helvetica,Arial,sans-serif;color:#1d1d1f;">',
+    '<div style="max-width:640px;margin:0 auto;padding:24px;">',
+    `<h1 style="font-size:22px;margin:0 0 4px;">Private Credit Daily Digest</h1>`,
+    `<p style="margin:0 0 24px;color:#6e6e73;">${escapeHtml(date)} · ${total} ${total === 1 ? 'deal' : 'deals'} reported</p>`
+  );
+
+  if (total === 0) {
+    parts.push('<p style="color:#6e6e73;">No deals were reported for this date.</p>');
+  }
+
+  for (const group of groups) {
+    parts.push(`<h2 style="font-size:18px;margin:28px 0 8px;border-bottom:1px solid #d2d2d7;padding-bottom:6px;">${escapeHtml(group.category)} <span style="color:#6e6e73;font-weight:normal;">(${group.dealCount})</span></h2>`);
+
+    for (const regionGroup of group.regions) {
+      parts.push(`<h3 style="font-size:13px;text-transform:uppercase;letter-spacing:0.04em;color:#6e6e73;margin:16px 0 8px;">${escapeHtml(regionGroup.region)}</h3>`);
+
+      for (const deal of regionGroup.deals) {
+        const title = deal.source_url
+          ? `<a href="${escapeHtml(deal.source_url)}" style="color:#0066cc;text-decoration:none;">${escapeHtml(deal.title)}</a>`
+          : escapeHtml(deal.title);
+
+        parts.push(
+          '<div style="background:#ffffff;border-radius:10px;padding:14px 16px;margin:0 0 10px;">',
+          `<div style="font-weight:600;font-size:15px;margin:0 0 4px;">${title}</div>`,
+          `<div style="font-size:12px;color:#6e6e73;margin:0 0 6px;">${dealMeta(deal).map(escapeHtml).join(' · ')}</div>`,
+          `<div style="font-size:14px;line-height:1.45;">${escapeHtml(plainSummary(deal.summary))}</div>`,
+          '</div>'
+        );
+      }
+    }
+  }
+
+  if (url) {
+    parts.push(`<p style="margin:28px 0 0;font-size:13px;"><a href="${escapeHtml(url)}" style="color:#0066cc;">View all deals</a></p>`);
+  }
+
+  parts.push('</div></body></html>');
+  return parts.join('\n');
+}
+
+/**
+ * Build the digest for one day from the stored deals and their extracted terms
+ */
+export async function buildDailyDigest(date: string): Promise<DailyDigest> {
+  const db = getDatabase();
+  const deals = await db.getDealsByDate(date);
+  const terms = await db.getDealTermsForDeals(deals.map(deal => deal.id!));
+  const termsByDeal = new Map(terms.map(t => [t.deal_id, t]));
+
+  const groups = groupDigestDeals(deals.map(deal => ({ ...deal, terms: termsByDeal.get(deal.id!) || null })));
+  const totalDeals = deals.length;
+
+  return {
+    date,
+    subject: `Private Credit Daily Digest - ${date} (${totalDeals} ${totalDeals === 1 ? 'deal' : 'deals'})`,
+    totalDeals,
+    groups,
+    html: renderDigestHtml(date, groups),
+    markdown: renderDigestMarkdown(date, groups)
+  };
+}
+
+/**
+ * Build the digest for a day and hand it to every configured transport. A failing
+ * transport is reported but does not stop the others.
+ */
+export async function sendDailyDigest(date: string, transports: DigestTransport[] = getDigestTransports()): Promise<DigestDeliveryResult> {
+  const result: DigestDeliveryResult = { date, totalDeals: 0, delivered: [], failed: [] };
+
+  if (transports.length === 0) {
+    result.skipped = 'No digest transports configured';
+    console.log(`📭 ${result.skipped} - skipping digest for ${date}`);
+    return result;
+  }
+
+  const digest = await buildDailyDigest(date);
+  result.totalDeals = digest.totalDeals;
+
+  if (digest.totalDeals === 0) {
+    result.skipped = 'No deals for this date';
+    console.log(`📭 No deals for ${date} - skipping digest`);
+    return result;
+  }
+
+  for (const transport of transports) {
+    try {
+      await transport.send(digest);
+      result.delivered.push(transport.name);
+      console.log(`📬 Sent ${date} digest via ${transport.name}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.failed.push({ transport: transport.name, error: message });
+      console.error(`❌ Failed to send ${date} digest via ${transport.name}:`, error);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,430 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JSDOM } from 'jsdom';
+import { detectDealType } from './classification';
+import { extractDealTermsFromText, formatAmount } from './deal-terms';
+import type { ExtractedDealTerms } from './deal-terms';
+import type { EdgarMode, EdgarSourceConfig, NewsSource, NewsSourceItem, SourceDeal } from './news-sources';
+
+const SUBMISSIONS_URL = 'https://data.sec.gov/submissions';
+const FULL_TEXT_SEARCH_URL = 'https://efts.sec.gov/LATEST/search-index';
+const ARCHIVES_URL = 'https://www.sec.gov/Archives/edgar/data';
+const EDGAR_TIMEOUT_MS = 15000;
+const DEFAULT_FIXTURES_PATH = 'fixtures/edgar';
+const MAX_DOCUMENT_CHARS = 500000;
+const EXCERPT_CHARS = 2000;
+
+// Human-readable names for the forms private credit watchers care about
+const FORM_DESCRIPTIONS: { [form: string]: string } = {
+  '8-K': 'current report',
+  'N-2': 'registration statement for a closed-end fund or BDC',
+  'D': 'notice of exempt offering (Form D)',
+  '10-Q': 'quarterly report',
+  '10-K': 'annual report'
+};
+
+// 8-K items that usually mean a financing, a deal or a change worth reporting
+const EIGHT_K_ITEMS: { [item: string]: string } = {
+  '1.01': 'Entry into a Material Definitive Agreement',
+  '1.02': 'Termination of a Material Definitive Agreement',
+  '2.01': 'Completion of Acquisition or Disposition of Assets',
+  '2.03': 'Creation of a Direct Financial Obligation',
+  '2.04': 'Triggering Events That Accelerate a Direct Financial Obligation',
+  '3.02': 'Unregistered Sales of Equity Securities',
+  '5.02': 'Departure or Appointment of Directors or Officers',
+  '7.01': 'Regulation FD Disclosure',
+  '8.01': 'Other Events'
+};
+
+const FINANCING_ITEMS = ['1.01', '2.03', '2.04'];
+
+export interface EdgarFiling {
+  cik: string;
+  company: string;
+  form: string;
+  filingDate: string;             // YYYY-MM-DD
+  accessionNumber: string;
+  primaryDocument: string;
+  description: string;
+  items: string[];                // 8-K item numbers, e.g. ['1.01', '9.01']
+  url: string;
+}
+
+export interface FormDOffering {
+  issuer: string;
+  industryGroup: string | null;
+  investmentFundType: string | null;   // e.g. 'Other Investment Fund'
+  securities: string[];                // e.g. ['Pooled Investment Fund Interests', 'Debt']
+  totalOfferingAmount: number | null;  // null when indefinite
+  totalAmountSold: number | null;
+  dateOfFirstSale: string | null;
+}
+
+interface SubmissionsResponse {
+  name: string;
+  filings: {
+    recent: {
+      accessionNumber: string[];
+      filingDate: string[];
+      form: string[];
+      primaryDocument: string[];
+      primaryDocDescription: string[];
+      items?: string[];
+    };
+  };
+}
+
+interface FullTextSearchResponse {
+  hits: {
+    hits: Array<{
+      _id: string;                // "<accession>:<document>"
+      _source: {
+        ciks: string[];
+        display_names: string[];  // "ARES CAPITAL CORP  (ARCC)  (CIK 0001287750)"
+        form: string;
+        file_date: string;
+        adsh: string;
+        items?: string[];
+      };
+    }>;
+  };
+}
+
+export function padCik(cik: string): string {
+  return cik.replace(/\D/g, '').padStart(10, '0');
+}
+
+/**
+ * SEC asks automated clients to identify themselves with a contact address
+ */
+export function edgarUserAgent(): string {
+  return process.env.SEC_USER_AGENT || 'Private Credit Pulse admin@example.com';
+}
+
+function filingFolderUrl(cik: string, accessionNumber: string): string {
+  return `${ARCHIVES_URL}/${cik}/${accessionNumber.replace(/-/g, '')}`;
+}
+
+function splitItems(items?: string | string[] | null): string[] {
+  const list = Array.isArray(items) ? items : (items || '').split(',');
+  return list.map(item => item.trim()).filter(Boolean);
+}
+
+export function filingsFromSubmissions(cik: string, submissions: SubmissionsResponse): EdgarFiling[] {
+  const recent = submissions.filings.recent;
+  const numericCik = String(parseInt(padCik(cik), 10));
+
+  return recent.accessionNumber.map((accessionNumber, index) => ({
+    cik: numericCik,
+    company: submissions.name,
+    form: recent.form[index],
+    filingDate: recent.filingDate[index],
+    accessionNumber,
+    primaryDocument: recent.primaryDocument[index],
+    description: recent.primaryDocDescription[index] || '',
+    items: splitItems(recent.items ? recent.items[index] : null),
+    url: `${filingFolderUrl(numericCik, accessionNumber)}/${recent.primaryDocument[index]}`
+  }));
+}
+
+export function filingsFromFullTextSearch(response: FullTextSearchResponse): EdgarFiling[] {
+  return response.hits.hits.map(hit => {
+    const source = hit._source;
+    const numericCik = String(parseInt(padCik(source.ciks[0] || '0'), 10));
+    const primaryDocument = hit._id.split(':')[1] || '';
+
+    return {
+      cik: numericCik,
+      company: (source.display_names[0] || '').replace(/\s*\(.*$/, '').trim(),
+      form: source.form,
+      filingDate: source.file_date,
+      accessionNumber: source.adsh,
+      primaryDocument,
+      description: '',
+      items: splitItems(source.items),
+      url: `${filingFolderUrl(numericCik, source.adsh)}/${primaryDocument}`
+    };
+  });
+}
+
+function xmlText(document: Document, tagName: string): string | null {
+  const element = document.getElementsByTagName(tagName)[0];
+  const text = element && element.textContent ? element.textContent.trim() : '';
+  return text || null;
+}
+
+function xmlAmount(document: Document, tagName: string): number | null {
+  const value = parseFloat((xmlText(document, tagName) || '').replace(/,/g, ''));
+  return isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Key facts from a Form D primary_doc.xml
+ */
+export function parseFormD(xml: string): FormDOffering {
+  const document = new JSDOM(xml, { contentType: 'text/xml' }).window.document;
+  const securities = Array.from(document.getElementsByTagName('typesOfSecuritiesOffered')[0]?.children || [])
+    .filter(element => (element.textContent || '').trim() === 'true')
+    .map(element => element.tagName
+      .replace(/^is/, '')
+      .replace(/Type$/, '')
+      .replace(/([a-z])([A-Z])/g, '$1 $2'));
+  const firstSale = document.getElementsByTagName('dateOfFirstSale')[0];
+  const firstSaleValue = firstSale ? firstSale.getElementsByTagName('value')[0] : undefined;
+
+  return {
+    issuer: xmlText(document, 'entityName') || '',
+    industryGroup: xmlText(document, 'industryGroupType'),
+    investmentFundType: xmlText(document, 'investmentFundType'),
+    securities,
+    totalOfferingAmount: xmlAmount(document, 'totalOfferingAmount'),
+    totalAmountSold: xmlAmount(document, 'totalAmountSold'),
+    dateOfFirstSale: firstSaleValue && firstSaleValue.textContent ? firstSaleValue.textContent.trim() : null
+  };
+}
+
+/**
+ * Plain text of a filing's HTML (or text) document
+ */
+export function filingText(document: string): string {
+  const source = document.substring(0, MAX_DOCUMENT_CHARS);
+  if (!/<[a-z!]/i.test(source)) return source.replace(/\s+/g, ' ').trim();
+
+  const dom = new JSDOM(source);
+  dom.window.document.querySelectorAll('script, style').forEach(element => element.remove());
+  return (dom.window.document.body?.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The first dollar amount of at least $1M (stated in millions/billions or written
+ * out in full). Financing 8-Ks open with the facility size; later amounts are
+ * usually accordions, sublimits or par values.
+ */
+export function headlineAmount(text: string): number | null {
+  const pattern = /\$\s?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s?(million|billion)?/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const base = parseFloat(match[1].replace(/,/g, ''));
+    const amount = base * (match[2] ? (match[2].toLowerCase() === 'billion' ? 1e9 : 1e6) : 1);
+    if (amount >= 1e6) return Math.round(amount);
+  }
+
+  return null;
+}
+
+function eightKDeal(filing: EdgarFiling, text: string): SourceDeal {
+  const itemNames = filing.items.filter(item => EIGHT_K_ITEMS[item]).map(item => `${EIGHT_K_ITEMS[item]} (Item ${item})`);
+  const financing = filing.items.some(item => FINANCING_ITEMS.includes(item));
+  const excerpt = text.substring(0, EXCERPT_CHARS * 5);
+  const rules = extractDealTermsFromText(excerpt);
+  const amount = financing ? headlineAmount(excerpt) : null;
+
+  const terms: ExtractedDealTerms = {
+    ...rules,
+    amount: amount || rules.amount,
+    currency: amount ? 'USD' : rules.currency,
+    parties: [{ name: filing.company, role: financing ? 'borrower' : 'other' }]
+  };
+
+  const headline = financing && terms.instrument_type
+    ? `${terms.amount ? `${formatAmount(terms.amount, terms.currency)} ` : ''}${terms.instrument_type}`
+    : itemNames[0] ? itemNames[0].replace(/ \(Item .*\)$/, '') : filing.description || 'current report';
+
+  const facts = [
+    `${filing.company} filed a Form 8-K with the SEC on ${filing.filingDate}.`,
+    itemNames.length > 0 ? `Items reported: ${itemNames.join('; ')}.` : '',
+    terms.amount ? `Amount disclosed: ${formatAmount(terms.amount, terms.currency)}.` : '',
+    terms.pricing ? `Pricing: ${terms.pricing}.` : '',
+    terms.tenor ? `Tenor: ${terms.tenor}.` : ''
+  ].filter(Boolean);
+
+  const title = `${filing.company} 8-K: ${headline}`;
+  return {
+    title,
+    summary: facts.join(' '),
+    category: financing ? detectDealType(title, excerpt.substring(0, 1000), terms.instrument_type) : 'Market News',
+    terms
+  };
+}
+
+function formDDeal(filing: EdgarFiling, offering: FormDOffering): SourceDeal {
+  const isFund = !!offering.investmentFundType || offering.industryGroup === 'Pooled Investment Fund';
+  const isDebt = offering.securities.some(security => /debt/i.test(security));
+  const size = offering.totalOfferingAmount || offering.totalAmountSold;
+  const issuer = offering.issuer || filing.company;
+
+  const facts = [
+    `${issuer} filed a Form D notice of exempt offering on ${filing.filingDate}.`,
+    offering.investmentFundType ? `Fund type: ${offering.investmentFundType}.` : offering.industryGroup ? `Industry: ${offering.industryGroup}.` : '',
+    offering.securities.length > 0 ? `Securities offered: ${offering.securities.join(', ')}.` : '',
+    offering.totalOfferingAmount
+      ? `Total offering amount: ${formatAmount(offering.totalOfferingAmount, 'USD')}.`
+      : 'Total offering amount: indefinite.',
+    offering.totalAmountSold ? `Amount sold to date: ${formatAmount(offering.totalAmountSold, 'USD')}.` : '',
+    offering.dateOfFirstSale ? `Date of first sale: ${offering.dateOfFirstSale}.` : ''
+  ].filter(Boolean);
+
+  return {
+    title: `${issuer} Form D: ${size ? `${formatAmount(size, 'USD')} ` : ''}${isFund ? 'fund offering' : isDebt ? 'debt offering' : 'exempt offering'}`,
+    summary: facts.join(' '),
+    category: isFund ? 'Fundraising' : isDebt ? 'Private Credit' : 'Market News',
+    terms: {
+      parties: [{ name: issuer, role: isFund ? 'manager' : 'borrower' }],
+      amount: size,
+      currency: size ? 'USD' : null,
+      instrument_type: isFund ? 'Fund Commitment' : null,
+      tenor: null,
+      pricing: null,
+      use_of_proceeds: null
+    }
+  };
+}
+
+function registrationOrReportDeal(filing: EdgarFiling): SourceDeal {
+  const formName = FORM_DESCRIPTIONS[filing.form] || filing.form;
+  const isRegistration = filing.form === 'N-2';
+
+  return {
+    title: isRegistration
+      ? `${filing.company} files N-2 registration statement`
+      : `${filing.company} files ${filing.form} ${formName}`,
+    summary: `${filing.company} filed a ${filing.form} (${formName}${filing.description ? `: ${filing.description}` : ''}) with the SEC on ${filing.filingDate}.`,
+    category: isRegistration ? 'Fundraising > Fund Launch' : 'Market News',
+    terms: {
+      parties: [{ name: filing.company, role: isRegistration ? 'manager' : 'other' }],
+      amount: null,
+      currency: null,
+      instrument_type: null,
+      tenor: null,
+      pricing: null,
+      use_of_proceeds: null
+    }
+  };
+}
+
+/**
+ * Filings of the configured forms for each configured CIK, from the EDGAR
+ * submissions JSON, plus (optionally) every filing matching a full-text query.
+ * Each filing's primary document is read for its key facts and the filing is
+ * handed to the scheduler as a ready-made deal linking to the filing.
+ *
+ * mode 'record' saves every EDGAR response under fixturesPath and 'replay'
+ * reads them back, so the adapter can run offline.
+ */
+export class EdgarNewsSource implements NewsSource {
+  id: string;
+  kind = 'edgar' as const;
+  private mode: EdgarMode;
+  private fixturesPath: string;
+
+  constructor(private config: EdgarSourceConfig) {
+    this.id = config.id;
+    this.mode = (process.env.EDGAR_MODE as EdgarMode) || config.mode || 'live';
+    this.fixturesPath = path.resolve(process.cwd(), config.fixturesPath || DEFAULT_FIXTURES_PATH);
+  }
+
+  private async get(url: string, fixture: string): Promise<string> {
+    const file = path.join(this.fixturesPath, fixture);
+
+    if (this.mode === 'replay') {
+      return fs.promises.readFile(file, 'utf8');
+    }
+
+    const response = await axios.get(url, {
+      timeout: EDGAR_TIMEOUT_MS,
+      responseType: 'text',
+      headers: { 'User-Agent': edgarUserAgent(), 'Accept': 'application/json, text/html, application/xml;q=0.9' }
+    });
+
+    if (this.mode === 'record') {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, response.data);
+    }
+
+    return response.data;
+  }
+
+  private async fetchSubmissions(cik: string): Promise<SubmissionsResponse> {
+    const fileName = `CIK${padCik(cik)}.json`;
+    return JSON.parse(await this.get(`${SUBMISSIONS_URL}/${fileName}`, `submissions/${fileName}`));
+  }
+
+  private async searchFullText(query: string, date: string): Promise<FullTextSearchResponse> {
+    const params = new URLSearchParams({
+      q: query,
+      dateRange: 'custom',
+      startdt: date,
+      enddt: date,
+      forms: this.config.forms.join(',')
+    });
+    const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return JSON.parse(await this.get(`${FULL_TEXT_SEARCH_URL}?${params.toString()}`, `search/${date}-${slug}.json`));
+  }
+
+  private fetchDocument(filing: EdgarFiling, document: string): Promise<string> {
+    return this.get(
+      `${filingFolderUrl(filing.cik, filing.accessionNumber)}/${document}`,
+      `filings/${filing.cik}/${filing.accessionNumber.replace(/-/g, '')}/${document}`
+    );
+  }
+
+  private async filingDeal(filing: EdgarFiling): Promise<SourceDeal> {
+    if (filing.form === 'D' || filing.form === 'D/A') {
+      // primaryDocument is the XSL-rendered view; the raw XML sits next to the folder root
+      return formDDeal(filing, parseFormD(await this.fetchDocument(filing, 'primary_doc.xml')));
+    }
+
+    if (filing.form === '8-K' || filing.form === '8-K/A') {
+      return eightKDeal(filing, filingText(await this.fetchDocument(filing, filing.primaryDocument)));
+    }
+
+    return registrationOrReportDeal(filing);
+  }
+
+  async fetchItems(date: string): Promise<NewsSourceItem[]> {
+    const filings: EdgarFiling[] = [];
+
+    for (const cik of this.config.ciks) {
+      try {
+        filings.push(...filingsFromSubmissions(cik, await this.fetchSubmissions(cik))
+          .filter(filing => filing.filingDate === date && this.config.forms.includes(filing.form)));
+      } catch (error) {
+        console.error(`❌ Failed to fetch EDGAR submissions for CIK ${cik}:`, error);
+      }
+    }
+
+    if (this.config.query) {
+      try {
+        filingsFromFullTextSearch(await this.searchFullText(this.config.query, date))
+          .filter(filing => !filings.some(existing => existing.accessionNumber === filing.accessionNumber))
+          .forEach(filing => filings.push(filing));
+      } catch (error) {
+        console.error(`❌ EDGAR full-text search for "${this.config.query}" failed:`, error);
+      }
+    }
+
+    const items: NewsSourceItem[] = [];
+    for (const filing of filings) {
+      try {
+        const deal = await this.filingDeal(filing);
+        items.push({
+          category: deal.category,
+          title: deal.title,
+          content: `${deal.summary}\n\nFiling: ${filing.url}`,
+          url: filing.url,
+          publishedAt: `${filing.filingDate}T00:00:00.000Z`,
+          publisher: 'SEC EDGAR',
+          guid: filing.accessionNumber,
+          deal
+        });
+      } catch (error) {
+        console.error(`❌ Failed to read EDGAR filing ${filing.accessionNumber} (${filing.form}):`, error);
+      }
+    }
+
+    console.log(`🏛️ EDGAR (${this.mode}): ${items.length} filings for ${date} across ${this.config.ciks.length} CIKs${this.config.query ? ` and "${this.config.query}"` : ''}`);
+    return items;
+  }
+}
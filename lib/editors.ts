@@ -0,0 +1,62 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Editors have no accounts. EDITOR_TOKENS holds comma-separated name:token
+ * pairs, e.g. "alex:3f9c...,sam:a71e...", and requests authenticate with
+ * Authorization: Bearer <token>. The name is recorded on what they submit.
+ */
+function editorTokens(): Array<{ name: string; token: string }> {
+  return (process.env.EDITOR_TOKENS || '')
+    .split(',')
+    .map(pair => pair.trim())
+    .filter(Boolean)
+    .map(pair => {
+      const separator = pair.indexOf(':');
+      return separator > 0
+        ? { name: pair.substring(0, separator).trim(), token: pair.substring(separator + 1).trim() }
+        : { name: 'editor', token: pair };
+    })
+    .filter(editor => editor.token.length > 0);
+}
+
+// Compared as equal-length digests in constant time, so response timing gives
+// away neither a token's prefix nor its length
+function tokensMatch(given: string, expected: string): boolean {
+  const digest = (token: string) => createHash('sha256').update(token).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+export function editorsConfigured(): boolean {
+  return editorTokens().length > 0;
+}
+
+/**
+ * Name of the editor whose token the request carries, or null
+ */
+export function getRequestEditor(request: NextRequest): string | null {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return null;
+
+  // Every token is compared, not just those before the match
+  const token = match[1].trim();
+  const editors = editorTokens().filter(candidate => tokensMatch(token, candidate.token));
+  return editors.length > 0 ? editors[0].name : null;
+}
+
+/**
+ * The requesting editor, or the 503/401 response to return when there is none
+ */
+export function requireEditor(request: NextRequest): { editor: string | null; response: NextResponse | null } {
+  if (!editorsConfigured()) {
+    return { editor: null, response: NextResponse.json({ error: 'Editing is disabled - set EDITOR_TOKENS' }, { status: 503 }) };
+  }
+
+  const editor = getRequestEditor(request);
+  if (!editor) {
+    return { editor: null, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  return { editor, response: null };
+}
@@ -0,0 +1,361 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDatabase } from './database';
+import { rethrowMissingFixture } from './fixtures';
+import type { Deal, DealEmbedding, EmbeddingMatch } from './supabase';
+import { LLMProvider, getLLMConfig, getLLMProvider, isLLMConfigured } from './llm';
+
+// Matches the vector(256) column in setup.sql
+export const EMBEDDING_DIMENSIONS = 256;
+
+// Texts per embedding request
+const EMBED_BATCH_SIZE = 100;
+
+const DEFAULT_INDEX_PATH = 'data/deal-embeddings.json';
+
+export interface Embedder {
+  model: string;                // stored with each vector; vectors from different models are never compared
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface VectorIndex {
+  get(dealIds: number[], model: string): Promise<DealEmbedding[]>;
+  upsert(embeddings: DealEmbedding[]): Promise<void>;
+  nearest(embedding: number[], model: string, count: number, minSimilarity: number, excludeId?: number | null): Promise<EmbeddingMatch[]>;
+}
+
+/**
+ * What gets embedded: the headline and the summary without markdown
+ */
+export function embeddingText(deal: Pick<Deal, 'title' | 'summary'>): string {
+  return `${deal.title}\n${(deal.summary || '').replace(/\*\*/g, '')}`;
+}
+
+/**
+ * Embeddings from the configured LLM provider. Models that cannot shorten
+ * their vectors on request are cut to the index size here.
+ */
+export class LLMEmbedder implements Embedder {
+  model: string;
+  private provider: LLMProvider;
+
+  constructor() {
+    this.provider = getLLMProvider();
+    this.model = `${this.provider.embeddingModel}@${EMBEDDING_DIMENSIONS}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors = await this.provider.embed(texts, EMBEDDING_DIMENSIONS);
+    return vectors.map(vector => (vector.length > EMBEDDING_DIMENSIONS ? normalize(vector.slice(0, EMBEDDING_DIMENSIONS)) : vector));
+  }
+}
+
+// 32-bit FNV-1a
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash = Math.imul(hash ^ feature.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Feature-hashed words, word pairs and character trigrams. Deterministic and
+ * offline, so tests and keyless setups get stable vectors; it only measures
+ * shared wording, not meaning.
+ */
+export function localEmbedding(text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] {
+  const vector: number[] = [];
+  for (let i = 0; i < dimensions; i++) vector.push(0);
+
+  const add = (feature: string, weight: number) => {
+    const hash = hashFeature(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  const words = text.toLowerCase().replace(/\*\*/g, '').match(/[a-z0-9$]+(?:\.[0-9]+)?/g) || [];
+  words.forEach((word, index) => {
+    add(`w:${word}`, 1);
+    if (index > 0) add(`b:${words[index - 1]} ${word}`, 1);
+
+    const padded = ` ${word} `;
+    for (let i = 0; i <= padded.length - 3; i++) {
+      add(`c:${padded.substring(i, i + 3)}`, 0.5);
+    }
+  });
+
+  return normalize(vector);
+}
+
+export class LocalEmbedder implements Embedder {
+  model = 'local-hash-v1';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => localEmbedding(text));
+  }
+}
+
+/**
+ * Vectors in the deal_embeddings table, searched through its HNSW index
+ */
+export class PgVectorIndex implements VectorIndex {
+  get(dealIds: number[], model: string): Promise<DealEmbedding[]> {
+    return getDatabase().getDealEmbeddings(dealIds, model);
+  }
+
+  upsert(embeddings: DealEmbedding[]): Promise<void> {
+    return getDatabase().saveDealEmbeddings(embeddings);
+  }
+
+  nearest(embedding: number[], model: string, count: number, minSimilarity: number, excludeId: number | null = null): Promise<EmbeddingMatch[]> {
+    return getDatabase().matchDealEmbeddings(embedding, model, count, minSimilarity, excludeId);
+  }
+}
+
+interface LocalIndexFile {
+  [model: string]: { [dealId: string]: number[] };
+}
+
+// Random-hyperplane LSH: each table hashes a vector to the side of LSH_BITS planes it falls on
+const LSH_TABLES = 8;
+const LSH_BITS = 10;
+// Below this many vectors a full scan is cheap enough and exact
+const EXACT_SCAN_LIMIT = 2000;
+
+// mulberry32, so every process builds the same hyperplanes
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) >>> 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+const similarity = (a: number[], b: number[]): number => {
+  const norms = Math.sqrt(dot(a, a) * dot(b, b));
+  return norms ? dot(a, b) / norms : 0;
+};
+
+/**
+ * Vectors in a JSON file with an in-memory LSH index, for running without
+ * pgvector (local development, offline tests). Deleted deals are not known
+ * here; callers drop them when loading the matched deals.
+ */
+export class LocalVectorIndex implements VectorIndex {
+  private file: string;
+  private data?: LocalIndexFile;
+  private planes: number[][][] = [];
+  private buckets: { [model: string]: { [key: string]: string[] } } = {};
+
+  constructor(file: string) {
+    this.file = path.resolve(process.cwd(), file);
+  }
+
+  private load(): LocalIndexFile {
+    if (!this.data) {
+      this.data = fs.existsSync(this.file) ? JSON.parse(fs.readFileSync(this.file, 'utf8')) : {};
+      this.buckets = {};
+      Object.keys(this.data!).forEach(model => {
+        Object.keys(this.data![model]).forEach(dealId => this.addToBuckets(model, dealId, this.data![model][dealId]));
+      });
+    }
+    return this.data!;
+  }
+
+  private hyperplanes(dimensions: number): number[][][] {
+    if (this.planes.length === 0 || this.planes[0][0].length !== dimensions) {
+      const random = seededRandom(dimensions);
+      this.planes = [];
+      for (let t = 0; t < LSH_TABLES; t++) {
+        const table: number[][] = [];
+        for (let b = 0; b < LSH_BITS; b++) {
+          const plane: number[] = [];
+          for (let d = 0; d < dimensions; d++) plane.push(random() * 2 - 1);
+          table.push(plane);
+        }
+        this.planes.push(table);
+      }
+    }
+    return this.planes;
+  }
+
+  private bucketKeys(vector: number[]): string[] {
+    return this.hyperplanes(vector.length).map((table, t) =>
+      `${t}:${table.map(plane => (dot(plane, vector) >= 0 ? '1' : '0')).join('')}`
+    );
+  }
+
+  private addToBuckets(model: string, dealId: string, vector: number[]): void {
+    const buckets = this.buckets[model] || (this.buckets[model] = {});
+    this.bucketKeys(vector).forEach(key => {
+      const bucket = buckets[key] || (buckets[key] = []);
+      if (bucket.indexOf(dealId) === -1) bucket.push(dealId);
+    });
+  }
+
+  async get(dealIds: number[], model: string): Promise<DealEmbedding[]> {
+    const vectors = this.load()[model] || {};
+    return dealIds
+      .filter(dealId => vectors[dealId])
+      .map(dealId => ({ deal_id: dealId, model, embedding: vectors[dealId] }));
+  }
+
+  async upsert(embeddings: DealEmbedding[]): Promise<void> {
+    if (embeddings.length === 0) return;
+
+    const data = this.load();
+    embeddings.forEach(row => {
+      const vectors = data[row.model] || (data[row.model] = {});
+      vectors[row.deal_id] = row.embedding;
+    });
+    // Moved vectors leave stale bucket entries; rebuild rather than track them
+    this.buckets = {};
+    Object.keys(data).forEach(model => {
+      Object.keys(data[model]).forEach(dealId => this.addToBuckets(model, dealId, data[model][dealId]));
+    });
+
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.writeFile(this.file, JSON.stringify(data));
+  }
+
+  async nearest(embedding: number[], model: string, count: number, minSimilarity: number, excludeId: number | null = null): Promise<EmbeddingMatch[]> {
+    const vectors = this.load()[model] || {};
+    let candidates = Object.keys(vectors);
+
+    if (candidates.length > EXACT_SCAN_LIMIT) {
+      const buckets = this.buckets[model] || {};
+      const seen: { [dealId: string]: boolean } = {};
+      this.bucketKeys(embedding).forEach(key => {
+        (buckets[key] || []).forEach(dealId => { seen[dealId] = true; });
+      });
+      candidates = Object.keys(seen);
+    }
+
+    return candidates
+      .filter(dealId => parseInt(dealId, 10) !== excludeId)
+      .map(dealId => ({ deal_id: parseInt(dealId, 10), similarity: similarity(embedding, vectors[dealId]) }))
+      .filter(match => match.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, count);
+  }
+}
+
+let embedder: Embedder | null = null;
+let vectorIndex: VectorIndex | null = null;
+
+/**
+ * EMBEDDING_PROVIDER picks 'llm' or 'local'. By default the LLM provider embeds
+ * when it is configured and live; replay runs and keyless setups use the local
+ * hashing embedder.
+ */
+export function getEmbedder(): Embedder {
+  if (!embedder) {
+    const provider = process.env.EMBEDDING_PROVIDER || (isLLMConfigured() && getLLMConfig().provider !== 'replay' ? 'llm' : 'local');
+    if (provider === 'llm') {
+      try {
+        embedder = new LLMEmbedder();
+      } catch (error) {
+        console.log('⚠️ Embeddings: no LLM provider configured, using the local embedder');
+      }
+    }
+    if (!embedder) embedder = new LocalEmbedder();
+  }
+  return embedder;
+}
+
+/**
+ * EMBEDDING_INDEX picks 'pgvector' (default) or 'local', a JSON file at
+ * EMBEDDING_INDEX_PATH
+ */
+export function getVectorIndex(): VectorIndex {
+  if (!vectorIndex) {
+    vectorIndex = process.env.EMBEDDING_INDEX === 'local'
+      ? new LocalVectorIndex(process.env.EMBEDDING_INDEX_PATH || DEFAULT_INDEX_PATH)
+      : new PgVectorIndex();
+  }
+  return vectorIndex;
+}
+
+async function embedInBatches(texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    vectors.push(...await getEmbedder().embed(texts.slice(i, i + EMBED_BATCH_SIZE)));
+  }
+  return vectors;
+}
+
+/**
+ * Embed and store a newly saved or corrected deal. Pass the vector when it was
+ * already computed for the duplicate check. Never throws, so an embedding
+ * problem cannot fail the save.
+ */
+export async function indexDeal(dealId: number, deal: Pick<Deal, 'title' | 'summary'>, embedding?: number[] | null): Promise<void> {
+  try {
+    const vector = embedding || (await getEmbedder().embed([embeddingText(deal)]))[0];
+    await getVectorIndex().upsert([{ deal_id: dealId, model: getEmbedder().model, embedding: vector }]);
+  } catch (error) {
+    rethrowMissingFixture(error);
+    console.error(`❌ Error indexing embedding for deal ${dealId}:`, error);
+  }
+}
+
+/**
+ * One vector per deal, in order. Saved deals reuse their stored vector and
+ * have a missing one computed and stored; unsaved deals are embedded only.
+ */
+export async function embedDeals(deals: Deal[]): Promise<number[][]> {
+  const model = getEmbedder().model;
+  const index = getVectorIndex();
+  const ids = deals.filter(deal => deal.id).map(deal => deal.id!);
+
+  const byId: { [dealId: number]: number[] } = {};
+  (await index.get(ids, model)).forEach(row => { byId[row.deal_id] = row.embedding; });
+
+  const missing = deals.filter(deal => !deal.id || !byId[deal.id]);
+  const fresh = await embedInBatches(missing.map(embeddingText));
+
+  const toStore: DealEmbedding[] = [];
+  missing.forEach((deal, i) => {
+    if (deal.id) {
+      byId[deal.id] = fresh[i];
+      toStore.push({ deal_id: deal.id, model, embedding: fresh[i] });
+    }
+  });
+  await index.upsert(toStore);
+
+  return deals.map(deal => (deal.id ? byId[deal.id] : fresh[missing.indexOf(deal)]));
+}
+
+/**
+ * Embed existing deals in id order. Call again with the returned lastId until
+ * done is true.
+ */
+export async function backfillEmbeddings(options: { afterId: number; limit: number }): Promise<{ processed: number; embedded: number; lastId: number; done: boolean }> {
+  const model = getEmbedder().model;
+  const deals = await getDatabase().getDealsAfterId(options.afterId, options.limit);
+  const stored = await getVectorIndex().get(deals.map(deal => deal.id!), model);
+  const missing = deals.filter(deal => !stored.some(row => row.deal_id === deal.id));
+
+  await embedDeals(missing);
+  console.log(`🧭 Embedded ${missing.length} of ${deals.length} deals with ${model}`);
+
+  return {
+    processed: deals.length,
+    embedded: missing.length,
+    lastId: deals.length > 0 ? deals[deals.length - 1].id! : options.afterId,
+    done: deals.length < options.limit
+  };
+}
@@ -0,0 +1,271 @@
+import { getDatabase } from './database';
+import type { Deal, DealEntityLink, DealEntityRole, DealParty, DealPartyRole, Entity, EntityType } from './supabase';
+
+// Well-known managers seeded into the registry on first use so that common
+// short-hands ("Apollo", "Ares", "HPS") resolve without an LLM round-trip
+export const SEED_ENTITIES: Array<Omit<Entity, 'id' | 'slug' | 'created_at'>> = [
+  { canonical_name: 'Apollo Global Management', type: 'manager', aliases: ['Apollo', 'Apollo Global', 'Apollo Capital', 'Apollo Capital Management'], tickers: ['APO'] },
+  { canonical_name: 'Blackstone', type: 'manager', aliases: ['Blackstone Credit', 'Blackstone Credit & Insurance', 'BXCI', 'Blackstone Group'], tickers: ['BX'] },
+  { canonical_name: 'KKR', type: 'manager', aliases: ['KKR Credit', 'Kohlberg Kravis Roberts', 'KKR & Co'], tickers: ['KKR'] },
+  { canonical_name: 'Ares Management', type: 'manager', aliases: ['Ares', 'Ares Capital', 'Ares Capital Management'], tickers: ['ARES', 'ARCC'] },
+  { canonical_name: 'Oaktree Capital Management', type: 'manager', aliases: ['Oaktree', 'Oaktree Capital'], tickers: [] },
+  { canonical_name: 'Bain Capital Credit', type: 'manager', aliases: ['Bain Capital'], tickers: [] },
+  { canonical_name: 'Blue Owl Capital', type: 'manager', aliases: ['Blue Owl', 'Owl Rock', 'Owl Rock Capital'], tickers: ['OWL'] },
+  { canonical_name: 'Golub Capital', type: 'manager', aliases: ['Golub'], tickers: ['GBDC'] },
+  { canonical_name: 'Monroe Capital', type: 'manager', aliases: ['Monroe'], tickers: [] },
+  { canonical_name: 'TPG', type: 'manager', aliases: ['TPG Credit', 'TPG Angelo Gordon', 'Angelo Gordon'], tickers: ['TPG'] },
+  { canonical_name: 'HPS Investment Partners', type: 'manager', aliases: ['HPS', 'HPS Investment'], tickers: [] },
+  { canonical_name: 'Sixth Street', type: 'manager', aliases: ['Sixth Street Partners'], tickers: ['TSLX'] },
+  { canonical_name: 'Intermediate Capital Group', type: 'manager', aliases: ['ICG'], tickers: [] },
+  { canonical_name: 'Carlyle Group', type: 'manager', aliases: ['Carlyle', 'Carlyle Credit'], tickers: ['CG'] },
+  { canonical_name: 'Goldman Sachs Asset Management', type: 'manager', aliases: ['Goldman Sachs Alternatives', 'GSAM'], tickers: [] },
+  { canonical_name: 'Brookfield Asset Management', type: 'manager', aliases: ['Brookfield'], tickers: ['BAM'] }
+];
+
+const LEGAL_SUFFIXES = /\b(inc|incorporated|llc|llp|ltd|limited|lp|plc|corp|corporation|co|sa|ag|gmbh|nv|bv)\b/g;
+
+// Aliases shorter than this are only matched against tickers, never free text
+const MIN_TEXT_ALIAS_LENGTH = 4;
+
+/**
+ * Normalize a company or fund name for alias comparison
+ */
+export function normalizeEntityName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\*\*/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/\./g, '')
+    .replace(/[^\w\s]/g, ' ')
+    .replace(LEGAL_SUFFIXES, ' ')
+    .replace(/^the\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function slugifyEntityName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 80);
+}
+
+/**
+ * Map the role a party plays in one deal to the kind of entity it most likely is
+ */
+export function entityTypeForRole(role: DealPartyRole, name: string): EntityType {
+  if (/\bfund\b|\b(i{1,3}|iv|v|vi{1,3}|ix|x)\b$|\bclo\b/i.test(name)) return 'fund';
+
+  switch (role) {
+    case 'borrower':
+    case 'target':
+      return 'borrower';
+    case 'sponsor':
+      return 'sponsor';
+    case 'lender':
+    case 'arranger':
+      return 'lender';
+    case 'manager':
+      return 'manager';
+    default:
+      return 'other';
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class EntityResolver {
+  private entities: Entity[] = [];
+  private aliasIndex = new Map<string, Entity>();
+  private tickerIndex = new Map<string, Entity>();
+  private loaded = false;
+  private loadingPromise: Promise<void> | null = null;
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+
+    if (!this.loadingPromise) {
+      this.loadingPromise = this.load().catch(error => {
+        this.loadingPromise = null;
+        throw error;
+      });
+    }
+
+    return this.loadingPromise;
+  }
+
+  private async load(): Promise<void> {
+    const db = getDatabase();
+    let entities = await db.getEntities();
+
+    if (entities.length === 0) {
+      console.log(`🌱 Entity registry is empty - seeding ${SEED_ENTITIES.length} known managers`);
+      for (const seed of SEED_ENTITIES) {
+        try {
+          await db.saveEntity({ ...seed, slug: slugifyEntityName(seed.canonical_name) });
+        } catch (error) {
+          console.error(`❌ Failed to seed entity "${seed.canonical_name}":`, error);
+        }
+      }
+      entities = await db.getEntities();
+    }
+
+    this.entities = [];
+    this.aliasIndex.clear();
+    this.tickerIndex.clear();
+    entities.forEach(entity => this.index(entity));
+
+    this.loaded = true;
+    console.log(`🏢 Entity resolver loaded ${entities.length} entities`);
+  }
+
+  private index(entity: Entity): void {
+    this.entities.push(entity);
+
+    for (const name of [entity.canonical_name, ...(entity.aliases || [])]) {
+      const key = normalizeEntityName(name);
+      // First registration wins so a later, vaguer alias can't hijack an existing name
+      if (key && !this.aliasIndex.has(key)) {
+        this.aliasIndex.set(key, entity);
+      }
+    }
+
+    for (const ticker of entity.tickers || []) {
+      this.tickerIndex.set(ticker.toUpperCase(), entity);
+    }
+  }
+
+  /**
+   * Force the registry to be re-read on next use (e.g. after aliases were edited)
+   */
+  refresh(): void {
+    this.loaded = false;
+    this.loadingPromise = null;
+  }
+
+  async getAll(): Promise<Entity[]> {
+    await this.ensureLoaded();
+    return [...this.entities];
+  }
+
+  /**
+   * Resolve a name, alias or ticker to a registered entity
+   */
+  async resolve(name: string): Promise<Entity | null> {
+    await this.ensureLoaded();
+
+    const trimmed = name.replace(/\*\*/g, '').trim();
+    if (!trimmed) return null;
+
+    const byTicker = this.tickerIndex.get(trimmed.toUpperCase());
+    if (byTicker && /^[A-Z]{2,5}$/.test(trimmed)) return byTicker;
+
+    return this.aliasIndex.get(normalizeEntityName(trimmed)) || null;
+  }
+
+  /**
+   * Resolve a name, registering it as a new entity if it is not known yet
+   */
+  async resolveOrCreate(name: string, type: EntityType): Promise<Entity> {
+    const existing = await this.resolve(name);
+    if (existing) return existing;
+
+    const canonicalName = name.replace(/\*\*/g, '').trim();
+    const db = getDatabase();
+
+    let slug = slugifyEntityName(canonicalName);
+    if (await db.getEntityBySlug(slug)) {
+      slug = `${slug}-${Date.now().toString(36)}`;
+    }
+
+    const entity = await db.saveEntity({
+      slug,
+      canonical_name: canonicalName,
+      type,
+      aliases: [],
+      tickers: []
+    });
+
+    this.index(entity);
+    return entity;
+  }
+
+  /**
+   * Find registered entities whose name or alias appears in free text
+   */
+  async findMentions(text: string): Promise<Entity[]> {
+    await this.ensureLoaded();
+
+    const normalized = ` ${normalizeEntityName(text)} `;
+    const found = new Map<number, Entity>();
+
+    this.aliasIndex.forEach((entity, alias) => {
+      if (alias.length < MIN_TEXT_ALIAS_LENGTH || found.has(entity.id!)) return;
+      if (new RegExp(`\\s${escapeRegExp(alias)}\\s`).test(normalized)) {
+        found.set(entity.id!, entity);
+      }
+    });
+
+    // Tickers only count when written in caps, e.g. "(NYSE: APO)"
+    this.tickerIndex.forEach((entity, ticker) => {
+      if (found.has(entity.id!)) return;
+      if (new RegExp(`\\b${escapeRegExp(ticker)}\\b`).test(text)) {
+        found.set(entity.id!, entity);
+      }
+    });
+
+    return Array.from(found.values());
+  }
+
+  /**
+   * Link a saved deal to every entity it involves: extracted parties (with their
+   * roles) are resolved or registered, and known entities mentioned in the text
+   * are attached as 'mentioned'
+   */
+  async linkDeal(deal: Deal, parties: DealParty[] = []): Promise<DealEntityLink[]> {
+    if (!deal.id) {
+      throw new Error('Cannot link entities to an unsaved deal');
+    }
+
+    const links: DealEntityLink[] = [];
+    const linked = new Set<number>();
+
+    const addLink = (entityId: number, role: DealEntityRole) => {
+      if (links.some(link => link.entity_id === entityId && link.role === role)) return;
+      links.push({ deal_id: deal.id!, entity_id: entityId, role });
+      linked.add(entityId);
+    };
+
+    for (const party of parties) {
+      try {
+        const entity = await this.resolveOrCreate(party.name, entityTypeForRole(party.role, party.name));
+        addLink(entity.id!, party.role);
+      } catch (error) {
+        console.error(`❌ Failed to resolve party "${party.name}":`, error);
+      }
+    }
+
+    const mentions = await this.findMentions(`${deal.title} ${deal.summary}`);
+    for (const entity of mentions) {
+      if (!linked.has(entity.id!)) {
+        addLink(entity.id!, 'mentioned');
+      }
+    }
+
+    await getDatabase().linkDealEntities(links);
+    return links;
+  }
+}
+
+let resolverInstance: EntityResolver | null = null;
+
+export function getEntityResolver(): EntityResolver {
+  if (!resolverInstance) {
+    resolverInstance = new EntityResolver();
+  }
+  return resolverInstance;
+}
@@ -0,0 +1,137 @@
+import { getDatabase } from './database';
+import type { Deal, DealEntityRole, DealTerms, Entity } from './supabase';
+import { DEFAULT_CATEGORY } from './taxonomy';
+
+export interface EntityDeal extends Deal {
+  roles: DealEntityRole[];
+  terms: DealTerms | null;
+}
+
+export interface VolumeBucket {
+  key: string;          // year ("2025") or category name
+  currency: string;     // totals are never summed across currencies
+  total: number;
+  count: number;
+}
+
+export interface Counterparty {
+  entity: Entity;
+  dealCount: number;
+  roles: DealEntityRole[];   // roles the counterparty played opposite this entity
+}
+
+export interface EntityProfile {
+  entity: Entity;
+  deals: EntityDeal[];
+  volumeByYear: VolumeBucket[];
+  volumeByCategory: VolumeBucket[];
+  topCounterparties: Counterparty[];
+  stats: {
+    totalDeals: number;
+    disclosedDeals: number;   // deals with a stated amount
+    firstSeen: string | null;
+    lastSeen: string | null;
+  };
+}
+
+/**
+ * Look an entity up by numeric id or by slug, as both appear in URLs
+ */
+export async function findEntity(idOrSlug: string): Promise<Entity | null> {
+  const db = getDatabase();
+
+  if (/^\d+$/.test(idOrSlug)) {
+    return db.getEntityById(parseInt(idOrSlug, 10));
+  }
+
+  return db.getEntityBySlug(idOrSlug);
+}
+
+function addToBucket(buckets: Map<string, VolumeBucket>, key: string, terms: DealTerms | null): void {
+  const currency = terms?.currency || 'N/A';
+  const bucketKey = `${key}|${currency}`;
+
+  const bucket = buckets.get(bucketKey) || { key, currency, total: 0, count: 0 };
+  bucket.count++;
+  bucket.total += terms?.amount ? Number(terms.amount) : 0;
+  buckets.set(bucketKey, bucket);
+}
+
+/**
+ * Assemble everything shown on an entity page: linked deals with their terms,
+ * disclosed volume by year and category, and the most frequent counterparties
+ */
+export async function buildEntityProfile(entity: Entity, counterpartyLimit: number = 10): Promise<EntityProfile> {
+  const db = getDatabase();
+
+  const links = await db.getEntityDealLinks(entity.id!);
+  const dealIds = Array.from(new Set(links.map(link => link.deal_id)));
+
+  const [deals, terms, allLinks] = await Promise.all([
+    db.getDealsByIds(dealIds),
+    db.getDealTermsForDeals(dealIds),
+    db.getDealEntityLinksForDeals(dealIds)
+  ]);
+
+  const termsByDeal = new Map(terms.map(t => [t.deal_id, t]));
+
+  const entityDeals: EntityDeal[] = deals.map(deal => ({
+    ...deal,
+    roles: links.filter(link => link.deal_id === deal.id).map(link => link.role),
+    terms: termsByDeal.get(deal.id!) || null
+  }));
+
+  const byYear = new Map<string, VolumeBucket>();
+  const byCategory = new Map<string, VolumeBucket>();
+
+  for (const deal of entityDeals) {
+    addToBucket(byYear, deal.date.substring(0, 4), deal.terms);
+    addToBucket(byCategory, deal.category || DEFAULT_CATEGORY, deal.terms);
+  }
+
+  // Count every other entity appearing on the same deals, as long as they are published
+  const publishedIds = new Set(deals.map(deal => deal.id!));
+  const counterpartyCounts = new Map<number, { deals: Set<number>; roles: Set<DealEntityRole> }>();
+  for (const link of allLinks) {
+    if (link.entity_id === entity.id || !publishedIds.has(link.deal_id)) continue;
+
+    const entry = counterpartyCounts.get(link.entity_id) || { deals: new Set<number>(), roles: new Set<DealEntityRole>() };
+    entry.deals.add(link.deal_id);
+    entry.roles.add(link.role);
+    counterpartyCounts.set(link.entity_id, entry);
+  }
+
+  const topIds = Array.from(counterpartyCounts.entries())
+    .sort((a, b) => b[1].deals.size - a[1].deals.size)
+    .slice(0, counterpartyLimit)
+    .map(([entityId]) => entityId);
+
+  const counterpartyEntities = await db.getEntitiesByIds(topIds);
+  const topCounterparties: Counterparty[] = topIds
+    .map(entityId => {
+      const counterparty = counterpartyEntities.find(e => e.id === entityId);
+      const entry = counterpartyCounts.get(entityId)!;
+      return counterparty ? {
+        entity: counterparty,
+        dealCount: entry.deals.size,
+        roles: Array.from(entry.roles)
+      } : null;
+    })
+    .filter((c): c is Counterparty => c !== null);
+
+  const dates = entityDeals.map(deal => deal.date).sort();
+
+  return {
+    entity,
+    deals: entityDeals,
+    volumeByYear: Array.from(byYear.values()).sort((a, b) => b.key.localeCompare(a.key) || b.total - a.total),
+    volumeByCategory: Array.from(byCategory.values()).sort((a, b) => b.total - a.total || b.count - a.count),
+    topCounterparties,
+    stats: {
+      totalDeals: entityDeals.length,
+      disclosedDeals: entityDeals.filter(deal => deal.terms?.amount).length,
+      firstSeen: dates[0] || null,
+      lastSeen: dates[dates.length - 1] || null
+    }
+  };
+}
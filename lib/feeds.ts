@@ -0,0 +1,275 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from './database';
+import type { Deal, Entity } from './supabase';
+import { findEntity } from './entity-profile';
+import { getSiteUrl } from './site';
+import { findCategory, isWithinCategory } from './taxonomy';
+
+export const DEFAULT_FEED_LIMIT = 50;
+export const MAX_FEED_LIMIT = 200;
+
+const FEED_TITLE = 'Private Credit Pulse';
+const FEED_DESCRIPTION = 'Private credit deals, fund raises and market news';
+
+export interface FeedOptions {
+  category?: string | null;     // taxonomy path, name or legacy category
+  entity?: string | null;       // entity id or slug
+  limit?: number;
+}
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface DealFeed {
+  title: string;
+  description: string;
+  baseUrl: string;              // absolute site URL, no trailing slash
+  selfPath: string;             // path + query of this feed, e.g. "/feed.xml?category=..."
+  updated: string;              // ISO timestamp of the newest item
+  deals: Deal[];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function plain(value: string): string {
+  return value.replace(/\*\*/g, '').trim();
+}
+
+// Deals carry a day, not a time - publish them at the start of that day and use
+// created_at, when later, as the update time
+function publishedAt(deal: Deal): Date {
+  return new Date(`${deal.date}T00:00:00Z`);
+}
+
+function updatedAt(deal: Deal): Date {
+  const published = publishedAt(deal);
+  const created = deal.created_at ? new Date(deal.created_at) : null;
+  return created && created > published ? created : published;
+}
+
+// The original article, or the deal's own page when there is no link
+function itemLink(feed: DealFeed, deal: Deal): string {
+  return deal.source_url || `${feed.baseUrl}/deals/${deal.id}`;
+}
+
+function itemId(feed: DealFeed, deal: Deal): string {
+  const host = feed.baseUrl.replace(/^https?:\/\//, '').replace(/[:/].*$/, '');
+  return `tag:${host},2024:deal/${deal.id}`;
+}
+
+function itemCategories(deal: Deal): string[] {
+  return Array.from(new Set([deal.deal_type, deal.category, deal.region].filter((value): value is string => !!value)));
+}
+
+/**
+ * Load the deals for a feed, newest first. Null when the requested category or
+ * entity does not exist.
+ */
+export async function buildDealFeed(options: FeedOptions, baseUrl: string, selfPath: string): Promise<DealFeed | null> {
+  const db = getDatabase();
+  const limit = Math.min(Math.max(options.limit || DEFAULT_FEED_LIMIT, 1), MAX_FEED_LIMIT);
+
+  let title = FEED_TITLE;
+  let description = FEED_DESCRIPTION;
+  let deals: Deal[];
+  let entity: Entity | null = null;
+
+  if (options.entity) {
+    entity = await findEntity(options.entity);
+    if (!entity) return null;
+
+    const links = await db.getEntityDealLinks(entity.id!);
+    const dealIds = Array.from(new Set(links.map(link => link.deal_id)));
+    deals = await db.getDealsByIds(dealIds);
+    title = `${FEED_TITLE} - ${entity.canonical_name}`;
+    description = `Deals involving ${entity.canonical_name}`;
+  }
+
+  if (options.category) {
+    const node = findCategory(options.category);
+    if (!node) return null;
+
+    if (entity) {
+      deals = deals!.filter(deal => isWithinCategory(deal.category, node.path));
+      title = `${title} - ${node.name}`;
+    } else {
+      deals = await db.listDeals({ sort: 'date', category: node.path, limit });
+      title = `${FEED_TITLE} - ${node.name}`;
+      description = `${FEED_TITLE}: ${node.description}`;
+    }
+  }
+
+  if (!options.entity && !options.category) {
+    deals = await db.listDeals({ sort: 'date', limit });
+  }
+
+  const sorted = deals!
+    .sort((a, b) => b.date.localeCompare(a.date) || (b.id || 0) - (a.id || 0))
+    .slice(0, limit);
+
+  const newest = sorted.reduce<Date | null>((latest, deal) => {
+    const updated = updatedAt(deal);
+    return !latest || updated > latest ? updated : latest;
+  }, null);
+
+  return {
+    title,
+    description,
+    baseUrl,
+    selfPath,
+    updated: (newest || new Date()).toISOString(),
+    deals: sorted
+  };
+}
+
+/**
+ * RSS 2.0
+ */
+export function renderRssFeed(feed: DealFeed): string {
+  const items = feed.deals.map(deal => [
+    '    <item>',
+    `      <title>${escapeXml(plain(deal.title))}</title>`,
+    `      <link>${escapeXml(itemLink(feed, deal))}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(itemId(feed, deal))}</guid>`,
+    `      <pubDate>${publishedAt(deal).toUTCString()}</pubDate>`,
+    `      <description>${escapeXml(plain(deal.summary))}</description>`,
+    `      <source url="${escapeXml(`${feed.baseUrl}${feed.selfPath}`)}">${escapeXml(deal.source)}</source>`,
+    ...itemCategories(deal).map(category => `      <category>${escapeXml(category)}</category>`),
+    '    </item>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(`${feed.baseUrl}/`)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(`${feed.baseUrl}${feed.selfPath}`)}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Atom 1.0
+ */
+export function renderAtomFeed(feed: DealFeed): string {
+  const entries = feed.deals.map(deal => [
+    '  <entry>',
+    `    <title>${escapeXml(plain(deal.title))}</title>`,
+    `    <link rel="alternate" href="${escapeXml(itemLink(feed, deal))}"/>`,
+    `    <id>${escapeXml(itemId(feed, deal))}</id>`,
+    `    <published>${publishedAt(deal).toISOString()}</published>`,
+    `    <updated>${updatedAt(deal).toISOString()}</updated>`,
+    `    <author><name>${escapeXml(deal.source)}</name></author>`,
+    `    <summary>${escapeXml(plain(deal.summary))}</summary>`,
+    ...itemCategories(deal).map(category => `    <category term="${escapeXml(category)}"/>`),
+    '  </entry>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" href="${escapeXml(`${feed.baseUrl}/`)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(`${feed.baseUrl}${feed.selfPath}`)}"/>`,
+    `  <id>${escapeXml(`${feed.baseUrl}${feed.selfPath}`)}</id>`,
+    `  <updated>${feed.updated}</updated>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * JSON Feed 1.1 (https://jsonfeed.org/version/1.1)
+ */
+export function renderJsonFeed(feed: DealFeed): object {
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: `${feed.baseUrl}/`,
+    feed_url: `${feed.baseUrl}${feed.selfPath}`,
+    language: 'en',
+    items: feed.deals.map(deal => ({
+      id: itemId(feed, deal),
+      url: itemLink(feed, deal),
+      external_url: deal.source_url || undefined,
+      title: plain(deal.title),
+      content_text: plain(deal.summary),
+      date_published: publishedAt(deal).toISOString(),
+      date_modified: updatedAt(deal).toISOString(),
+      authors: [{ name: deal.source }],
+      tags: itemCategories(deal),
+      _deal: {
+        id: deal.id,
+        date: deal.date,
+        category: deal.category || null,
+        deal_type: deal.deal_type || null,
+        region: deal.region || null,
+        countries: deal.countries || []
+      }
+    }))
+  };
+}
+
+const FEED_FORMATS: { [format in FeedFormat]: { name: string; contentType: string; render: (feed: DealFeed) => string } } = {
+  rss: { name: 'RSS', contentType: 'application/rss+xml; charset=utf-8', render: renderRssFeed },
+  atom: { name: 'Atom', contentType: 'application/atom+xml; charset=utf-8', render: renderAtomFeed },
+  json: { name: 'JSON', contentType: 'application/feed+json; charset=utf-8', render: feed => JSON.stringify(renderJsonFeed(feed), null, 2) }
+};
+
+/**
+ * A feed route's GET: the feed for ?category= (taxonomy path or name),
+ * ?entity= (id or slug) and ?limit=, rendered in format. 404 for an unknown
+ * category or entity.
+ */
+export async function feedResponse(request: NextRequest, format: FeedFormat): Promise<NextResponse> {
+  const { name, contentType, render } = FEED_FORMATS[format];
+
+  try {
+    const url = new URL(request.url);
+    const { searchParams } = url;
+
+    const feed = await buildDealFeed({
+      category: searchParams.get('category'),
+      entity: searchParams.get('entity'),
+      limit: parseInt(searchParams.get('limit') || '', 10) || undefined
+    }, getSiteUrl() || url.origin, `${url.pathname}${url.search}`);
+
+    if (!feed) {
+      return NextResponse.json(
+        { error: 'Unknown category or entity' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(render(feed), {
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': 'public, max-age=300, s-maxage=300'
+      }
+    });
+  } catch (error) {
+    console.error(`Error building ${name} feed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to build feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FixtureSourceConfig, NewsSource, NewsSourceItem } from './news-sources';
+
+/**
+ * Items read from <path>/<date>.json (an array of NewsSourceItem) so the
+ * pipeline can run without network access or API keys
+ */
+export class FixtureNewsSource implements NewsSource {
+  id: string;
+  kind = 'fixture' as const;
+
+  constructor(private config: FixtureSourceConfig) {
+    this.id = config.id;
+  }
+
+  async fetchItems(date: string): Promise<NewsSourceItem[]> {
+    const file = path.resolve(process.cwd(), this.config.path, `${date}.json`);
+
+    if (!fs.existsSync(file)) {
+      console.log(`📁 No fixture for ${date} at ${file}`);
+      return [];
+    }
+
+    const raw = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    const items: NewsSourceItem[] = (Array.isArray(raw) ? raw : [])
+      .filter((item: any) => item && typeof item.content === 'string')
+      .map((item: any) => ({
+        category: item.category || 'Market News',
+        content: item.content,
+        title: item.title,
+        url: item.url || null,
+        publishedAt: item.publishedAt || null,
+        publisher: item.publisher || null,
+        guid: item.guid || null
+      }));
+
+    console.log(`📁 Loaded ${items.length} fixture items for ${date}`);
+    return items;
+  }
+}
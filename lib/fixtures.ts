@@ -0,0 +1,20 @@
+// Name of the error a replayed request without a recorded answer fails with
+const MISSING_FIXTURE = 'MissingFixtureError';
+
+/**
+ * The error for a replayed request nothing was recorded for. The message
+ * names the fixture file, i.e. the request hash.
+ */
+export function missingFixtureError(message: string): Error {
+  const error = new Error(message);
+  error.name = MISSING_FIXTURE;
+  return error;
+}
+
+/**
+ * Fallbacks call this first. A missing fixture has to stop a replay run
+ * instead of sending it down a different path that still looks like a pass.
+ */
+export function rethrowMissingFixture(error: unknown): void {
+  if (error instanceof Error && error.name === MISSING_FIXTURE) throw error;
+}
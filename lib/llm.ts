@@ -0,0 +1,271 @@
+import OpenAI from 'openai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { missingFixtureError } from './fixtures';
+
+/**
+ * Every model call goes through one LLMProvider, picked from the environment:
+ *
+ *   LLM_PROVIDER=openai   OpenAI with OPENAI_API_KEY (default)
+ *   LLM_PROVIDER=local    an OpenAI-compatible endpoint at LLM_BASE_URL (Ollama, vLLM, LM Studio)
+ *   LLM_PROVIDER=replay   answers recorded under LLM_FIXTURES_PATH, for tests and offline runs
+ *
+ * LLM_RECORD=true saves every openai or local answer as a fixture for replay.
+ */
+export type LLMProviderName = 'openai' | 'local' | 'replay';
+
+// What a call is for; each task has its own model
+export type LLMTask = 'extraction' | 'title' | 'report' | 'enhance' | 'adjudication' | 'date';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  task: LLMTask;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean;               // ask for a JSON object
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;                // the model that answered, recorded in deal provenance
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  embeddingModel: string;
+  modelFor(task: LLMTask): string;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  embed(texts: string[], dimensions?: number): Promise<number[][]>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  apiKey: string | null;
+  baseURL: string | null;
+  models: { [task: string]: string };
+  embeddingModel: string;
+  record: boolean;
+  fixturesPath: string;
+}
+
+// OpenAI models per task. LLM_MODEL replaces all of them, LLM_EMBEDDING_MODEL the embedding model.
+export const LLM_MODELS: { [task in LLMTask]: string } = {
+  extraction: 'gpt-4o',
+  title: 'gpt-3.5-turbo',
+  report: 'gpt-4o',
+  enhance: 'gpt-4o',
+  adjudication: 'gpt-4o',
+  date: 'gpt-4o'
+};
+export const LLM_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// Ollama's defaults, used when LLM_PROVIDER=local does not name its own
+const LOCAL_BASE_URL = 'http://localhost:11434/v1';
+const LOCAL_MODEL = 'llama3.1';
+const LOCAL_EMBEDDING_MODEL = 'nomic-embed-text';
+
+const DEFAULT_FIXTURES_PATH = 'fixtures/llm';
+const PROVIDERS: LLMProviderName[] = ['openai', 'local', 'replay'];
+
+/**
+ * The one place model settings are read
+ */
+export function getLLMConfig(): LLMConfig {
+  const provider = PROVIDERS.indexOf(process.env.LLM_PROVIDER as LLMProviderName) !== -1 ? process.env.LLM_PROVIDER as LLMProviderName : 'openai';
+  const local = provider === 'local';
+
+  const models: { [task: string]: string } = {};
+  Object.keys(LLM_MODELS).forEach(task => {
+    models[task] = process.env.LLM_MODEL || (local ? LOCAL_MODEL : LLM_MODELS[task as LLMTask]);
+  });
+
+  return {
+    provider,
+    apiKey: local ? process.env.LLM_API_KEY || 'local' : process.env.OPENAI_API_KEY || null,
+    baseURL: local ? process.env.LLM_BASE_URL || LOCAL_BASE_URL : null,
+    models,
+    embeddingModel: process.env.LLM_EMBEDDING_MODEL || (local ? LOCAL_EMBEDDING_MODEL : LLM_EMBEDDING_MODEL),
+    record: process.env.LLM_RECORD === 'true',
+    fixturesPath: path.resolve(process.cwd(), process.env.LLM_FIXTURES_PATH || DEFAULT_FIXTURES_PATH)
+  };
+}
+
+/**
+ * Whether model calls can be made at all; without a provider callers use
+ * their rule-based fallbacks
+ */
+export function isLLMConfigured(): boolean {
+  const config = getLLMConfig();
+  return config.provider !== 'openai' || !!config.apiKey;
+}
+
+const hash = (value: unknown): string => createHash('sha256').update(JSON.stringify(value)).digest('hex').substring(0, 16);
+
+// Fixtures are keyed by what was asked, not by the model, so they survive a model change
+const chatFixture = (fixturesPath: string, request: ChatRequest): string =>
+  path.join(fixturesPath, request.task, `${hash({ messages: request.messages, json: !!request.json })}.json`);
+
+const embeddingFixture = (fixturesPath: string, model: string, text: string, dimensions?: number): string =>
+  path.join(fixturesPath, 'embeddings', `${hash({ model, text, dimensions: dimensions || null })}.json`);
+
+/**
+ * OpenAI, or any server speaking its API at another base URL
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  name: LLMProviderName;
+  embeddingModel: string;
+  private client: OpenAI;
+  private models: { [task: string]: string };
+
+  constructor(config: LLMConfig) {
+    if (!config.apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required');
+    }
+
+    this.name = config.provider;
+    this.models = config.models;
+    this.embeddingModel = config.embeddingModel;
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      ...(config.baseURL ? { baseURL: config.baseURL } : {})
+    });
+  }
+
+  modelFor(task: LLMTask): string {
+    return this.models[task];
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const model = this.modelFor(request.task);
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {})
+    });
+
+    return { content: response.choices[0]?.message?.content || '', model: response.model || model };
+  }
+
+  async embed(texts: string[], dimensions?: number): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: texts,
+      // Only OpenAI's own models shorten vectors on request
+      ...(dimensions && this.name === 'openai' ? { dimensions } : {})
+    });
+
+    return response.data
+      .slice()
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * Answers recorded earlier, so runs are deterministic and need no network. A
+ * request without a fixture stops the run rather than falling back, so stale
+ * fixtures cannot pass for a changed pipeline.
+ */
+export class ReplayProvider implements LLMProvider {
+  name: LLMProviderName = 'replay';
+  embeddingModel: string;
+  private models: { [task: string]: string };
+  private fixturesPath: string;
+
+  constructor(config: LLMConfig) {
+    this.models = config.models;
+    this.embeddingModel = config.embeddingModel;
+    this.fixturesPath = config.fixturesPath;
+  }
+
+  modelFor(task: LLMTask): string {
+    return this.models[task];
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const file = chatFixture(this.fixturesPath, request);
+    if (!fs.existsSync(file)) {
+      throw missingFixtureError(`No LLM fixture for this ${request.task} request (${path.basename(file)}); record one with LLM_RECORD=true`);
+    }
+
+    const fixture = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    return { content: fixture.content, model: fixture.model };
+  }
+
+  async embed(texts: string[], dimensions?: number): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i++) {
+      const file = embeddingFixture(this.fixturesPath, this.embeddingModel, texts[i], dimensions);
+      if (!fs.existsSync(file)) {
+        throw missingFixtureError(`No embedding fixture for "${texts[i].substring(0, 40)}" (${path.basename(file)}); record one with LLM_RECORD=true`);
+      }
+      vectors.push(JSON.parse(await fs.promises.readFile(file, 'utf8')).embedding);
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Saves every answer of a live provider where ReplayProvider looks for it
+ */
+export class RecordingProvider implements LLMProvider {
+  name: LLMProviderName;
+  embeddingModel: string;
+
+  constructor(private inner: LLMProvider, private fixturesPath: string) {
+    this.name = inner.name;
+    this.embeddingModel = inner.embeddingModel;
+  }
+
+  modelFor(task: LLMTask): string {
+    return this.inner.modelFor(task);
+  }
+
+  private async write(file: string, data: unknown): Promise<void> {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify(data, null, 2));
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const result = await this.inner.chat(request);
+    await this.write(chatFixture(this.fixturesPath, request), { task: request.task, model: result.model, messages: request.messages, content: result.content });
+    return result;
+  }
+
+  async embed(texts: string[], dimensions?: number): Promise<number[][]> {
+    const vectors = await this.inner.embed(texts, dimensions);
+    for (let i = 0; i < texts.length; i++) {
+      await this.write(embeddingFixture(this.fixturesPath, this.embeddingModel, texts[i], dimensions), { model: this.embeddingModel, text: texts[i], embedding: vectors[i] });
+    }
+    return vectors;
+  }
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * The configured provider. Throws when the OpenAI provider has no API key.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    const config = getLLMConfig();
+    if (config.provider === 'replay') {
+      provider = new ReplayProvider(config);
+    } else {
+      const live = new OpenAICompatibleProvider(config);
+      provider = config.record ? new RecordingProvider(live, config.fixturesPath) : live;
+    }
+    console.log(`🤖 LLM provider: ${provider.name}${config.record ? ' (recording)' : ''}`);
+  }
+  return provider;
+}
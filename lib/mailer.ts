@@ -0,0 +1,83 @@
+import * as nodemailer from 'nodemailer';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;              // implicit TLS, usually port 465
+  startTls: boolean;            // upgrade a plain connection, usually port 587
+  allowInsecureAuth?: boolean;  // send credentials over a connection with neither
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Send one message through the relay. Credentials are only sent once the
+ * connection is encrypted - implicit TLS or a required STARTTLS upgrade -
+ * unless allowInsecureAuth says otherwise.
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const auth = options.user && options.pass ? { user: options.user, pass: options.pass } : undefined;
+  if (auth && !options.secure && !options.startTls && !options.allowInsecureAuth) {
+    throw new Error('Refusing to send SMTP credentials without TLS - enable SMTP_SECURE or SMTP_STARTTLS');
+  }
+
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    requireTLS: !options.secure && options.startTls,
+    ignoreTLS: !options.secure && !options.startTls,
+    auth,
+    connectionTimeout: timeoutMs,
+    greetingTimeout: timeoutMs,
+    socketTimeout: timeoutMs
+  });
+
+  try {
+    await transport.sendMail({
+      from: options.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+  } finally {
+    transport.close();
+  }
+}
+
+/**
+ * SMTP relay from SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_STARTTLS /
+ * SMTP_ALLOW_INSECURE_AUTH / SMTP_USER / SMTP_PASS and the MAIL_FROM sender,
+ * or null when not configured. A plain connection is upgraded with STARTTLS
+ * unless SMTP_STARTTLS=false.
+ */
+export function getSmtpOptions(): SmtpOptions | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.MAIL_FROM;
+  if (!host || !from) return null;
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || '', 10) || (secure ? 465 : 587),
+    secure,
+    startTls: !secure && process.env.SMTP_STARTTLS !== 'false',
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from
+  };
+}
@@ -0,0 +1,352 @@
+import { isDuplicateTitle } from './supabase';
+import { normalizeCategory } from './taxonomy';
+import { cosineSimilarity } from './dedup';
+import type { AuditContext, Database, Deal, DealAuditEntry, DealClassification, DealEmbedding, DealEntityLink, DealProvenanceRecord, DealSource, DealTerms, EmbeddingMatch, Entity, NewsFeed, Vote, Watchlist } from './database';
+
+// The part of the database the ingest pipeline touches
+type PipelineMethod =
+  | 'saveDeal' | 'getDealById' | 'getDealsByDate' | 'getAllDeals' | 'getAllDealsByDateRange' | 'getDealsAfterId' | 'getDealsByIds' | 'findDuplicateDeals'
+  | 'updateDealSourceUrl' | 'updateDealClassification' | 'mergeDeals' | 'getDealSources'
+  | 'saveDealTerms' | 'getDealTerms' | 'getDealTermsForDeals' | 'saveDealProvenance' | 'getDealProvenance'
+  | 'getEntities' | 'getEntitiesByIds' | 'getEntityBySlug' | 'saveEntity' | 'linkDealEntities' | 'getDealEntityLinks' | 'getDealEntityLinksForDeals'
+  | 'getActiveWatchlists' | 'getNewsFeeds'
+  | 'saveDealEmbeddings' | 'getDealEmbeddings' | 'matchDealEmbeddings'
+  // ...and the part the audit round-trip check (npm run test:audit) touches
+  | 'upvoteArticle' | 'deleteDeal' | 'purgeDeletedDeals' | 'restoreDealRow' | 'getDealHistory';
+
+const CLOCK_START = Date.UTC(2000, 0, 1);
+
+const byDateDesc = (a: Deal, b: Deal): number =>
+  b.date.localeCompare(a.date) || (b.upvotes || 0) - (a.upvotes || 0) || (b.created_at || '').localeCompare(a.created_at || '');
+
+/**
+ * Everything the ingest pipeline reads and writes, held in memory with the
+ * same soft-delete and merge rules as Supabase. Timestamps come from a clock
+ * that ticks once per write, so a replayed run produces identical rows.
+ * Creates, deletes, purges and purge restores are audit-logged, and purging a
+ * deal drops its votes as the votes foreign key does.
+ */
+export class MemoryDatabase implements Pick<Database, PipelineMethod> {
+  private deals: Deal[] = [];
+  private terms: DealTerms[] = [];
+  private provenance: DealProvenanceRecord[] = [];
+  private sources: DealSource[] = [];
+  private entities: Entity[] = [];
+  private links: DealEntityLink[] = [];
+  private embeddings: DealEmbedding[] = [];
+  private votes: Vote[] = [];
+  private auditLog: DealAuditEntry[] = [];
+  private ids: { [table: string]: number } = {};
+  private ticks = 0;
+
+  constructor(seed: Deal[] = []) {
+    seed.forEach(deal => {
+      const id = deal.id || this.nextId('deals');
+      this.ids.deals = Math.max(this.ids.deals || 0, id);
+      this.deals.push({ upvotes: 0, status: 'published', deleted_at: null, merged_into: null, created_at: this.now(), ...deal, id });
+    });
+  }
+
+  private now(): string {
+    return new Date(CLOCK_START + ++this.ticks * 1000).toISOString();
+  }
+
+  private nextId(table: string): number {
+    this.ids[table] = (this.ids[table] || 0) + 1;
+    return this.ids[table];
+  }
+
+  private live(): Deal[] {
+    return this.deals.filter(deal => !deal.deleted_at);
+  }
+
+  /**
+   * This store where a Database is expected. Methods the pipeline does not use
+   * throw, so a new dependency shows up as a failure rather than a silent gap.
+   */
+  asDatabase(): Database {
+    return new Proxy(this, {
+      get(target, property) {
+        if (property in target) {
+          const value = target[property as keyof MemoryDatabase];
+          return typeof value === 'function' ? value.bind(target) : value;
+        }
+        return () => Promise.reject(new Error(`MemoryDatabase does not implement ${String(property)}`));
+      }
+    }) as unknown as Database;
+  }
+
+  /**
+   * Every deal ever saved, deleted and merged ones included, in id order
+   */
+  getDeals(): Deal[] {
+    return this.deals.slice();
+  }
+
+  async saveDeal(deal: Omit<Deal, 'id' | 'created_at' | 'upvotes'>, audit: AuditContext = { actor: 'ingest' }): Promise<number> {
+    const id = this.nextId('deals');
+    const row: Deal = {
+      ...deal,
+      id,
+      source_url: deal.source_url || undefined,
+      category: normalizeCategory(deal.category, `${deal.title} ${deal.summary}`),
+      region: deal.region || null,
+      countries: deal.countries || [],
+      deal_type: deal.deal_type || null,
+      provenance: deal.provenance || 'ingest',
+      status: deal.status || 'published',
+      confidence: deal.confidence === undefined ? null : deal.confidence,
+      review_reasons: deal.review_reasons || [],
+      deleted_at: null,
+      merged_into: null,
+      upvotes: 0,
+      created_at: this.now()
+    };
+    this.deals.push(row);
+    this.recordAudit(audit, [{ deal_id: id, action: 'create', before: null, after: { ...row } }]);
+    return id;
+  }
+
+  private recordAudit(audit: AuditContext, entries: Array<Pick<DealAuditEntry, 'deal_id' | 'action' | 'before' | 'after'>>): void {
+    entries.forEach(entry => this.auditLog.push({
+      ...entry,
+      id: this.nextId('deal_audit_log'),
+      actor: audit.actor,
+      reason: audit.reason || null,
+      reverts_id: audit.revertsId || null,
+      created_at: this.now()
+    }));
+  }
+
+  async getDealHistory(dealId: number): Promise<DealAuditEntry[]> {
+    return this.auditLog.filter(entry => entry.deal_id === dealId).reverse();
+  }
+
+  async upvoteArticle(articleId: number, userIp: string): Promise<boolean> {
+    const deal = this.deals.find(row => row.id === articleId);
+    if (!deal) throw new Error(`Failed to add vote: deal ${articleId} not found`);
+    if (this.votes.some(vote => vote.article_id === articleId && vote.user_ip === userIp)) return false;
+
+    this.votes.push({ id: this.nextId('votes'), article_id: articleId, user_ip: userIp, created_at: this.now() });
+    deal.upvotes = (deal.upvotes || 0) + 1;
+    return true;
+  }
+
+  /**
+   * Votes cast on a deal, for checking what a purge leaves behind
+   */
+  getVotes(articleId: number): Vote[] {
+    return this.votes.filter(vote => vote.article_id === articleId);
+  }
+
+  async deleteDeal(dealId: number, audit: AuditContext): Promise<void> {
+    const deal = this.live().find(row => row.id === dealId);
+    if (!deal) return;
+
+    deal.deleted_at = this.now();
+    deal.deleted_reason = audit.reason || null;
+    deal.merged_into = null;
+    this.recordAudit(audit, [{
+      deal_id: dealId,
+      action: 'delete',
+      before: { deleted_at: null, deleted_reason: null, merged_into: null },
+      after: { deleted_at: deal.deleted_at, deleted_reason: deal.deleted_reason, merged_into: null }
+    }]);
+  }
+
+  async purgeDeletedDeals(retentionDays: number, audit: AuditContext, dealIds?: number[]): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const purged = this.deals.filter(deal =>
+      !!deal.deleted_at && deal.deleted_at < cutoff && (!dealIds || dealIds.indexOf(deal.id!) !== -1));
+    const purgedIds = purged.map(deal => deal.id!);
+
+    this.deals = this.deals.filter(deal => purgedIds.indexOf(deal.id!) === -1);
+    this.votes = this.votes.filter(vote => purgedIds.indexOf(vote.article_id) === -1);
+    this.recordAudit(audit, purged.map(deal => ({ deal_id: deal.id!, action: 'purge' as DealAuditEntry['action'], before: deal, after: null })));
+    return purged.length;
+  }
+
+  async restoreDealRow(row: Deal, audit: AuditContext): Promise<Deal> {
+    if (this.deals.some(deal => deal.id === row.id)) {
+      throw new Error(`Failed to restore deal: deal ${row.id} already exists`);
+    }
+    const restored = { ...row };
+    this.deals.push(restored);
+    this.deals.sort((a, b) => a.id! - b.id!);
+    this.recordAudit(audit, [{ deal_id: restored.id!, action: 'create', before: null, after: { ...restored } }]);
+    return restored;
+  }
+
+  async getDealById(dealId: number): Promise<Deal | null> {
+    return this.deals.find(deal => deal.id === dealId) || null;
+  }
+
+  async getDealsByDate(date: string): Promise<Deal[]> {
+    return this.live().filter(deal => deal.date === date && deal.status === 'published').sort(byDateDesc);
+  }
+
+  async getAllDeals(status?: Deal['status']): Promise<Deal[]> {
+    return this.live().filter(deal => !status || deal.status === status).sort(byDateDesc);
+  }
+
+  async getAllDealsByDateRange(startDate: string, endDate: string | null, limit?: number): Promise<Deal[]> {
+    const deals = this.live()
+      .filter(deal => deal.date >= startDate && (!endDate || deal.date <= endDate))
+      .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
+    return limit ? deals.slice(0, limit) : deals;
+  }
+
+  async getDealsAfterId(afterId: number, limit: number): Promise<Deal[]> {
+    return this.live().filter(deal => deal.id! > afterId).slice(0, limit);
+  }
+
+  async getDealsByIds(dealIds: number[], publishedOnly: boolean = true): Promise<Deal[]> {
+    return this.live()
+      .filter(deal => dealIds.indexOf(deal.id!) !== -1 && (!publishedOnly || deal.status === 'published'))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  async findDuplicateDeals(title: string, date: string): Promise<Deal[]> {
+    return this.deals.filter(deal => deal.date === date && isDuplicateTitle(deal.title, title));
+  }
+
+  private update(dealId: number, changes: Partial<Deal>): void {
+    const deal = this.deals.find(row => row.id === dealId);
+    if (!deal) throw new Error(`Failed to update deal: deal ${dealId} not found`);
+    Object.assign(deal, changes);
+  }
+
+  async updateDealSourceUrl(dealId: number, sourceUrl: string, originalSource: string | undefined): Promise<boolean> {
+    this.update(dealId, originalSource ? { source_url: sourceUrl, source: originalSource } : { source_url: sourceUrl });
+    return true;
+  }
+
+  async updateDealClassification(dealId: number, classification: DealClassification): Promise<boolean> {
+    this.update(dealId, { region: classification.region, countries: classification.countries, deal_type: classification.deal_type });
+    return true;
+  }
+
+  async mergeDeals(canonicalId: number, dealIds: number[]): Promise<number> {
+    const deletedAt = this.now();
+    const merged = this.live().filter(deal => deal.id !== canonicalId && dealIds.indexOf(deal.id!) !== -1);
+
+    merged.forEach(deal => {
+      deal.deleted_at = deletedAt;
+      deal.merged_into = canonicalId;
+      this.sources.forEach(source => {
+        if (source.deal_id === deal.id) source.deal_id = canonicalId;
+      });
+      this.sources.push({
+        id: this.nextId('deal_sources'),
+        deal_id: canonicalId,
+        merged_deal_id: deal.id!,
+        title: deal.title,
+        source: deal.source,
+        source_url: deal.source_url || null,
+        upvotes: deal.upvotes || 0,
+        first_seen_at: deal.created_at || null
+      });
+    });
+
+    const canonical = this.deals.find(deal => deal.id === canonicalId);
+    if (canonical) canonical.upvotes = (canonical.upvotes || 0) + merged.reduce((sum, deal) => sum + (deal.upvotes || 0), 0);
+    return merged.length;
+  }
+
+  async getDealSources(dealIds: number[]): Promise<DealSource[]> {
+    return this.sources.filter(source => dealIds.indexOf(source.deal_id) !== -1);
+  }
+
+  async saveDealTerms(terms: Omit<DealTerms, 'id' | 'created_at'>): Promise<number> {
+    const existing = this.terms.find(row => row.deal_id === terms.deal_id);
+    const id = existing ? existing.id! : this.nextId('deal_terms');
+    this.terms = this.terms.filter(row => row.deal_id !== terms.deal_id).concat([{ ...terms, id, created_at: this.now() }]);
+    return id;
+  }
+
+  async getDealTerms(dealId: number): Promise<DealTerms | null> {
+    return this.terms.find(row => row.deal_id === dealId) || null;
+  }
+
+  async getDealTermsForDeals(dealIds: number[]): Promise<DealTerms[]> {
+    return this.terms.filter(row => dealIds.indexOf(row.deal_id) !== -1);
+  }
+
+  async saveDealProvenance(record: Omit<DealProvenanceRecord, 'id' | 'created_at'>): Promise<void> {
+    this.provenance = this.provenance
+      .filter(row => row.deal_id !== record.deal_id)
+      .concat([{ ...record, id: this.nextId('deal_provenance'), created_at: this.now() }]);
+  }
+
+  async getDealProvenance(dealId: number): Promise<DealProvenanceRecord | null> {
+    return this.provenance.find(row => row.deal_id === dealId) || null;
+  }
+
+  async getEntities(): Promise<Entity[]> {
+    return this.entities.slice().sort((a, b) => a.canonical_name.localeCompare(b.canonical_name));
+  }
+
+  async getEntitiesByIds(entityIds: number[]): Promise<Entity[]> {
+    return this.entities.filter(entity => entityIds.indexOf(entity.id!) !== -1);
+  }
+
+  async getEntityBySlug(slug: string): Promise<Entity | null> {
+    return this.entities.find(entity => entity.slug === slug) || null;
+  }
+
+  async saveEntity(entity: Omit<Entity, 'id' | 'created_at'>): Promise<Entity> {
+    if (this.entities.some(existing => existing.slug === entity.slug)) {
+      throw new Error(`Failed to save entity: slug "${entity.slug}" already exists`);
+    }
+    const saved = { ...entity, parent_id: entity.parent_id || null, id: this.nextId('entities'), created_at: this.now() };
+    this.entities.push(saved);
+    return saved;
+  }
+
+  async linkDealEntities(links: Omit<DealEntityLink, 'created_at'>[]): Promise<void> {
+    links.forEach(link => {
+      const exists = this.links.some(row => row.deal_id === link.deal_id && row.entity_id === link.entity_id && row.role === link.role);
+      if (!exists) this.links.push({ ...link, created_at: this.now() });
+    });
+  }
+
+  async getDealEntityLinks(dealId: number): Promise<DealEntityLink[]> {
+    return this.links.filter(link => link.deal_id === dealId);
+  }
+
+  async getDealEntityLinksForDeals(dealIds: number[]): Promise<DealEntityLink[]> {
+    return this.links.filter(link => dealIds.indexOf(link.deal_id) !== -1);
+  }
+
+  // No watchlists or registered feeds: runs raise no alerts and poll only configured sources
+  async getActiveWatchlists(): Promise<Watchlist[]> {
+    return [];
+  }
+
+  async getNewsFeeds(): Promise<NewsFeed[]> {
+    return [];
+  }
+
+  async saveDealEmbeddings(embeddings: DealEmbedding[]): Promise<void> {
+    embeddings.forEach(row => {
+      this.embeddings = this.embeddings
+        .filter(existing => existing.deal_id !== row.deal_id)
+        .concat([{ deal_id: row.deal_id, model: row.model, embedding: row.embedding, created_at: this.now() }]);
+    });
+  }
+
+  async getDealEmbeddings(dealIds: number[], model: string): Promise<DealEmbedding[]> {
+    return this.embeddings.filter(row => row.model === model && dealIds.indexOf(row.deal_id) !== -1);
+  }
+
+  // An exact scan; the harness stores a few days of deals at most
+  async matchDealEmbeddings(embedding: number[], model: string, count: number, minSimilarity: number, excludeId: number | null = null): Promise<EmbeddingMatch[]> {
+    const liveIds = this.live().map(deal => deal.id!);
+    return this.embeddings
+      .filter(row => row.model === model && row.deal_id !== excludeId && liveIds.indexOf(row.deal_id) !== -1)
+      .map(row => ({ deal_id: row.deal_id, similarity: cosineSimilarity(embedding, row.embedding) }))
+      .filter(match => match.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, count);
+  }
+}
@@ -0,0 +1,55 @@
+import type { NewsFeed } from './supabase';
+import { findCategory } from './taxonomy';
+
+export type NewsFeedInput = Omit<NewsFeed, 'id' | 'created_at' | 'updated_at'>;
+
+const MAX_KEYWORDS = 50;
+
+/**
+ * Validate a feed registration from a request body. With partial, only the
+ * fields that are present are checked and returned (for updates).
+ */
+export function parseNewsFeedInput(raw: any, partial: boolean = false): { feed: Partial<NewsFeedInput>; error: string | null } {
+  const feed: Partial<NewsFeedInput> = {};
+  const has = (key: string) => !partial || (raw && raw[key] !== undefined);
+
+  if (has('name')) {
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+    if (!name) return { feed, error: 'name is required' };
+    feed.name = name.substring(0, 120);
+  }
+
+  if (has('url')) {
+    const url = typeof raw?.url === 'string' ? raw.url.trim() : '';
+    if (!/^https?:\/\/\S+$/i.test(url)) return { feed, error: 'url must be an http(s) URL' };
+    feed.url = url;
+  }
+
+  if (has('category')) {
+    if (raw?.category) {
+      const node = findCategory(String(raw.category));
+      if (!node) return { feed, error: `Unknown category "${raw.category}"` };
+      feed.category = node.path;
+    } else {
+      feed.category = null;
+    }
+  }
+
+  if (has('keywords')) {
+    const items = Array.isArray(raw?.keywords) ? raw.keywords : typeof raw?.keywords === 'string' ? raw.keywords.split(',') : [];
+    const keywords: string[] = Array.from(new Set(
+      items
+        .filter((item: any) => typeof item === 'string')
+        .map((item: string) => item.trim().toLowerCase())
+        .filter(Boolean)
+    ));
+    if (keywords.length > MAX_KEYWORDS) return { feed, error: `At most ${MAX_KEYWORDS} keywords are allowed` };
+    feed.keywords = keywords;
+  }
+
+  if (has('active')) {
+    feed.active = raw?.active === undefined ? true : !!raw.active;
+  }
+
+  return { feed, error: null };
+}
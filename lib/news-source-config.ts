@@ -0,0 +1,71 @@
+import type { NewsSourceConfig } from './news-sources';
+
+// Keywords a press-wire release must mention to be worth extracting
+const PRIVATE_CREDIT_KEYWORDS = [
+  'private credit',
+  'direct lending',
+  'private debt',
+  'credit facility',
+  'unitranche',
+  'term loan',
+  'senior secured',
+  'business development company',
+  'bdc',
+  'fund close',
+  'final close',
+  'first close',
+  'asset-based',
+  'nav facility',
+  'clo'
+];
+
+/**
+ * Every news source the scheduler knows about. Perplexity stays the default;
+ * enable others here or pick a set per environment with NEWS_SOURCES.
+ */
+export const NEWS_SOURCE_CONFIG: NewsSourceConfig[] = [
+  {
+    id: 'perplexity',
+    kind: 'perplexity'
+  },
+  {
+    id: 'business-wire',
+    kind: 'press-wire',
+    name: 'Business Wire',
+    url: 'https://feed.businesswire.com/rss/home/?rss=G1QFDERJXkJeGVtRXw==',
+    keywords: PRIVATE_CREDIT_KEYWORDS,
+    enabled: false
+  },
+  {
+    id: 'pr-newswire',
+    kind: 'press-wire',
+    name: 'PR Newswire',
+    url: 'https://www.prnewswire.com/rss/financial-services-latest-news/financial-services-latest-news-list.rss',
+    keywords: PRIVATE_CREDIT_KEYWORDS,
+    enabled: false
+  },
+  {
+    id: 'edgar-bdcs',
+    kind: 'edgar',
+    // Large listed BDCs: Ares Capital, Blue Owl Capital Corp, FS KKR, Blackstone Private Credit Fund
+    ciks: ['1287750', '1655888', '1422183', '1803498'],
+    forms: ['8-K', 'N-2', 'D', '10-Q'],
+    enabled: false
+  },
+  {
+    // Recorded EDGAR responses under fixtures/edgar - run offline with NEWS_SOURCES=edgar-fixtures
+    id: 'edgar-fixtures',
+    kind: 'edgar',
+    ciks: ['9999999'],
+    forms: ['8-K', 'N-2', 'D', '10-Q'],
+    mode: 'replay',
+    fixturesPath: 'fixtures/edgar',
+    enabled: false
+  },
+  {
+    id: 'fixtures',
+    kind: 'fixture',
+    path: 'fixtures/news',
+    enabled: false
+  }
+];
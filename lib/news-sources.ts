@@ -0,0 +1,159 @@
+import { NEWS_SOURCE_CONFIG } from './news-source-config';
+import { PerplexityNewsSource } from './perplexity-source';
+import { PressWireNewsSource, RssNewsSource } from './rss-source';
+import { EdgarNewsSource } from './edgar-source';
+import { FixtureNewsSource } from './fixture-source';
+import { getDatabase } from './database';
+import type { NewsFeed } from './database';
+import type { ExtractedDealTerms } from './deal-terms';
+
+export type NewsSourceKind = 'perplexity' | 'rss' | 'press-wire' | 'edgar' | 'fixture';
+
+/**
+ * A deal a source has already parsed from structured data (e.g. an SEC filing).
+ * It is saved as-is instead of going through LLM extraction.
+ */
+export interface SourceDeal {
+  title: string;
+  summary: string;
+  category: string;               // taxonomy path
+  terms: ExtractedDealTerms | null;
+}
+
+/**
+ * One chunk of raw news handed to OpenAIService.extractNewsArticles. A chunk may
+ * hold several articles (a Perplexity section) or exactly one (a feed item).
+ */
+export interface NewsSourceItem {
+  category: string;               // section label, used as an extraction hint
+  content: string;
+  title?: string;
+  url?: string | null;            // link to the original item, when the source has one
+  publishedAt?: string | null;    // ISO timestamp from the source, when it has one
+  publisher?: string | null;      // e.g. "Business Wire"
+  guid?: string | null;
+  deal?: SourceDeal;              // already parsed - skips extraction
+  sourceId?: string;              // the NewsSource that produced the item (set by the scheduler)
+  sourceKind?: NewsSourceKind;
+  query?: string | null;          // search query that returned the item, for LLM search sources
+}
+
+export interface NewsSource {
+  id: string;
+  kind: NewsSourceKind;
+  fetchItems(date: string): Promise<NewsSourceItem[]>;
+  // Persist what the source remembers between runs, once its items have been processed
+  commit?(): Promise<void>;
+}
+
+interface BaseSourceConfig {
+  id: string;
+  enabled?: boolean;              // default true; NEWS_SOURCES overrides
+}
+
+export interface PerplexitySourceConfig extends BaseSourceConfig {
+  kind: 'perplexity';
+}
+
+export interface RssSourceConfig extends BaseSourceConfig {
+  kind: 'rss';
+  url: string;
+  name: string;                   // publisher shown as the deal source when extraction finds none
+  category?: string;              // extraction hint, e.g. a taxonomy path
+}
+
+export interface PressWireSourceConfig extends BaseSourceConfig {
+  kind: 'press-wire';
+  url: string;
+  name: string;
+  keywords: string[];             // only releases mentioning one of these are kept
+}
+
+export type EdgarMode = 'live' | 'record' | 'replay';
+
+export interface EdgarSourceConfig extends BaseSourceConfig {
+  kind: 'edgar';
+  ciks: string[];
+  forms: string[];                // e.g. ['8-K', 'N-2', 'D', '10-Q']
+  query?: string;                 // EDGAR full-text search phrase; matches filings of these forms by any filer
+  mode?: EdgarMode;               // default 'live'; EDGAR_MODE overrides
+  fixturesPath?: string;          // recorded responses for record/replay, relative to the project root
+}
+
+export interface FixtureSourceConfig extends BaseSourceConfig {
+  kind: 'fixture';
+  path: string;                   // directory of <date>.json files, relative to the project root
+}
+
+export type NewsSourceConfig =
+  | PerplexitySourceConfig
+  | RssSourceConfig
+  | PressWireSourceConfig
+  | EdgarSourceConfig
+  | FixtureSourceConfig;
+
+export function createNewsSource(config: NewsSourceConfig): NewsSource {
+  switch (config.kind) {
+    case 'perplexity':
+      return new PerplexityNewsSource(config);
+    case 'rss':
+      return new RssNewsSource(config);
+    case 'press-wire':
+      return new PressWireNewsSource(config);
+    case 'edgar':
+      return new EdgarNewsSource(config);
+    case 'fixture':
+      return new FixtureNewsSource(config);
+  }
+}
+
+// NEWS_SOURCES entry that selects every active feed registered through /api/news-feeds
+export const REGISTERED_FEEDS_SOURCE_ID = 'feeds';
+
+export function newsFeedSourceId(feed: NewsFeed): string {
+  return `feed-${feed.id}`;
+}
+
+/**
+ * A feed registered at runtime becomes an RSS source, or a press-wire source
+ * when it only wants entries mentioning its keywords
+ */
+export function newsFeedConfig(feed: NewsFeed): RssSourceConfig | PressWireSourceConfig {
+  const base = { id: newsFeedSourceId(feed), url: feed.url, name: feed.name, enabled: feed.active };
+
+  return feed.keywords.length > 0
+    ? { ...base, kind: 'press-wire', keywords: feed.keywords }
+    : { ...base, kind: 'rss', category: feed.category || undefined };
+}
+
+async function getRegisteredFeedConfigs(): Promise<NewsSourceConfig[]> {
+  try {
+    return (await getDatabase().getNewsFeeds(true)).map(newsFeedConfig);
+  } catch (error) {
+    console.error('❌ Failed to load registered news feeds:', error);
+    return [];
+  }
+}
+
+/**
+ * Sources to poll on each run: the configs in news-source-config.ts plus active
+ * feeds registered in the database. NEWS_SOURCES (comma-separated ids, "feeds"
+ * for every registered feed) picks from them regardless of their enabled flag;
+ * otherwise every enabled config and registered feed is used.
+ */
+export async function getNewsSources(configs: NewsSourceConfig[] = NEWS_SOURCE_CONFIG): Promise<NewsSource[]> {
+  const selected = (process.env.NEWS_SOURCES || '').split(',').map(id => id.trim()).filter(Boolean);
+  const registered = await getRegisteredFeedConfigs();
+
+  const active = selected.length > 0
+    ? configs.filter(config => selected.includes(config.id)).concat(
+        registered.filter(config => selected.includes(REGISTERED_FEEDS_SOURCE_ID) || selected.includes(config.id))
+      )
+    : configs.concat(registered).filter(config => config.enabled !== false);
+
+  selected
+    .filter(id => id !== REGISTERED_FEEDS_SOURCE_ID && !configs.concat(registered).some(config => config.id === id))
+    .forEach(id => console.warn(`⚠️ Unknown news source "${id}" in NEWS_SOURCES - skipping`));
+
+  return active.map(createNewsSource);
+}
@@ -1,4 +1,9 @@
-import OpenAI from 'openai';
+import { LLMProvider, getLLMProvider } from './llm';
+import { rethrowMissingFixture } from './fixtures';
+import { ExtractedDealTerms, extractDealTermsFromText, normalizeDealTerms } from './deal-terms';
+import { DEAL_REGIONS, classifyDealFromText, normalizeClassification } from './classification';
+import { DEFAULT_CATEGORY, categoryPromptList, inferCategory, normalizeCategory } from './taxonomy';
+import type { DealClassification } from './supabase';
 
 export interface NewsAnalysis {
   title: string;
@@ -6,32 +11,46 @@ export interface NewsAnalysis {
   category: string;
   source_url?: string;
   original_source?: string; // e.g., "Bloomberg", "Reuters"
+  extracted_by?: string;    // the model that answered, or 'rules' when the model call failed
+}
+
+// A version per prompt. Bump a version whenever its prompt changes so deal
+// provenance shows which one was used.
+export const PROMPT_VERSIONS = {
+  articles: 'articles-v3',
+  summary: 'summary-v2',
+  terms: 'terms-v1',
+  classification: 'classification-v1'
+};
+
+export interface DuplicateArticle {
+  title: string;
+  summary: string;
+  source: string;
+  date: string;
 }
 
 export interface ExtractedNews {
   articles: NewsAnalysis[];
 }
 
+/**
+ * The prompts behind every model call. Which backend and model answer them is
+ * configured in lib/llm.ts; constructing this throws when none is available.
+ */
 export class OpenAIService {
-  private openai: OpenAI;
+  private llm: LLMProvider;
 
   constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
-    }
-    
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-    });
+    this.llm = getLLMProvider();
   }
 
   async extractNewsArticles(newsContent: string, category: string, targetDate?: string): Promise<NewsAnalysis[]> {
     try {
       console.log(`🤖 OpenAI: Extracting articles from ${category} content (${newsContent.length} chars)`);
       
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o',
+      const response = await this.llm.chat({
+        task: 'extraction',
         messages: [
           {
             role: 'system',
@@ -77,15 +96,8 @@ export class OpenAIService {
               ❌ "Deal Activity"
 
             CATEGORY ASSIGNMENT (CRITICAL):
-            Assign ONE specific category based on content:
-            - "Credit Facility" - for loans, credit lines, refinancing
-            - "Fund Raising" - for fund launches, closings, capital raises
-            - "M&A Financing" - for acquisition financing, LBO deals
-            - "CLO/Securitization" - for CLO issuances, securitizations
-            - "Credit Rating" - for rating actions, upgrades, downgrades
-            - "Real Estate Credit" - for property financing deals
-            - "Infrastructure Credit" - for infrastructure, energy deals
-            - "Special Situations" - for distressed, restructuring deals
+            Assign the MOST SPECIFIC matching category path, written exactly as listed:
+${categoryPromptList('            ')}
 
             SUMMARY STRUCTURE REQUIREMENTS:
             - **Sentence 1**: **WHO** (company/fund) did **WHAT** (transaction type) for **HOW MUCH** (amount)
@@ -102,7 +114,7 @@ export class OpenAIService {
             {
               "title": "Apollo Provides $500M Credit Facility to TechCorp",
               "summary": "**Apollo Global Management** provided a **$500M credit facility** to **TechCorp** to finance its acquisition of three software companies in the healthcare sector. The facility includes a **$300M revolving credit line** and **$200M term loan** with **5-year maturity** and pricing at **SOFR + 350 basis points**. This transaction demonstrates Apollo's continued focus on technology sector growth financing amid increased competition for quality middle-market assets.",
-              "category": "Credit Facility",
+              "category": "Private Credit > Acquisition Financing",
               "source_url": "https://www.bloomberg.com/news/articles/...",
               "original_source": "Bloomberg Terminal"
             }
@@ -129,12 +141,12 @@ export class OpenAIService {
 ${newsContent}`
           }
         ],
-        max_tokens: 4000,
+        maxTokens: 4000,
         temperature: 0.1,
-        response_format: { type: "json_object" }
+        json: true
       });
 
-      const content = response.choices[0]?.message?.content;
+      const content = response.content;
       
       if (!content) {
         console.log(`❌ No content from OpenAI for ${category}`);
@@ -202,18 +214,16 @@ ${newsContent}`
           extractedUrl = this.extractUrlFromContent(newsContent, article.title);
         }
         
-        // Ensure proper category assignment
-        let finalCategory = article.category || 'Market News';
-        if (finalCategory === 'Deal Activity') {
-          finalCategory = this.inferCategoryFromContent(article.title, summary);
-        }
+        // Map the model's category onto the taxonomy, inferring it when vague or unknown
+        const finalCategory = normalizeCategory(article.category, `${article.title} ${summary}`);
         
         return {
           title: article.title?.substring(0, 80) || 'News Update', // Longer titles for clarity
           summary: summary,
           category: finalCategory,
           source_url: extractedUrl,
-          original_source: article.original_source || 'Financial News'
+          original_source: article.original_source || 'Financial News',
+          extracted_by: response.model
         };
       });
 
@@ -221,6 +231,7 @@ ${newsContent}`
       return processedArticles;
       
     } catch (error) {
+      rethrowMissingFixture(error);
       console.error(`❌ Error extracting news articles from ${category}:`, error);
       return this.createFallbackArticles(newsContent, category);
     }
@@ -263,30 +274,6 @@ ${newsContent}`
     return result;
   }
 
-  private inferCategoryFromContent(title: string, summary: string): string {
-    const text = (title + ' ' + summary).toLowerCase();
-    
-    if (text.includes('credit facility') || text.includes('term loan') || text.includes('revolving') || text.includes('refinanc')) {
-      return 'Credit Facility';
-    } else if (text.includes('fund') && (text.includes('raise') || text.includes('launch') || text.includes('close'))) {
-      return 'Fund Raising';
-    } else if (text.includes('acquisition') || text.includes('buyout') || text.includes('lbo')) {
-      return 'M&A Financing';
-    } else if (text.includes('clo') || text.includes('securitization') || text.includes('asset-backed')) {
-      return 'CLO/Securitization';
-    } else if (text.includes('rating') || text.includes('upgrade') || text.includes('downgrade') || text.includes('fitch') || text.includes('moody')) {
-      return 'Credit Rating';
-    } else if (text.includes('real estate') || text.includes('property') || text.includes('reit')) {
-      return 'Real Estate Credit';
-    } else if (text.includes('infrastructure') || text.includes('energy') || text.includes('utilities')) {
-      return 'Infrastructure Credit';
-    } else if (text.includes('distressed') || text.includes('restructuring') || text.includes('bankruptcy')) {
-      return 'Special Situations';
-    }
-    
-    return 'Market News';
-  }
-
   private extractUrlFromContent(content: string, articleTitle: string): string | undefined {
     // Look for URLs in the content that might be associated with this article
     const urlPatterns = [
@@ -475,9 +462,10 @@ ${newsContent}`
           fallbackArticles.push({
             title: title.substring(0, 60),
             summary: cleanSummary + (point.length > 200 ? '...' : ''),
-            category: 'Deal Activity',
+            category: inferCategory(cleanSummary),
             source_url: undefined,
-            original_source: 'Financial News'
+            original_source: 'Financial News',
+            extracted_by: 'rules'
           });
           
           // Limit to avoid too many fallback articles
@@ -492,8 +480,8 @@ ${newsContent}`
 
   async summarizeDeals(dealContent: string): Promise<NewsAnalysis> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o',
+      const response = await this.llm.chat({
+        task: 'extraction',
         messages: [
           {
             role: 'system',
@@ -525,12 +513,12 @@ ${newsContent}`
             content: `Create a well-structured summary of this financial content, focusing only on actual deals with **bold formatting** for key elements:\n\n${dealContent}`
           }
         ],
-        max_tokens: 1000,
+        maxTokens: 1000,
         temperature: 0.2,
-        response_format: { type: "json_object" }
+        json: true
       });
 
-      const content = response.choices[0]?.message?.content;
+      const content = response.content;
       if (!content) {
         throw new Error('No response from OpenAI');
       }
@@ -540,12 +528,14 @@ ${newsContent}`
       return {
         title: parsed.title?.substring(0, 60) || 'Market Activity Update',
         summary: parsed.summary || 'Limited market activity for this period.',
-        category: 'Deal Activity',
+        category: normalizeCategory(parsed.category, `${parsed.title || ''} ${parsed.summary || ''}`),
         source_url: parsed.source_url || undefined,
-        original_source: parsed.original_source || 'Financial News'
+        original_source: parsed.original_source || 'Financial News',
+        extracted_by: response.model
       };
       
     } catch (error) {
+      rethrowMissingFixture(error);
       console.error('Error with OpenAI summarization:', error);
       
       // Simple fallback without verbose disclaimers
@@ -556,17 +546,126 @@ ${newsContent}`
         summary: hasDeals ? 
           'Various market transactions and announcements reported for this period.' :
           'Limited market activity for this period.',
-        category: 'Deal Activity',
+        category: DEFAULT_CATEGORY,
         source_url: undefined,
-        original_source: 'Financial News'
+        original_source: 'Financial News',
+        extracted_by: 'rules'
       };
     }
   }
 
+  async extractDealTerms(title: string, summary: string, content?: string): Promise<ExtractedDealTerms> {
+    try {
+      const response = await this.llm.chat({
+        task: 'extraction',
+        messages: [
+          {
+            role: 'system',
+            content: `You are a private credit analyst. Extract the structured terms of the ONE transaction described in the article.
+
+FIELDS:
+- parties: array of { "name", "role" } where role is one of borrower, lender, sponsor, arranger, manager, investor, target, other
+- amount: headline deal size exactly as written, including currency and unit (e.g. "$500M", "€1.2 billion")
+- currency: ISO 4217 code (USD, EUR, GBP, ...)
+- instrument_type: e.g. Credit Facility, Term Loan, Revolving Credit Facility, Unitranche, Delayed Draw Term Loan, Asset-Based Loan, Mezzanine, Senior Notes, NAV Facility, CLO, Securitization, Fund Commitment, Equity
+- tenor: maturity as written (e.g. "5 years")
+- pricing: spread or coupon as written (e.g. "SOFR + 350bps")
+- use_of_proceeds: short phrase (e.g. "refinancing", "acquisition of XYZ")
+
+RULES:
+- Use company and fund names exactly as they appear, without "**" formatting
+- Use null for anything the article does not state - NEVER guess
+- For fund raises the manager is "manager" and LPs are "investor"
+
+Return ONLY a JSON object with these fields.`
+          },
+          {
+            role: 'user',
+            content: `TITLE: ${title}
+
+SUMMARY: ${summary}
+
+CONTENT: ${content ? content.substring(0, 1500) : 'No content available'}`
+          }
+        ],
+        maxTokens: 600,
+        temperature: 0.1,
+        json: true
+      });
+
+      const result = response.content;
+      if (!result) {
+        throw new Error('No response from OpenAI');
+      }
+
+      return normalizeDealTerms(JSON.parse(result));
+
+    } catch (error) {
+      rethrowMissingFixture(error);
+      console.log(`⚠️ Error extracting deal terms, using rule-based fallback: ${error}`);
+      return extractDealTermsFromText(`${title}. ${summary}`);
+    }
+  }
+
+  async classifyDeal(title: string, summary: string, content?: string, instrumentType?: string | null): Promise<DealClassification> {
+    const fallback = classifyDealFromText({ title, summary, content }, instrumentType);
+
+    try {
+      const response = await this.llm.chat({
+        task: 'extraction',
+        messages: [
+          {
+            role: 'system',
+            content: `You are a private credit analyst. Classify WHERE the ONE transaction described in the article takes place and WHAT kind of transaction it is.
+
+FIELDS:
+- countries: countries where the borrower, target or fund's investments are based (full English names, e.g. "United States", "Germany")
+- region: one of ${DEAL_REGIONS.join(', ')}
+- deal_type: the most specific matching category path, exactly as written below
+
+CATEGORIES:
+${categoryPromptList()}
+
+RULES:
+- The currency is NOT evidence of location - dollar-denominated deals happen everywhere
+- The lender's or manager's headquarters is NOT the deal location
+- Use "Global" when the deal spans several regions or the location is not stated
+- Use "${DEFAULT_CATEGORY}" when the article is not about a specific transaction
+
+Return ONLY a JSON object with these fields.`
+          },
+          {
+            role: 'user',
+            content: `TITLE: ${title}
+
+SUMMARY: ${summary}
+
+CONTENT: ${content ? content.substring(0, 1000) : 'No content available'}`
+          }
+        ],
+        maxTokens: 200,
+        temperature: 0.1,
+        json: true
+      });
+
+      const result = response.content;
+      if (!result) {
+        throw new Error('No response from OpenAI');
+      }
+
+      return normalizeClassification(JSON.parse(result), fallback);
+
+    } catch (error) {
+      rethrowMissingFixture(error);
+      console.log(`⚠️ Error classifying deal, using rule-based fallback: ${error}`);
+      return fallback;
+    }
+  }
+
   async generateTitle(content: string): Promise<string> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
+      const response = await this.llm.chat({
+        task: 'title',
         messages: [
           {
             role: 'system',
@@ -577,12 +676,13 @@ ${newsContent}`
             content: `Generate a title for this financial news:\n\n${content.substring(0, 300)}...`
           }
         ],
-        max_tokens: 50,
+        maxTokens: 50,
         temperature: 0.3
       });
 
-             return response.choices[0]?.message?.content?.trim() || 'Financial Market Update';
+             return response.content.trim() || 'Financial Market Update';
     } catch (error) {
+      rethrowMissingFixture(error);
       console.error('Error generating title:', error);
       return 'Financial Market Update';
     }
@@ -590,20 +690,20 @@ ${newsContent}`
 
   async generateCombinedReport(sources: string[]): Promise<string> {
     const combinedContent = sources.join('\n\n');
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4o',
+    const response = await this.llm.chat({
+      task: 'report',
       messages: [
         { role: 'system', content: 'Combine these search results into one comprehensive, informative report on the fund/company. Structure as: Overview, Key Details, Recent Activities, Sources.' },
         { role: 'user', content: combinedContent }
       ],
     });
-    return response.choices[0].message.content || 'No report generated';
+    return response.content || 'No report generated';
   }
 
   async enhanceArticle(deal: any): Promise<{ title: string; summary: string }> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o',
+      const response = await this.llm.chat({
+        task: 'enhance',
         messages: [
           {
             role: 'system',
@@ -638,11 +738,11 @@ Please provide:
 2. Enhanced Summary: [exactly 2 informative sentences]`
           }
         ],
-        max_tokens: 500,
+        maxTokens: 500,
         temperature: 0.7
       });
 
-      const content = response.choices[0].message.content || '';
+      const content = response.content || '';
       
       // Parse the response to extract title and summary
       const titleMatch = content.match(/Enhanced Title:\s*(.+?)(?:\n|$)/i);
@@ -684,14 +784,19 @@ Please provide:
     }
   }
 
-  async detectSemanticDuplicate(article1: any, article2: any): Promise<boolean> {
-    try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a financial news analyst. Determine if two articles are covering the SAME deal, transaction, or financial event, even if they're from different sources or worded differently.
+  /**
+   * Final say on a pair the cheaper dedup stages could not settle
+   */
+  async adjudicateDuplicate(article1: DuplicateArticle, article2: DuplicateArticle): Promise<{ duplicate: boolean; reason: string }> {
+    const describe = (article: DuplicateArticle) =>
+      `Title: ${article.title}\nSummary: ${article.summary}\nSource: ${article.source}\nDate: ${article.date}`;
+
+    const response = await this.llm.chat({
+      task: 'adjudication',
+      messages: [
+        {
+          role: 'system',
+          content: `You are a financial news analyst. Determine if two articles are covering the SAME deal, transaction, or financial event, even if they're from different sources or worded differently.
 
 CRITICAL ANALYSIS CRITERIA:
 - Are they about the SAME company/fund/deal?
@@ -699,8 +804,6 @@ CRITICAL ANALYSIS CRITERIA:
 - Do they have the SAME key financial details (amounts, dates, parties)?
 - Even if sources differ, are they covering the SAME underlying story?
 
-RESPOND WITH: "DUPLICATE" or "DIFFERENT"
-
 Examples of DUPLICATES:
 - Same company raising same amount from different sources
 - Same merger/acquisition reported by different outlets
@@ -710,43 +813,28 @@ Examples of DIFFERENT:
 - Different companies even in same industry
 - Different transaction amounts or dates
 - Different types of deals (funding vs acquisition)
-- Same company but different transactions`
-          },
-          {
-            role: 'user',
-            content: `ARTICLE 1:
-Title: ${article1.title}
-Summary: ${article1.summary}
-Source: ${article1.source}
-Date: ${article1.date}
-
-ARTICLE 2:
-Title: ${article2.title}
-Summary: ${article2.summary}
-Source: ${article2.source}
-Date: ${article2.date}
-
-Are these covering the SAME deal/transaction?`
-          }
-        ],
-        max_tokens: 50,
-        temperature: 0.1
-      });
+- Same company but different transactions
 
-      const result = response.choices[0].message.content || '';
-      return result.toLowerCase().includes('duplicate');
-      
-    } catch (error) {
-      console.error('Error detecting semantic duplicate:', error);
-      // Default to false if there's an error
-      return false;
-    }
+Return JSON: { "duplicate": boolean, "reason": "one sentence" }`
+        },
+        {
+          role: 'user',
+          content: `ARTICLE 1:\n${describe(article1)}\n\nARTICLE 2:\n${describe(article2)}\n\nAre these covering the SAME deal/transaction?`
+        }
+      ],
+      maxTokens: 150,
+      temperature: 0.1,
+      json: true
+    });
+
+    const result = JSON.parse(response.content || '{}');
+    return { duplicate: result.duplicate === true, reason: result.reason || '' };
   }
 
   async extractDateFromContent(title: string, summary: string, content: string): Promise<string | null> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o',
+      const response = await this.llm.chat({
+        task: 'date',
         messages: [
           {
             role: 'system',
@@ -781,11 +869,11 @@ CONTENT: ${content ? content.substring(0, 1000) : 'No content available'}...
 Return ONLY the date in YYYY-MM-DD format or "UNKNOWN".`
           }
         ],
-        max_tokens: 50,
+        maxTokens: 50,
         temperature: 0.1
       });
 
-      const result = response.choices[0].message.content?.trim();
+      const result = response.content.trim();
       
       if (result === 'UNKNOWN') {
         return null;
@@ -803,6 +891,7 @@ Return ONLY the date in YYYY-MM-DD format or "UNKNOWN".`
       return null;
       
     } catch (error) {
+      rethrowMissingFixture(error);
       console.log(`⚠️ Error extracting date from content: ${error}`);
       return null;
     }
@@ -0,0 +1,112 @@
+import { PerplexityService } from './perplexity';
+import type { NewsSource, NewsSourceItem, PerplexitySourceConfig } from './news-sources';
+
+/**
+ * Split a Perplexity answer into sections that each go through extraction
+ */
+export function parseNewsContent(content: string): Array<{category: string, content: string}> {
+  const sections: Array<{category: string, content: string}> = [];
+
+  // Try to split by different patterns found in the actual content
+  // Pattern 1: Look for bullet points with categories
+  const bulletSections = content.split(/•\s*(?=\w+[^•]*:)/);
+
+  if (bulletSections.length > 1) {
+    console.log(`Found ${bulletSections.length} bullet sections`);
+    for (let i = 1; i < bulletSections.length; i++) {
+      const section = bulletSections[i].trim();
+      if (section.length > 100) {
+        // Extract category from the beginning of the section
+        const categoryMatch = section.match(/^([^:]+):/);
+        const category = categoryMatch ? categoryMatch[1].trim() : `Section ${i}`;
+
+        sections.push({
+          category: category,
+          content: section
+        });
+      }
+    }
+  }
+
+  // Pattern 2: Look for numbered sections or headers
+  if (sections.length === 0) {
+    const numberedSections = content.split(/\n\s*\d+\.\s+/);
+    if (numberedSections.length > 1) {
+      console.log(`Found ${numberedSections.length} numbered sections`);
+      for (let i = 1; i < numberedSections.length; i++) {
+        const section = numberedSections[i].trim();
+        if (section.length > 100) {
+          sections.push({
+            category: `Deal Activity ${i}`,
+            content: section
+          });
+        }
+      }
+    }
+  }
+
+  // Pattern 3: Split by double newlines for large blocks
+  if (sections.length === 0) {
+    const blocks = content.split(/\n\s*\n\s*/).filter(block => block.trim().length > 200);
+    console.log(`Found ${blocks.length} content blocks`);
+
+    blocks.forEach((block, index) => {
+      sections.push({
+        category: `Market News ${index + 1}`,
+        content: block.trim()
+      });
+    });
+  }
+
+  // Fallback: Use the entire content as one section if no patterns found
+  if (sections.length === 0 && content.length > 200) {
+    console.log(`Using entire content as single section`);
+    sections.push({
+      category: 'Private Credit News',
+      content: content
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * LLM web search - one Perplexity query per taxonomy search topic
+ */
+export class PerplexityNewsSource implements NewsSource {
+  id: string;
+  kind = 'perplexity' as const;
+  private service?: PerplexityService;
+
+  constructor(config: PerplexitySourceConfig) {
+    this.id = config.id;
+  }
+
+  private getService(): PerplexityService {
+    if (!this.service) {
+      this.service = new PerplexityService();
+    }
+    return this.service;
+  }
+
+  async fetchItems(date: string): Promise<NewsSourceItem[]> {
+    const results = await this.getService().searchPrivateCreditDealsByTopic(date);
+    const items: NewsSourceItem[] = [];
+
+    for (const result of results) {
+      console.log(`Raw news content length for ${result.topic}: ${result.content?.length || 0}`);
+      console.log(`First 500 chars of content: ${result.content?.substring(0, 500) || 'No content'}`);
+
+      if (!result.content || result.content.trim().length < 10) continue;
+
+      // Split content into meaningful sections based on the actual format
+      // The content uses bullet points and different formatting, not === markers
+      const sections = parseNewsContent(result.content);
+      console.log(`Parsed ${sections.length} sections from ${result.topic} content`);
+
+      items.push(...sections.map(section => ({ ...section, query: result.query })));
+    }
+
+    return items;
+  }
+}
@@ -1,4 +1,9 @@
 import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { getSearchTopics } from './taxonomy';
+import { missingFixtureError, rethrowMissingFixture } from './fixtures';
 
 export interface PerplexityResponse {
   choices: Array<{
@@ -23,14 +28,42 @@ export interface NewsItem {
   category: string;
 }
 
+export interface PerplexitySearchResult {
+  topic: string;
+  query: string;
+  content: string;
+}
+
+export type PerplexityMode = 'live' | 'record' | 'replay';
+
+const DEFAULT_FIXTURES_PATH = 'fixtures/perplexity';
+
+// Answers are keyed by what was searched; the query carries the date
+const searchFixture = (fixturesPath: string, query: string, category: string): string =>
+  path.join(fixturesPath, `${createHash('sha256').update(JSON.stringify({ query, category })).digest('hex').substring(0, 16)}.json`);
+
+/**
+ * PERPLEXITY_MODE=record saves every answer under PERPLEXITY_FIXTURES_PATH and
+ * PERPLEXITY_MODE=replay reads them back without an API key, so searches can
+ * run offline.
+ */
 export class PerplexityService {
   private apiKey: string;
   private baseUrl = 'https://api.perplexity.ai/chat/completions';
+  private mode: PerplexityMode;
+  private fixturesPath: string;
 
   constructor() {
+    this.mode = (process.env.PERPLEXITY_MODE as PerplexityMode) || 'live';
+    this.fixturesPath = path.resolve(process.cwd(), process.env.PERPLEXITY_FIXTURES_PATH || DEFAULT_FIXTURES_PATH);
+
     const rawKey = process.env.PERPLEXITY_API_KEY || '';
     // Clean the API key more aggressively - remove all non-printable characters
     this.apiKey = rawKey.replace(/[^\x20-\x7E]/g, '').trim();
+    if (this.mode === 'replay') {
+      console.log(`Perplexity replaying answers from ${this.fixturesPath}`);
+      return;
+    }
     if (!this.apiKey) {
       throw new Error('PERPLEXITY_API_KEY environment variable is required');
     }
@@ -38,22 +71,25 @@ export class PerplexityService {
   }
 
   async searchPrivateCreditDeals(date: string, fundQuery?: string): Promise<string> {
-    const categories = [
-      'Fund Launches and Closings',
-      'Company Investments and Financing',
-      'Private Equity Deals',
-      'Private Debt/Credit Transactions'
-    ];
-    let allContent = '';
-    for (const category of categories) {
-      let query = `Find private credit and private equity news published EXACTLY on ${date} in category: ${category}. Only include news with publication date ${date} - no other dates.`;
+    const results = await this.searchPrivateCreditDealsByTopic(date, fundQuery);
+    return results.map(result => result.content).join('\n\n').trim();
+  }
+
+  /**
+   * One search per taxonomy branch that declares a search topic, keeping each
+   * answer with the query that produced it
+   */
+  async searchPrivateCreditDealsByTopic(date: string, fundQuery?: string): Promise<PerplexitySearchResult[]> {
+    const results: PerplexitySearchResult[] = [];
+    for (const topic of getSearchTopics().map(searchTopic => searchTopic.topic)) {
+      let query = `Find private credit and private equity news published EXACTLY on ${date} in category: ${topic}. Only include news with publication date ${date} - no other dates.`;
       if (fundQuery) {
         query = `${query} focusing on ${fundQuery} fund/company details`;
-        }
-      const categoryContent = await this.executeSearch(query, category);
-      allContent += categoryContent + '\n\n';
-        }
-    return allContent.trim();
+      }
+      const content = await this.executeSearch(query, topic);
+      results.push({ topic, query, content });
+    }
+    return results;
   }
 
   private async executeMultipleSearches(baseQuery: string, category: string, targetCount: number): Promise<string> {
@@ -83,6 +119,7 @@ export class PerplexityService {
           await new Promise(resolve => setTimeout(resolve, 1500));
         }
       } catch (error) {
+        rethrowMissingFixture(error);
         console.error(`❌ Search variation ${i + 1} failed:`, error);
       }
     }
@@ -253,18 +290,46 @@ export class PerplexityService {
 
   private async executeSearch(query: string, category: string): Promise<string> {
     try {
-      console.log(`🌐 Making Perplexity API call for ${category}`);
-      console.log(`🌐 Query length: ${query.length}`);
-      console.log(`🌐 API Key: ${this.apiKey.substring(0, 8)}...`);
-      
-      const response = await axios.post<PerplexityResponse>(
-        this.baseUrl,
-        {
-          model: 'sonar-pro',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a financial news analyst specializing in private credit and equity markets. For ${category}:
+      const result = await this.complete(query, category);
+      return result ? this.formatSearchResult(result, category) : `No ${category.toLowerCase()} found.`;
+    } catch (error) {
+      rethrowMissingFixture(error);
+      console.error(`❌ Error in ${category} search:`, error);
+      if (error && typeof error === 'object' && 'response' in error) {
+        const axiosError = error as any;
+        console.error(`❌ API Error Response:`, axiosError.response?.data);
+        console.error(`❌ API Error Status:`, axiosError.response?.status);
+      }
+      return `${category} search temporarily unavailable.`;
+    }
+  }
+
+  /**
+   * The raw answer to one search, from the API or, in replay mode, from its
+   * fixture. A missing fixture stops the run (see lib/fixtures.ts).
+   */
+  private async complete(query: string, category: string): Promise<string | undefined> {
+    const file = searchFixture(this.fixturesPath, query, category);
+
+    if (this.mode === 'replay') {
+      if (!fs.existsSync(file)) {
+        throw missingFixtureError(`No Perplexity fixture for this ${category} search (${path.basename(file)}); record one with PERPLEXITY_MODE=record`);
+      }
+      return JSON.parse(await fs.promises.readFile(file, 'utf8')).content || undefined;
+    }
+
+    console.log(`🌐 Making Perplexity API call for ${category}`);
+    console.log(`🌐 Query length: ${query.length}`);
+    console.log(`🌐 API Key: ${this.apiKey.substring(0, 8)}...`);
+    
+    const response = await axios.post<PerplexityResponse>(
+      this.baseUrl,
+      {
+        model: 'sonar-pro',
+        messages: [
+          {
+            role: 'system',
+            content: `You are a financial news analyst specializing in private credit and equity markets. For ${category}:
 
               CRITICAL REQUIREMENTS:
               1. Find REAL, SPECIFIC news on funds, companies, private equity deals, and private debt/credit transactions published EXACTLY on the requested date
@@ -293,42 +358,38 @@ export class PerplexityService {
               - If no URL available, write "Source: [Publication] | URL not available"
 
               Prioritize recent, verified announcements with specific financial details, confirmed dates, and WORKING SOURCE LINKS.`
-            },
-            {
-              role: 'user',
-              content: query
-            }
-          ],
-          max_tokens: 4000,
-          temperature: 0.1,
-          return_citations: true,
-          return_images: false
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json'
+          },
+          {
+            role: 'user',
+            content: query
           }
+        ],
+        max_tokens: 4000,
+        temperature: 0.1,
+        return_citations: true,
+        return_images: false
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json'
         }
-      );
-
-      console.log(`🌐 API Response status: ${response.status}`);
-      console.log(`🌐 API Response data:`, response.data);
-      
-      const result = response.data.choices[0]?.message?.content;
-      console.log(`🌐 Extracted content length: ${result?.length || 0}`);
-      console.log(`🌐 Content preview: ${result?.substring(0, 300) || 'No content'}...`);
-      
-      return result ? this.formatSearchResult(result, category) : `No ${category.toLowerCase()} found.`;
-    } catch (error) {
-      console.error(`❌ Error in ${category} search:`, error);
-      if (error && typeof error === 'object' && 'response' in error) {
-        const axiosError = error as any;
-        console.error(`❌ API Error Response:`, axiosError.response?.data);
-        console.error(`❌ API Error Status:`, axiosError.response?.status);
       }
-      return `${category} search temporarily unavailable.`;
+    );
+
+    console.log(`🌐 API Response status: ${response.status}`);
+    console.log(`🌐 API Response data:`, response.data);
+    
+    const result = response.data.choices[0]?.message?.content;
+    console.log(`🌐 Extracted content length: ${result?.length || 0}`);
+    console.log(`🌐 Content preview: ${result?.substring(0, 300) || 'No content'}...`);
+
+    if (this.mode === 'record') {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, JSON.stringify({ category, query, content: result || null }, null, 2));
     }
+
+    return result;
   }
 
   private formatSearchResult(content: string, category: string): string {
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { setDatabase } from './database';
+import type { Deal } from './database';
+import { MemoryDatabase } from './memory-database';
+import { IngestReport, getScheduler } from './scheduler';
+
+/**
+ * Record-and-replay runs of DealScheduler.fetchAndProcessDeals for one date,
+ * end to end but against an in-memory store. Everything lives under
+ * fixtures/pipeline/<date>/:
+ *
+ *   perplexity/     Perplexity answers (PERPLEXITY_MODE)
+ *   llm/            model answers (LLM_RECORD / LLM_PROVIDER=replay)
+ *   seed.json       deals already in the store before the run (optional)
+ *   expected.json   which deals get saved, merged or skipped
+ *
+ * 'record' calls the live APIs, rewrites the answers and makes its outcome the
+ * new expected.json, showing how it differs from the old one. 'replay' needs no
+ * network or keys and fails on any difference from expected.json, on a
+ * missing expected.json and on a request with no recorded answer.
+ */
+export type HarnessMode = 'record' | 'replay';
+
+export interface PipelineOutcome {
+  saved: Array<{ title: string; date: string; source: string; status: string; deal_type: string | null }>;
+  merged: Array<{ title: string; into: string }>;
+  skipped: Array<{ title: string; reason: string }>;
+}
+
+export interface PipelineCheck {
+  date: string;
+  mode: HarnessMode;
+  outcome: PipelineOutcome;
+  differences: string[];        // empty when the run matched expected.json (or there was none yet)
+  written: boolean;             // expected.json was (re)written from this run
+}
+
+const FIXTURES_ROOT = 'fixtures/pipeline';
+
+export function pipelineFixturesPath(date: string): string {
+  return path.resolve(process.cwd(), FIXTURES_ROOT, date);
+}
+
+/**
+ * Point every external dependency of the pipeline at the date's fixtures.
+ * Embeddings are always local so record and replay compare the same vectors.
+ */
+function configureEnvironment(mode: HarnessMode, dir: string): void {
+  process.env.NEWS_SOURCES = 'perplexity';
+  process.env.PERPLEXITY_MODE = mode;
+  process.env.PERPLEXITY_FIXTURES_PATH = path.join(dir, 'perplexity');
+  process.env.LLM_FIXTURES_PATH = path.join(dir, 'llm');
+  process.env.EMBEDDING_PROVIDER = 'local';
+  process.env.EMBEDDING_INDEX = 'pgvector';
+
+  if (mode === 'record') {
+    process.env.LLM_RECORD = 'true';
+  } else {
+    process.env.LLM_PROVIDER = 'replay';
+  }
+}
+
+function readSeed(dir: string): Deal[] {
+  const file = path.join(dir, 'seed.json');
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : [];
+}
+
+function pipelineOutcome(store: MemoryDatabase, report: IngestReport): PipelineOutcome {
+  const deals = store.getDeals();
+  const title = (dealId: number) => {
+    const deal = deals.find(row => row.id === dealId);
+    return deal ? deal.title : `#${dealId}`;
+  };
+
+  return {
+    saved: report.saved
+      .map(saved => deals.find(deal => deal.id === saved.id)!)
+      .filter(deal => deal && !deal.deleted_at)
+      .map(deal => ({ title: deal.title, date: deal.date, source: deal.source, status: deal.status || 'published', deal_type: deal.deal_type || null })),
+    merged: deals
+      .filter(deal => deal.merged_into)
+      .map(deal => ({ title: deal.title, into: title(deal.merged_into!) })),
+    skipped: report.skipped
+  };
+}
+
+/**
+ * What changed between two outcomes, one line per deal: + new, - gone,
+ * ~ same title with different details
+ */
+export function diffOutcomes(expected: PipelineOutcome, actual: PipelineOutcome): string[] {
+  const differences: string[] = [];
+
+  (['saved', 'merged', 'skipped'] as Array<keyof PipelineOutcome>).forEach(list => {
+    const before: Array<{ title: string }> = expected[list] || [];
+    const after: Array<{ title: string }> = actual[list];
+
+    after.forEach(entry => {
+      const match = before.find(other => other.title === entry.title);
+      if (!match) {
+        differences.push(`+ ${list} ${JSON.stringify(entry)}`);
+      } else if (JSON.stringify(match) !== JSON.stringify(entry)) {
+        differences.push(`~ ${list} ${JSON.stringify(match)} -> ${JSON.stringify(entry)}`);
+      }
+    });
+    before
+      .filter(entry => !after.some(other => other.title === entry.title))
+      .forEach(entry => differences.push(`- ${list} ${JSON.stringify(entry)}`));
+  });
+
+  return differences;
+}
+
+/**
+ * Run the pipeline for date against the fixtures and compare the outcome with
+ * expected.json. A record run always writes expected.json; a replay run only
+ * with update, and otherwise needs one to compare against.
+ */
+export async function checkPipeline(date: string, mode: HarnessMode, update: boolean = false): Promise<PipelineCheck> {
+  const dir = pipelineFixturesPath(date);
+  const expectedFile = path.join(dir, 'expected.json');
+
+  if (mode === 'record') {
+    // Answers to prompts that no longer exist would otherwise linger
+    await fs.promises.rm(path.join(dir, 'perplexity'), { recursive: true, force: true });
+    await fs.promises.rm(path.join(dir, 'llm'), { recursive: true, force: true });
+  } else if (!fs.existsSync(dir)) {
+    throw new Error(`No pipeline fixtures for ${date} at ${dir}; record them first`);
+  } else if (!fs.existsSync(expectedFile) && !update) {
+    throw new Error(`No expected outcome for ${date} at ${expectedFile}; record the date or replay it with update`);
+  }
+
+  configureEnvironment(mode, dir);
+  const store = new MemoryDatabase(readSeed(dir));
+  setDatabase(store.asDatabase());
+
+  let report: IngestReport | null;
+  try {
+    report = await getScheduler().fetchAndProcessDeals(date);
+  } finally {
+    setDatabase(null);
+  }
+  if (!report) throw new Error('A news run is already in progress');
+
+  const outcome = pipelineOutcome(store, report);
+  const expected: PipelineOutcome | null = fs.existsSync(expectedFile) ? JSON.parse(fs.readFileSync(expectedFile, 'utf8')) : null;
+  const written = mode === 'record' || update;
+
+  if (written) {
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.writeFile(expectedFile, `${JSON.stringify(outcome, null, 2)}\n`);
+  }
+
+  return { date, mode, outcome, differences: expected ? diffOutcomes(expected, outcome) : [], written };
+}
@@ -0,0 +1,140 @@
+import { format } from 'date-fns';
+import { getDatabase } from './database';
+import type { Deal, DealProvenanceRecord, FieldConfidence, ProvenanceExtractor } from './supabase';
+import type { ExtractedDealTerms } from './deal-terms';
+import { parseAmount } from './deal-terms';
+import type { NewsSourceItem } from './news-sources';
+import type { NewsAnalysis } from './openai';
+
+// Enough of the section to see what the extractor saw without storing whole pages
+const MAX_RAW_SECTION_CHARS = 20000;
+
+export interface ExtractionInfo {
+  extractor: ProvenanceExtractor;
+  model: string | null;
+  prompt_version: string | null;
+}
+
+export const STRUCTURED_EXTRACTION: ExtractionInfo = { extractor: 'structured', model: null, prompt_version: null };
+export const MANUAL_EXTRACTION: ExtractionInfo = { extractor: 'manual', model: null, prompt_version: null };
+
+/**
+ * What produced an extracted article: the model and prompt version, or the
+ * rule-based fallback when the model call failed
+ */
+export function extractionInfo(analysis: NewsAnalysis, promptVersion: string): ExtractionInfo {
+  if (!analysis.extracted_by || analysis.extracted_by === 'rules') {
+    return { extractor: 'rules', model: null, prompt_version: null };
+  }
+  return { extractor: 'model', model: analysis.extracted_by, prompt_version: promptVersion };
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const plain = (text: string): string => text.replace(/\*\*/g, '').toLowerCase();
+
+function amountInText(amount: number, text: string): boolean {
+  // parseAmount reads the first amount, so look at each sentence on its own
+  return text.split(/[.;\n]+/).some(sentence => {
+    const parsed = parseAmount(sentence);
+    return parsed !== null && Math.abs(parsed.amount - amount) <= amount * 0.01;
+  });
+}
+
+function dateInText(date: string, text: string): boolean {
+  const day = new Date(`${date}T00:00:00`);
+  if (isNaN(day.getTime())) return false;
+
+  const lower = plain(text);
+  return [date, format(day, 'MMMM d, yyyy'), format(day, 'MMM d, yyyy'), format(day, 'd MMMM yyyy')]
+    .some(form => lower.includes(form.toLowerCase()));
+}
+
+/**
+ * Rule-based confidence per field, from how well the raw section supports
+ * what was extracted. Structured and manual deals are taken as given.
+ */
+export function scoreFieldConfidence(
+  deal: Pick<Deal, 'date' | 'source_url'>,
+  section: Pick<NewsSourceItem, 'content' | 'url' | 'publishedAt'>,
+  terms: ExtractedDealTerms | null,
+  extractor: ProvenanceExtractor
+): FieldConfidence {
+  const parties = terms ? terms.parties : [];
+
+  if (extractor === 'structured' || extractor === 'manual') {
+    return {
+      amount: terms && terms.amount ? 1 : 0,
+      parties: parties.length > 0 ? 1 : 0,
+      date: 1,
+      url: deal.source_url ? 1 : 0
+    };
+  }
+
+  const raw = section.content || '';
+  const lower = plain(raw);
+
+  let amount = 0;
+  if (terms && terms.amount) {
+    amount = amountInText(terms.amount, raw) ? 0.9 : 0.4;
+  }
+
+  let partyScore = 0;
+  if (parties.length > 0) {
+    const found = parties.filter(party => lower.includes(plain(party.name).trim())).length;
+    partyScore = 0.3 + 0.6 * (found / parties.length);
+  }
+
+  // Feed items carry a publish date; otherwise the deal is dated by the fetch day
+  let date = 0.5;
+  if (section.publishedAt && section.publishedAt.substring(0, 10) === deal.date) {
+    date = 0.95;
+  } else if (dateInText(deal.date, raw)) {
+    date = 0.75;
+  }
+
+  // A link the source never showed may have been invented by the model
+  let url = 0;
+  if (deal.source_url) {
+    if (section.url && section.url === deal.source_url) {
+      url = 1;
+    } else if (raw.includes(deal.source_url)) {
+      url = 0.85;
+    } else {
+      url = 0.3;
+    }
+  }
+
+  return { amount: round(amount), parties: round(partyScore), date: round(date), url: round(url) };
+}
+
+/**
+ * Store where a saved deal came from. Never throws - provenance must not fail
+ * the ingest.
+ */
+export async function recordDealProvenance(
+  dealId: number,
+  deal: Pick<Deal, 'date' | 'source_url'>,
+  section: NewsSourceItem,
+  extraction: ExtractionInfo,
+  terms: ExtractedDealTerms | null
+): Promise<void> {
+  const record: Omit<DealProvenanceRecord, 'id' | 'created_at'> = {
+    deal_id: dealId,
+    source_id: section.sourceId || null,
+    source_kind: section.sourceKind || null,
+    query: section.query || null,
+    section_label: section.category || null,
+    raw_section: section.content ? section.content.substring(0, MAX_RAW_SECTION_CHARS) : null,
+    item_url: section.url || null,
+    published_at: section.publishedAt || null,
+    ...extraction,
+    field_confidence: scoreFieldConfidence(deal, section, terms, extraction.extractor)
+  };
+
+  try {
+    await getDatabase().saveDealProvenance(record);
+  } catch (error) {
+    console.error(`❌ Error saving provenance for deal ${dealId}:`, error);
+  }
+}
@@ -0,0 +1,134 @@
+import type { AxiosRequestConfig } from 'axios';
+import * as dns from 'dns';
+import * as net from 'net';
+
+const NOT_PUBLIC = 'is not a public host';
+
+function isPublicIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return !(a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)));
+}
+
+// The eight 16-bit groups of a valid IPv6 address, with a trailing dotted
+// IPv4 part folded into the last two
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const octets = dotted.slice(1).map(Number);
+    text = `${text.substring(0, text.length - dotted[0].length)}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length > 1 && halves[1] ? halves[1].split(':') : [];
+  const zeros: string[] = [];
+  for (let i = head.length + tail.length; i < 8; i++) zeros.push('0');
+
+  return head.concat(zeros, tail).map(group => parseInt(group, 16));
+}
+
+const embeddedIPv4 = (high: number, low: number): string =>
+  `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+
+function isPublicIPv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const [first, second] = groups;
+
+  // ::/80 holds the unspecified and loopback addresses and the IPv4-compatible
+  // form (::a.b.c.d); only the IPv4-mapped form (::ffff:a.b.c.d) is judged by
+  // the address it wraps
+  if (groups.slice(0, 5).every(group => group === 0)) {
+    return groups[5] === 0xffff && isPublicIPv4(embeddedIPv4(groups[6], groups[7]));
+  }
+  // NAT64 (64:ff9b::/96) reaches the IPv4 address in its last 32 bits; the
+  // local-use 64:ff9b:1::/48 prefix never leaves the network
+  if (first === 0x64 && second === 0xff9b) {
+    return groups.slice(2, 6).every(group => group === 0) && isPublicIPv4(embeddedIPv4(groups[6], groups[7]));
+  }
+  // 6to4 carries an IPv4 address in bits 16-47
+  if (first === 0x2002) return isPublicIPv4(embeddedIPv4(groups[1], groups[2]));
+
+  return !(
+    (first === 0x100 && groups.slice(1, 4).every(group => group === 0)) ||  // discard-only 100::/64
+    (first === 0x2001 && (second === 0 || second === 0xdb8)) ||             // Teredo, documentation
+    (first & 0xfe00) === 0xfc00 ||                                           // unique-local fc00::/7
+    (first & 0xffc0) === 0xfe80 ||                                           // link-local fe80::/10
+    (first & 0xffc0) === 0xfec0 ||                                           // site-local fec0::/10
+    (first & 0xff00) === 0xff00                                              // multicast ff00::/8
+  );
+}
+
+/**
+ * False for addresses only the server itself can reach: unspecified, loopback,
+ * private, carrier-grade NAT, link-local (cloud metadata lives at
+ * 169.254.169.254), multicast and IPv6 unique-local, including IPv4 addresses
+ * wrapped in IPv6 (::ffff:a9fe:a9fe, ::7f00:1, 64:ff9b::7f00:1). Anything that
+ * is not an IP address is not public either.
+ */
+export function isPublicAddress(address: string): boolean {
+  if (net.isIPv4(address)) return isPublicIPv4(address);
+  if (net.isIPv6(address)) return isPublicIPv6(address);
+  return false;
+}
+
+/**
+ * Throw for a URL host that is a non-public address literal. Hostnames are
+ * left to publicLookup: a literal never goes through DNS, so it has to be
+ * checked here, for the URL and for every redirect.
+ */
+export function assertPublicHost(hostname: string): void {
+  const address = hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(address) && !isPublicAddress(address)) {
+    throw new Error(`${hostname} ${NOT_PUBLIC}`);
+  }
+}
+
+/**
+ * Throw unless url is http(s) on a host that is not a non-public address
+ */
+export function assertPublicUrl(url: string): void {
+  const target = new URL(url);
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new Error(`${url} is not an http(s) URL`);
+  }
+  assertPublicHost(target.hostname);
+}
+
+/**
+ * Whether an error came from this guard rather than from the remote host
+ */
+export function isPublicHostError(error: unknown): boolean {
+  return error instanceof Error && error.message.indexOf(NOT_PUBLIC) !== -1;
+}
+
+// dns.lookup that refuses names resolving to a non-public address. It runs when
+// each connection is made, so a redirect or a changed DNS answer cannot reach
+// an internal host either.
+function publicLookup(
+  hostname: string,
+  options: object,
+  callback: (error: Error | null, addresses: Array<{ address: string; family: 4 | 6 }>) => void
+): void {
+  dns.lookup(hostname, { all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.some(entry => !isPublicAddress(entry.address))) {
+      return callback(new Error(`${hostname} ${NOT_PUBLIC}`), []);
+    }
+    callback(null, addresses.map(entry => ({ address: entry.address, family: entry.family === 6 ? 6 : 4 })));
+  });
+}
+
+/**
+ * axios options that keep a request, and every redirect it follows, on public
+ * hosts. Call assertPublicUrl on the URL first.
+ */
+export const PUBLIC_HOST_REQUEST: Pick<AxiosRequestConfig, 'lookup' | 'beforeRedirect'> = {
+  lookup: publicLookup,
+  beforeRedirect: options => assertPublicHost(String(options.hostname))
+};
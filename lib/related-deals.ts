@@ -0,0 +1,203 @@
+import { getDatabase } from './database';
+import type { Deal, DealEntityLink, DealEntityRole, Entity } from './supabase';
+import { embedDeals, getEmbedder, getVectorIndex } from './embeddings';
+
+export type RelatedReasonType =
+  | 'same_borrower'
+  | 'same_lender'
+  | 'same_sponsor'
+  | 'same_manager'
+  | 'same_investor'
+  | 'same_party'
+  | 'fund_deployment'
+  | 'related_fund'
+  | 'similar_coverage';
+
+export interface RelatedReason {
+  type: RelatedReasonType;
+  label: string;                  // e.g. "Same borrower: Acme Software"
+  entity: { id: number; name: string; slug: string } | null;
+}
+
+export interface RelatedDeal extends Pick<Deal, 'id' | 'date' | 'title' | 'source' | 'source_url' | 'category'> {
+  timing: 'earlier' | 'later' | 'same day';
+  score: number;
+  reasons: RelatedReason[];
+}
+
+export const DEFAULT_RELATED_LIMIT = 8;
+export const MAX_RELATED_LIMIT = 25;
+
+// Index neighbours looked up, and how close one must be to count as related coverage
+const SIMILAR_NEIGHBOURS = 10;
+const SIMILAR_MIN_SIMILARITY = 0.7;
+
+// The same entity in the same role on both deals
+const ROLE_REASONS: { [role: string]: RelatedReasonType } = {
+  borrower: 'same_borrower',
+  target: 'same_borrower',
+  lender: 'same_lender',
+  arranger: 'same_lender',
+  sponsor: 'same_sponsor',
+  manager: 'same_manager',
+  investor: 'same_investor'
+};
+
+const REASON_LABELS: { [type: string]: string } = {
+  same_borrower: 'Same borrower',
+  same_lender: 'Same lender',
+  same_sponsor: 'Same sponsor',
+  same_manager: 'Same manager',
+  same_investor: 'Same investor',
+  same_party: 'Also involves'
+};
+
+// How strongly each reason ties two deals together
+const REASON_WEIGHTS: { [type: string]: number } = {
+  same_borrower: 5,
+  same_sponsor: 4,
+  fund_deployment: 4,
+  same_lender: 3,
+  same_manager: 3,
+  same_investor: 2,
+  related_fund: 2,
+  same_party: 1
+};
+
+// Roles in which a fund puts capital to work
+const DEPLOYING_ROLES: DealEntityRole[] = ['lender', 'arranger', 'investor'];
+
+const entityRef = (entity: Entity) => ({ id: entity.id!, name: entity.canonical_name, slug: entity.slug });
+
+const unique = (ids: number[]): number[] => ids.filter((id, index) => ids.indexOf(id) === index);
+
+function timing(deal: Deal, other: Deal): RelatedDeal['timing'] {
+  if (other.date === deal.date) return 'same day';
+  return other.date < deal.date ? 'earlier' : 'later';
+}
+
+/**
+ * Why another deal is related through shared or connected entities. Links of
+ * the other deal are matched against this deal's own links and against the
+ * parents (managers) and children (funds) of its entities.
+ */
+function entityReasons(
+  deal: Deal,
+  other: Deal,
+  ownLinks: DealEntityLink[],
+  otherLinks: DealEntityLink[],
+  entities: { [entityId: number]: Entity }
+): RelatedReason[] {
+  const reasons: RelatedReason[] = [];
+  const add = (reason: RelatedReason) => {
+    if (!reasons.some(r => r.type === reason.type && (r.entity ? r.entity.id : null) === (reason.entity ? reason.entity.id : null))) {
+      reasons.push(reason);
+    }
+  };
+
+  otherLinks.forEach(link => {
+    const entity = entities[link.entity_id];
+    if (!entity) return;
+
+    const ownRoles = ownLinks.filter(own => own.entity_id === link.entity_id).map(own => own.role);
+    if (ownRoles.length > 0) {
+      const type = ownRoles.indexOf(link.role) !== -1 && ROLE_REASONS[link.role] ? ROLE_REASONS[link.role] : 'same_party';
+      add({ type, label: `${REASON_LABELS[type]}: ${entity.canonical_name}`, entity: entityRef(entity) });
+      return;
+    }
+
+    const manager = entity.parent_id ? entities[entity.parent_id] : undefined;
+    if (manager && ownLinks.some(own => own.entity_id === manager.id)) {
+      // A fund of a manager on this deal - after a fundraise, where the money went
+      const deploying = other.date > deal.date && DEPLOYING_ROLES.indexOf(link.role) !== -1;
+      add(deploying
+        ? { type: 'fund_deployment', label: `Later deployment by ${entity.canonical_name}, managed by ${manager.canonical_name}`, entity: entityRef(entity) }
+        : { type: 'related_fund', label: `${entity.canonical_name} is managed by ${manager.canonical_name}`, entity: entityRef(entity) });
+      return;
+    }
+
+    const fund = ownLinks
+      .map(own => entities[own.entity_id])
+      .filter(own => own && own.parent_id === entity.id)[0];
+    if (fund) {
+      add({ type: 'related_fund', label: `${entity.canonical_name} manages ${fund.canonical_name}`, entity: entityRef(entity) });
+    }
+  });
+
+  return reasons;
+}
+
+// Nearest deals in the embedding index; the index being unavailable just means no matches
+async function similarDeals(deal: Deal): Promise<{ [dealId: number]: number }> {
+  const similar: { [dealId: number]: number } = {};
+  try {
+    const [embedding] = await embedDeals([deal]);
+    const matches = await getVectorIndex().nearest(embedding, getEmbedder().model, SIMILAR_NEIGHBOURS, SIMILAR_MIN_SIMILARITY, deal.id);
+    matches.forEach(match => { similar[match.deal_id] = match.similarity; });
+  } catch (error) {
+    console.error(`❌ Error finding similar deals for deal ${deal.id}:`, error);
+  }
+  return similar;
+}
+
+/**
+ * Deals connected to this one - the same borrower, lender or sponsor, funds of
+ * the same manager, or similar coverage - strongest first, each with the
+ * reasons it is related
+ */
+export async function findRelatedDeals(deal: Deal, limit: number = DEFAULT_RELATED_LIMIT): Promise<RelatedDeal[]> {
+  const db = getDatabase();
+
+  const ownLinks = await db.getDealEntityLinks(deal.id!);
+  const ownIds = unique(ownLinks.map(link => link.entity_id));
+  const own = await db.getEntitiesByIds(ownIds);
+
+  const parentIds = unique(own.filter(entity => entity.parent_id && ownIds.indexOf(entity.parent_id) === -1).map(entity => entity.parent_id!));
+  const [parents, childRows] = await Promise.all([db.getEntitiesByIds(parentIds), db.getEntitiesByParentIds(ownIds)]);
+  const children = childRows.filter(child => ownIds.indexOf(child.id!) === -1);
+
+  const entities: { [entityId: number]: Entity } = {};
+  own.concat(parents, children).forEach(entity => { entities[entity.id!] = entity; });
+
+  const linksByDeal: { [dealId: number]: DealEntityLink[] } = {};
+  (await db.getEntityDealLinksForEntities(Object.keys(entities).map(id => parseInt(id, 10))))
+    .filter(link => link.deal_id !== deal.id)
+    .forEach(link => { (linksByDeal[link.deal_id] || (linksByDeal[link.deal_id] = [])).push(link); });
+
+  const similar = await similarDeals(deal);
+
+  // Rank on the links alone first so only the strongest candidates are loaded
+  const roughScore = (dealId: number): number =>
+    (linksByDeal[dealId] || []).reduce((score, link) => score + (REASON_WEIGHTS[ROLE_REASONS[link.role]] || 1), 0) + (similar[dealId] || 0) * 2;
+  const candidateIds = unique(Object.keys(linksByDeal).concat(Object.keys(similar)).map(id => parseInt(id, 10)))
+    .sort((a, b) => roughScore(b) - roughScore(a))
+    .slice(0, limit * 3);
+
+  const related: RelatedDeal[] = [];
+  (await db.getDealsByIds(candidateIds)).forEach(other => {
+    const reasons = entityReasons(deal, other, ownLinks, linksByDeal[other.id!] || [], entities);
+    if (similar[other.id!]) {
+      reasons.push({ type: 'similar_coverage', label: `Similar coverage (${Math.round(similar[other.id!] * 100)}%)`, entity: null });
+    }
+    if (reasons.length === 0) return;
+
+    const score = reasons.reduce((total, reason) =>
+      total + (reason.type === 'similar_coverage' ? similar[other.id!] * 2 : REASON_WEIGHTS[reason.type]), 0);
+
+    related.push({
+      id: other.id,
+      date: other.date,
+      title: other.title,
+      source: other.source,
+      source_url: other.source_url,
+      category: other.category,
+      timing: timing(deal, other),
+      score: Math.round(score * 100) / 100,
+      reasons
+    });
+  });
+
+  return related
+    .sort((a, b) => b.score - a.score || b.date.localeCompare(a.date))
+    .slice(0, limit);
+}
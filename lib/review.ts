@@ -0,0 +1,96 @@
+import { getDatabase } from './database';
+import type { Deal, DealStatus } from './supabase';
+import { processDealAlerts } from './alerts';
+import { parseAmount } from './deal-terms';
+import { DEFAULT_CATEGORY, normalizeCategory } from './taxonomy';
+
+export const DEAL_STATUSES: DealStatus[] = ['draft', 'pending_review', 'published', 'rejected'];
+
+// Extractions scoring below this wait for an editor instead of going live
+const DEFAULT_REVIEW_THRESHOLD = 0.6;
+
+export type ExtractionOrigin = 'extraction' | 'fallback' | 'structured';
+
+export interface ExtractionAssessment {
+  status: DealStatus;
+  confidence: number;
+  review_reasons: string[];
+}
+
+const GENERIC_TITLE_PATTERN = /^(private credit|private markets?|market|credit market)\s+(update|news|activity|roundup)\b|limited (specific )?(news|activity)/i;
+
+export function getReviewThreshold(): number {
+  const value = parseFloat(process.env.REVIEW_CONFIDENCE_THRESHOLD || '');
+  return isFinite(value) && value >= 0 && value <= 1 ? value : DEFAULT_REVIEW_THRESHOLD;
+}
+
+/**
+ * Rule-based confidence for a deal the scheduler is about to save. Fallback
+ * summaries always go to review; structured sources (EDGAR filings) never do.
+ */
+export function assessExtraction(
+  deal: Pick<Deal, 'title' | 'summary' | 'source_url' | 'category'>,
+  origin: ExtractionOrigin
+): ExtractionAssessment {
+  if (origin === 'structured') {
+    return { status: 'published', confidence: 1, review_reasons: [] };
+  }
+
+  const reasons: string[] = [];
+  let confidence = 1;
+
+  if (origin === 'fallback') {
+    confidence -= 0.5;
+    reasons.push('fallback summary - extraction failed or found nothing');
+  }
+  if (GENERIC_TITLE_PATTERN.test(deal.title)) {
+    confidence -= 0.4;
+    reasons.push('generic title');
+  }
+  if (!deal.source_url) {
+    confidence -= 0.3;
+    reasons.push('no source link');
+  }
+  if ((deal.summary || '').replace(/\*\*/g, '').trim().length < 80) {
+    confidence -= 0.2;
+    reasons.push('short summary');
+  }
+  if (normalizeCategory(deal.category, `${deal.title} ${deal.summary}`) === DEFAULT_CATEGORY) {
+    confidence -= 0.1;
+    reasons.push('no specific category');
+  }
+  if (!parseAmount(`${deal.title} ${deal.summary}`)) {
+    confidence -= 0.1;
+    reasons.push('no deal size');
+  }
+
+  confidence = Math.max(0, Math.round(confidence * 100) / 100);
+
+  return {
+    status: confidence >= getReviewThreshold() ? 'published' : 'pending_review',
+    confidence,
+    review_reasons: reasons
+  };
+}
+
+/**
+ * Apply an editor's bulk decision. Deals that become published get the watchlist
+ * alerts they were held back from while waiting for review.
+ */
+export async function reviewDeals(dealIds: number[], status: DealStatus, reviewer: string): Promise<Deal[]> {
+  const db = getDatabase();
+  const changed = await db.updateDealStatus(dealIds, status, reviewer);
+
+  if (status === 'published') {
+    for (const deal of changed) {
+      try {
+        const links = await db.getDealEntityLinks(deal.id!);
+        await processDealAlerts(deal, links.map(link => link.entity_id));
+      } catch (error) {
+        console.error(`❌ Error sending alerts for approved deal ${deal.id}:`, error);
+      }
+    }
+  }
+
+  return changed;
+}
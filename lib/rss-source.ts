@@ -0,0 +1,278 @@
+import axios from 'axios';
+import { JSDOM } from 'jsdom';
+import { getDatabase } from './database';
+import type { FeedState } from './database';
+import type { NewsSource, NewsSourceItem, PressWireSourceConfig, RssSourceConfig } from './news-sources';
+import { PUBLIC_HOST_REQUEST, assertPublicUrl } from './public-host';
+
+const FEED_TIMEOUT_MS = 15000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const SEEN_GUID_LIMIT = 500;
+const FEED_LOOKBACK_DAYS = 7;
+const USER_AGENT = 'Mozilla/5.0 (compatible; PrivateCreditPulse/1.0; +https://privatecreditpulse.substack.com)';
+
+export interface FeedEntry {
+  guid: string;
+  title: string;
+  link: string | null;
+  publishedAt: string | null;     // ISO
+  summary: string;                // plain text
+}
+
+export interface ParsedFeed {
+  title: string;
+  entries: FeedEntry[];
+}
+
+export interface FeedValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export interface FeedResponse {
+  feed: ParsedFeed | null;        // null when the server answered 304 Not Modified
+  etag: string | null;
+  lastModified: string | null;
+}
+
+function stripHtml(html: string): string {
+  if (!/[<&]/.test(html)) return html.trim();
+  const text = JSDOM.fragment(`<div>${html}</div>`).textContent || '';
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function toIsoDate(value?: string | null): string | null {
+  if (!value) return null;
+  const parsed = new Date(value.trim());
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+function childText(parent: Element, ...tagNames: string[]): string {
+  for (const tagName of tagNames) {
+    const child = parent.getElementsByTagName(tagName)[0];
+    if (child && child.textContent && child.textContent.trim()) return child.textContent.trim();
+  }
+  return '';
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0 (RDF) or Atom document into a flat list of entries
+ */
+export function parseFeedXml(xml: string): ParsedFeed {
+  const document = new JSDOM(xml, { contentType: 'text/xml' }).window.document;
+
+  const atomEntries = Array.from(document.getElementsByTagName('entry'));
+  if (atomEntries.length > 0 || document.documentElement.tagName === 'feed') {
+    return {
+      title: childText(document.documentElement, 'title'),
+      entries: atomEntries.map(entry => {
+        const links = Array.from(entry.getElementsByTagName('link'));
+        const alternate = links.find(link => (link.getAttribute('rel') || 'alternate') === 'alternate') || links[0];
+        const link = alternate ? alternate.getAttribute('href') : null;
+        const title = stripHtml(childText(entry, 'title'));
+
+        return {
+          guid: childText(entry, 'id') || link || title,
+          title,
+          link,
+          publishedAt: toIsoDate(childText(entry, 'published', 'updated')),
+          summary: stripHtml(childText(entry, 'summary', 'content'))
+        };
+      })
+    };
+  }
+
+  const channel = document.getElementsByTagName('channel')[0];
+  return {
+    title: channel ? childText(channel, 'title') : '',
+    entries: Array.from(document.getElementsByTagName('item')).map(item => {
+      const link = childText(item, 'link') || null;
+      const title = stripHtml(childText(item, 'title'));
+
+      return {
+        guid: childText(item, 'guid') || link || title,
+        title,
+        link,
+        publishedAt: toIsoDate(childText(item, 'pubDate', 'dc:date')),
+        summary: stripHtml(childText(item, 'content:encoded', 'description'))
+      };
+    })
+  };
+}
+
+/**
+ * GET a feed, sending If-None-Match / If-Modified-Since when validators from the
+ * previous poll are given. Feeds are registered over the API, so only public
+ * hosts are fetched (see lib/public-host.ts).
+ */
+export async function fetchFeed(url: string, validators: FeedValidators = {}): Promise<FeedResponse> {
+  assertPublicUrl(url);
+
+  const headers: { [name: string]: string } = {
+    'User-Agent': USER_AGENT,
+    'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8'
+  };
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  const response = await axios.get(url, {
+    timeout: FEED_TIMEOUT_MS,
+    responseType: 'text',
+    headers,
+    validateStatus: status => (status >= 200 && status < 300) || status === 304,
+    maxContentLength: MAX_FEED_BYTES,
+    ...PUBLIC_HOST_REQUEST
+  });
+
+  // A 200 brings a new representation, so only its own validators apply; a 304
+  // may omit them, in which case the ones sent are still current
+  const previous: FeedValidators = response.status === 304 ? validators : {};
+  return {
+    feed: response.status === 304 ? null : parseFeedXml(response.data),
+    etag: response.headers['etag'] || previous.etag || null,
+    lastModified: response.headers['last-modified'] || previous.lastModified || null
+  };
+}
+
+function daysBefore(date: string, days: number): string {
+  const start = new Date(`${date}T00:00:00.000Z`);
+  start.setUTCDate(start.getUTCDate() - days);
+  return start.toISOString().substring(0, 10);
+}
+
+/**
+ * A generic RSS/Atom feed. Each entry becomes its own extraction item carrying
+ * the entry's link and publish time.
+ *
+ * Between runs the feed's ETag/Last-Modified and the GUIDs already handed to the
+ * pipeline are kept in feed_state, so an unchanged feed costs one 304 and an
+ * entry is only ever extracted once. The first poll of a feed takes entries
+ * published on the requested day; later polls take every unseen entry from the
+ * preceding week, so a missed run does not drop items.
+ */
+export class RssNewsSource implements NewsSource {
+  id: string;
+  kind: 'rss' | 'press-wire' = 'rss';
+  private pendingState: Omit<FeedState, 'updated_at'> | null = null;
+
+  constructor(protected config: RssSourceConfig | PressWireSourceConfig) {
+    this.id = config.id;
+  }
+
+  protected include(entry: FeedEntry): boolean {
+    return !!entry.title;
+  }
+
+  protected category(): string {
+    return this.config.kind === 'rss' && this.config.category ? this.config.category : this.config.name;
+  }
+
+  private async loadState(): Promise<FeedState | null> {
+    try {
+      const [state] = await getDatabase().getFeedStates([this.id]);
+      // A feed that moved to a new URL starts over
+      return state && state.url === this.config.url ? state : null;
+    } catch (error) {
+      console.warn(`⚠️ Could not load feed state for ${this.id}, polling without it:`, error);
+      return null;
+    }
+  }
+
+  private inWindow(entry: FeedEntry, date: string, polledBefore: boolean): boolean {
+    if (!entry.publishedAt) return true;
+    const day = entry.publishedAt.substring(0, 10);
+    return polledBefore
+      ? day <= date && day >= daysBefore(date, FEED_LOOKBACK_DAYS)
+      : day === date;
+  }
+
+  async fetchItems(date: string): Promise<NewsSourceItem[]> {
+    const state = await this.loadState();
+    const polledAt = new Date().toISOString();
+    const nextState = {
+      source_id: this.id,
+      url: this.config.url,
+      etag: state ? state.etag : null,
+      last_modified: state ? state.last_modified : null,
+      seen_guids: state ? state.seen_guids : [],
+      last_polled_at: polledAt,
+      last_error: null as string | null
+    };
+
+    let response: FeedResponse;
+    try {
+      response = await fetchFeed(this.config.url, {
+        etag: nextState.etag,
+        lastModified: nextState.last_modified
+      });
+    } catch (error) {
+      this.pendingState = { ...nextState, last_error: error instanceof Error ? error.message : String(error) };
+      throw error;
+    }
+
+    nextState.etag = response.etag;
+    nextState.last_modified = response.lastModified;
+
+    if (!response.feed) {
+      console.log(`📰 ${this.config.name}: not modified since last poll`);
+      this.pendingState = nextState;
+      return [];
+    }
+
+    const seen = new Set(nextState.seen_guids);
+    const unseen = response.feed.entries.filter(entry => !seen.has(entry.guid));
+    const rejected = unseen.filter(entry => !this.include(entry));
+    const entries = unseen.filter(entry => this.include(entry) && this.inWindow(entry, date, !!state));
+
+    console.log(`📰 ${this.config.name}: ${entries.length} new of ${response.feed.entries.length} feed entries for ${date}`);
+
+    // Entries outside the window stay unseen so a run for their own day can still pick them up
+    nextState.seen_guids = entries.concat(rejected)
+      .map(entry => entry.guid)
+      .concat(nextState.seen_guids)
+      .slice(0, SEEN_GUID_LIMIT);
+    this.pendingState = nextState;
+
+    return entries.map(entry => ({
+      category: this.category(),
+      title: entry.title,
+      content: `${entry.title}\n\n${entry.summary}${entry.link ? `\n\nSource: ${entry.link}` : ''}`,
+      url: entry.link,
+      publishedAt: entry.publishedAt,
+      publisher: this.config.name,
+      guid: entry.guid
+    }));
+  }
+
+  async commit(): Promise<void> {
+    if (!this.pendingState) return;
+
+    try {
+      await getDatabase().saveFeedState(this.pendingState);
+      this.pendingState = null;
+    } catch (error) {
+      console.error(`❌ Failed to save feed state for ${this.id}:`, error);
+    }
+  }
+}
+
+/**
+ * A press-release wire feed (Business Wire, PR Newswire). Wires carry every
+ * industry, so only releases mentioning one of the configured keywords are kept.
+ */
+export class PressWireNewsSource extends RssNewsSource {
+  kind = 'press-wire' as const;
+  private patterns: RegExp[];
+
+  constructor(config: PressWireSourceConfig) {
+    super(config);
+    this.patterns = config.keywords.map(keyword =>
+      new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i')
+    );
+  }
+
+  protected include(entry: FeedEntry): boolean {
+    const text = `${entry.title} ${entry.summary}`;
+    return super.include(entry) && this.patterns.some(pattern => pattern.test(text));
+  }
+}
@@ -1,17 +1,34 @@
 import * as cron from 'node-cron';
 import { format } from 'date-fns';
 import { PerplexityService } from './perplexity';
-import { OpenAIService } from './openai';
-import { getDatabase } from './database';
+import { OpenAIService, PROMPT_VERSIONS } from './openai';
+import { getDatabase, Deal, DealClassification, DealParty } from './database';
 import { getDateValidator } from './date-validator';
-import { EnhancedDuplicateDetector } from './enhanced-duplicate-detector';
-import { duplicateCleaner } from './duplicate-cleaner';
-import { advancedDuplicateCleaner } from './advanced-duplicate-cleaner';
+import { ExtractedDealTerms, hasDealTerms } from './deal-terms';
+import { getEntityResolver } from './entities';
+import { classifyDealFromText } from './classification';
+import { DigestDeliveryResult, sendDailyDigest } from './digest';
+import { processDealAlerts } from './alerts';
+import { assessExtraction } from './review';
+import { purgeExpiredDeals } from './trash';
+import { findNearDuplicates, runDedup } from './dedup';
+import { indexDeal } from './embeddings';
+import { rethrowMissingFixture } from './fixtures';
+import { STRUCTURED_EXTRACTION, extractionInfo, recordDealProvenance } from './provenance';
+import { NewsSource, NewsSourceItem, SourceDeal, getNewsSources } from './news-sources';
+
+// What one fetchAndProcessDeals run did with each article it was handed
+export interface IngestReport {
+  date: string;
+  sections: number;
+  saved: Array<{ id: number; title: string }>;
+  skipped: Array<{ title: string; reason: string }>;
+  merged: number;               // deals merged by the cleanup that ends the run
+}
 
 export class DealScheduler {
   private perplexityService?: PerplexityService;
   private openaiService?: OpenAIService;
-  private duplicateDetector: EnhancedDuplicateDetector | null = null;
   private isRunning = false;
 
   constructor() {
@@ -32,72 +49,86 @@ export class DealScheduler {
     return this.openaiService;
   }
 
-  private getDuplicateDetector(): EnhancedDuplicateDetector {
-    if (!this.duplicateDetector) {
-      this.duplicateDetector = new EnhancedDuplicateDetector();
-    }
-    return this.duplicateDetector;
-  }
-
-  async fetchAndProcessDeals(targetDate?: string): Promise<void> {
+  /**
+   * Fetch, extract, dedup and save one day's news. Returns what happened to
+   * each article, or null when a run is already in progress.
+   */
+  async fetchAndProcessDeals(targetDate?: string): Promise<IngestReport | null> {
     if (this.isRunning) {
       console.log('News processing already in progress...');
-      return;
+      return null;
     }
 
     this.isRunning = true;
     console.log('Starting daily news processing...');
 
+    // CRITICAL FIX: Always use the target date for article dating
+    // This ensures articles get the date they were actually fetched for
+    const date = targetDate || format(new Date(), 'yyyy-MM-dd');
+    const report: IngestReport = { date, sections: 0, saved: [], skipped: [], merged: 0 };
+
     try {
-      // CRITICAL FIX: Always use the target date for article dating
-      // This ensures articles get the date they were actually fetched for
-      const date = targetDate || format(new Date(), 'yyyy-MM-dd');
-      
       console.log(`Fetching news for ${date}...`);
       
       // Get existing articles for duplicate checking
       const db = getDatabase();
       const existingDeals = await db.getDealsByDate(date);
       console.log(`Found ${existingDeals.length} existing articles for ${date}`);
-      
-      // Search for news using Perplexity
-      const newsContent = await this.getPerplexityService().searchPrivateCreditDeals(date);
-      
-      console.log(`Raw news content length: ${newsContent?.length || 0}`);
-      console.log(`First 500 chars of content: ${newsContent?.substring(0, 500) || 'No content'}`);
+
+      // Fan every configured news source into the same extraction and dedup pipeline
+      const sources = await getNewsSources();
+      const sections: NewsSourceItem[] = [];
+      for (const source of sources) {
+        try {
+          const items = await source.fetchItems(date);
+          console.log(`📡 ${source.id} (${source.kind}): ${items.length} items for ${date}`);
+          sections.push(...items.map(item => ({ ...item, sourceId: source.id, sourceKind: source.kind })));
+        } catch (error) {
+          rethrowMissingFixture(error);
+          console.error(`❌ News source ${source.id} failed:`, error);
+        }
+      }
       
       // Always process whatever content we have - there's always something in private credit
-      if (!newsContent || newsContent.trim().length < 10) {
+      if (sections.length === 0) {
         console.log(`Very minimal content found for ${date}, but continuing with processing`);
         // Create minimal fallback content to ensure we always try to find something
         const fallbackContent = `Private credit market activity for ${date}. Limited specific news available.`;
-        const db = getDatabase();
         try {
-          const fallbackSummary = await this.getOpenAIService().summarizeDeals(fallbackContent + (newsContent || ''));
+          const fallbackSummary = await this.getOpenAIService().summarizeDeals(fallbackContent);
           
           // CRITICAL FIX: Always use target fetch date
-          await db.saveDeal({
+          const minimalDeal = {
             date: date, // Use target date directly - when we fetched the news
             title: fallbackSummary.title || `Private Credit Update - ${date}`,
             summary: fallbackSummary.summary || 'Limited market activity reported for this date.',
-            content: fallbackContent + (newsContent || ''),
+            content: fallbackContent,
             source: fallbackSummary.original_source || 'Market Research',
             source_url: fallbackSummary.source_url,
             category: fallbackSummary.category || 'Market News'
-          });
-          console.log(`✅ Saved minimal fallback content for ${date} (Fetch Date: ${date})`);
+          };
+          // Never goes live on its own - an editor decides whether it is worth publishing
+          const minimalId = await db.saveDeal({ ...minimalDeal, ...assessExtraction(minimalDeal, 'fallback') });
+          await recordDealProvenance(
+            minimalId,
+            minimalDeal,
+            { category: 'No source content', content: fallbackContent },
+            extractionInfo(fallbackSummary, PROMPT_VERSIONS.summary),
+            null
+          );
+          await indexDeal(minimalId, minimalDeal);
+          report.saved.push({ id: minimalId, title: minimalDeal.title });
+          console.log(`✅ Saved minimal fallback content for ${date} to the review queue (Fetch Date: ${date})`);
         } catch (error) {
+          rethrowMissingFixture(error);
           console.error(`❌ Error saving minimal content:`, error);
         }
-        return;
+        await this.commitNewsSources(sources);
+        return report;
       }
 
-      // Split content into meaningful sections based on the actual format
-      // The content uses bullet points and different formatting, not === markers
-      const sections = this.parseNewsContent(newsContent);
-      console.log(`Parsed ${sections.length} sections from content`);
-      
-      let totalArticlesSaved = 0;
+      console.log(`Collected ${sections.length} sections from all news sources`);
+      report.sections = sections.length;
 
       for (const section of sections) {
         console.log(`Processing section: "${section.category}" (${section.content.length} chars)`);
@@ -109,10 +140,19 @@ export class DealScheduler {
         }
 
         if (section.content && section.content.length > 20) {
+          // Feed and filing items carry their real publish date and link; everything
+          // else is dated by the day it was fetched for
+          const articleDate = section.publishedAt ? section.publishedAt.substring(0, 10) : date;
+
+          if (section.deal) {
+            await this.saveSourceDeal(section, section.deal, articleDate, report);
+            continue;
+          }
+
           try {
             // Extract individual articles using OpenAI
             console.log(`Sending to OpenAI for extraction: ${section.content.substring(0, 200)}...`);
-            const articles = await this.getOpenAIService().extractNewsArticles(section.content, section.category, date);
+            const articles = await this.getOpenAIService().extractNewsArticles(section.content, section.category, articleDate);
             
             console.log(`Found ${articles.length} articles in ${section.category} section:`, articles.map((a: any) => a.title));
             
@@ -128,11 +168,25 @@ export class DealScheduler {
 
                 if (!isValidArticle) {
                   console.log(`⚠️ Skipping invalid article: "${article.title}"`);
+                  report.skipped.push({ title: article.title || '', reason: 'invalid' });
                   continue;
                 }
 
                 // Enhanced duplicate detection - check for existing articles
-                const duplicates = await db.findDuplicateDeals(article.title, date);
+                let duplicates = await db.findDuplicateDeals(article.title, articleDate);
+                let embedding: number[] | null = null;
+                if (duplicates.length === 0) {
+                  const near = await this.findNearDuplicates({
+                    date: articleDate,
+                    title: article.title,
+                    summary: article.summary,
+                    content: section.content,
+                    source: article.original_source || section.publisher || 'Financial News',
+                    source_url: section.url || article.source_url || undefined
+                  });
+                  duplicates = near.duplicates;
+                  embedding = near.embedding;
+                }
                 
                 if (duplicates.length > 0) {
                   // Found duplicates - check if we can update them with missing information
@@ -144,7 +198,8 @@ export class DealScheduler {
                       await db.updateDealSourceUrl(
                         duplicate.id!, 
                         article.source_url, 
-                        article.original_source || undefined
+                        article.original_source || undefined,
+                        { actor: 'scheduler', reason: 'Source link from a duplicate article' }
                       );
                       console.log(`🔗 Updated duplicate article ${duplicate.id} with source URL: ${article.source_url}`);
                       updatedAny = true;
@@ -154,29 +209,48 @@ export class DealScheduler {
                   if (!updatedAny) {
                     console.log(`⚠️ Skipping duplicate: "${article.title}"`);
                   }
+                  report.skipped.push({ title: article.title, reason: updatedAny ? 'duplicate, source link added' : 'duplicate' });
                 } else {
                   // CRITICAL FIX: No duplicates found - save with FETCH DATE only
                   console.log(`💾 Saving new article to Supabase: "${article.title}"`);
                   
-                  // ALWAYS use the target fetch date - never extract dates from content
-                  // This prevents articles from getting wrong dates due to content mentions
-                  const dealId = await db.saveDeal({
-                    date: date, // ALWAYS use target fetch date - when we found the news
+                  // Never extract dates from content - that gives articles wrong dates
+                  // whenever the text mentions another day
+                  const classification = await this.classifyArticle(article.title, article.summary, section.content);
+                  const sourceUrl = section.url || article.source_url || undefined;
+                  const assessment = assessExtraction({ ...article, source_url: sourceUrl }, 'extraction');
+                  const newDeal = {
+                    date: articleDate, // Source publish date, else the target fetch date
                     title: article.title,
                     summary: article.summary,
                     content: section.content, // Keep section content for reference
-                    source: article.original_source || 'Financial News',
-                    source_url: article.source_url,
-                    category: article.category || 'Market News'
-                  });
-                  totalArticlesSaved++;
-                  console.log(`✅ New article saved to Supabase with ID ${dealId}: "${article.title}" (Fetch Date: ${date})`);
+                    source: article.original_source || section.publisher || 'Financial News',
+                    source_url: sourceUrl,
+                    category: article.category || 'Market News',
+                    ...classification,
+                    ...assessment
+                  };
+                  if (assessment.status !== 'published') {
+                    console.log(`🗂️ Routing "${article.title}" to review (confidence ${assessment.confidence}: ${assessment.review_reasons.join(', ')})`);
+                  }
+                  const dealId = await db.saveDeal(newDeal);
+                  report.saved.push({ id: dealId, title: article.title });
+                  console.log(`✅ New article saved to Supabase with ID ${dealId}: "${article.title}" (Date: ${articleDate})`);
+
+                  const terms = await this.extractAndSaveDealTerms(dealId, article.title, article.summary, section.content);
+                  await recordDealProvenance(dealId, newDeal, section, extractionInfo(article, PROMPT_VERSIONS.articles), terms);
+                  await indexDeal(dealId, newDeal, embedding);
+                  const entityIds = await this.linkDealEntities({ id: dealId, ...newDeal }, terms ? terms.parties : []);
+                  await processDealAlerts({ id: dealId, ...newDeal }, entityIds);
                 }
               } catch (saveError) {
+                rethrowMissingFixture(saveError);
                 console.error(`❌ Error processing article "${article.title}":`, saveError);
+                report.skipped.push({ title: article.title || '', reason: 'error' });
               }
             }
           } catch (extractError) {
+            rethrowMissingFixture(extractError);
             console.error(`❌ Error extracting articles from ${section.category}:`, extractError);
             
             // Use fallback for any section that has content
@@ -185,25 +259,45 @@ export class DealScheduler {
               const fallbackSummary = await this.getOpenAIService().summarizeDeals(section.content);
               
               // Check for duplicates
-              const duplicates = await db.findDuplicateDeals(fallbackSummary.title, date);
-              
+              let duplicates = await db.findDuplicateDeals(fallbackSummary.title, articleDate);
+              let embedding: number[] | null = null;
               if (duplicates.length === 0) {
-                // CRITICAL FIX: Always use target fetch date for fallback
-                await db.saveDeal({
-                  date: date, // Use target fetch date directly
+                const near = await this.findNearDuplicates({
+                  date: articleDate,
                   title: fallbackSummary.title,
                   summary: fallbackSummary.summary,
                   content: section.content,
-                  source: fallbackSummary.original_source || 'Financial News',
-                  source_url: fallbackSummary.source_url,
-                  category: fallbackSummary.category || 'Market News'
+                  source: fallbackSummary.original_source || section.publisher || 'Financial News'
                 });
-                totalArticlesSaved++;
-                console.log(`✅ Saved fallback summary: "${fallbackSummary.title}" (Fetch Date: ${date})`);
+                duplicates = near.duplicates;
+                embedding = near.embedding;
+              }
+              
+              if (duplicates.length === 0) {
+                // Same dating rule as extracted articles
+                const fallbackDeal = {
+                  date: articleDate,
+                  title: fallbackSummary.title,
+                  summary: fallbackSummary.summary,
+                  content: section.content,
+                  source: fallbackSummary.original_source || section.publisher || 'Financial News',
+                  source_url: section.url || fallbackSummary.source_url || undefined,
+                  category: fallbackSummary.category || 'Market News',
+                  ...classifyDealFromText({ title: fallbackSummary.title, summary: fallbackSummary.summary }),
+                  ...assessExtraction({ ...fallbackSummary, source_url: section.url || fallbackSummary.source_url }, 'fallback')
+                };
+                const fallbackId = await db.saveDeal(fallbackDeal);
+                await recordDealProvenance(fallbackId, fallbackDeal, section, extractionInfo(fallbackSummary, PROMPT_VERSIONS.summary), null);
+                await indexDeal(fallbackId, fallbackDeal, embedding);
+                await processDealAlerts({ id: fallbackId, ...fallbackDeal }, []);
+                report.saved.push({ id: fallbackId, title: fallbackDeal.title });
+                console.log(`✅ Saved fallback summary: "${fallbackSummary.title}" (Date: ${articleDate})`);
               } else {
                 console.log(`⚠️ Skipping duplicate fallback summary: "${fallbackSummary.title}"`);
+                report.skipped.push({ title: fallbackSummary.title, reason: 'duplicate' });
               }
             } catch (fallbackError) {
+              rethrowMissingFixture(fallbackError);
               console.error(`❌ Error saving fallback summary:`, fallbackError);
             }
           }
@@ -212,84 +306,183 @@ export class DealScheduler {
         }
       }
 
-      console.log(`Successfully processed and saved ${totalArticlesSaved} new articles for ${date} (total: ${existingDeals.length + totalArticlesSaved})`);
-      
-      // INTEGRATED DUPLICATE ANALYSIS AND CLEANUP
-      console.log('🔍 Running integrated duplicate analysis and cleanup...');
-      const duplicatesRemoved = await this.runIntegratedDuplicateCleanup();
-      console.log(`🧹 Cleaned up ${duplicatesRemoved} duplicates during processing`);
-      
+      await this.commitNewsSources(sources);
+
+      console.log(`Successfully processed and saved ${report.saved.length} new articles for ${date} (total: ${existingDeals.length + report.saved.length})`);
+
+      // Merge duplicates across everything saved in the few days up to the fetched date
+      console.log('🔍 Running duplicate cleanup...');
+      report.merged = await this.runDuplicateCleanup(undefined, date);
+      console.log(`🧹 Merged ${report.merged} duplicates during processing`);
+
     } catch (error) {
+      rethrowMissingFixture(error);
       console.error('❌ Error in fetchAndProcessDeals:', error);
     } finally {
       this.isRunning = false;
     }
+    return report;
   }
 
-  private parseNewsContent(content: string): Array<{category: string, content: string}> {
-    const sections: Array<{category: string, content: string}> = [];
-    
-    // Try to split by different patterns found in the actual content
-    // Pattern 1: Look for bullet points with categories
-    const bulletSections = content.split(/•\s*(?=\w+[^•]*:)/);
-    
-    if (bulletSections.length > 1) {
-      console.log(`Found ${bulletSections.length} bullet sections`);
-      for (let i = 1; i < bulletSections.length; i++) {
-        const section = bulletSections[i].trim();
-        if (section.length > 100) {
-          // Extract category from the beginning of the section
-          const categoryMatch = section.match(/^([^:]+):/);
-          const category = categoryMatch ? categoryMatch[1].trim() : `Section ${i}`;
-          
-          sections.push({
-            category: category,
-            content: section
-          });
-        }
-      }
+  private async classifyArticle(title: string, summary: string, content: string): Promise<DealClassification> {
+    try {
+      return await this.getOpenAIService().classifyDeal(title, summary, content);
+    } catch (error) {
+      rethrowMissingFixture(error);
+      console.error(`❌ Error classifying "${title}", using rules:`, error);
+      return classifyDealFromText({ title, summary, content });
     }
-    
-    // Pattern 2: Look for numbered sections or headers
-    if (sections.length === 0) {
-      const numberedSections = content.split(/\n\s*\d+\.\s+/);
-      if (numberedSections.length > 1) {
-        console.log(`Found ${numberedSections.length} numbered sections`);
-        for (let i = 1; i < numberedSections.length; i++) {
-          const section = numberedSections[i].trim();
-          if (section.length > 100) {
-            sections.push({
-              category: `Deal Activity ${i}`,
-              content: section
-            });
-          }
+  }
+
+  /**
+   * Compute and store region, countries and deal type for deals saved before
+   * classification ran at ingest. Works in id order so it can be resumed from
+   * the returned lastId; with force, already-classified deals are redone too.
+   */
+  async backfillDealClassifications(options: { afterId?: number; limit?: number; force?: boolean; useModel?: boolean } = {}): Promise<{ processed: number; updated: number; lastId: number; done: boolean }> {
+    const db = getDatabase();
+    const limit = options.limit || 100;
+    const batchSize = Math.min(limit, 50);
+
+    let lastId = options.afterId || 0;
+    let processed = 0;
+    let updated = 0;
+    let done = false;
+
+    while (processed < limit) {
+      const batch = await db.getDealsForClassification(lastId, Math.min(batchSize, limit - processed), !options.force);
+      if (batch.length === 0) {
+        done = true;
+        break;
+      }
+
+      const terms = await db.getDealTermsForDeals(batch.map(deal => deal.id!));
+
+      for (const deal of batch) {
+        lastId = deal.id!;
+        processed++;
+
+        const instrumentType = terms.find(t => t.deal_id === deal.id)?.instrument_type;
+        const classification = options.useModel
+          ? await this.getOpenAIService().classifyDeal(deal.title, deal.summary, deal.content, instrumentType)
+          : classifyDealFromText(deal, instrumentType);
+
+        try {
+          await db.updateDealClassification(deal.id!, classification, { actor: 'scheduler', reason: 'Classification backfill' });
+          updated++;
+        } catch (error) {
+          console.error(`❌ Error classifying deal ${deal.id}:`, error);
         }
       }
     }
-    
-    // Pattern 3: Split by double newlines for large blocks
-    if (sections.length === 0) {
-      const blocks = content.split(/\n\s*\n\s*/).filter(block => block.trim().length > 200);
-      console.log(`Found ${blocks.length} content blocks`);
-      
-      blocks.forEach((block, index) => {
-        sections.push({
-          category: `Market News ${index + 1}`,
-          content: block.trim()
-        });
-      });
+
+    console.log(`🏷️ Classified ${updated}/${processed} deals (last id ${lastId})`);
+    return { processed, updated, lastId, done };
+  }
+
+  private async extractAndSaveDealTerms(dealId: number, title: string, summary: string, content: string): Promise<ExtractedDealTerms | null> {
+    try {
+      const terms = await this.getOpenAIService().extractDealTerms(title, summary, content);
+
+      if (!hasDealTerms(terms)) {
+        console.log(`ℹ️ No structured terms found for deal ${dealId}`);
+        return null;
+      }
+
+      await getDatabase().saveDealTerms({ deal_id: dealId, ...terms });
+      return terms;
+    } catch (error) {
+      rethrowMissingFixture(error);
+      // Terms are supplementary - never fail the ingest because of them
+      console.error(`❌ Error saving deal terms for deal ${dealId}:`, error);
+      return null;
     }
+  }
+
+  /**
+   * Save a deal a source parsed itself (e.g. an EDGAR filing), skipping LLM
+   * extraction, and add the outcome to the run's report
+   */
+  private async saveSourceDeal(section: NewsSourceItem, sourceDeal: SourceDeal, date: string, report: IngestReport): Promise<void> {
+    const db = getDatabase();
+
+    try {
+      const duplicates = await db.findDuplicateDeals(sourceDeal.title, date);
+      if (duplicates.length > 0) {
+        console.log(`⚠️ Skipping duplicate: "${sourceDeal.title}"`);
+        report.skipped.push({ title: sourceDeal.title, reason: 'duplicate' });
+        return;
+      }
 
-    // Fallback: Use the entire content as one section if no patterns found
-    if (sections.length === 0 && content.length > 200) {
-      console.log(`Using entire content as single section`);
-      sections.push({
-        category: 'Private Credit News',
-        content: content
+      const near = await this.findNearDuplicates({
+        date,
+        title: sourceDeal.title,
+        summary: sourceDeal.summary,
+        content: section.content,
+        source: section.publisher || 'Financial News',
+        source_url: section.url || undefined
       });
+      if (near.duplicates.length > 0) {
+        console.log(`⚠️ Skipping duplicate: "${sourceDeal.title}"`);
+        report.skipped.push({ title: sourceDeal.title, reason: 'duplicate' });
+        return;
+      }
+
+      const newDeal = {
+        date,
+        title: sourceDeal.title,
+        summary: sourceDeal.summary,
+        content: section.content,
+        source: section.publisher || 'Financial News',
+        source_url: section.url || undefined,
+        category: sourceDeal.category,
+        ...classifyDealFromText({ title: sourceDeal.title, summary: sourceDeal.summary }, sourceDeal.terms ? sourceDeal.terms.instrument_type : null),
+        ...assessExtraction({ title: sourceDeal.title, summary: sourceDeal.summary, source_url: section.url || undefined, category: sourceDeal.category }, 'structured')
+      };
+      const dealId = await db.saveDeal(newDeal);
+      report.saved.push({ id: dealId, title: sourceDeal.title });
+      console.log(`✅ Saved ${section.publisher || 'source'} deal ${dealId}: "${sourceDeal.title}" (Date: ${date})`);
+
+      if (sourceDeal.terms && hasDealTerms(sourceDeal.terms)) {
+        try {
+          await db.saveDealTerms({ deal_id: dealId, ...sourceDeal.terms });
+        } catch (error) {
+          console.error(`❌ Error saving deal terms for deal ${dealId}:`, error);
+        }
+      }
+      await recordDealProvenance(dealId, newDeal, section, STRUCTURED_EXTRACTION, sourceDeal.terms);
+      await indexDeal(dealId, newDeal, near.embedding);
+
+      const entityIds = await this.linkDealEntities({ id: dealId, ...newDeal }, sourceDeal.terms ? sourceDeal.terms.parties : []);
+      await processDealAlerts({ id: dealId, ...newDeal }, entityIds);
+    } catch (error) {
+      rethrowMissingFixture(error);
+      console.error(`❌ Error saving source deal "${sourceDeal.title}":`, error);
+      report.skipped.push({ title: sourceDeal.title, reason: 'error' });
     }
+  }
 
-    return sections;
+  /**
+   * Saved deals the embedding index and dedup stages find to be the same deal
+   * as one about to be saved, for titles the exact check missed
+   */
+  private async findNearDuplicates(deal: Deal): Promise<{ duplicates: Deal[]; embedding: number[] | null }> {
+    const near = await findNearDuplicates(deal);
+    near.duplicates.forEach(duplicate => {
+      console.log(`🧭 "${deal.title}" matches deal ${duplicate.deal.id} (${duplicate.verdict.stage}: ${duplicate.verdict.reason})`);
+    });
+    return { duplicates: near.duplicates.map(duplicate => duplicate.deal), embedding: near.embedding };
+  }
+
+  private async linkDealEntities(deal: Deal, parties: DealParty[]): Promise<number[]> {
+    try {
+      const links = await getEntityResolver().linkDeal(deal, parties);
+      console.log(`🏢 Linked deal ${deal.id} to ${links.length} entities`);
+      return links.map(link => link.entity_id);
+    } catch (error) {
+      console.error(`❌ Error linking entities for deal ${deal.id}:`, error);
+      return [];
+    }
   }
 
   startScheduler(): void {
@@ -310,231 +503,37 @@ export class DealScheduler {
     console.log('News scheduler stopped');
   }
 
-  async runManualFetch(date?: string): Promise<void> {
-    console.log('Running manual news fetch...');
-    await this.fetchAndProcessDeals(date);
-  }
-
-  async runDuplicateCleanup(): Promise<number> {
-    console.log('🧹 Running advanced duplicate cleanup...');
-    try {
-      // First run the enhanced duplicate detector
-      const enhancedResult = await this.runEnhancedDuplicateCleanup();
-      console.log(`🔍 Enhanced duplicate detection removed: ${enhancedResult} duplicates`);
-      
-      // Then run the advanced AI-powered cleanup
-      const advancedResult = await advancedDuplicateCleaner.cleanDatabase();
-      console.log(`🤖 Advanced AI cleanup removed: ${advancedResult.duplicatesRemoved} duplicates, kept ${advancedResult.articlesKept} articles`);
-      
-      return enhancedResult + advancedResult.duplicatesRemoved;
-    } catch (error) {
-      console.error('❌ Error in advanced duplicate cleanup:', error);
-      // Fallback to basic duplicate removal
-      console.log('🔄 Falling back to basic duplicate removal...');
-      return await this.removeDuplicates();
+  /**
+   * Let sources persist their polling state (feed ETags, seen GUIDs) after a run
+   */
+  private async commitNewsSources(sources: NewsSource[]): Promise<void> {
+    for (const source of sources) {
+      if (source.commit) {
+        await source.commit();
+      }
     }
   }
 
-  async runIntegratedDuplicateCleanup(): Promise<number> {
-    console.log('🔍 Starting integrated duplicate analysis and cleanup...');
-    
-    try {
-      let totalRemoved = 0;
-      
-      // Step 1: Enhanced duplicate cleanup (basic similarity)
-      console.log('🧹 Step 1: Running enhanced duplicate cleanup...');
-      const enhancedResult = await this.runEnhancedDuplicateCleanup();
-      console.log(`✅ Enhanced cleanup complete: ${enhancedResult} duplicates removed`);
-      totalRemoved += enhancedResult;
-      
-      // Step 2: Semantic duplicate detection for recent articles
-      console.log('🔍 Step 2: Running semantic duplicate detection...');
-      const semanticResult = await this.runSemanticDuplicateCleanup();
-      console.log(`✅ Semantic cleanup complete: ${semanticResult} duplicates removed`);
-      totalRemoved += semanticResult;
-      
-      console.log(`📊 Total duplicates removed: ${totalRemoved}`);
-      return totalRemoved;
-      
-    } catch (error) {
-      console.error('❌ Error in integrated duplicate cleanup:', error);
-      return 0;
-    }
+  async runManualFetch(date?: string): Promise<void> {
+    console.log('Running manual news fetch...');
+    await this.fetchAndProcessDeals(date);
   }
 
-  private async runSemanticDuplicateCleanup(): Promise<number> {
+  /**
+   * Merge duplicates among recent deals (those up to until, when given) through
+   * the dedup engine. Never throws.
+   */
+  async runDuplicateCleanup(days?: number, until?: string): Promise<number> {
     try {
-      const db = getDatabase();
-      const openai = this.getOpenAIService();
-      
-      // Get recent articles (last 7 days) for semantic analysis
-      const recentArticles = await db.getAllDeals();
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      
-      const articlesToCheck = recentArticles.filter(article => {
-        const articleDate = new Date(article.created_at || article.date);
-        return articleDate >= sevenDaysAgo;
-      }).slice(0, 20); // Limit to 20 most recent articles
-      
-      if (articlesToCheck.length < 2) {
-        console.log('⚠️ Not enough recent articles for semantic analysis');
-        return 0;
-      }
-      
-      console.log(`🔍 Checking ${articlesToCheck.length} recent articles for semantic duplicates...`);
-      
-      let duplicatesRemoved = 0;
-      const maxComparisons = 20; // Limit comparisons to avoid excessive API calls
-      let comparisons = 0;
-      
-      for (let i = 0; i < articlesToCheck.length && comparisons < maxComparisons; i++) {
-        for (let j = i + 1; j < articlesToCheck.length && comparisons < maxComparisons; j++) {
-          comparisons++;
-          
-          const article1 = articlesToCheck[i];
-          const article2 = articlesToCheck[j];
-          
-          // Skip if from very different dates
-          const date1 = new Date(article1.created_at || article1.date);
-          const date2 = new Date(article2.created_at || article2.date);
-          const daysDiff = Math.abs(date1.getTime() - date2.getTime()) / (1000 * 60 * 60 * 24);
-          
-          if (daysDiff > 3) continue; // Only check articles within 3 days of each other
-          
-          // Analyze semantic similarity
-          const analysis = await this.analyzeSemanticSimilarity(article1, article2);
-          
-          if (analysis.isDuplicate && analysis.similarity >= 0.8) {
-            console.log(`🔍 Found semantic duplicate: "${article1.title}" vs "${article2.title}"`);
-            
-            // Determine which to keep based on free source priority
-            const score1 = this.calculateEnhancedScore(article1);
-            const score2 = this.calculateEnhancedScore(article2);
-            
-            const deleteArticle = score1 > score2 ? article2 : article1;
-            const keepArticle = score1 > score2 ? article1 : article2;
-            
-                         try {
-               if (deleteArticle.id) {
-                 await db.deleteDeal(deleteArticle.id);
-                 duplicatesRemoved++;
-                 console.log(`✅ Removed semantic duplicate: "${deleteArticle.title}" (kept: "${keepArticle.title}")`);
-               }
-             } catch (error) {
-               console.error(`❌ Error removing semantic duplicate:`, error);
-             }
-          }
-          
-          // Small delay
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-      }
-      
-      console.log(`📊 Semantic analysis complete: ${duplicatesRemoved} duplicates removed from ${comparisons} comparisons`);
-      return duplicatesRemoved;
-      
+      const result = await runDedup({ actor: 'scheduler', days, until });
+      return result.merged;
     } catch (error) {
-      console.error('❌ Error in semantic duplicate cleanup:', error);
+      rethrowMissingFixture(error);
+      console.error('❌ Error in duplicate cleanup:', error);
       return 0;
     }
   }
 
-  private async analyzeSemanticSimilarity(article1: any, article2: any): Promise<any> {
-    try {
-      // For now, use basic title comparison until we fix the OpenAI service access
-      const title1 = article1.title.toLowerCase();
-      const title2 = article2.title.toLowerCase();
-      
-      // Check if they have the same company name and transaction type
-      const words1 = title1.split(' ').filter((word: string) => word.length > 3);
-      const words2 = title2.split(' ').filter((word: string) => word.length > 3);
-      
-      const commonWords = words1.filter((word: string) => words2.includes(word));
-      const similarity = commonWords.length / Math.max(words1.length, words2.length);
-      
-      // Check for financial terms and amounts
-      const hasFinancialTerms = (title1.includes('facility') || title1.includes('credit') || title1.includes('loan')) &&
-                               (title2.includes('facility') || title2.includes('credit') || title2.includes('loan'));
-      
-      // Check for same amounts
-      const amount1 = title1.match(/\$\d+[mb]?/);
-      const amount2 = title2.match(/\$\d+[mb]?/);
-      const sameAmount = amount1 && amount2 && amount1[0] === amount2[0];
-      
-      const isDuplicate = similarity > 0.4 && hasFinancialTerms && sameAmount;
-      
-      return {
-        isDuplicate,
-        similarity: isDuplicate ? similarity : 0,
-        reason: isDuplicate ? `Same company and transaction: ${commonWords.join(', ')}` : 'Different stories'
-      };
-      
-    } catch (error) {
-      console.error('❌ Error analyzing semantic similarity:', error);
-      return { isDuplicate: false, similarity: 0, reason: 'Analysis failed' };
-    }
-  }
-
-  private calculateEnhancedScore(article: any): number {
-    let score = 0;
-    
-    // FREE SOURCE PRIORITY (highest scoring)
-    if (article.source_url) {
-      const url = article.source_url.toLowerCase();
-      
-      // FREE ACCESSIBLE SOURCES
-      if (url.includes('reuters.com') || url.includes('yahoo.com') || 
-          url.includes('marketwatch.com') || url.includes('cnbc.com') ||
-          url.includes('businesswire.com') || url.includes('prnewswire.com') ||
-          url.includes('seekingalpha.com') || url.includes('benzinga.com')) {
-        score += 50;
-      }
-      // PARTIALLY FREE
-      else if (url.includes('ft.com') || url.includes('wsj.com')) {
-        score += 30;
-      }
-      // PAID SOURCES (lower score)
-      else if (url.includes('bloomberg.com')) {
-        score += 20;
-      }
-      else if (url.startsWith('https://')) {
-        score += 25;
-      }
-    } else {
-      score -= 20; // Penalty for no URL
-    }
-    
-    // SOURCE NAME PRIORITY
-    if (article.source) {
-      const source = article.source.toLowerCase();
-      if (source.includes('reuters') || source.includes('yahoo') || 
-          source.includes('cnbc') || source.includes('marketwatch') ||
-          source.includes('ainvest')) {
-        score += 25;
-      }
-      else if (source.includes('bloomberg terminal')) {
-        score += 5; // Very low score for paid terminal
-      }
-    }
-    
-    // CONTENT QUALITY
-    if (article.title) {
-      score += Math.min(article.title.length / 8, 15);
-      if (article.title.includes('$')) score += 10;
-    }
-    
-    if (article.summary) {
-      score += Math.min(article.summary.length / 20, 20);
-      if (article.summary.includes('**')) score += 5;
-    }
-    
-    // ENGAGEMENT
-    score += (article.upvotes || 0) * 2;
-    
-    return score;
-  }
-
   async scheduleDailyNews(): Promise<void> {
     console.log('🕐 Starting daily news collection...');
     
@@ -548,131 +547,34 @@ export class DealScheduler {
       // Fetch news for today using existing method
       await this.fetchAndProcessDeals(dateStr);
       
-      // Clean up duplicates after fetching with enhanced detection
-      console.log('🧹 Cleaning up duplicate articles with enhanced detection...');
-      // const duplicatesRemoved = await this.runEnhancedDuplicateCleanup();
-      // console.log(`🗑️ Removed ${duplicatesRemoved} duplicate articles`);
-      
-      // Clean up database duplicates with advanced AI detection
-      console.log('🧹 Running advanced database duplicate cleanup...');
-      // const dbCleanupResult = await advancedDuplicateCleaner.cleanDatabase();
-      // console.log(`🗑️ Advanced cleanup: removed ${dbCleanupResult.duplicatesRemoved} duplicates, kept ${dbCleanupResult.articlesKept} articles`);
+      // fetchAndProcessDeals ends with the duplicate cleanup
       
       // Get final count
       const db = getDatabase();
       const allDeals = await db.getAllDeals();
       console.log(`📊 Total articles in database: ${allDeals.length}`);
+
+      await this.sendDailyDigest(dateStr);
+      await purgeExpiredDeals();
       
     } catch (error) {
       console.error('❌ Error in daily news collection:', error);
     }
   }
 
-  private async removeDuplicates(): Promise<number> {
+  /**
+   * Send the day's digest through the configured transports. Never throws, so a
+   * delivery problem cannot fail the news run that precedes it.
+   */
+  async sendDailyDigest(date: string): Promise<DigestDeliveryResult | null> {
     try {
-      // Get all articles using the database service
-      const db = getDatabase();
-      const allArticles = await db.getAllDeals();
-      
-      // Group articles by similarity
-      const duplicateGroups: { [key: string]: any[] } = {};
-      
-      for (const article of allArticles) {
-        // Create a similarity key based on title and content
-        const titleWords = article.title.toLowerCase()
-          .replace(/[^\w\s]/g, '')
-          .split(/\s+/)
-          .filter((word: string) => word.length > 3)
-          .sort()
-          .slice(0, 5) // Take first 5 significant words
-          .join(' ');
-        
-        const contentWords = article.summary.toLowerCase()
-          .replace(/[^\w\s]/g, '')
-          .split(/\s+/)
-          .filter((word: string) => word.length > 3)
-          .slice(0, 10) // Take first 10 significant words
-          .join(' ');
-        
-        const similarityKey = `${titleWords}|${contentWords}`;
-        
-        if (!duplicateGroups[similarityKey]) {
-          duplicateGroups[similarityKey] = [];
-        }
-        duplicateGroups[similarityKey].push(article);
-      }
-      
-      // Find and remove duplicates (keep the one with most upvotes or newest)
-      let duplicatesRemoved = 0;
-      
-      for (const group of Object.values(duplicateGroups)) {
-        if (group.length > 1) {
-          // Sort by upvotes (desc) then by creation date (desc)
-          group.sort((a, b) => {
-            if (b.upvotes !== a.upvotes) {
-              return (b.upvotes || 0) - (a.upvotes || 0);
-            }
-            return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-          });
-          
-          // Keep the first one, remove the rest
-          const toRemove = group.slice(1);
-          
-          for (const duplicate of toRemove) {
-            await db.deleteDeal(duplicate.id);
-            duplicatesRemoved++;
-            console.log(`🗑️ Removed duplicate: "${duplicate.title.substring(0, 50)}..."`);
-          }
-        }
-      }
-      
-      return duplicatesRemoved;
-      
+      console.log(`📬 Sending daily digest for ${date}...`);
+      return await sendDailyDigest(date);
     } catch (error) {
-      console.error('Error removing duplicates:', error);
-      return 0;
+      console.error(`❌ Error sending daily digest for ${date}:`, error);
+      return null;
     }
   }
-
-  async runEnhancedDuplicateCleanup(): Promise<number> {
-    console.log('🧹 Starting enhanced duplicate cleanup...');
-    
-    const db = getDatabase();
-    const allDeals = await db.getAllDeals();
-    
-    // Get recent deals from last 7 days for duplicate checking
-    const recentDeals = allDeals.filter(deal => {
-      const dealDate = new Date(deal.date);
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      return dealDate >= sevenDaysAgo;
-    });
-    
-    console.log(`Using enhanced duplicate detection on ${recentDeals.length} recent deals...`);
-    
-    // Use enhanced duplicate detector
-    const duplicateDetector = this.getDuplicateDetector();
-    const { duplicates, toRemove } = await duplicateDetector.findDuplicates(recentDeals);
-    
-    console.log(`Found ${duplicates.length} duplicate groups containing ${toRemove.length} articles to remove`);
-    
-    // Remove duplicate articles
-    let duplicatesRemoved = 0;
-    for (const index of toRemove) {
-      const articleToRemove = recentDeals[index];
-      if (articleToRemove && articleToRemove.id) {
-        try {
-          await db.deleteDeal(articleToRemove.id);
-          duplicatesRemoved++;
-          console.log(`✅ Removed duplicate: "${articleToRemove.title.substring(0, 50)}..."`);
-        } catch (error) {
-          console.error(`❌ Error removing duplicate ${articleToRemove.id}:`, error);
-        }
-      }
-    }
-    
-    return duplicatesRemoved;
-  }
 }
 
 // Global scheduler instance
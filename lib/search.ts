@@ -0,0 +1,87 @@
+import { getDatabase } from './database';
+import { decodeCursor, encodeCursor } from './cursor';
+import type { SearchFacetRow, SearchHitRow } from './supabase';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+export interface SearchParams {
+  query: string;
+  category?: string | null;
+  region?: string | null;
+  month?: string | null;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface SearchHit extends Omit<SearchHitRow, 'title_highlight' | 'snippet'> {
+  highlights: {
+    title: string;
+    snippet: string;
+  };
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchResult {
+  query: string;
+  hits: SearchHit[];
+  facets: {
+    category: FacetCount[];
+    region: FacetCount[];
+    month: FacetCount[];
+  };
+  total: number;
+  nextCursor: string | null;
+}
+
+function groupFacets(rows: SearchFacetRow[], facet: SearchFacetRow['facet']): FacetCount[] {
+  return rows
+    .filter(row => row.facet === facet)
+    .map(row => ({ value: row.value, count: row.count }))
+    .sort((a, b) => facet === 'month' ? b.value.localeCompare(a.value) : b.count - a.count);
+}
+
+export async function searchDeals(params: SearchParams): Promise<SearchResult> {
+  const db = getDatabase();
+  const limit = Math.min(Math.max(params.limit || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+  const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+
+  if (params.cursor && (!cursor || typeof cursor.value !== 'number')) {
+    throw new Error('Invalid cursor');
+  }
+
+  const filters = {
+    query: params.query,
+    category: params.category,
+    region: params.region,
+    month: params.month
+  };
+
+  // Fetch one extra row to know whether another page exists
+  const [rows, facetRows] = await Promise.all([
+    db.searchDeals({ ...filters, cursorRank: cursor ? Number(cursor.value) : null, cursorId: cursor?.id, limit: limit + 1 }),
+    db.getSearchFacets(filters)
+  ]);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    query: params.query,
+    hits: page.map(({ title_highlight, snippet, ...hit }) => ({
+      ...hit,
+      highlights: { title: title_highlight, snippet }
+    })),
+    facets: {
+      category: groupFacets(facetRows, 'category'),
+      region: groupFacets(facetRows, 'region'),
+      month: groupFacets(facetRows, 'month')
+    },
+    total: facetRows.find(row => row.facet === 'total')?.count || 0,
+    nextCursor: rows.length > limit && last ? encodeCursor(last.rank, last.id!) : null
+  };
+}
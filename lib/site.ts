@@ -0,0 +1,9 @@
+/**
+ * Public base URL of the site, without a trailing slash, for links in emails,
+ * webhooks and feeds. SITE_URL wins; Vercel deployments fall back to VERCEL_URL.
+ */
+export function getSiteUrl(): string | null {
+  if (process.env.SITE_URL) return process.env.SITE_URL.replace(/\/$/, '');
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return null;
+}
@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { categoryWithDescendants, normalizeCategory } from './taxonomy';
 
 export interface Deal {
   id?: number;
@@ -8,11 +9,42 @@ export interface Deal {
   content: string;
   source: string;
   source_url?: string;
-  category?: string;
+  category?: string;            // taxonomy path - see lib/taxonomy.ts
+  region?: string | null;       // 'US', 'Europe', ... - see DEAL_REGIONS in lib/classification.ts
+  countries?: string[];
+  deal_type?: string | null;    // taxonomy path - see lib/taxonomy.ts
+  provenance?: DealProvenance;
+  submitted_by?: string | null; // editor who created the deal by hand
+  status?: DealStatus;          // only 'published' deals are public
+  confidence?: number | null;   // 0-1 extraction confidence, see lib/review.ts
+  review_reasons?: string[];    // why the deal was routed to review
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  deleted_at?: string | null;     // soft-deleted; purged after the trash retention period
+  deleted_reason?: string | null;
+  merged_into?: number | null;    // the deal a removed duplicate was merged into
   upvotes?: number;
   created_at?: string;
 }
 
+// 'ingest' for deals found by the scheduler, 'manual' for ones an editor submitted
+export type DealProvenance = 'ingest' | 'manual';
+
+export type DealStatus = 'draft' | 'pending_review' | 'published' | 'rejected';
+
+export type DealUpdate = Partial<Pick<Deal, 'date' | 'title' | 'summary' | 'content' | 'source' | 'source_url' | 'category' | 'region' | 'countries' | 'deal_type'>>;
+
+export interface DealClassification {
+  region: string;
+  countries: string[];
+  deal_type: string;
+}
+
+export interface DealClassificationFilters {
+  region?: string | null;
+  dealType?: string | null;
+}
+
 export interface Vote {
   id?: number;
   article_id: number;
@@ -20,6 +52,263 @@ export interface Vote {
   created_at?: string;
 }
 
+export type DealPartyRole = 'borrower' | 'lender' | 'sponsor' | 'arranger' | 'manager' | 'investor' | 'target' | 'other';
+
+export interface DealParty {
+  name: string;
+  role: DealPartyRole;
+}
+
+export interface DealTerms {
+  id?: number;
+  deal_id: number;
+  parties: DealParty[];
+  amount: number | null;        // Normalized to units of currency, e.g. 500000000
+  currency: string | null;      // ISO 4217 code
+  instrument_type: string | null;
+  tenor: string | null;
+  pricing: string | null;       // e.g. "SOFR + 350bps"
+  use_of_proceeds: string | null;
+  created_at?: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+/**
+ * Who is changing deals and why. actor is e.g. 'scheduler', 'route:fix-all-dates'
+ * or 'editor:alex'; revertsId links a revert to the entry it undoes.
+ */
+export interface AuditContext {
+  actor: string;
+  reason?: string | null;
+  revertsId?: number | null;
+}
+
+// One append-only row per deal mutation. before/after hold the changed columns,
+// except creates (after is the new row) and purges (before is the purged row).
+export interface DealAuditEntry {
+  id?: number;
+  deal_id: number;
+  action: AuditAction;
+  before: Partial<Deal> | null;
+  after: Partial<Deal> | null;
+  actor: string;
+  reason: string | null;
+  reverts_id: number | null;
+  created_at?: string;
+}
+
+// Another article reporting a canonical deal, kept when its own deal row was merged away
+export interface DealSource {
+  id?: number;
+  deal_id: number;                // the canonical deal
+  merged_deal_id: number;         // the deal this source was merged from
+  title: string;
+  source: string;
+  source_url: string | null;
+  upvotes: number;
+  first_seen_at: string | null;
+  created_at?: string;
+}
+
+export interface DealEmbedding {
+  deal_id: number;
+  model: string;                  // vectors from different models are never compared
+  embedding: number[];
+  created_at?: string;
+}
+
+export interface EmbeddingMatch {
+  deal_id: number;
+  similarity: number;             // cosine similarity, 0-1
+}
+
+export type ProvenanceExtractor = 'model' | 'rules' | 'structured' | 'manual';
+
+// 0-1 confidence per extracted field; 0 when the field is missing
+export interface FieldConfidence {
+  amount: number;
+  parties: number;
+  date: number;
+  url: number;
+}
+
+/**
+ * Where a deal came from: the source and query that returned it, the raw
+ * section it was extracted from, and what extracted it (one row per deal)
+ */
+export interface DealProvenanceRecord {
+  id?: number;
+  deal_id: number;
+  source_id: string | null;       // NewsSource id, e.g. 'perplexity' or 'feed-3'
+  source_kind: string | null;
+  query: string | null;           // search query, for LLM search sources
+  section_label: string | null;
+  raw_section: string | null;
+  item_url: string | null;
+  published_at: string | null;    // publish timestamp the source reported
+  extractor: ProvenanceExtractor;
+  model: string | null;
+  prompt_version: string | null;
+  field_confidence: FieldConfidence;
+  created_at?: string;
+}
+
+export type EntityType = 'manager' | 'fund' | 'borrower' | 'sponsor' | 'lender' | 'other';
+
+export interface Entity {
+  id?: number;
+  slug: string;
+  canonical_name: string;
+  type: EntityType;
+  aliases: string[];
+  tickers: string[];
+  parent_id?: number | null;   // e.g. a fund's manager
+  created_at?: string;
+}
+
+export type DealEntityRole = DealPartyRole | 'mentioned';
+
+export interface DealEntityLink {
+  deal_id: number;
+  entity_id: number;
+  role: DealEntityRole;
+  created_at?: string;
+}
+
+export interface Watchlist {
+  id?: number;
+  name: string;
+  owner: string;                // analyst's email - there are no accounts
+  entity_ids: number[];         // managers, borrowers, ... from the entity registry
+  categories: string[];         // taxonomy paths (sectors); descendants match too
+  keywords: string[];           // free-text phrases matched against title and summary
+  notify_email: string | null;
+  notify_webhook: string | null;
+  active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface NewsFeed {
+  id?: number;
+  name: string;                 // publisher shown as the deal source when extraction finds none
+  url: string;
+  category: string | null;      // extraction hint, e.g. a taxonomy path
+  keywords: string[];           // when set, only entries mentioning one of these are ingested
+  active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// What the scheduler remembers about a feed between polls, keyed by news source id
+export interface FeedState {
+  source_id: string;
+  url: string;
+  etag: string | null;
+  last_modified: string | null;
+  seen_guids: string[];         // most recent first, capped
+  last_polled_at: string | null;
+  last_error: string | null;
+  updated_at?: string;
+}
+
+export interface WatchlistAlert {
+  id?: number;
+  watchlist_id: number;
+  deal_id: number;
+  reasons: string[];            // e.g. ["entity:Apollo Global Management", "keyword:data center"]
+  delivered_at: string | null;
+  delivery_error: string | null;
+  created_at?: string;
+}
+
+export interface SearchOptions {
+  query: string;
+  category?: string | null;
+  region?: string | null;
+  month?: string | null;        // 'YYYY-MM'
+  cursorRank?: number | null;
+  cursorId?: number | null;
+  limit?: number;
+}
+
+export interface SearchHitRow extends Omit<Deal, 'content'> {
+  rank: number;
+  title_highlight: string;      // HTML-escaped, matches wrapped in <mark>
+  snippet: string;              // HTML-escaped, matches wrapped in <mark>
+}
+
+export interface SearchFacetRow {
+  facet: 'category' | 'region' | 'month' | 'total';
+  value: string;
+  count: number;
+}
+
+export type DealSort = 'date' | 'upvotes' | 'created_at';
+
+export interface ListDealsOptions {
+  sort?: DealSort;
+  cursorValue?: string | null;
+  cursorId?: number | null;
+  limit?: number;
+  from?: string | null;         // 'YYYY-MM-DD', inclusive
+  to?: string | null;           // 'YYYY-MM-DD', inclusive
+  category?: string | null;
+  region?: string | null;
+  dealType?: string | null;
+  domain?: string | null;       // e.g. 'reuters.com'
+  minAmount?: number | null;
+}
+
+// Filters on the stored classification columns; a deal type also matches every
+// taxonomy category beneath it
+function applyClassificationFilters<Q extends { eq(column: string, value: any): Q; in(column: string, values: any[]): Q }>(
+  query: Q,
+  filters: DealClassificationFilters
+): Q {
+  let filtered = query;
+  if (filters.region) filtered = filtered.eq('region', filters.region);
+  if (filters.dealType) filtered = filtered.in('deal_type', categoryWithDescendants(filters.dealType));
+  return filtered;
+}
+
+const normalizeTitle = (title: string): string => title.toLowerCase()
+  .replace(/[^\w\s]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * The ingest title check: the same title, or one starting like the other
+ */
+export function isDuplicateTitle(a: string, b: string): boolean {
+  const titleA = normalizeTitle(a);
+  const titleB = normalizeTitle(b);
+
+  return titleA === titleB ||
+         (titleA.length > 10 && titleB.length > 10 &&
+          (titleA.includes(titleB.substring(0, 15)) ||
+           titleB.includes(titleA.substring(0, 15))));
+}
+
+// Columns Postgres computes itself and refuses values for
+const GENERATED_DEAL_COLUMNS = ['search_vector'];
+
+// Every deals column except the search vector
+const DEAL_COLUMNS = 'id,date,title,summary,content,source,source_url,category,region,countries,deal_type,upvotes,created_at';
+
+/**
+ * The columns whose values differ between two versions of a deal, or null if none do
+ */
+function dealChanges(before: any, after: any, columns: string[]): { before: Partial<Deal>; after: Partial<Deal> } | null {
+  const value = (row: any, column: string) => (row[column] === undefined ? null : row[column]);
+  const changed = columns.filter(column => JSON.stringify(value(before, column)) !== JSON.stringify(value(after, column)));
+  if (changed.length === 0) return null;
+
+  const pick = (row: any) => changed.reduce((values: any, column) => ({ ...values, [column]: value(row, column) }), {});
+  return { before: pick(before), after: pick(after) };
+}
+
 class SupabaseDatabase {
   private supabase: SupabaseClient;
   private initialized: boolean = false;
@@ -140,7 +429,7 @@ CREATE TABLE IF NOT EXISTS deals (
 -- Create votes table
 CREATE TABLE IF NOT EXISTS votes (
   id BIGSERIAL PRIMARY KEY,
-  article_id BIGINT NOT NULL REFERENCES deals(id),
+  article_id BIGINT NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
   user_ip TEXT NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(article_id, user_ip)
@@ -219,7 +508,7 @@ CREATE POLICY "Anyone can insert votes" ON votes
     }
   }
 
-  async saveDeal(deal: Omit<Deal, 'id' | 'created_at' | 'upvotes'>): Promise<number> {
+  async saveDeal(deal: Omit<Deal, 'id' | 'created_at' | 'upvotes'>, audit: AuditContext = { actor: 'ingest' }): Promise<number> {
     try {
       await this.ensureInitialized();
       
@@ -234,9 +523,17 @@ CREATE POLICY "Anyone can insert votes" ON votes
           content: deal.content,
           source: deal.source,
           source_url: deal.source_url || null,
-          category: deal.category || 'Market News'
+          category: normalizeCategory(deal.category, `${deal.title} ${deal.summary}`),
+          region: deal.region || null,
+          countries: deal.countries || [],
+          deal_type: deal.deal_type || null,
+          provenance: deal.provenance || 'ingest',
+          submitted_by: deal.submitted_by || null,
+          status: deal.status || 'published',
+          confidence: deal.confidence === undefined ? null : deal.confidence,
+          review_reasons: deal.review_reasons || []
         }])
-        .select('id')
+        .select('*')
         .single();
 
       if (error) {
@@ -244,6 +541,7 @@ CREATE POLICY "Anyone can insert votes" ON votes
         throw new Error(`Failed to save deal: ${error.message}`);
       }
 
+      await this.recordAudit(audit, [{ deal_id: data.id, action: 'create', before: null, after: data }]);
       console.log(`✅ Deal saved to Supabase with ID: ${data.id}`);
       return data.id;
     } catch (error) {
@@ -252,309 +550,1703 @@ CREATE POLICY "Anyone can insert votes" ON votes
     }
   }
 
-  async getDealsByDate(date: string): Promise<Deal[]> {
+  async getDealById(dealId: number): Promise<Deal | null> {
     await this.ensureInitialized();
-    
+
     const { data, error } = await this.supabase
       .from('deals')
       .select('*')
-      .eq('date', date)
-      .order('upvotes', { ascending: false })
-      .order('created_at', { ascending: false });
+      .eq('id', dealId)
+      .maybeSingle();
 
     if (error) {
-      console.error('❌ Failed to get deals by date:', error);
-      throw new Error(`Failed to get deals by date: ${error.message}`);
+      console.error('❌ Failed to get deal:', error);
+      throw new Error(`Failed to get deal: ${error.message}`);
     }
 
-    console.log(`📊 Retrieved ${data?.length || 0} deals for date ${date}`);
-    return data || [];
+    return data;
+  }
+
+  /**
+   * Apply an editor's correction. Category and deal type are expected to be
+   * taxonomy paths already.
+   */
+  async updateDeal(dealId: number, updates: DealUpdate, audit: AuditContext): Promise<Deal> {
+    const updated = await this.applyDealChanges(dealId, updates, audit);
+    console.log(`✏️ Updated deal ${dealId}: ${Object.keys(updates).join(', ')}`);
+    return updated;
   }
 
-  async getDealsByDateRange(startDate: string, endDate: string): Promise<Deal[]> {
+  /**
+   * Update one deal and append what changed to the audit log
+   */
+  private async applyDealChanges(dealId: number, changes: Partial<Deal>, audit: AuditContext): Promise<Deal> {
     await this.ensureInitialized();
-    
+
+    const before = await this.getDealById(dealId);
+    if (!before) {
+      throw new Error(`Failed to update deal: deal ${dealId} not found`);
+    }
+
     const { data, error } = await this.supabase
       .from('deals')
+      .update(changes)
+      .eq('id', dealId)
       .select('*')
-      .gte('date', startDate)
-      .lte('date', endDate)
-      .order('upvotes', { ascending: false })
-      .order('created_at', { ascending: false });
+      .single();
 
     if (error) {
-      console.error('❌ Failed to get deals by date range:', error);
-      throw new Error(`Failed to get deals by date range: ${error.message}`);
+      console.error('❌ Failed to update deal:', error);
+      throw new Error(`Failed to update deal: ${error.message}`);
     }
 
-    console.log(`📊 Retrieved ${data?.length || 0} deals for date range ${startDate} to ${endDate}`);
-    return data || [];
+    const changed = dealChanges(before, data, Object.keys(changes));
+    if (changed) {
+      await this.recordAudit(audit, [{ deal_id: dealId, action: 'update', ...changed }]);
+    }
+    return data;
   }
 
-  async getDealsByCategory(category: string, limit: number = 15): Promise<Deal[]> {
+  /**
+   * Soft-delete deals: they drop out of every listing but keep their votes and
+   * can be restored until purged. Returns the rows that were deleted.
+   */
+  private async deleteDealRows(dealIds: number[], audit: AuditContext, mergedInto: number | null = null): Promise<Deal[]> {
     await this.ensureInitialized();
-    
+
+    if (dealIds.length === 0) return [];
+
     const { data, error } = await this.supabase
       .from('deals')
-      .select('*')
-      .eq('category', category)
-      .order('upvotes', { ascending: false })
-      .order('created_at', { ascending: false })
-      .limit(limit);
+      .update({ deleted_at: new Date().toISOString(), deleted_reason: audit.reason || null, merged_into: mergedInto })
+      .in('id', dealIds)
+      .is('deleted_at', null)
+      .select('*');
 
     if (error) {
-      console.error('❌ Failed to get deals by category:', error);
-      throw new Error(`Failed to get deals by category: ${error.message}`);
+      console.error('❌ Failed to delete deals:', error);
+      throw new Error(`Failed to delete deals: ${error.message}`);
     }
 
-    return data || [];
+    const deleted: Deal[] = data || [];
+    await this.recordAudit(audit, deleted.map(deal => ({
+      deal_id: deal.id!,
+      action: 'delete' as AuditAction,
+      before: { deleted_at: null, deleted_reason: null, merged_into: null },
+      after: { deleted_at: deal.deleted_at, deleted_reason: deal.deleted_reason, merged_into: deal.merged_into }
+    })));
+    return deleted;
   }
 
-  async upvoteArticle(articleId: number, userIp: string): Promise<boolean> {
+  /**
+   * Bring soft-deleted deals back. Returns the rows that were restored.
+   */
+  async restoreDeals(dealIds: number[], audit: AuditContext): Promise<Deal[]> {
     await this.ensureInitialized();
-    
-    try {
-      // Check if user already voted
-      const { data: existingVote, error: checkError } = await this.supabase
-        .from('votes')
-        .select('id')
-        .eq('article_id', articleId)
-        .eq('user_ip', userIp)
-        .single();
-
-      if (checkError && checkError.code !== 'PGRST116') {
-        throw new Error(`Failed to check existing vote: ${checkError.message}`);
-      }
 
-      if (existingVote) {
-        return false; // Already voted
-      }
+    if (dealIds.length === 0) return [];
 
-      // Add vote
-      const { error: voteError } = await this.supabase
-        .from('votes')
-        .insert([{ article_id: articleId, user_ip: userIp }]);
+    const { data: before, error: beforeError } = await this.supabase
+      .from('deals')
+      .select('id,deleted_at,deleted_reason,merged_into')
+      .in('id', dealIds)
+      .not('deleted_at', 'is', null);
 
-      if (voteError) {
-        throw new Error(`Failed to add vote: ${voteError.message}`);
-      }
+    if (beforeError) {
+      console.error('❌ Failed to restore deals:', beforeError);
+      throw new Error(`Failed to restore deals: ${beforeError.message}`);
+    }
 
-      // Try to use the increment function first
-      try {
-        const { error: updateError } = await this.supabase.rpc('increment_upvotes', {
-          article_id: articleId
-        });
+    const { data, error } = await this.supabase
+      .from('deals')
+      .update({ deleted_at: null, deleted_reason: null, merged_into: null })
+      .in('id', dealIds)
+      .not('deleted_at', 'is', null)
+      .select('*');
 
-        if (updateError) {
-          throw new Error('RPC function not available');
-        }
-      } catch (rpcError) {
-        // Fallback: manual increment
-        console.log('Using manual upvote increment (RPC function not available)');
-        
-        // Get current upvote count
-        const { data: currentData, error: getCurrentError } = await this.supabase
-          .from('deals')
-          .select('upvotes')
-          .eq('id', articleId)
-          .single();
+    if (error) {
+      console.error('❌ Failed to restore deals:', error);
+      throw new Error(`Failed to restore deals: ${error.message}`);
+    }
 
-        if (getCurrentError) {
-          throw new Error(`Failed to get current upvotes: ${getCurrentError.message}`);
-        }
+    const restored: Deal[] = data || [];
+    await this.recordAudit(audit, restored.map(deal => {
+      const previous: any = (before || []).find((row: any) => row.id === deal.id) || {};
+      return {
+        deal_id: deal.id!,
+        action: 'restore' as AuditAction,
+        before: { deleted_at: previous.deleted_at, deleted_reason: previous.deleted_reason, merged_into: previous.merged_into },
+        after: { deleted_at: null, deleted_reason: null, merged_into: null }
+      };
+    }));
 
-        // Increment manually
-        const { error: manualUpdateError } = await this.supabase
-          .from('deals')
-          .update({ upvotes: (currentData.upvotes || 0) + 1 })
-          .eq('id', articleId);
-          
-        if (manualUpdateError) {
-          throw new Error(`Failed to update upvotes: ${manualUpdateError.message}`);
-        }
-      }
+    await this.detachDealSources(restored.map(deal => deal.id!));
 
-      return true;
-    } catch (error) {
-      console.error('❌ Error in upvoteArticle:', error);
-      throw error;
-    }
+    console.log(`♻️ Restored ${restored.length} deals: ${restored.map(deal => deal.id).join(', ')}`);
+    return restored;
   }
 
-  async getAvailableDates(): Promise<string[]> {
+  /**
+   * Fold duplicate deals into a canonical one: each becomes a source of the
+   * canonical deal (taking its own merged sources along), its upvotes are added
+   * to the canonical deal's and it is soft-deleted with merged_into set.
+   * Returns how many deals were merged.
+   */
+  async mergeDeals(canonicalId: number, dealIds: number[], audit: AuditContext): Promise<number> {
     await this.ensureInitialized();
-    
-    const { data, error } = await this.supabase
-      .from('deals')
-      .select('date')
-      .order('date', { ascending: false });
+
+    const merged = await this.deleteDealRows(dealIds.filter(id => id !== canonicalId), audit, canonicalId);
+    if (merged.length === 0) return 0;
+
+    const mergedIds = merged.map(deal => deal.id!);
+
+    const { error: moveError } = await this.supabase
+      .from('deal_sources')
+      .update({ deal_id: canonicalId })
+      .in('deal_id', mergedIds);
+
+    if (moveError) {
+      console.error('❌ Failed to move deal sources:', moveError);
+      throw new Error(`Failed to move deal sources: ${moveError.message}`);
+    }
+
+    const { error } = await this.supabase
+      .from('deal_sources')
+      .insert(merged.map(deal => ({
+        deal_id: canonicalId,
+        merged_deal_id: deal.id,
+        title: deal.title,
+        source: deal.source,
+        source_url: deal.source_url || null,
+        upvotes: deal.upvotes || 0,
+        first_seen_at: deal.created_at || null
+      })));
 
     if (error) {
-      console.error('❌ Failed to get available dates:', error);
-      throw new Error(`Failed to get available dates: ${error.message}`);
+      console.error('❌ Failed to save deal sources:', error);
+      throw new Error(`Failed to save deal sources: ${error.message}`);
     }
 
-    // Get unique dates
-    const uniqueDates = Array.from(new Set((data || []).map((d: any) => d.date as string))) as string[];
-    return uniqueDates;
+    await this.addUpvotes(canonicalId, merged.reduce((sum, deal) => sum + (deal.upvotes || 0), 0));
+
+    console.log(`🔗 Merged deals ${mergedIds.join(', ')} into ${canonicalId}`);
+    return merged.length;
   }
 
-  async getAvailableCategories(): Promise<string[]> {
-    await this.ensureInitialized();
-    
+  /**
+   * Take restored deals back out of the clusters they were merged into
+   */
+  private async detachDealSources(dealIds: number[]): Promise<void> {
+    if (dealIds.length === 0) return;
+
     const { data, error } = await this.supabase
-      .from('deals')
-      .select('category')
-      .order('category');
+      .from('deal_sources')
+      .delete()
+      .in('merged_deal_id', dealIds)
+      .select('*');
 
     if (error) {
-      console.error('❌ Failed to get available categories:', error);
-      throw new Error(`Failed to get available categories: ${error.message}`);
+      console.error('❌ Failed to detach deal sources:', error);
+      throw new Error(`Failed to detach deal sources: ${error.message}`);
     }
 
-    // Get unique categories
-    const uniqueCategories = Array.from(new Set((data || []).map((d: any) => d.category as string))) as string[];
-    return uniqueCategories;
+    for (const source of (data || []) as DealSource[]) {
+      await this.addUpvotes(source.deal_id, -source.upvotes);
+    }
   }
 
-  async getAllDeals(): Promise<Deal[]> {
-    await this.ensureInitialized();
-    
-    console.log('🔍 DEBUG: Executing getAllDeals with order: date DESC, upvotes DESC');
-    
+  // Upvotes stay out of the audit log, like votes themselves
+  private async addUpvotes(dealId: number, delta: number): Promise<void> {
+    if (delta === 0) return;
+
     const { data, error } = await this.supabase
       .from('deals')
-      .select('*')
-      .order('date', { ascending: false })        // 1st priority: newest date
-      .order('upvotes', { ascending: false })     // 2nd priority: highest upvotes  
-      .order('created_at', { ascending: false }); // 3rd priority: newest created_at
+      .select('upvotes')
+      .eq('id', dealId)
+      .maybeSingle();
 
-    if (error) {
-      console.error('❌ Failed to get all deals:', error);
-      throw new Error(`Failed to get all deals: ${error.message}`);
+    if (error || !data) {
+      console.error(`❌ Failed to get upvotes for deal ${dealId}:`, error);
+      return;
     }
 
-    const sortedData = data || [];
-    console.log(`📊 Retrieved ${sortedData.length} deals from Supabase`);
-    console.log(`🎯 First 3 deals: ${sortedData.slice(0, 3).map(d => `${d.id}:${d.date}`).join(', ')}`);
-    
-    return sortedData;
+    const { error: updateError } = await this.supabase
+      .from('deals')
+      .update({ upvotes: Math.max((data.upvotes || 0) + delta, 0) })
+      .eq('id', dealId);
+
+    if (updateError) {
+      console.error(`❌ Failed to update upvotes for deal ${dealId}:`, updateError);
+    }
   }
 
-  async searchDealsByTitle(title: string): Promise<Deal[]> {
+  /**
+   * The other articles reporting each deal, earliest first
+   */
+  async getDealSources(dealIds: number[]): Promise<DealSource[]> {
     await this.ensureInitialized();
+
+    if (dealIds.length === 0) return [];
+
     const { data, error } = await this.supabase
-      .from('deals')
+      .from('deal_sources')
       .select('*')
-      .ilike('title', `%${title}%`)
-      .order('date', { ascending: false });
-    if (error) throw new Error(`Search failed: ${error.message}`);
+      .in('deal_id', dealIds)
+      .order('first_seen_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Failed to get deal sources:', error);
+      throw new Error(`Failed to get deal sources: ${error.message}`);
+    }
+
     return data || [];
   }
 
-  async cleanupInvalidArticles(): Promise<number> {
+  async saveDealEmbeddings(embeddings: DealEmbedding[]): Promise<void> {
     await this.ensureInitialized();
-    
-    // Only remove obvious placeholder content
-    const { data, error } = await this.supabase
-      .from('deals')
-      .delete()
-      .or(`title.ilike.%News Update%,summary.ilike.%No summary available%`)
-      .select('id');
 
-    if (error) {
-      console.error('❌ Failed to cleanup invalid articles:', error);
-      throw new Error(`Failed to cleanup invalid articles: ${error.message}`);
+    if (embeddings.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('deal_embeddings')
+      .upsert(embeddings.map(row => ({ deal_id: row.deal_id, model: row.model, embedding: row.embedding })), { onConflict: 'deal_id' });
+
+    if (error) {
+      console.error('❌ Failed to save deal embeddings:', error);
+      throw new Error(`Failed to save deal embeddings: ${error.message}`);
+    }
+  }
+
+  async getDealEmbeddings(dealIds: number[], model: string): Promise<DealEmbedding[]> {
+    await this.ensureInitialized();
+
+    if (dealIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('deal_embeddings')
+      .select('*')
+      .eq('model', model)
+      .in('deal_id', dealIds);
+
+    if (error) {
+      console.error('❌ Failed to get deal embeddings:', error);
+      throw new Error(`Failed to get deal embeddings: ${error.message}`);
+    }
+
+    // pgvector columns come back as '[0.1,0.2,...]' strings
+    return (data || []).map((row: any) => ({
+      ...row,
+      embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding
+    }));
+  }
+
+  /**
+   * Approximate nearest neighbours from the HNSW index, skipping deleted deals
+   */
+  async matchDealEmbeddings(embedding: number[], model: string, count: number, minSimilarity: number, excludeId: number | null = null): Promise<EmbeddingMatch[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase.rpc('match_deal_embeddings', {
+      query_embedding: embedding,
+      match_model: model,
+      match_count: count,
+      min_similarity: minSimilarity,
+      exclude_id: excludeId
+    });
+
+    if (error) {
+      console.error('❌ Failed to match deal embeddings:', error);
+      throw new Error(`Failed to match deal embeddings: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * The trash: soft-deleted deals, most recently deleted first
+   */
+  async getDeletedDeals(limit: number = 100): Promise<Deal[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deals')
+      .select('*')
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ Failed to get deleted deals:', error);
+      throw new Error(`Failed to get deleted deals: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Permanently remove deals that have been in the trash longer than the
+   * retention period (only those in dealIds, when given). Each purged row is
+   * kept in the audit log; its votes go with it (ON DELETE CASCADE).
+   */
+  async purgeDeletedDeals(retentionDays: number, audit: AuditContext, dealIds?: number[]): Promise<number> {
+    await this.ensureInitialized();
+
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+    let query = this.supabase
+      .from('deals')
+      .delete()
+      .lt('deleted_at', cutoff);
+
+    if (dealIds) query = query.in('id', dealIds);
+
+    const { data, error } = await query.select('*');
+
+    if (error) {
+      console.error('❌ Failed to purge deleted deals:', error);
+      throw new Error(`Failed to purge deleted deals: ${error.message}`);
+    }
+
+    const purged: Deal[] = data || [];
+    await this.recordAudit(audit, purged.map(deal => ({ deal_id: deal.id!, action: 'purge' as AuditAction, before: deal, after: null })));
+
+    console.log(`🗑️ Purged ${purged.length} deals deleted before ${cutoff}`);
+    return purged.length;
+  }
+
+  /**
+   * Put a purged deal back with its original id, from the row its purge logged.
+   * Generated columns in the logged row are left for Postgres to recompute.
+   */
+  async restoreDealRow(row: Deal, audit: AuditContext): Promise<Deal> {
+    await this.ensureInitialized();
+
+    const insertable: { [column: string]: unknown } = {};
+    Object.keys(row)
+      .filter(column => GENERATED_DEAL_COLUMNS.indexOf(column) === -1)
+      .forEach(column => { insertable[column] = row[column as keyof Deal]; });
+
+    const { data, error } = await this.supabase
+      .from('deals')
+      .insert([insertable])
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to restore deal:', error);
+      throw new Error(`Failed to restore deal: ${error.message}`);
+    }
+
+    await this.recordAudit(audit, [{ deal_id: data.id, action: 'create', before: null, after: data }]);
+    console.log(`♻️ Restored purged deal ${data.id}`);
+    return data;
+  }
+
+  /**
+   * Put back column values a logged update replaced
+   */
+  async restoreDealFields(dealId: number, fields: Partial<Deal>, audit: AuditContext): Promise<Deal> {
+    return this.applyDealChanges(dealId, fields, audit);
+  }
+
+  /**
+   * Append to the audit log. A failed write is logged rather than thrown - the
+   * mutation it describes has already happened.
+   */
+  private async recordAudit(audit: AuditContext, entries: Array<Pick<DealAuditEntry, 'deal_id' | 'action' | 'before' | 'after'>>): Promise<void> {
+    if (entries.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('deal_audit_log')
+      .insert(entries.map(entry => ({
+        ...entry,
+        actor: audit.actor,
+        reason: audit.reason || null,
+        reverts_id: audit.revertsId || null
+      })));
+
+    if (error) {
+      console.error(`❌ Failed to record audit entries for deals ${entries.map(entry => entry.deal_id).join(', ')}:`, error);
+    }
+  }
+
+  async getDealHistory(dealId: number): Promise<DealAuditEntry[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deal_audit_log')
+      .select('*')
+      .eq('deal_id', dealId)
+      .order('id', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to get deal history:', error);
+      throw new Error(`Failed to get deal history: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getAuditEntry(entryId: number): Promise<DealAuditEntry | null> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deal_audit_log')
+      .select('*')
+      .eq('id', entryId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to get audit entry:', error);
+      throw new Error(`Failed to get audit entry: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getDealsByStatus(status: DealStatus, limit: number = 100): Promise<Deal[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deals')
+      .select('*')
+      .is('deleted_at', null)
+      .eq('status', status)
+      .order('confidence', { ascending: true, nullsFirst: true })
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ Failed to get deals by status:', error);
+      throw new Error(`Failed to get deals by status: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getDealStatusCounts(): Promise<{ [status: string]: number }> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deals')
+      .select('status')
+      .is('deleted_at', null);
+
+    if (error) {
+      console.error('❌ Failed to get deal status counts:', error);
+      throw new Error(`Failed to get deal status counts: ${error.message}`);
+    }
+
+    const counts: { [status: string]: number } = {};
+    (data || []).forEach((row: any) => {
+      counts[row.status] = (counts[row.status] || 0) + 1;
+    });
+    return counts;
+  }
+
+  /**
+   * Move deals to a new status on an editor's behalf. Returns the rows that
+   * actually changed status.
+   */
+  async updateDealStatus(dealIds: number[], status: DealStatus, reviewer: string): Promise<Deal[]> {
+    await this.ensureInitialized();
+
+    if (dealIds.length === 0) return [];
+
+    const { data: before, error: beforeError } = await this.supabase
+      .from('deals')
+      .select('id,status,reviewed_by,reviewed_at')
+      .in('id', dealIds)
+      .neq('status', status);
+
+    if (beforeError) {
+      console.error('❌ Failed to update deal status:', beforeError);
+      throw new Error(`Failed to update deal status: ${beforeError.message}`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('deals')
+      .update({ status, reviewed_by: reviewer, reviewed_at: new Date().toISOString() })
+      .in('id', dealIds)
+      .neq('status', status)
+      .select('*');
+
+    if (error) {
+      console.error('❌ Failed to update deal status:', error);
+      throw new Error(`Failed to update deal status: ${error.message}`);
+    }
+
+    const changed: Deal[] = data || [];
+    await this.recordAudit({ actor: `editor:${reviewer}`, reason: `Review: ${status}` }, changed.map(deal => {
+      const previous = (before || []).find((row: any) => row.id === deal.id) || {};
+      return { deal_id: deal.id!, action: 'update' as AuditAction, ...dealChanges(previous, deal, ['status', 'reviewed_by', 'reviewed_at'])! };
+    }));
+
+    console.log(`🗂️ ${reviewer} moved ${changed.length} deals to ${status}`);
+    return changed;
+  }
+
+  async saveDealTerms(terms: Omit<DealTerms, 'id' | 'created_at'>): Promise<number> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deal_terms')
+      .upsert([{
+        deal_id: terms.deal_id,
+        parties: terms.parties,
+        amount: terms.amount,
+        currency: terms.currency,
+        instrument_type: terms.instrument_type,
+        tenor: terms.tenor,
+        pricing: terms.pricing,
+        use_of_proceeds: terms.use_of_proceeds
+      }], { onConflict: 'deal_id' })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to save deal terms:', error);
+      throw new Error(`Failed to save deal terms: ${error.message}`);
+    }
+
+    console.log(`📑 Saved deal terms for deal ${terms.deal_id}`);
+    return data.id;
+  }
+
+  async getDealTerms(dealId: number): Promise<DealTerms | null> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deal_terms')
+      .select('*')
+      .eq('deal_id', dealId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to get deal terms:', error);
+      throw new Error(`Failed to get deal terms: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async saveDealProvenance(record: Omit<DealProvenanceRecord, 'id' | 'created_at'>): Promise<void> {
+    await this.ensureInitialized();
+
+    const { error } = await this.supabase
+      .from('deal_provenance')
+      .upsert([record], { onConflict: 'deal_id' });
+
+    if (error) {
+      console.error('❌ Failed to save deal provenance:', error);
+      throw new Error(`Failed to save deal provenance: ${error.message}`);
+    }
+  }
+
+  async getDealProvenance(dealId: number): Promise<DealProvenanceRecord | null> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deal_provenance')
+      .select('*')
+      .eq('deal_id', dealId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to get deal provenance:', error);
+      throw new Error(`Failed to get deal provenance: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getDealTermsForDeals(dealIds: number[]): Promise<DealTerms[]> {
+    await this.ensureInitialized();
+
+    if (dealIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('deal_terms')
+      .select('*')
+      .in('deal_id', dealIds);
+
+    if (error) {
+      console.error('❌ Failed to get deal terms:', error);
+      throw new Error(`Failed to get deal terms: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getLargestDealTerms(limit: number = 50, currency?: string): Promise<DealTerms[]> {
+    await this.ensureInitialized();
+
+    let query = this.supabase
+      .from('deal_terms')
+      .select('*')
+      .not('amount', 'is', null);
+
+    if (currency) {
+      query = query.eq('currency', currency);
+    }
+
+    const { data, error } = await query
+      .order('amount', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ Failed to get largest deal terms:', error);
+      throw new Error(`Failed to get largest deal terms: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getDealTermsByParty(name: string, role?: DealPartyRole): Promise<DealTerms[]> {
+    await this.ensureInitialized();
+
+    const party: Partial<DealParty> = role ? { name, role } : { name };
+
+    const { data, error } = await this.supabase
+      .from('deal_terms')
+      .select('*')
+      .contains('parties', [party])
+      .order('amount', { ascending: false, nullsFirst: false });
+
+    if (error) {
+      console.error('❌ Failed to get deal terms by party:', error);
+      throw new Error(`Failed to get deal terms by party: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getEntities(): Promise<Entity[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('entities')
+      .select('*')
+      .order('canonical_name');
+
+    if (error) {
+      console.error('❌ Failed to get entities:', error);
+      throw new Error(`Failed to get entities: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getEntityById(entityId: number): Promise<Entity | null> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('entities')
+      .select('*')
+      .eq('id', entityId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to get entity:', error);
+      throw new Error(`Failed to get entity: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getEntityBySlug(slug: string): Promise<Entity | null> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('entities')
+      .select('*')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to get entity by slug:', error);
+      throw new Error(`Failed to get entity by slug: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async saveEntity(entity: Omit<Entity, 'id' | 'created_at'>): Promise<Entity> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('entities')
+      .insert([{
+        slug: entity.slug,
+        canonical_name: entity.canonical_name,
+        type: entity.type,
+        aliases: entity.aliases,
+        tickers: entity.tickers,
+        parent_id: entity.parent_id || null
+      }])
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to save entity:', error);
+      throw new Error(`Failed to save entity: ${error.message}`);
+    }
+
+    console.log(`🏢 Registered entity "${entity.canonical_name}" (${entity.type}) with ID: ${data.id}`);
+    return data;
+  }
+
+  async updateEntity(entityId: number, updates: Partial<Omit<Entity, 'id' | 'created_at'>>): Promise<Entity> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('entities')
+      .update(updates)
+      .eq('id', entityId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to update entity:', error);
+      throw new Error(`Failed to update entity: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async linkDealEntities(links: Omit<DealEntityLink, 'created_at'>[]): Promise<void> {
+    await this.ensureInitialized();
+
+    if (links.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('deal_entities')
+      .upsert(links, { onConflict: 'deal_id,entity_id,role', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('❌ Failed to link deal entities:', error);
+      throw new Error(`Failed to link deal entities: ${error.message}`);
+    }
+
+    console.log(`🔗 Linked ${links.length} entities to deal ${links[0].deal_id}`);
+  }
+
+  async getDealEntityLinks(dealId: number): Promise<DealEntityLink[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deal_entities')
+      .select('*')
+      .eq('deal_id', dealId);
+
+    if (error) {
+      console.error('❌ Failed to get deal entity links:', error);
+      throw new Error(`Failed to get deal entity links: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getEntityDealLinks(entityId: number): Promise<DealEntityLink[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deal_entities')
+      .select('*')
+      .eq('entity_id', entityId);
+
+    if (error) {
+      console.error('❌ Failed to get entity deal links:', error);
+      throw new Error(`Failed to get entity deal links: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getEntityDealLinksForEntities(entityIds: number[]): Promise<DealEntityLink[]> {
+    await this.ensureInitialized();
+
+    if (entityIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('deal_entities')
+      .select('*')
+      .in('entity_id', entityIds);
+
+    if (error) {
+      console.error('❌ Failed to get entity deal links:', error);
+      throw new Error(`Failed to get entity deal links: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Entities whose parent is one of these, e.g. a manager's funds
+   */
+  async getEntitiesByParentIds(parentIds: number[]): Promise<Entity[]> {
+    await this.ensureInitialized();
+
+    if (parentIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('entities')
+      .select('*')
+      .in('parent_id', parentIds);
+
+    if (error) {
+      console.error('❌ Failed to get child entities:', error);
+      throw new Error(`Failed to get child entities: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getEntitiesByIds(entityIds: number[]): Promise<Entity[]> {
+    await this.ensureInitialized();
+
+    if (entityIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('entities')
+      .select('*')
+      .in('id', entityIds);
+
+    if (error) {
+      console.error('❌ Failed to get entities by IDs:', error);
+      throw new Error(`Failed to get entities by IDs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getDealEntityLinksForDeals(dealIds: number[]): Promise<DealEntityLink[]> {
+    await this.ensureInitialized();
+
+    if (dealIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('deal_entities')
+      .select('*')
+      .in('deal_id', dealIds);
+
+    if (error) {
+      console.error('❌ Failed to get deal entity links:', error);
+      throw new Error(`Failed to get deal entity links: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getDealsByIds(dealIds: number[], publishedOnly: boolean = true): Promise<Deal[]> {
+    await this.ensureInitialized();
+
+    if (dealIds.length === 0) return [];
+
+    let query = this.supabase
+      .from('deals')
+      .select('*')
+      .is('deleted_at', null)
+      .in('id', dealIds);
+
+    if (publishedOnly) query = query.eq('status', 'published');
+
+    const { data, error } = await query.order('date', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to get deals by IDs:', error);
+      throw new Error(`Failed to get deals by IDs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getWatchlists(owner?: string | null): Promise<Watchlist[]> {
+    await this.ensureInitialized();
+
+    let query = this.supabase
+      .from('watchlists')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (owner) query = query.eq('owner', owner.toLowerCase());
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Failed to get watchlists:', error);
+      throw new Error(`Failed to get watchlists: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getActiveWatchlists(): Promise<Watchlist[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('watchlists')
+      .select('*')
+      .eq('active', true);
+
+    if (error) {
+      console.error('❌ Failed to get active watchlists:', error);
+      throw new Error(`Failed to get active watchlists: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getWatchlistById(watchlistId: number): Promise<Watchlist | null> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('watchlists')
+      .select('*')
+      .eq('id', watchlistId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to get watchlist:', error);
+      throw new Error(`Failed to get watchlist: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async saveWatchlist(watchlist: Omit<Watchlist, 'id' | 'created_at' | 'updated_at'>): Promise<Watchlist> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('watchlists')
+      .insert([watchlist])
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to save watchlist:', error);
+      throw new Error(`Failed to save watchlist: ${error.message}`);
+    }
+
+    console.log(`👀 Saved watchlist "${watchlist.name}" for ${watchlist.owner} with ID: ${data.id}`);
+    return data;
+  }
+
+  async updateWatchlist(watchlistId: number, updates: Partial<Omit<Watchlist, 'id' | 'created_at' | 'updated_at'>>): Promise<Watchlist> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('watchlists')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', watchlistId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to update watchlist:', error);
+      throw new Error(`Failed to update watchlist: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteWatchlist(watchlistId: number): Promise<void> {
+    await this.ensureInitialized();
+
+    const { error } = await this.supabase
+      .from('watchlists')
+      .delete()
+      .eq('id', watchlistId);
+
+    if (error) {
+      console.error('❌ Failed to delete watchlist:', error);
+      throw new Error(`Failed to delete watchlist: ${error.message}`);
+    }
+  }
+
+  /**
+   * Record alerts, skipping (watchlist, deal) pairs that were already alerted.
+   * Returns only the newly created rows.
+   */
+  async saveWatchlistAlerts(alerts: Omit<WatchlistAlert, 'id' | 'created_at' | 'delivered_at' | 'delivery_error'>[]): Promise<WatchlistAlert[]> {
+    await this.ensureInitialized();
+
+    if (alerts.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('watchlist_alerts')
+      .upsert(alerts, { onConflict: 'watchlist_id,deal_id', ignoreDuplicates: true })
+      .select('*');
+
+    if (error) {
+      console.error('❌ Failed to save watchlist alerts:', error);
+      throw new Error(`Failed to save watchlist alerts: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async markWatchlistAlertDelivery(alertId: number, deliveryError: string | null): Promise<void> {
+    await this.ensureInitialized();
+
+    const { error } = await this.supabase
+      .from('watchlist_alerts')
+      .update({
+        delivered_at: deliveryError ? null : new Date().toISOString(),
+        delivery_error: deliveryError
+      })
+      .eq('id', alertId);
+
+    if (error) {
+      console.error('❌ Failed to update watchlist alert:', error);
+      throw new Error(`Failed to update watchlist alert: ${error.message}`);
+    }
+  }
+
+  async getWatchlistAlerts(watchlistId: number, limit: number = 50): Promise<WatchlistAlert[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('watchlist_alerts')
+      .select('*')
+      .eq('watchlist_id', watchlistId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ Failed to get watchlist alerts:', error);
+      throw new Error(`Failed to get watchlist alerts: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getNewsFeeds(activeOnly: boolean = false): Promise<NewsFeed[]> {
+    await this.ensureInitialized();
+
+    let query = this.supabase
+      .from('news_feeds')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (activeOnly) query = query.eq('active', true);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Failed to get news feeds:', error);
+      throw new Error(`Failed to get news feeds: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getNewsFeedById(feedId: number): Promise<NewsFeed | null> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('news_feeds')
+      .select('*')
+      .eq('id', feedId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to get news feed:', error);
+      throw new Error(`Failed to get news feed: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async saveNewsFeed(feed: Omit<NewsFeed, 'id' | 'created_at' | 'updated_at'>): Promise<NewsFeed> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('news_feeds')
+      .insert([feed])
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to save news feed:', error);
+      throw new Error(`Failed to save news feed: ${error.message}`);
+    }
+
+    console.log(`📰 Registered news feed "${feed.name}" (${feed.url}) with ID: ${data.id}`);
+    return data;
+  }
+
+  async updateNewsFeed(feedId: number, updates: Partial<Omit<NewsFeed, 'id' | 'created_at' | 'updated_at'>>): Promise<NewsFeed> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('news_feeds')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', feedId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to update news feed:', error);
+      throw new Error(`Failed to update news feed: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteNewsFeed(feedId: number): Promise<void> {
+    await this.ensureInitialized();
+
+    const { error } = await this.supabase
+      .from('news_feeds')
+      .delete()
+      .eq('id', feedId);
+
+    if (error) {
+      console.error('❌ Failed to delete news feed:', error);
+      throw new Error(`Failed to delete news feed: ${error.message}`);
+    }
+  }
+
+  async getFeedStates(sourceIds: string[]): Promise<FeedState[]> {
+    await this.ensureInitialized();
+
+    if (sourceIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('feed_state')
+      .select('*')
+      .in('source_id', sourceIds);
+
+    if (error) {
+      console.error('❌ Failed to get feed state:', error);
+      throw new Error(`Failed to get feed state: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async saveFeedState(state: Omit<FeedState, 'updated_at'>): Promise<void> {
+    await this.ensureInitialized();
+
+    const { error } = await this.supabase
+      .from('feed_state')
+      .upsert([{ ...state, updated_at: new Date().toISOString() }], { onConflict: 'source_id' });
+
+    if (error) {
+      console.error('❌ Failed to save feed state:', error);
+      throw new Error(`Failed to save feed state: ${error.message}`);
+    }
+  }
+
+  async getDealsByDate(date: string, filters: DealClassificationFilters = {}): Promise<Deal[]> {
+    await this.ensureInitialized();
+    
+    const query = this.supabase
+      .from('deals')
+      .select('*')
+      .is('deleted_at', null)
+      .eq('date', date)
+      .eq('status', 'published');
+
+    const { data, error } = await applyClassificationFilters(query, filters)
+      .order('upvotes', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to get deals by date:', error);
+      throw new Error(`Failed to get deals by date: ${error.message}`);
+    }
+
+    console.log(`📊 Retrieved ${data?.length || 0} deals for date ${date}`);
+    return data || [];
+  }
+
+  async getDealsByDateRange(startDate: string, endDate: string, filters: DealClassificationFilters = {}): Promise<Deal[]> {
+    await this.ensureInitialized();
+    
+    const query = this.supabase
+      .from('deals')
+      .select('*')
+      .is('deleted_at', null)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .eq('status', 'published');
+
+    const { data, error } = await applyClassificationFilters(query, filters)
+      .order('upvotes', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to get deals by date range:', error);
+      throw new Error(`Failed to get deals by date range: ${error.message}`);
+    }
+
+    console.log(`📊 Retrieved ${data?.length || 0} deals for date range ${startDate} to ${endDate}`);
+    return data || [];
+  }
+
+  async getDealsByCategory(category: string, limit: number = 15, filters: DealClassificationFilters = {}): Promise<Deal[]> {
+    await this.ensureInitialized();
+    
+    const query = this.supabase
+      .from('deals')
+      .select('*')
+      .is('deleted_at', null)
+      .in('category', categoryWithDescendants(category))
+      .eq('status', 'published');
+
+    const { data, error } = await applyClassificationFilters(query, filters)
+      .order('upvotes', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ Failed to get deals by category:', error);
+      throw new Error(`Failed to get deals by category: ${error.message}`);
     }
 
-    const deletedCount = data?.length || 0;
-    console.log(`🧹 Cleaned up ${deletedCount} invalid articles`);
-    return deletedCount;
+    return data || [];
+  }
+
+  async upvoteArticle(articleId: number, userIp: string): Promise<boolean> {
+    await this.ensureInitialized();
+    
+    try {
+      // Check if user already voted
+      const { data: existingVote, error: checkError } = await this.supabase
+        .from('votes')
+        .select('id')
+        .eq('article_id', articleId)
+        .eq('user_ip', userIp)
+        .single();
+
+      if (checkError && checkError.code !== 'PGRST116') {
+        throw new Error(`Failed to check existing vote: ${checkError.message}`);
+      }
+
+      if (existingVote) {
+        return false; // Already voted
+      }
+
+      // Add vote
+      const { error: voteError } = await this.supabase
+        .from('votes')
+        .insert([{ article_id: articleId, user_ip: userIp }]);
+
+      if (voteError) {
+        throw new Error(`Failed to add vote: ${voteError.message}`);
+      }
+
+      // Try to use the increment function first
+      try {
+        const { error: updateError } = await this.supabase.rpc('increment_upvotes', {
+          article_id: articleId
+        });
+
+        if (updateError) {
+          throw new Error('RPC function not available');
+        }
+      } catch (rpcError) {
+        // Fallback: manual increment
+        console.log('Using manual upvote increment (RPC function not available)');
+        
+        // Get current upvote count
+        const { data: currentData, error: getCurrentError } = await this.supabase
+          .from('deals')
+          .select('upvotes')
+          .eq('id', articleId)
+          .single();
+
+        if (getCurrentError) {
+          throw new Error(`Failed to get current upvotes: ${getCurrentError.message}`);
+        }
+
+        // Increment manually
+        const { error: manualUpdateError } = await this.supabase
+          .from('deals')
+          .update({ upvotes: (currentData.upvotes || 0) + 1 })
+          .eq('id', articleId);
+          
+        if (manualUpdateError) {
+          throw new Error(`Failed to update upvotes: ${manualUpdateError.message}`);
+        }
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error in upvoteArticle:', error);
+      throw error;
+    }
   }
 
-  async deleteDeal(dealId: number): Promise<void> {
+  async getAvailableDates(): Promise<string[]> {
     await this.ensureInitialized();
     
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('deals')
-      .delete()
-      .eq('id', dealId);
-      
+      .select('date')
+      .is('deleted_at', null)
+      .eq('status', 'published')
+      .order('date', { ascending: false });
+
     if (error) {
-      console.error('❌ Failed to delete deal:', error);
-      throw new Error(`Failed to delete deal: ${error.message}`);
+      console.error('❌ Failed to get available dates:', error);
+      throw new Error(`Failed to get available dates: ${error.message}`);
     }
-      
-    console.log(`🗑️ Successfully deleted deal ID: ${dealId}`);
+
+    // Get unique dates
+    const uniqueDates = Array.from(new Set((data || []).map((d: any) => d.date as string))) as string[];
+    return uniqueDates;
   }
 
-  async deleteDealsByIds(dealIds: number[]): Promise<boolean> {
+  async getAvailableCategories(): Promise<string[]> {
     await this.ensureInitialized();
     
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('deals')
-      .delete()
-      .in('id', dealIds);
+      .select('category')
+      .is('deleted_at', null)
+      .eq('status', 'published')
+      .order('category');
 
     if (error) {
-      console.error('❌ Failed to delete deals:', error);
-      throw new Error(`Failed to delete deals: ${error.message}`);
+      console.error('❌ Failed to get available categories:', error);
+      throw new Error(`Failed to get available categories: ${error.message}`);
     }
 
-    console.log(`🗑️ Deleted ${dealIds.length} deals with IDs: ${dealIds.join(', ')}`);
+    // Get unique categories
+    const uniqueCategories = Array.from(new Set((data || []).map((d: any) => d.category as string))) as string[];
+    return uniqueCategories;
+  }
+
+  /**
+   * Distinct values of a categorical deals column, with how many deals carry each
+   */
+  async getCategoryValueCounts(column: 'category' | 'deal_type'): Promise<Array<{ value: string | null; count: number }>> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deals')
+      .select(column)
+      .is('deleted_at', null);
+
+    if (error) {
+      console.error(`❌ Failed to get ${column} values:`, error);
+      throw new Error(`Failed to get ${column} values: ${error.message}`);
+    }
+
+    const counts = new Map<string | null, number>();
+    (data || []).forEach((row: any) => {
+      const value = row[column] ?? null;
+      counts.set(value, (counts.get(value) || 0) + 1);
+    });
+
+    return Array.from(counts.entries()).map(([value, count]) => ({ value, count }));
+  }
+
+  async getDealsByCategoryValue(column: 'category' | 'deal_type', value: string | null): Promise<Deal[]> {
+    await this.ensureInitialized();
+
+    const query = this.supabase.from('deals').select(DEAL_COLUMNS).is('deleted_at', null);
+    const { data, error } = await (value === null ? query.is(column, null) : query.eq(column, value));
+
+    if (error) {
+      console.error(`❌ Failed to get deals by ${column}:`, error);
+      throw new Error(`Failed to get deals by ${column}: ${error.message}`);
+    }
+
+    return (data || []) as unknown as Deal[];
+  }
+
+  /**
+   * Rewrite every deal whose column holds exactly one value; returns the number of rows changed
+   */
+  async remapCategoryValue(column: 'category' | 'deal_type', from: string, to: string, audit: AuditContext): Promise<number> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deals')
+      .update({ [column]: to })
+      .eq(column, from)
+      .select('id');
+
+    if (error) {
+      console.error(`❌ Failed to remap ${column} "${from}":`, error);
+      throw new Error(`Failed to remap ${column}: ${error.message}`);
+    }
+
+    await this.recordAudit(audit, (data || []).map((row: any) => ({
+      deal_id: row.id,
+      action: 'update' as AuditAction,
+      before: { [column]: from },
+      after: { [column]: to }
+    })));
+
+    return data?.length || 0;
+  }
+
+  async updateDealCategoryValue(dealId: number, column: 'category' | 'deal_type', value: string, audit: AuditContext): Promise<boolean> {
+    await this.applyDealChanges(dealId, { [column]: value }, audit);
     return true;
   }
 
-  async updateDealSourceUrl(dealId: number, sourceUrl: string, originalSource?: string): Promise<boolean> {
+  /**
+   * Every deal regardless of status unless one is given - maintenance jobs see
+   * drafts and the review queue too
+   */
+  async getAllDeals(status?: DealStatus): Promise<Deal[]> {
     await this.ensureInitialized();
     
-    const updateData: any = { source_url: sourceUrl };
+    console.log('🔍 DEBUG: Executing getAllDeals with order: date DESC, upvotes DESC');
     
-    // Update source attribution if provided
-    if (originalSource) {
-      updateData.source = originalSource;
+    let query = this.supabase
+      .from('deals')
+      .select('*')
+      .is('deleted_at', null);
+
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query
+      .order('date', { ascending: false })        // 1st priority: newest date
+      .order('upvotes', { ascending: false })     // 2nd priority: highest upvotes  
+      .order('created_at', { ascending: false }); // 3rd priority: newest created_at
+
+    if (error) {
+      console.error('❌ Failed to get all deals:', error);
+      throw new Error(`Failed to get all deals: ${error.message}`);
     }
+
+    const sortedData = data || [];
+    console.log(`📊 Retrieved ${sortedData.length} deals from Supabase`);
+    console.log(`🎯 First 3 deals: ${sortedData.slice(0, 3).map(d => `${d.id}:${d.date}`).join(', ')}`);
     
-    const { error } = await this.supabase
+    return sortedData;
+  }
+
+  // Backs the public /api/funds lookup, so only published deals match
+  async searchDealsByTitle(title: string): Promise<Deal[]> {
+    await this.ensureInitialized();
+    const { data, error } = await this.supabase
       .from('deals')
-      .update(updateData)
-      .eq('id', dealId);
+      .select('*')
+      .is('deleted_at', null)
+      .eq('status', 'published')
+      .ilike('title', `%${title}%`)
+      .order('date', { ascending: false });
+    if (error) throw new Error(`Search failed: ${error.message}`);
+    return data || [];
+  }
+
+  async listDeals(options: ListDealsOptions = {}): Promise<Deal[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .rpc('list_deals', {
+        sort_by: options.sort || 'date',
+        cursor_value: options.cursorValue ?? null,
+        cursor_id: options.cursorId ?? null,
+        page_size: options.limit || 20,
+        filter_from: options.from || null,
+        filter_to: options.to || null,
+        filter_category: options.category || null,
+        filter_region: options.region || null,
+        filter_deal_type: options.dealType || null,
+        filter_domain: options.domain || null,
+        filter_min_amount: options.minAmount ?? null
+      })
+      .select(DEAL_COLUMNS);
 
     if (error) {
-      console.error('❌ Failed to update deal source URL:', error);
-      throw new Error(`Failed to update deal source URL: ${error.message}`);
+      console.error('❌ Failed to list deals:', error);
+      throw new Error(`Failed to list deals: ${error.message}`);
     }
 
-    console.log(`🔗 Updated deal ${dealId} with source URL: ${sourceUrl}`);
-    return true;
+    return (data || []) as unknown as Deal[];
+  }
+
+  async searchDeals(options: SearchOptions): Promise<SearchHitRow[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase.rpc('search_deals', {
+      q: options.query,
+      filter_category: options.category || null,
+      filter_region: options.region || null,
+      filter_month: options.month || null,
+      cursor_rank: options.cursorRank ?? null,
+      cursor_id: options.cursorId ?? null,
+      page_size: options.limit || 20
+    });
+
+    if (error) {
+      console.error('❌ Failed to search deals:', error);
+      throw new Error(`Search failed: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getSearchFacets(options: Omit<SearchOptions, 'cursorRank' | 'cursorId' | 'limit'>): Promise<SearchFacetRow[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase.rpc('search_deal_facets', {
+      q: options.query,
+      filter_category: options.category || null,
+      filter_region: options.region || null,
+      filter_month: options.month || null
+    });
+
+    if (error) {
+      console.error('❌ Failed to get search facets:', error);
+      throw new Error(`Search facets failed: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => ({ ...row, count: Number(row.count) }));
   }
 
-  async updateDealDate(dealId: number, newDate: string): Promise<boolean> {
+  async cleanupInvalidArticles(audit: AuditContext): Promise<number> {
     await this.ensureInitialized();
     
-    const { error } = await this.supabase
+    // Only remove obvious placeholder content
+    const { data, error } = await this.supabase
       .from('deals')
-      .update({ date: newDate })
-      .eq('id', dealId);
+      .select('id')
+      .is('deleted_at', null)
+      .or(`title.ilike.%News Update%,summary.ilike.%No summary available%`);
 
     if (error) {
-      console.error('❌ Failed to update deal date:', error);
-      throw new Error(`Failed to update deal date: ${error.message}`);
+      console.error('❌ Failed to cleanup invalid articles:', error);
+      throw new Error(`Failed to cleanup invalid articles: ${error.message}`);
+    }
+
+    const deleted = await this.deleteDealRows((data || []).map((row: any) => row.id), audit);
+    const deletedCount = deleted.length;
+    console.log(`🧹 Cleaned up ${deletedCount} invalid articles`);
+    return deletedCount;
+  }
+
+  async deleteDeal(dealId: number, audit: AuditContext): Promise<void> {
+    await this.deleteDealRows([dealId], audit);
+    console.log(`🗑️ Successfully deleted deal ID: ${dealId}`);
+  }
+
+  async deleteDealsByIds(dealIds: number[], audit: AuditContext): Promise<boolean> {
+    await this.deleteDealRows(dealIds, audit);
+    console.log(`🗑️ Deleted ${dealIds.length} deals with IDs: ${dealIds.join(', ')}`);
+    return true;
+  }
+
+  async updateDealSourceUrl(dealId: number, sourceUrl: string, originalSource: string | undefined, audit: AuditContext): Promise<boolean> {
+    const updateData: Partial<Deal> = { source_url: sourceUrl };
+    
+    // Update source attribution if provided
+    if (originalSource) {
+      updateData.source = originalSource;
     }
+    
+    await this.applyDealChanges(dealId, updateData, audit);
+
+    console.log(`🔗 Updated deal ${dealId} with source URL: ${sourceUrl}`);
+    return true;
+  }
+
+  async updateDealDate(dealId: number, newDate: string, audit: AuditContext): Promise<boolean> {
+    await this.applyDealChanges(dealId, { date: newDate }, audit);
 
     console.log(`📅 Updated deal ${dealId} with new date: ${newDate}`);
     return true;
   }
 
+  async updateDealClassification(dealId: number, classification: DealClassification, audit: AuditContext): Promise<boolean> {
+    await this.applyDealChanges(dealId, {
+      region: classification.region,
+      countries: classification.countries,
+      deal_type: classification.deal_type
+    }, audit);
+
+    return true;
+  }
+
+  // Live deals in id order, for batch jobs that page through the archive
+  async getDealsAfterId(afterId: number, limit: number): Promise<Deal[]> {
+    await this.ensureInitialized();
+
+    const { data, error } = await this.supabase
+      .from('deals')
+      .select(DEAL_COLUMNS)
+      .is('deleted_at', null)
+      .gt('id', afterId)
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ Failed to get deals after id:', error);
+      throw new Error(`Failed to get deals after id: ${error.message}`);
+    }
+
+    return (data || []) as unknown as Deal[];
+  }
+
+  /**
+   * Live deals of any status dated from startDate to endDate (open-ended when
+   * null), newest created first, for dedup runs over a recent window.
+   * With limit, only that many of the newest are returned.
+   */
+  async getAllDealsByDateRange(startDate: string, endDate: string | null, limit?: number): Promise<Deal[]> {
+    await this.ensureInitialized();
+
+    let query = this.supabase
+      .from('deals')
+      .select(DEAL_COLUMNS)
+      .is('deleted_at', null)
+      .gte('date', startDate);
+
+    if (endDate) query = query.lte('date', endDate);
+
+    const ordered = query.order('created_at', { ascending: false });
+    const { data, error } = await (limit ? ordered.limit(limit) : ordered);
+
+    if (error) {
+      console.error('❌ Failed to get all deals by date range:', error);
+      throw new Error(`Failed to get all deals by date range: ${error.message}`);
+    }
+
+    return (data || []) as unknown as Deal[];
+  }
+
+  /**
+   * Page through deals in id order for the classification backfill.
+   * With onlyMissing, rows that already have a region are skipped.
+   */
+  async getDealsForClassification(afterId: number, limit: number, onlyMissing: boolean = true): Promise<Deal[]> {
+    await this.ensureInitialized();
+
+    let query = this.supabase
+      .from('deals')
+      .select(DEAL_COLUMNS)
+      .is('deleted_at', null)
+      .gt('id', afterId)
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (onlyMissing) {
+      query = query.is('region', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Failed to get deals for classification:', error);
+      throw new Error(`Failed to get deals for classification: ${error.message}`);
+    }
+
+    return (data || []) as unknown as Deal[];
+  }
+
   async findDuplicateDeals(title: string, date: string): Promise<Deal[]> {
     await this.ensureInitialized();
-    
-    // Normalize title for comparison
-    const normalizedTitle = title.toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .replace(/\s+/g, ' ')
-      .trim();
-    
+
+    // Deleted deals still count, so a cleaned-up duplicate is not ingested again
     const { data, error } = await this.supabase
       .from('deals')
       .select('*')
@@ -565,21 +2257,7 @@ CREATE POLICY "Anyone can insert votes" ON votes
       throw new Error(`Failed to find duplicate deals: ${error.message}`);
     }
 
-    // Filter by title similarity
-    const duplicates = (data || []).filter(deal => {
-      const dealTitle = deal.title.toLowerCase()
-        .replace(/[^\w\s]/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
-      
-      // Check for exact match or high similarity
-      return dealTitle === normalizedTitle || 
-             (dealTitle.length > 10 && normalizedTitle.length > 10 && 
-              (dealTitle.includes(normalizedTitle.substring(0, 15)) ||
-               normalizedTitle.includes(dealTitle.substring(0, 15))));
-    });
-
-    return duplicates;
+    return (data || []).filter(deal => isDuplicateTitle(deal.title, title));
   }
 }
 
@@ -0,0 +1,73 @@
+import { getDatabase } from './database';
+import { findCategory, normalizeCategory } from './taxonomy';
+
+// Placeholder category the extraction fallbacks used to write
+const GENERIC_LEGACY_CATEGORY = 'Deal Activity';
+
+type CategoryColumn = 'category' | 'deal_type';
+
+export interface CategoryMapping {
+  column: CategoryColumn;
+  from: string | null;
+  to: string | null;          // null when each deal is re-inferred from its own text
+  deals: number;
+}
+
+export interface TaxonomyMigrationResult {
+  dryRun: boolean;
+  mappings: CategoryMapping[];
+  updated: number;
+}
+
+/**
+ * Map the free-form category and deal_type values already stored on deals onto
+ * taxonomy paths. Values that name a taxonomy node (by path, name or legacy name)
+ * are rewritten in bulk; generic or unknown values are re-inferred per deal from
+ * its title and summary. With dryRun nothing is written.
+ */
+export async function migrateDealCategories(dryRun: boolean = true): Promise<TaxonomyMigrationResult> {
+  const db = getDatabase();
+  const mappings: CategoryMapping[] = [];
+  let updated = 0;
+
+  for (const column of ['category', 'deal_type'] as CategoryColumn[]) {
+    const values = await db.getCategoryValueCounts(column);
+
+    for (const { value, count } of values) {
+      const node = findCategory(value);
+
+      // Already a taxonomy path
+      if (node && node.path === value) continue;
+
+      // deal_type is filled by the classification backfill, not guessed here
+      if (value === null && column === 'deal_type') continue;
+
+      // 'Deal Activity', empty and unrecognised values say nothing about the deal
+      const reinfer = !node || value === GENERIC_LEGACY_CATEGORY;
+      mappings.push({ column, from: value, to: reinfer ? null : node!.path, deals: count });
+
+      if (dryRun) continue;
+
+      if (!reinfer) {
+        updated += await db.remapCategoryValue(column, value!, node!.path, { actor: 'taxonomy-migration', reason: 'Mapped onto the taxonomy' });
+        continue;
+      }
+
+      const deals = await db.getDealsByCategoryValue(column, value);
+      for (const deal of deals) {
+        try {
+          await db.updateDealCategoryValue(deal.id!, column, normalizeCategory(null, `${deal.title} ${deal.summary}`), {
+            actor: 'taxonomy-migration',
+            reason: `Re-inferred from unrecognised value "${value}"`
+          });
+          updated++;
+        } catch (error) {
+          console.error(`❌ Failed to migrate ${column} of deal ${deal.id}:`, error);
+        }
+      }
+    }
+  }
+
+  console.log(`🗂️ Taxonomy migration ${dryRun ? '(dry run) ' : ''}found ${mappings.length} values to map, updated ${updated} deals`);
+  return { dryRun, mappings, updated };
+}
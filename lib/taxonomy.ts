@@ -0,0 +1,258 @@
+// Single source of truth for deal categories. The Perplexity search topics, the
+// extraction and classification prompts, category validation on save and the UI
+// filters all read from this tree. Deals store the full path of a node, e.g.
+// "Private Credit > Direct Lending > Unitranche", so filtering on a parent path
+// also matches everything beneath it.
+
+export const CATEGORY_SEPARATOR = ' > ';
+export const DEFAULT_CATEGORY = 'Market News';
+
+export interface TaxonomyNode {
+  name: string;
+  path: string;
+  depth: number;
+  description: string;
+  searchTopic?: string;       // Perplexity search run for this branch on every fetch
+  legacyNames: string[];      // category values used before the taxonomy existed
+  children: TaxonomyNode[];
+}
+
+interface TaxonomyDefinition {
+  name: string;
+  description: string;
+  searchTopic?: string;
+  legacyNames?: string[];
+  children?: TaxonomyDefinition[];
+}
+
+const DEFINITION: TaxonomyDefinition[] = [
+  {
+    name: 'Private Credit',
+    description: 'non-bank lending to companies, assets and funds',
+    searchTopic: 'Private Debt/Credit Transactions',
+    legacyNames: ['Private Debt/Credit Transactions', 'Private Credit'],
+    children: [
+      {
+        name: 'Direct Lending',
+        description: 'loans, credit lines and refinancings provided directly to companies',
+        searchTopic: 'Company Investments and Financing',
+        legacyNames: ['Credit Facility', 'Company Investments and Financing', 'Direct Lending'],
+        children: [
+          { name: 'Unitranche', description: 'single-tranche blended senior/junior loans' },
+          { name: 'Revolving Credit Facility', description: 'revolvers and working-capital lines' }
+        ]
+      },
+      {
+        name: 'Acquisition Financing',
+        description: 'debt backing LBOs and acquisitions',
+        legacyNames: ['M&A Financing']
+      },
+      {
+        name: 'Asset-Based Finance',
+        description: 'ABL, equipment, receivables and warehouse facilities',
+        children: [
+          { name: 'CLO / Securitization', description: 'CLO issuance and securitizations', legacyNames: ['CLO/Securitization'] }
+        ]
+      },
+      {
+        name: 'Fund Finance',
+        description: 'NAV loans, subscription lines and GP financing'
+      },
+      {
+        name: 'Real Estate Credit',
+        description: 'property and commercial mortgage lending',
+        legacyNames: ['Real Estate Credit', 'Real Estate']
+      },
+      {
+        name: 'Infrastructure Credit',
+        description: 'infrastructure, energy and digital infrastructure debt',
+        legacyNames: ['Infrastructure Credit', 'Infrastructure']
+      },
+      {
+        name: 'Special Situations',
+        description: 'distressed debt, restructurings and rescue financing',
+        legacyNames: ['Special Situations', 'Distressed']
+      }
+    ]
+  },
+  {
+    name: 'Fundraising',
+    description: 'fund launches, closings and capital raises',
+    searchTopic: 'Fund Launches and Closings',
+    legacyNames: ['Fund Raising', 'Fund Raised', 'Fund Launches and Closings'],
+    children: [
+      { name: 'Fund Launch', description: 'new funds and strategies announced' },
+      { name: 'Fund Close', description: 'first, interim and final closes' }
+    ]
+  },
+  {
+    name: 'Private Equity',
+    description: 'equity investments by private equity sponsors',
+    searchTopic: 'Private Equity Deals',
+    legacyNames: ['Private Equity', 'Private Equity Deals'],
+    children: [
+      { name: 'Buyouts', description: 'acquisitions, take-privates and mergers', legacyNames: ['M&A'] },
+      { name: 'Growth Equity', description: 'minority and growth investments' },
+      { name: 'Exits', description: 'IPOs, sales and other realisations', legacyNames: ['Public Markets'] }
+    ]
+  },
+  {
+    name: 'Credit Ratings',
+    description: 'rating actions, upgrades and downgrades',
+    legacyNames: ['Credit Rating']
+  },
+  {
+    name: 'Market News',
+    description: 'commentary and updates not tied to a single transaction',
+    legacyNames: ['Market News', 'Deal Activity'],
+    children: [
+      { name: 'Manager Reports', description: 'generated research reports on a manager', legacyNames: ['Fund Report'] }
+    ]
+  }
+];
+
+function build(definitions: TaxonomyDefinition[], parentPath: string = '', depth: number = 0): TaxonomyNode[] {
+  return definitions.map(definition => {
+    const path = parentPath ? `${parentPath}${CATEGORY_SEPARATOR}${definition.name}` : definition.name;
+    return {
+      name: definition.name,
+      path,
+      depth,
+      description: definition.description,
+      searchTopic: definition.searchTopic,
+      legacyNames: definition.legacyNames || [],
+      children: build(definition.children || [], path, depth + 1)
+    };
+  });
+}
+
+export const TAXONOMY: TaxonomyNode[] = build(DEFINITION);
+
+function flatten(nodes: TaxonomyNode[]): TaxonomyNode[] {
+  const result: TaxonomyNode[] = [];
+  nodes.forEach(node => {
+    result.push(node);
+    result.push(...flatten(node.children));
+  });
+  return result;
+}
+
+const ALL_NODES = flatten(TAXONOMY);
+
+/**
+ * Every node depth-first, parents before children - the order used for select options
+ */
+export function flattenTaxonomy(): TaxonomyNode[] {
+  return [...ALL_NODES];
+}
+
+// Every valid category path, parents before children
+export const ALL_CATEGORIES: string[] = ALL_NODES.map(node => node.path);
+
+// Checked in order - the first matching rule wins, so specific and overriding
+// signals (distress, ratings, fund raises) come before broad lending words
+const INFERENCE_RULES: Array<{ path: string; pattern: RegExp }> = [
+  { path: 'Private Credit > Special Situations', pattern: /\b(distressed|restructuring|bankruptcy|chapter 11|insolven\w*|rescue financing|debt-for-equity)\b/i },
+  { path: 'Credit Ratings', pattern: /\b(rating|ratings|upgrades?|downgrades?|fitch|moody'?s|kbra|dbrs|outlook to)\b/i },
+  { path: 'Private Credit > Asset-Based Finance > CLO / Securitization', pattern: /\b(clo|clos|securiti[sz]ation|asset-backed|abs)\b/i },
+  { path: 'Private Credit > Fund Finance', pattern: /\b(nav (loan|facility|financing)|subscription (line|facility)|gp financing|fund finance)\b/i },
+  { path: 'Fundraising > Fund Close', pattern: /\b(final close|first close|interim close|hard cap|clos(e|es|ed|ing)\b.{0,40}\bfunds?|funds? clos(e|es|ed))\b/i },
+  { path: 'Fundraising > Fund Launch', pattern: /\b(launch(es|ed|ing)?\b.{0,40}\bfunds?|fund launch)\b/i },
+  { path: 'Fundraising', pattern: /\b(fundrais\w*|capital commitments?|rais(es|ed|ing) \S+ for|raises? \S+ (for|in) \w*\s?fund)\b/i },
+  { path: 'Private Credit > Acquisition Financing', pattern: /\b(acquisition financing|lbo financing|buyout financing|financ\w* (the |its )?(acquisition|buyout)|lbo)\b/i },
+  { path: 'Private Credit > Real Estate Credit', pattern: /\b(real estate|property|properties|reit|cre|commercial mortgage)\b/i },
+  { path: 'Private Credit > Infrastructure Credit', pattern: /\b(infrastructure|energy transition|renewables?|data cent(er|re)s?|utilit(y|ies)|fiber|solar|wind farm)\b/i },
+  { path: 'Private Credit > Direct Lending > Unitranche', pattern: /\bunitranche\b/i },
+  { path: 'Private Credit > Direct Lending > Revolving Credit Facility', pattern: /\b(revolv\w*|rcf|working capital facility)\b/i },
+  { path: 'Private Credit > Asset-Based Finance', pattern: /\b(asset-based|abl|equipment financ\w*|receivables|warehouse)\b/i },
+  { path: 'Private Credit > Direct Lending', pattern: /\b(credit facility|term loan|direct lending|financing|refinanc\w*|loan|private credit|debt)\b/i },
+  { path: 'Private Equity > Buyouts', pattern: /\b(acquisition|acquires?|acquired|merger|merges?|buyout|takeover|take-private)\b/i },
+  { path: 'Private Equity > Exits', pattern: /\b(ipo|initial public offering|exit|exits|sells? (its )?stake|listing)\b/i },
+  { path: 'Private Equity > Growth Equity', pattern: /\b(growth equity|growth investment|minority stake|series [a-f])\b/i },
+  { path: 'Private Equity', pattern: /\b(private equity|equity investment|majority stake)\b/i }
+];
+
+/**
+ * Look up a category by full path, leaf name or a pre-taxonomy category value
+ */
+export function findCategory(value?: string | null): TaxonomyNode | null {
+  if (!value) return null;
+  const lower = value.trim().toLowerCase();
+  if (!lower) return null;
+
+  return (
+    ALL_NODES.find(node => node.path.toLowerCase() === lower) ||
+    ALL_NODES.find(node => node.name.toLowerCase() === lower) ||
+    ALL_NODES.find(node => node.legacyNames.some(name => name.toLowerCase() === lower)) ||
+    null
+  );
+}
+
+/**
+ * Rule-based category for a piece of text (usually title + summary)
+ */
+export function inferCategory(text: string): string {
+  const plain = text.replace(/\*\*/g, '');
+  const rule = INFERENCE_RULES.find(r => r.pattern.test(plain));
+  return rule ? rule.path : DEFAULT_CATEGORY;
+}
+
+/**
+ * Map any category value onto a taxonomy path. Unknown or generic values are
+ * inferred from the text when it is given, otherwise they become Market News.
+ */
+export function normalizeCategory(value?: string | null, text?: string): string {
+  const node = findCategory(value);
+  if (node && node.path !== DEFAULT_CATEGORY) return node.path;
+  if (text) return inferCategory(text);
+  return node ? node.path : DEFAULT_CATEGORY;
+}
+
+/**
+ * A category path plus the paths of everything beneath it, for IN filters
+ */
+export function categoryWithDescendants(path: string): string[] {
+  const node = findCategory(path);
+  if (!node) return [path];
+  return flatten([node]).map(n => n.path);
+}
+
+/**
+ * True when a category path equals the given ancestor path or sits beneath it
+ */
+export function isWithinCategory(path: string | null | undefined, ancestor: string): boolean {
+  if (!path) return false;
+  return path === ancestor || path.startsWith(`${ancestor}${CATEGORY_SEPARATOR}`);
+}
+
+/**
+ * Short display name of a category path, e.g. "Unitranche"
+ */
+export function categoryLabel(path?: string | null): string {
+  if (!path) return DEFAULT_CATEGORY;
+  const parts = path.split(CATEGORY_SEPARATOR);
+  return parts[parts.length - 1];
+}
+
+export function topLevelCategory(path?: string | null): string {
+  if (!path) return DEFAULT_CATEGORY;
+  return path.split(CATEGORY_SEPARATOR)[0];
+}
+
+/**
+ * The Perplexity searches to run on every fetch, one per branch that declares a topic
+ */
+export function getSearchTopics(): Array<{ category: string; topic: string }> {
+  return ALL_NODES
+    .filter(node => node.searchTopic)
+    .map(node => ({ category: node.path, topic: node.searchTopic! }));
+}
+
+/**
+ * Category list for LLM prompts, one quoted path per line with its description
+ */
+export function categoryPromptList(indent: string = ''): string {
+  return ALL_NODES
+    .map(node => `${indent}- "${node.path}" - ${node.description}`)
+    .join('\n');
+}
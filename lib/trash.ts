@@ -0,0 +1,29 @@
+import { getDatabase } from './database';
+
+// Soft-deleted deals can be restored for this long before the scheduler purges them
+const DEFAULT_RETENTION_DAYS = 30;
+
+export function getTrashRetentionDays(): number {
+  const value = parseInt(process.env.DEAL_RETENTION_DAYS || '', 10);
+  return isFinite(value) && value > 0 ? value : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * When a deleted deal leaves the trash for good
+ */
+export function purgeDate(deletedAt: string): string {
+  return new Date(new Date(deletedAt).getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Permanently remove deals past the retention period. Never throws, so a purge
+ * problem cannot fail the news run it follows.
+ */
+export async function purgeExpiredDeals(): Promise<number> {
+  try {
+    return await getDatabase().purgeDeletedDeals(getTrashRetentionDays(), { actor: 'scheduler', reason: 'Trash retention expired' });
+  } catch (error) {
+    console.error('❌ Error purging deleted deals:', error);
+    return 0;
+  }
+}
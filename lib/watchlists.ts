@@ -0,0 +1,125 @@
+import type { Deal, Entity, Watchlist } from './supabase';
+import { assertPublicUrl } from './public-host';
+import { findCategory, isWithinCategory } from './taxonomy';
+
+export type WatchlistInput = Omit<Watchlist, 'id' | 'created_at' | 'updated_at'>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_KEYWORDS = 50;
+
+function stringList(value: any): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return Array.from(new Set(
+    items
+      .filter((item: any) => typeof item === 'string')
+      .map((item: string) => item.trim())
+      .filter(Boolean)
+  ));
+}
+
+/**
+ * Validate a watchlist from a request body. With partial, only the fields that
+ * are present are checked and returned (for updates).
+ */
+export function parseWatchlistInput(raw: any, partial: boolean = false): { watchlist: Partial<WatchlistInput>; error: string | null } {
+  const watchlist: Partial<WatchlistInput> = {};
+  const has = (key: string) => !partial || (raw && raw[key] !== undefined);
+
+  if (has('name')) {
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+    if (!name) return { watchlist, error: 'name is required' };
+    watchlist.name = name.substring(0, 120);
+  }
+
+  if (has('owner')) {
+    const owner = typeof raw?.owner === 'string' ? raw.owner.trim().toLowerCase() : '';
+    if (!EMAIL_PATTERN.test(owner)) return { watchlist, error: 'owner must be an email address' };
+    watchlist.owner = owner;
+  }
+
+  if (has('entity_ids')) {
+    watchlist.entity_ids = Array.from(new Set(
+      (Array.isArray(raw?.entity_ids) ? raw.entity_ids : [])
+        .map((id: any) => parseInt(id, 10))
+        .filter((id: number) => id > 0)
+    ));
+  }
+
+  if (has('categories')) {
+    const categories: string[] = [];
+    for (const value of stringList(raw?.categories)) {
+      const node = findCategory(value);
+      if (!node) return { watchlist, error: `Unknown category "${value}"` };
+      if (!categories.includes(node.path)) categories.push(node.path);
+    }
+    watchlist.categories = categories;
+  }
+
+  if (has('keywords')) {
+    const keywords = stringList(raw?.keywords).map(keyword => keyword.toLowerCase());
+    if (keywords.length > MAX_KEYWORDS) return { watchlist, error: `At most ${MAX_KEYWORDS} keywords are allowed` };
+    watchlist.keywords = keywords;
+  }
+
+  if (has('notify_email')) {
+    const email = typeof raw?.notify_email === 'string' ? raw.notify_email.trim() : '';
+    if (email && !EMAIL_PATTERN.test(email)) return { watchlist, error: 'notify_email must be an email address' };
+    watchlist.notify_email = email || null;
+  }
+
+  if (has('notify_webhook')) {
+    const url = typeof raw?.notify_webhook === 'string' ? raw.notify_webhook.trim() : '';
+    if (url && !/^https?:\/\/\S+$/i.test(url)) return { watchlist, error: 'notify_webhook must be an http(s) URL' };
+    try {
+      if (url) assertPublicUrl(url);
+    } catch (error) {
+      return { watchlist, error: 'notify_webhook must be on a public host' };
+    }
+    watchlist.notify_webhook = url || null;
+  }
+
+  if (has('active')) {
+    watchlist.active = raw?.active !== false;
+  }
+
+  if (!partial) {
+    const criteria = (watchlist.entity_ids?.length || 0) + (watchlist.categories?.length || 0) + (watchlist.keywords?.length || 0);
+    if (criteria === 0) return { watchlist, error: 'Add at least one entity, category or keyword' };
+  }
+
+  return { watchlist, error: null };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Why a deal matches a watchlist - empty when it does not. Any single entity,
+ * category or keyword is enough. Entities match directly or through their parent,
+ * so watching a manager also catches deals linked to its funds.
+ */
+export function matchWatchlist(watchlist: Watchlist, deal: Deal, entities: Entity[]): string[] {
+  const reasons: string[] = [];
+
+  for (const entity of entities) {
+    const watched = watchlist.entity_ids.includes(entity.id!) ||
+      (entity.parent_id ? watchlist.entity_ids.includes(entity.parent_id) : false);
+    if (watched) reasons.push(`entity:${entity.canonical_name}`);
+  }
+
+  for (const category of watchlist.categories) {
+    if (isWithinCategory(deal.deal_type, category) || isWithinCategory(deal.category, category)) {
+      reasons.push(`category:${category}`);
+    }
+  }
+
+  const text = `${deal.title} ${deal.summary}`.replace(/\*\*/g, '');
+  for (const keyword of watchlist.keywords) {
+    if (new RegExp(`(^|\\W)${escapeRegExp(keyword)}($|\\W)`, 'i').test(text)) {
+      reasons.push(`keyword:${keyword}`);
+    }
+  }
+
+  return reasons;
+}
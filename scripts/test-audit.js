@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+/**
+ * Round trip through the audit log against the in-memory store: save a deal,
+ * vote on it, delete and purge it, then undo the purge from its audit entry
+ * and check the deal is back. Needs no database or keys.
+ * Run with: npm run test:audit
+ */
+
+async function main() {
+  // Compiled by the test:audit npm script
+  const { setDatabase } = require('../.harness/lib/database.js');
+  const { MemoryDatabase } = require('../.harness/lib/memory-database.js');
+  const { revertDealChange } = require('../.harness/lib/audit.js');
+
+  const store = new MemoryDatabase();
+  const db = store.asDatabase();
+  setDatabase(db);
+
+  const audit = { actor: 'script:test-audit', reason: 'Audit round-trip check' };
+  const title = 'Audit round-trip check';
+
+  try {
+    const dealId = await db.saveDeal({
+      date: '2025-01-15',
+      title,
+      summary: 'Deal written, voted on and purged by scripts/test-audit.js.',
+      content: 'Deal written, voted on and purged by scripts/test-audit.js.',
+      source: 'Audit check'
+    }, audit);
+
+    // Voted deals are the ones a purge used to trip over (votes reference deals)
+    await db.upvoteArticle(dealId, '203.0.113.1');
+    await db.upvoteArticle(dealId, '203.0.113.2');
+
+    await db.deleteDeal(dealId, audit);
+    const purged = await db.purgeDeletedDeals(0, audit, [dealId]);
+    if (purged !== 1) throw new Error(`Expected to purge 1 deal, purged ${purged}`);
+    if (store.getVotes(dealId).length > 0) throw new Error('The purge left the deal\'s votes behind');
+    console.log(`🗑️ Purged deal ${dealId} and its votes`);
+
+    const purge = (await db.getDealHistory(dealId)).find(entry => entry.action === 'purge');
+    if (!purge) throw new Error('The purge left no audit entry');
+
+    const result = await revertDealChange(purge, 'test-audit');
+    if (result.conflicts.length > 0) throw new Error(`Revert refused: ${result.conflicts.join(', ')}`);
+
+    const restored = await db.getDealById(dealId);
+    if (!restored || restored.title !== title || !restored.deleted_at || restored.upvotes !== 2) {
+      throw new Error('The reverted purge did not bring back the deleted deal with its upvotes');
+    }
+    console.log('✅ Purge → revert round trip restored the deal');
+  } catch (error) {
+    console.error('❌ Audit round-trip check failed:', error);
+    process.exitCode = 1;
+  } finally {
+    setDatabase(null);
+  }
+}
+
+main();
@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+
+/**
+ * Record or replay the ingestion pipeline for one date and check which deals
+ * get saved, merged or skipped (see lib/pipeline-harness.ts)
+ * Run with: npm run test:pipeline                      (replays 2025-01-15)
+ *           npm run test:pipeline -- replay 2025-01-15 [--update]
+ *           npm run test:pipeline -- record 2025-01-15
+ */
+require('dotenv').config();
+
+const USAGE = 'Usage: npm run test:pipeline -- [record|replay] [YYYY-MM-DD] [--update]';
+
+// The date with committed fixtures under fixtures/pipeline
+const DEFAULT_DATE = '2025-01-15';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const [mode = 'replay', date = DEFAULT_DATE] = args.filter(arg => arg !== '--update');
+
+  if (!['record', 'replay'].includes(mode) || !/^\d{4}-\d{2}-\d{2}$/.test(date || '')) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  // Compiled by the test:pipeline npm script
+  const { checkPipeline } = require('../.harness/lib/pipeline-harness.js');
+  const { getScheduler } = require('../.harness/lib/scheduler.js');
+
+  try {
+    const check = await checkPipeline(date, mode, update);
+    const { saved, merged, skipped } = check.outcome;
+
+    console.log(`\n📋 ${date} (${mode}): ${saved.length} saved, ${merged.length} merged, ${skipped.length} skipped`);
+    check.differences.forEach(line => console.log(`   ${line}`));
+
+    if (check.written) {
+      console.log(`📝 Wrote fixtures/pipeline/${date}/expected.json`);
+    } else if (check.differences.length > 0) {
+      console.error(`❌ Outcome differs from fixtures/pipeline/${date}/expected.json (accept it with --update)`);
+      process.exitCode = 1;
+    } else {
+      console.log('✅ Outcome matches expected.json');
+    }
+  } catch (error) {
+    console.error('❌ Pipeline harness failed:', error);
+    process.exitCode = 1;
+  } finally {
+    // Importing the scheduler starts its cron job, which would keep the process alive
+    getScheduler().stopScheduler();
+  }
+}
+
+main();
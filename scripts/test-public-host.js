@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+/**
+ * Check the public-host guard (lib/public-host.ts) against the address forms
+ * that reach internal hosts, including IPv4 wrapped in IPv6 literals, and a
+ * few that must stay allowed. Needs no network.
+ * Run with: npm run test:public-host
+ */
+
+// Compiled by the test:public-host npm script
+const { assertPublicUrl, isPublicAddress } = require('../.harness/lib/public-host.js');
+
+const REFUSED = [
+  'http://127.0.0.1/',
+  'http://10.0.0.5/',
+  'http://172.16.0.1/',
+  'http://192.168.1.1/',
+  'http://100.64.0.1/',
+  'http://169.254.169.254/latest/meta-data/',
+  'http://0.0.0.0/',
+  'http://2130706433/',                      // 127.0.0.1 as one number
+  'http://0x7f.1/',                          // 127.0.0.1 in hex shorthand
+  'http://[::1]/',
+  'http://[::]/',
+  'http://[::ffff:169.254.169.254]/',        // URL turns this into [::ffff:a9fe:a9fe]
+  'http://[::ffff:a9fe:a9fe]/',
+  'http://[::ffff:7f00:1]/',
+  'http://[0:0:0:0:0:ffff:127.0.0.1]/',
+  'http://[::127.0.0.1]/',                   // IPv4-compatible
+  'http://[::a9fe:a9fe]/',
+  'http://[64:ff9b::169.254.169.254]/',      // NAT64
+  'http://[64:ff9b::7f00:1]/',
+  'http://[64:ff9b:1::a00:1]/',              // local-use NAT64
+  'http://[2002:a9fe:a9fe::]/',              // 6to4
+  'http://[fd00::1]/',
+  'http://[fe80::1]/',
+  'http://[ff02::1]/',
+  'file:///etc/passwd'
+];
+
+const PUBLIC = ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8', '64:ff9b::808:808', '2002:808:808::1'];
+
+const failures = [];
+
+REFUSED.forEach(url => {
+  try {
+    assertPublicUrl(url);
+    failures.push(`allowed ${url}`);
+  } catch (error) {
+    // refused, as it should be
+  }
+});
+
+PUBLIC.forEach(address => {
+  if (!isPublicAddress(address)) failures.push(`refused ${address}`);
+});
+
+if (failures.length > 0) {
+  failures.forEach(failure => console.error(`❌ ${failure}`));
+  process.exitCode = 1;
+} else {
+  console.log(`✅ Refused ${REFUSED.length} internal URLs and allowed ${PUBLIC.length} public addresses`);
+}
@@ -15,7 +15,7 @@ CREATE TABLE IF NOT EXISTS deals (
 -- Create votes table
 CREATE TABLE IF NOT EXISTS votes (
   id BIGSERIAL PRIMARY KEY,
-  article_id BIGINT NOT NULL REFERENCES deals(id),
+  article_id BIGINT NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
   user_ip TEXT NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(article_id, user_ip)
@@ -60,4 +60,561 @@ CREATE POLICY "Public votes are viewable by everyone" ON votes
   FOR SELECT USING (true);
 
 CREATE POLICY "Anyone can insert votes" ON votes
-  FOR INSERT WITH CHECK (true); 
\ No newline at end of file
+  FOR INSERT WITH CHECK (true); 
+
+-- Structured deal terms extracted at ingest time (one row per deal)
+CREATE TABLE IF NOT EXISTS deal_terms (
+  id BIGSERIAL PRIMARY KEY,
+  deal_id BIGINT NOT NULL UNIQUE REFERENCES deals(id) ON DELETE CASCADE,
+  parties JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ "name": "Apollo", "role": "lender" }, ...]
+  amount NUMERIC,                             -- normalized to units of currency
+  currency TEXT,                              -- ISO 4217 code
+  instrument_type TEXT,
+  tenor TEXT,
+  pricing TEXT,
+  use_of_proceeds TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_terms_amount ON deal_terms(amount DESC NULLS LAST);
+CREATE INDEX IF NOT EXISTS idx_deal_terms_currency ON deal_terms(currency);
+CREATE INDEX IF NOT EXISTS idx_deal_terms_parties ON deal_terms USING GIN (parties jsonb_path_ops);
+
+ALTER TABLE deal_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public deal terms are viewable by everyone" ON deal_terms
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can insert deal terms" ON deal_terms
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Anyone can update deal terms" ON deal_terms
+  FOR UPDATE USING (true);
+
+-- Append-only history of every change to a deal. No foreign key, so a deleted
+-- deal keeps its history (and the full row needed to restore it).
+CREATE TABLE IF NOT EXISTS deal_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  deal_id BIGINT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore', 'purge')),
+  before JSONB,                               -- changed columns (update) or the whole row (delete)
+  after JSONB,                                -- changed columns (update) or the whole row (create)
+  actor TEXT NOT NULL,                        -- e.g. scheduler, route:fix-all-dates, editor:alex
+  reason TEXT,
+  reverts_id BIGINT REFERENCES deal_audit_log(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tables created before restores and purges were logged only allow the first three actions
+ALTER TABLE deal_audit_log DROP CONSTRAINT IF EXISTS deal_audit_log_action_check;
+ALTER TABLE deal_audit_log ADD CONSTRAINT deal_audit_log_action_check
+  CHECK (action IN ('create', 'update', 'delete', 'restore', 'purge'));
+
+CREATE INDEX IF NOT EXISTS idx_deal_audit_log_deal ON deal_audit_log(deal_id, id DESC);
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'deal_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS deal_audit_log_append_only ON deal_audit_log;
+CREATE TRIGGER deal_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON deal_audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+ALTER TABLE deal_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deal history is viewable by everyone" ON deal_audit_log
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can append deal history" ON deal_audit_log
+  FOR INSERT WITH CHECK (true);
+
+-- How each deal was produced: source, query, raw section, extractor and per-field confidence
+CREATE TABLE IF NOT EXISTS deal_provenance (
+  id BIGSERIAL PRIMARY KEY,
+  deal_id BIGINT NOT NULL UNIQUE REFERENCES deals(id) ON DELETE CASCADE,
+  source_id TEXT,
+  source_kind TEXT,
+  query TEXT,
+  section_label TEXT,
+  raw_section TEXT,
+  item_url TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  extractor TEXT NOT NULL,                    -- model, rules, structured or manual
+  model TEXT,
+  prompt_version TEXT,
+  field_confidence JSONB NOT NULL DEFAULT '{}'::jsonb, -- { "amount": 0.9, "parties": 0.6, "date": 0.5, "url": 1 }
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE deal_provenance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public deal provenance is viewable by everyone" ON deal_provenance
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can insert deal provenance" ON deal_provenance
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Anyone can update deal provenance" ON deal_provenance
+  FOR UPDATE USING (true);
+
+-- Other articles reporting a canonical deal. Duplicates are merged into the best
+-- deal of their cluster instead of being dropped; restoring one removes its row.
+CREATE TABLE IF NOT EXISTS deal_sources (
+  id BIGSERIAL PRIMARY KEY,
+  deal_id BIGINT NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  merged_deal_id BIGINT NOT NULL,             -- no FK: survives the merged row being purged
+  title TEXT NOT NULL,
+  source TEXT NOT NULL,
+  source_url TEXT,
+  upvotes INTEGER NOT NULL DEFAULT 0,         -- folded into the canonical deal's upvotes
+  first_seen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_sources_deal ON deal_sources(deal_id);
+CREATE INDEX IF NOT EXISTS idx_deal_sources_merged_deal ON deal_sources(merged_deal_id);
+
+ALTER TABLE deal_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deal sources are viewable by everyone" ON deal_sources
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can insert deal sources" ON deal_sources
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Anyone can update deal sources" ON deal_sources
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Anyone can delete deal sources" ON deal_sources
+  FOR DELETE USING (true);
+
+-- One embedding per deal for near-duplicate lookups (lib/embeddings.ts). Both the
+-- OpenAI and the local hashing embedder produce 256 dimensions; model records which
+-- one wrote the row, and switching models re-embeds deals as they are touched.
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS deal_embeddings (
+  deal_id BIGINT PRIMARY KEY REFERENCES deals(id) ON DELETE CASCADE,
+  model TEXT NOT NULL,
+  embedding vector(256) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_embeddings_hnsw ON deal_embeddings
+  USING hnsw (embedding vector_cosine_ops);
+
+ALTER TABLE deal_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deal embeddings are viewable by everyone" ON deal_embeddings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can insert deal embeddings" ON deal_embeddings
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Anyone can update deal embeddings" ON deal_embeddings
+  FOR UPDATE USING (true);
+
+-- Nearest deals by cosine similarity, deleted deals excluded
+CREATE OR REPLACE FUNCTION match_deal_embeddings(
+  query_embedding vector(256),
+  match_model TEXT,
+  match_count INTEGER DEFAULT 10,
+  min_similarity REAL DEFAULT 0,
+  exclude_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (deal_id BIGINT, similarity REAL) AS $$
+  SELECT e.deal_id, (1 - (e.embedding <=> query_embedding))::REAL AS similarity
+  FROM deal_embeddings e
+  JOIN deals d ON d.id = e.deal_id
+  WHERE e.model = match_model
+    AND d.deleted_at IS NULL
+    AND (exclude_id IS NULL OR e.deal_id <> exclude_id)
+    AND 1 - (e.embedding <=> query_embedding) >= min_similarity
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+-- Registry of managers, funds, borrowers and sponsors
+CREATE TABLE IF NOT EXISTS entities (
+  id BIGSERIAL PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  canonical_name TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'other', -- 'manager', 'fund', 'borrower', 'sponsor', 'lender', 'other'
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  tickers TEXT[] NOT NULL DEFAULT '{}',
+  parent_id BIGINT REFERENCES entities(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Which entities each deal involves, and in what role
+CREATE TABLE IF NOT EXISTS deal_entities (
+  deal_id BIGINT NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  entity_id BIGINT NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'mentioned',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (deal_id, entity_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(type);
+CREATE INDEX IF NOT EXISTS idx_entities_aliases ON entities USING GIN (aliases);
+CREATE INDEX IF NOT EXISTS idx_deal_entities_entity ON deal_entities(entity_id);
+
+ALTER TABLE entities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deal_entities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public entities are viewable by everyone" ON entities
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can insert entities" ON entities
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Anyone can update entities" ON entities
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Public deal entities are viewable by everyone" ON deal_entities
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can insert deal entities" ON deal_entities
+  FOR INSERT WITH CHECK (true);
+
+-- Analyst watchlists: entities, sectors and keywords to be alerted about
+CREATE TABLE IF NOT EXISTS watchlists (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  owner TEXT NOT NULL,                        -- analyst's email, lower-cased
+  entity_ids BIGINT[] NOT NULL DEFAULT '{}',
+  categories TEXT[] NOT NULL DEFAULT '{}',    -- taxonomy paths
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+  notify_email TEXT,
+  notify_webhook TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One alert per watchlist and deal, with why it matched and how delivery went
+CREATE TABLE IF NOT EXISTS watchlist_alerts (
+  id BIGSERIAL PRIMARY KEY,
+  watchlist_id BIGINT NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+  deal_id BIGINT NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  delivery_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (watchlist_id, deal_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlists_owner ON watchlists(owner);
+CREATE INDEX IF NOT EXISTS idx_watchlists_active ON watchlists(active) WHERE active;
+CREATE INDEX IF NOT EXISTS idx_watchlist_alerts_watchlist ON watchlist_alerts(watchlist_id, created_at DESC);
+
+ALTER TABLE watchlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE watchlist_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public watchlists are viewable by everyone" ON watchlists
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can insert watchlists" ON watchlists
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Anyone can update watchlists" ON watchlists
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Anyone can delete watchlists" ON watchlists
+  FOR DELETE USING (true);
+
+CREATE POLICY "Public watchlist alerts are viewable by everyone" ON watchlist_alerts
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can insert watchlist alerts" ON watchlist_alerts
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Anyone can update watchlist alerts" ON watchlist_alerts
+  FOR UPDATE USING (true);
+
+-- 'manual' deals were submitted by an editor through /api/deals/submit
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS provenance TEXT NOT NULL DEFAULT 'ingest';
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS submitted_by TEXT;
+
+-- Editorial workflow: draft / pending_review / published / rejected. Only published
+-- deals are public; low-confidence extractions wait in the review queue.
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published';
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS confidence REAL;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS review_reasons TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS reviewed_by TEXT;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_deals_status ON deals(status, created_at DESC);
+
+-- Soft delete: deleted deals stay in the trash (restorable, merged_into points at the
+-- surviving duplicate) until the scheduler purges them after DEAL_RETENTION_DAYS
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS deleted_reason TEXT;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS merged_into BIGINT REFERENCES deals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deals_deleted_at ON deals(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Purging a deal takes its votes with it (its upvotes count is kept in the logged row);
+-- votes tables created before the purge only had a plain reference
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_article_id_fkey;
+ALTER TABLE votes ADD CONSTRAINT votes_article_id_fkey
+  FOREIGN KEY (article_id) REFERENCES deals(id) ON DELETE CASCADE;
+
+-- RSS/Atom feeds registered through /api/news-feeds, polled alongside lib/news-source-config.ts
+CREATE TABLE IF NOT EXISTS news_feeds (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL UNIQUE,
+  category TEXT,                              -- extraction hint, e.g. a taxonomy path
+  keywords TEXT[] NOT NULL DEFAULT '{}',      -- empty means every entry is ingested
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Conditional-GET validators and already-ingested GUIDs per feed source id
+CREATE TABLE IF NOT EXISTS feed_state (
+  source_id TEXT PRIMARY KEY,                 -- 'business-wire', 'feed-12', ...
+  url TEXT NOT NULL,
+  etag TEXT,
+  last_modified TEXT,
+  seen_guids TEXT[] NOT NULL DEFAULT '{}',
+  last_polled_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE news_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feed_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public news feeds are viewable by everyone" ON news_feeds
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can insert news feeds" ON news_feeds
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Anyone can update news feeds" ON news_feeds
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Anyone can delete news feeds" ON news_feeds
+  FOR DELETE USING (true);
+
+CREATE POLICY "Public feed state is viewable by everyone" ON feed_state
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can insert feed state" ON feed_state
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Anyone can update feed state" ON feed_state
+  FOR UPDATE USING (true);
+
+-- Full-text search over title, summary, source and content
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(summary, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(source, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'D')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_deals_search_vector ON deals USING GIN (search_vector);
+
+-- Region, countries and deal type are classified once at ingest (see lib/classification.ts)
+-- and backfilled for older rows through POST /api/deals/classify
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS region TEXT;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS countries TEXT[] DEFAULT '{}';
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS deal_type TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_deals_region ON deals(region);
+CREATE INDEX IF NOT EXISTS idx_deals_deal_type ON deals(deal_type);
+CREATE INDEX IF NOT EXISTS idx_deals_countries ON deals USING GIN (countries);
+
+-- Superseded by the stored region column
+DROP FUNCTION IF EXISTS infer_deal_region(TEXT, TEXT);
+
+-- category and deal_type hold taxonomy paths such as 'Private Credit > Direct Lending'
+-- (see lib/taxonomy.ts); filtering on a path also matches everything beneath it.
+-- Existing values are mapped with POST /api/taxonomy { "action": "migrate", "dryRun": false }
+CREATE OR REPLACE FUNCTION category_within(path TEXT, ancestor TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT path = ancestor OR path LIKE ancestor || ' > %';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Text escaped for HTML, so the only markup ts_headline output carries is its own <mark> tags
+CREATE OR REPLACE FUNCTION html_escape(value TEXT)
+RETURNS TEXT AS $$
+  SELECT replace(replace(replace(replace(value, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked, highlighted, keyset-paginated search; title_highlight and snippet are
+-- HTML-escaped with <mark> around matches, safe to render as HTML
+DROP FUNCTION IF EXISTS search_deals(TEXT, TEXT, TEXT, TEXT, REAL, BIGINT, INTEGER);
+CREATE OR REPLACE FUNCTION search_deals(
+  q TEXT,
+  filter_category TEXT DEFAULT NULL,
+  filter_region TEXT DEFAULT NULL,
+  filter_month TEXT DEFAULT NULL,      -- 'YYYY-MM'
+  cursor_rank REAL DEFAULT NULL,
+  cursor_id BIGINT DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id BIGINT,
+  date TEXT,
+  title TEXT,
+  summary TEXT,
+  source TEXT,
+  source_url TEXT,
+  category TEXT,
+  region TEXT,
+  deal_type TEXT,
+  upvotes INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', q) AS tsq
+  ),
+  hits AS (
+    SELECT d.*, ts_rank_cd(d.search_vector, query.tsq) AS rank
+    FROM deals d, query
+    WHERE d.search_vector @@ query.tsq
+      AND d.status = 'published'
+      AND d.deleted_at IS NULL
+      AND (filter_category IS NULL OR category_within(d.category, filter_category))
+      AND (filter_region IS NULL OR d.region = filter_region)
+      AND (filter_month IS NULL OR substring(d.date, 1, 7) = filter_month)
+  )
+  SELECT
+    h.id, h.date, h.title, h.summary, h.source, h.source_url, h.category, h.region, h.deal_type, h.upvotes, h.created_at, h.rank,
+    ts_headline('english', html_escape(replace(h.title, '**', '')), query.tsq,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    ts_headline('english', html_escape(replace(h.summary || ' ' || h.content, '**', '')), query.tsq,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "')
+  FROM hits h, query
+  WHERE cursor_rank IS NULL
+     OR h.rank < cursor_rank
+     OR (h.rank = cursor_rank AND h.id < cursor_id)
+  ORDER BY h.rank DESC, h.id DESC
+  LIMIT page_size;
+$$ LANGUAGE sql STABLE;
+
+-- Facet counts for a search; each facet ignores its own filter so the UI can offer alternatives
+CREATE OR REPLACE FUNCTION search_deal_facets(
+  q TEXT,
+  filter_category TEXT DEFAULT NULL,
+  filter_region TEXT DEFAULT NULL,
+  filter_month TEXT DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, value TEXT, count BIGINT) AS $$
+  WITH hits AS (
+    SELECT d.category, d.region, substring(d.date, 1, 7) AS month
+    FROM deals d
+    WHERE d.search_vector @@ websearch_to_tsquery('english', q)
+      AND d.status = 'published'
+      AND d.deleted_at IS NULL
+  )
+  SELECT 'category', coalesce(category, 'Market News'), count(*) FROM hits
+    WHERE (filter_region IS NULL OR region = filter_region)
+      AND (filter_month IS NULL OR month = filter_month)
+    GROUP BY 2
+  UNION ALL
+  SELECT 'region', region, count(*) FROM hits
+    WHERE region IS NOT NULL
+      AND (filter_category IS NULL OR category_within(category, filter_category))
+      AND (filter_month IS NULL OR month = filter_month)
+    GROUP BY 2
+  UNION ALL
+  SELECT 'month', month, count(*) FROM hits
+    WHERE (filter_category IS NULL OR category_within(category, filter_category))
+      AND (filter_region IS NULL OR region = filter_region)
+    GROUP BY 2
+  UNION ALL
+  SELECT 'total', 'all', count(*) FROM hits
+    WHERE (filter_category IS NULL OR category_within(category, filter_category))
+      AND (filter_region IS NULL OR region = filter_region)
+      AND (filter_month IS NULL OR month = filter_month);
+$$ LANGUAGE sql STABLE;
+
+-- Keyset pagination indexes for the deals listing
+CREATE INDEX IF NOT EXISTS idx_deals_date_id ON deals(date DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_deals_upvotes_id ON deals(upvotes DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_deals_created_at_id ON deals(created_at DESC, id DESC);
+
+-- Lower-cased host of a source URL without "www.", e.g. 'reuters.com'
+CREATE OR REPLACE FUNCTION deal_source_domain(url TEXT)
+RETURNS TEXT AS $$
+  SELECT lower(substring(url from '^https?://(?:www\.)?([^/:?#]+)'));
+$$ LANGUAGE sql IMMUTABLE;
+
+DROP FUNCTION IF EXISTS filter_deals(TEXT, TEXT, TEXT, TEXT, TEXT, NUMERIC);
+CREATE OR REPLACE FUNCTION filter_deals(
+  filter_from TEXT DEFAULT NULL,           -- 'YYYY-MM-DD', inclusive
+  filter_to TEXT DEFAULT NULL,             -- 'YYYY-MM-DD', inclusive
+  filter_category TEXT DEFAULT NULL,
+  filter_region TEXT DEFAULT NULL,
+  filter_deal_type TEXT DEFAULT NULL,
+  filter_domain TEXT DEFAULT NULL,
+  filter_min_amount NUMERIC DEFAULT NULL
+)
+RETURNS SETOF deals AS $$
+  SELECT d.*
+  FROM deals d
+  WHERE d.status = 'published'
+    AND d.deleted_at IS NULL
+    AND (filter_from IS NULL OR d.date >= filter_from)
+    AND (filter_to IS NULL OR d.date <= filter_to)
+    AND (filter_category IS NULL OR category_within(d.category, filter_category))
+    AND (filter_region IS NULL OR d.region = filter_region)
+    AND (filter_deal_type IS NULL OR category_within(d.deal_type, filter_deal_type))
+    AND (filter_domain IS NULL
+         OR deal_source_domain(d.source_url) = lower(filter_domain)
+         OR deal_source_domain(d.source_url) LIKE '%.' || lower(filter_domain))
+    AND (filter_min_amount IS NULL
+         OR EXISTS (SELECT 1 FROM deal_terms t WHERE t.deal_id = d.id AND t.amount >= filter_min_amount));
+$$ LANGUAGE sql STABLE;
+
+-- Keyset-paginated listing; cursor_value is the previous page's last sort value
+DROP FUNCTION IF EXISTS list_deals(TEXT, TEXT, BIGINT, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, NUMERIC);
+CREATE OR REPLACE FUNCTION list_deals(
+  sort_by TEXT DEFAULT 'date',             -- 'date', 'upvotes' or 'created_at'
+  cursor_value TEXT DEFAULT NULL,
+  cursor_id BIGINT DEFAULT NULL,
+  page_size INTEGER DEFAULT 20,
+  filter_from TEXT DEFAULT NULL,
+  filter_to TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_region TEXT DEFAULT NULL,
+  filter_deal_type TEXT DEFAULT NULL,
+  filter_domain TEXT DEFAULT NULL,
+  filter_min_amount NUMERIC DEFAULT NULL
+)
+RETURNS SETOF deals AS $$
+BEGIN
+  IF sort_by = 'upvotes' THEN
+    RETURN QUERY
+      SELECT * FROM filter_deals(filter_from, filter_to, filter_category, filter_region, filter_deal_type, filter_domain, filter_min_amount) d
+      WHERE cursor_value IS NULL OR (d.upvotes, d.id) < (cursor_value::INTEGER, cursor_id)
+      ORDER BY d.upvotes DESC, d.id DESC
+      LIMIT page_size;
+  ELSIF sort_by = 'created_at' THEN
+    RETURN QUERY
+      SELECT * FROM filter_deals(filter_from, filter_to, filter_category, filter_region, filter_deal_type, filter_domain, filter_min_amount) d
+      WHERE cursor_value IS NULL OR (d.created_at, d.id) < (cursor_value::TIMESTAMP WITH TIME ZONE, cursor_id)
+      ORDER BY d.created_at DESC, d.id DESC
+      LIMIT page_size;
+  ELSE
+    RETURN QUERY
+      SELECT * FROM filter_deals(filter_from, filter_to, filter_category, filter_region, filter_deal_type, filter_domain, filter_min_amount) d
+      WHERE cursor_value IS NULL OR (d.date, d.id) < (cursor_value, cursor_id)
+      ORDER BY d.date DESC, d.id DESC
+      LIMIT page_size;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;